@@ -181,19 +181,6 @@ export default function DevicesScreen() {
       return;
     }
 
-    // Special check for Google Fit configuration
-    if (deviceType === "GOOGLE_FIT") {
-      const clientSecret = process.env.EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET;
-      if (!clientSecret) {
-        Alert.alert(
-          "Configuration Required",
-          "Google Fit client secret is not configured. Please add EXPO_PUBLIC_GOOGLE_FIT_CLIENT_SECRET to your environment variables and restart the app.",
-          [{ text: "OK" }]
-        );
-        return;
-      }
-    }
-
     console.log("✅ About to show connection alert for:", deviceInfo.name);
 
     Alert.alert(
@@ -48,6 +48,14 @@ import { router } from "expo-router";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
+type PortionUnit = "g" | "serving" | "package";
+
+const PORTION_UNIT_LABELS: Record<PortionUnit, string> = {
+  g: "Grams",
+  serving: "Servings",
+  package: "Packages",
+};
+
 interface ScannedProduct {
   product: {
     name: string;
@@ -67,6 +75,8 @@ interface ScannedProduct {
     labels: string[];
     health_score?: number;
     barcode?: string;
+    serving_size?: string;
+    servings_per_container?: number;
   };
   user_analysis: {
     compatibility_score: number;
@@ -82,6 +92,12 @@ interface ScannedProduct {
   };
 }
 
+interface MealTrayItem {
+  productData: ScannedProduct["product"];
+  quantity: number;
+  unit: PortionUnit;
+}
+
 interface Ingredient {
   name: string;
   quantity: number;
@@ -111,6 +127,8 @@ export default function FoodScannerScreen() {
     category: "",
   });
   const [quantity, setQuantity] = useState("100");
+  const [quantityUnit, setQuantityUnit] = useState<PortionUnit>("g");
+  const [mealTray, setMealTray] = useState<MealTrayItem[]>([]);
   const [mealTiming, setMealTiming] = useState("SNACK");
   const [isAddingToMeal, setIsAddingToMeal] = useState(false);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
@@ -284,15 +302,50 @@ export default function FoodScannerScreen() {
     setIngredients(ingredients.filter((_, i) => i !== index));
   };
 
+  const getAvailableUnits = (product?: ScannedProduct["product"]) => {
+    const units: PortionUnit[] = ["g"];
+    if (product?.serving_size) units.push("serving");
+    if (product?.serving_size && product?.servings_per_container) {
+      units.push("package");
+    }
+    return units;
+  };
+
+  const openAddToMealModal = () => {
+    setQuantity("100");
+    setQuantityUnit("g");
+    setShowAddModal(true);
+  };
+
+  const currentTrayItem = (): MealTrayItem | null => {
+    if (!scannedProduct) return null;
+    return {
+      productData: scannedProduct.product,
+      quantity: parseFloat(quantity),
+      unit: quantityUnit,
+    };
+  };
+
+  // Keeps the product for a combined meal and goes back to scanning
+  const handleAddToTray = () => {
+    const item = currentTrayItem();
+    if (!item || !(item.quantity > 0)) return;
+
+    setMealTray([...mealTray, item]);
+    setShowAddModal(false);
+    setScannedProduct(null);
+  };
+
   const handleAddToMeal = async () => {
-    if (!scannedProduct) return;
+    const current = currentTrayItem();
+    const items = current ? [...mealTray, current] : mealTray;
+    if (items.length === 0) return;
 
     try {
       setIsAddingToMeal(true);
 
       const response = await api.post("/food-scanner/add-to-meal", {
-        productData: scannedProduct.product,
-        quantity: parseFloat(quantity),
+        items,
         mealTiming,
       });
 
@@ -306,6 +359,7 @@ export default function FoodScannerScreen() {
         ]);
         setShowAddModal(false);
         setScannedProduct(null);
+        setMealTray([]);
         loadScanHistory();
       }
     } catch (error) {
@@ -650,7 +704,7 @@ export default function FoodScannerScreen() {
               styles.primaryButton,
               { backgroundColor: colors.emerald500 },
             ]}
-            onPress={() => setShowAddModal(true)}
+            onPress={openAddToMealModal}
           >
             <Plus size={16} color="#ffffff" />
             <Text style={styles.primaryButtonText}>Add to Meal</Text>
@@ -682,10 +736,49 @@ export default function FoodScannerScreen() {
           </View>
 
           <ScrollView style={styles.modalContent}>
+            {mealTray.length > 0 && (
+              <Text
+                style={[styles.inputLabel, { color: colors.textSecondary }]}
+              >
+                {mealTray.length} other product(s) will be logged in the same
+                meal
+              </Text>
+            )}
+
             <View style={styles.inputGroup}>
               <Text style={[styles.inputLabel, { color: colors.text }]}>
-                Quantity (grams)
+                Quantity
               </Text>
+              <View style={[styles.mealTimingOptions, { marginBottom: 8 }]}>
+                {getAvailableUnits(scannedProduct?.product).map((unit) => (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[
+                      styles.timingOption,
+                      quantityUnit === unit && {
+                        backgroundColor: colors.emerald500,
+                      },
+                      { borderColor: colors.border },
+                    ]}
+                    onPress={() => {
+                      setQuantityUnit(unit);
+                      setQuantity(unit === "g" ? "100" : "1");
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.timingOptionText,
+                        {
+                          color:
+                            quantityUnit === unit ? "#ffffff" : colors.text,
+                        },
+                      ]}
+                    >
+                      {PORTION_UNIT_LABELS[unit]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
               <TextInput
                 style={[
                   styles.input,
@@ -698,9 +791,17 @@ export default function FoodScannerScreen() {
                 value={quantity}
                 onChangeText={setQuantity}
                 keyboardType="numeric"
-                placeholder="100"
+                placeholder={quantityUnit === "g" ? "100" : "1"}
                 placeholderTextColor={colors.textSecondary}
               />
+              {quantityUnit === "serving" &&
+                scannedProduct?.product.serving_size && (
+                  <Text
+                    style={[styles.inputLabel, { color: colors.textSecondary }]}
+                  >
+                    1 serving = {scannedProduct.product.serving_size}
+                  </Text>
+                )}
             </View>
 
             <View style={styles.inputGroup}>
@@ -754,6 +855,26 @@ export default function FoodScannerScreen() {
                 </>
               )}
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.addButton,
+                {
+                  backgroundColor: colors.surface,
+                  borderColor: colors.border,
+                  borderWidth: 1,
+                },
+              ]}
+              onPress={handleAddToTray}
+              disabled={isAddingToMeal}
+            >
+              <Plus size={20} color={colors.emerald500} />
+              <Text
+                style={[styles.addButtonText, { color: colors.emerald500 }]}
+              >
+                Add & Scan Another
+              </Text>
+            </TouchableOpacity>
           </ScrollView>
         </View>
       </BlurView>
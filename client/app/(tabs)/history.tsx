@@ -57,10 +57,13 @@ import {
   Calendar,
   Award,
   Activity,
+  ChefHat,
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import Swipeable from "react-native-gesture-handler/Swipeable";
+import { useRouter } from "expo-router";
+import { MealTiming } from "@/src/types";
 
 const { width } = Dimensions.get("window");
 
@@ -88,6 +91,15 @@ const DATE_RANGES = [
   { key: "month", label: "This Month", icon: Calendar },
 ];
 
+const MEAL_TIMINGS: MealTiming[] = [
+  "BREAKFAST",
+  "MORNING_SNACK",
+  "LUNCH",
+  "AFTERNOON_SNACK",
+  "DINNER",
+  "SNACK",
+];
+
 const NUTRITION_ICONS = {
   calories: { icon: Flame, name: "Calories", color: "#f59e0b", unit: "kcal" },
   protein: { icon: Dumbbell, name: "Protein", color: "#3b82f6", unit: "g" },
@@ -108,6 +120,7 @@ const SwipeableMealCard = ({
   isDark,
 }: any) => {
   const dispatch = useDispatch<AppDispatch>();
+  const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
   const [savingRatings, setSavingRatings] = useState(false);
   const [ratings, setRatings] = useState({
@@ -330,6 +343,14 @@ const SwipeableMealCard = ({
                   </Text>
                 </View>
 
+                {meal.meal_timing && (
+                  <View style={styles.metaItem}>
+                    <Text style={[styles.metaText, { color: colors.icon }]}>
+                      {t(`history.meal_types.${meal.meal_timing}`)}
+                    </Text>
+                  </View>
+                )}
+
                 {(meal.taste_rating || 0) > 0 && (
                   <View style={styles.metaItem}>
                     <Star size={12} color="#fbbf24" fill="#fbbf24" />
@@ -685,6 +706,7 @@ export default function HistoryScreen() {
   const dispatch = useDispatch<AppDispatch>();
   const { meals, isLoading } = useSelector((state: RootState) => state.meal);
   const { colors, isDark } = useTheme();
+  const router = useRouter();
 
   const [searchQuery, setSearchQuery] = useState("");
   const [showFilters, setShowFilters] = useState(false);
@@ -890,12 +912,35 @@ export default function HistoryScreen() {
           ) / ratedMeals.length
         : 0;
 
+    const byMealType = MEAL_TIMINGS.map((timing) => {
+      const typeMeals = filteredMeals.filter(
+        (meal: any) => meal.meal_timing === timing
+      );
+      const sum = (field: string) =>
+        Math.round(
+          typeMeals.reduce(
+            (total: number, meal: any) => total + (meal[field] || 0),
+            0
+          )
+        );
+
+      return {
+        timing,
+        count: typeMeals.length,
+        calories: sum("calories"),
+        protein: sum("protein_g"),
+        carbs: sum("carbs_g"),
+        fat: sum("fats_g"),
+      };
+    }).filter((entry) => entry.count > 0);
+
     return {
       totalMeals: filteredMeals.length,
       avgCalories,
       favoriteMeals: favoriteMeals.length,
       avgRating: Math.round(avgRating * 10) / 10,
       totalCalories,
+      byMealType,
     };
   }, [filteredMeals]);
 
@@ -1048,6 +1093,36 @@ export default function HistoryScreen() {
                 </Text>
               </View>
             </View>
+
+            {item.data.byMealType.length > 0 && (
+              <View style={styles.mealTypeSection}>
+                <Text
+                  style={[
+                    styles.mealTypeTitle,
+                    { color: colors.text, textAlign: isRTL ? "right" : "left" },
+                  ]}
+                >
+                  {t("history.by_meal_type")}
+                </Text>
+                {item.data.byMealType.map((entry: any) => (
+                  <View
+                    key={entry.timing}
+                    style={[
+                      styles.mealTypeRow,
+                      { flexDirection: isRTL ? "row-reverse" : "row" },
+                    ]}
+                  >
+                    <Text style={[styles.mealTypeName, { color: colors.text }]}>
+                      {t(`history.meal_types.${entry.timing}`)} ({entry.count})
+                    </Text>
+                    <Text style={[styles.mealTypeValues, { color: colors.icon }]}>
+                      {entry.calories} kcal · P {entry.protein}g · C{" "}
+                      {entry.carbs}g · F {entry.fat}g
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </LinearGradient>
         </View>
       );
@@ -1084,12 +1159,25 @@ export default function HistoryScreen() {
               {t("history.title") || "History"}
             </Text>
 
-            <ExpandableSearch
-              searchQuery={searchQuery}
-              setSearchQuery={setSearchQuery}
-              colors={colors}
-              onFilterPress={() => setShowFilters(true)}
-            />
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={[
+                  styles.recipesButton,
+                  { backgroundColor: colors.emerald500 + "15" },
+                ]}
+                onPress={() => router.push("/recipes")}
+                accessibilityLabel={t("recipes.title")}
+              >
+                <ChefHat size={20} color={colors.emerald500} />
+              </TouchableOpacity>
+
+              <ExpandableSearch
+                searchQuery={searchQuery}
+                setSearchQuery={setSearchQuery}
+                colors={colors}
+                onFilterPress={() => setShowFilters(true)}
+              />
+            </View>
           </View>
         </View>
 
@@ -1442,6 +1530,20 @@ const styles = StyleSheet.create({
     letterSpacing: -0.3,
   },
 
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+
+  recipesButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
   // Expandable Search Styles
   searchRow: {
     flexDirection: "row",
@@ -1614,6 +1716,30 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
 
+  mealTypeSection: {
+    marginTop: 16,
+    gap: 8,
+  },
+
+  mealTypeTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+
+  mealTypeRow: {
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+
+  mealTypeName: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+
+  mealTypeValues: {
+    fontSize: 12,
+  },
+
   // Enhanced Meal Card
   enhancedMealCard: {
     borderRadius: 20,
@@ -42,6 +42,7 @@ import {
   ArrowRight,
   Flame,
   Activity,
+  ShoppingCart,
 } from "lucide-react-native";
 import { api, mealAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
@@ -89,8 +90,41 @@ interface RecommendedMenu {
       estimated_cost?: number;
     }>;
   }>;
+  // Only returned when a menu is generated
+  dietary_warnings?: DietaryWarning[];
 }
 
+// An allergen, kosher, gluten or lactose problem the server found in a meal
+interface DietaryWarning {
+  rule: "allergen" | "kosher" | "gluten" | "lactose";
+  code: string;
+  severity: "high" | "medium" | "low";
+  message: string;
+  message_he: string;
+  items: string[];
+  meal?: { name: string; meal_type?: string; day_number?: number };
+}
+
+const describeDietaryWarnings = (
+  warnings: DietaryWarning[] | undefined,
+  language: string
+) => {
+  if (!warnings || warnings.length === 0) return "";
+
+  const lines = warnings.map((warning) => {
+    const message = language === "he" ? warning.message_he : warning.message;
+    return warning.meal ? `• ${warning.meal.name}: ${message}` : `• ${message}`;
+  });
+  return (
+    "\n\n" +
+    (language === "he"
+      ? "שימו לב להתאמה התזונתית:"
+      : "Check these dietary concerns:") +
+    "\n" +
+    lines.join("\n")
+  );
+};
+
 // Expandable Search Component (matching history style)
 const ExpandableSearch = ({
   searchQuery,
@@ -207,6 +241,7 @@ const MenuCard = ({
   isRTL,
   onStart,
   onView,
+  onShop,
   isCurrentActiveMenu,
 }: any) => {
   const avgCaloriesPerDay = Math.round(
@@ -472,6 +507,19 @@ const MenuCard = ({
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              {
+                borderColor: colors.emerald500,
+                backgroundColor: colors.surface,
+              },
+            ]}
+            onPress={() => onShop(menu.menu_id)}
+          >
+            <ShoppingCart size={14} color={colors.emerald500} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[
               styles.primaryButton,
@@ -604,9 +652,13 @@ export default function RecommendedMenusScreen() {
       if (response.data.success) {
         Alert.alert(
           language === "he" ? "הצלחה!" : "Success!",
-          language === "he"
+          (language === "he"
             ? "תפריט חדש נוצר בהצלחה!"
-            : "New menu generated successfully!",
+            : "New menu generated successfully!") +
+            describeDietaryWarnings(
+              response.data.data?.dietary_warnings,
+              language
+            ),
           [
             {
               text: language === "he" ? "אישור" : "OK",
@@ -663,9 +715,13 @@ export default function RecommendedMenusScreen() {
 
         Alert.alert(
           language === "he" ? "הצלחה!" : "Success!",
-          language === "he"
+          (language === "he"
             ? "תפריט מותאם נוצר בהצלחה!"
-            : "Custom menu generated successfully!",
+            : "Custom menu generated successfully!") +
+            describeDietaryWarnings(
+              response.data.data?.dietary_warnings,
+              language
+            ),
           [
             {
               text: language === "he" ? "אישור" : "OK",
@@ -1125,6 +1181,9 @@ export default function RecommendedMenusScreen() {
         isRTL={isRTL}
         onStart={handleStartMenu}
         onView={(menuId: string) => router.push(`/menu/${menuId}`)}
+        onShop={(menuId: string) =>
+          router.push(`/shopping-list?menuId=${menuId}`)
+        }
         isCurrentActiveMenu={isCurrentActiveMenu}
       />
     );
@@ -10,6 +10,7 @@ import {
   Modal,
   ActivityIndicator,
   RefreshControl,
+  TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
@@ -58,7 +59,8 @@ import {
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { api } from "@/src/services/api";
+import { LineChart } from "react-native-chart-kit";
+import { api, bodyAPI, nutritionAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
 
 const { width } = Dimensions.get("window");
@@ -174,6 +176,117 @@ interface UserQuestionnaire {
   dailyWater: number;
 }
 
+// Vitamin and mineral intake from the nutrition stats endpoints, compared
+// with the reference intakes for the user's age and gender
+interface MicronutrientIntake {
+  nutrient: string;
+  label: string;
+  label_he: string;
+  unit: "mg" | "mcg";
+  amount: number;
+  rdi: number;
+  upper_limit: number | null;
+  percent_of_rdi: number;
+  status: "deficient" | "adequate" | "excess" | "insufficient_data";
+  meals_with_data: number;
+}
+
+interface MicronutrientSummary {
+  reference: { age: number; sex: "male" | "female" | null };
+  nutrients: MicronutrientIntake[];
+  deficient: string[];
+  excess: string[];
+}
+
+interface WeightTrendPoint {
+  date: string;
+  weight_kg: number | null;
+  trend_kg: number;
+}
+
+// From /body/progress: the smoothed trend and the projected goal date at the
+// current intake
+interface WeightProgress {
+  current_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  trend_change_kg: number | null;
+  weekly_trend_change_kg: number | null;
+  target_weight_kg: number | null;
+  average_intake_calories: number | null;
+  tdee: number | null;
+  projection: {
+    status:
+      | "reached"
+      | "on_track"
+      | "wrong_direction"
+      | "maintaining"
+      | "insufficient_data";
+    weekly_change_kg: number | null;
+    estimated_date: string | null;
+  } | null;
+  trend: WeightTrendPoint[];
+  body_fat: { date: string; body_fat_percentage: number }[];
+  waist: { date: string; waist_cm: number }[];
+}
+
+const WEIGHT_PROGRESS_DAYS = 90;
+
+// A handful of MM-DD labels so they don't overlap
+function sparseDateLabels(dates: string[]) {
+  const step = Math.max(1, Math.ceil(dates.length / 5));
+  return dates.map((date, index) => (index % step === 0 ? date.slice(5) : ""));
+}
+
+// The chart can't draw gaps, so only days with a weigh-in are plotted
+function buildWeightChartData(trend: WeightTrendPoint[], legend: string[]) {
+  const points = trend.filter((point) => point.weight_kg !== null).slice(-30);
+
+  return {
+    labels: sparseDateLabels(points.map((point) => point.date)),
+    datasets: [
+      {
+        data: points.map((point) => point.weight_kg as number),
+        color: (opacity = 1) => `rgba(149, 165, 166, ${opacity})`,
+        strokeWidth: 1,
+      },
+      {
+        data: points.map((point) => point.trend_kg),
+        color: (opacity = 1) => `rgba(22, 160, 133, ${opacity})`,
+        strokeWidth: 3,
+      },
+    ],
+    legend,
+  };
+}
+
+const chartConfig = {
+  backgroundGradientFrom: "#FFFFFF",
+  backgroundGradientTo: "#FFFFFF",
+  decimalPlaces: 1,
+  color: (opacity = 1) => `rgba(22, 160, 133, ${opacity})`,
+  labelColor: (opacity = 1) => `rgba(100, 116, 139, ${opacity})`,
+  propsForDots: { r: "3" },
+};
+
+// Today's micronutrients come from the daily stats, longer periods from
+// the range stats (averaged per day)
+async function fetchMicronutrients(
+  period: "today" | "week" | "month"
+): Promise<MicronutrientSummary | null> {
+  const today = new Date().toISOString().split("T")[0];
+  if (period === "today") {
+    const daily = await nutritionAPI.getDailyStats(today);
+    return daily.micronutrients || null;
+  }
+
+  const days = period === "week" ? 7 : 30;
+  const start = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0];
+  const range = await nutritionAPI.getRangeStatistics(start, today);
+  return range.data?.micronutrients || null;
+}
+
 // Helper function to get the appropriate Lucide icon component
 const getAchievementIcon = (
   iconName: string,
@@ -285,6 +398,18 @@ export default function StatisticsScreen() {
   );
   const [userQuestionnaire, setUserQuestionnaire] =
     useState<UserQuestionnaire | null>(null);
+  const [micronutrients, setMicronutrients] =
+    useState<MicronutrientSummary | null>(null);
+  const [weightProgress, setWeightProgress] = useState<WeightProgress | null>(
+    null
+  );
+  const [showWeightModal, setShowWeightModal] = useState(false);
+  const [isSavingWeight, setIsSavingWeight] = useState(false);
+  const [weightForm, setWeightForm] = useState({
+    weight: "",
+    bodyFat: "",
+    waist: "",
+  });
 
   const texts = {
     title: language === "he" ? "התקדמות וסטטיסטיקות" : "Progress & Statistics",
@@ -371,6 +496,39 @@ export default function StatisticsScreen() {
     averageCompletion: language === "he" ? "ממוצע השלמה" : "Average Completion",
     bestStreak: language === "he" ? "רצף הטוב ביותר" : "Best Streak",
     currentStreak: language === "he" ? "רצף נוכחי" : "Current Streak",
+    vitaminsMinerals:
+      language === "he" ? "ויטמינים ומינרלים" : "Vitamins & Minerals",
+    deficient: language === "he" ? "חסר" : "Deficient",
+    adequate: language === "he" ? "תקין" : "Adequate",
+    excess: language === "he" ? "עודף" : "Excess",
+    insufficient_data:
+      language === "he" ? "אין מספיק נתונים" : "Not enough data",
+    referenceIntake: language === "he" ? "צריכה מומלצת" : "Reference intake",
+    upperLimit: language === "he" ? "גבול עליון" : "Upper limit",
+    micronutrientReference:
+      language === "he"
+        ? "ממוצע יומי בהשוואה לצריכה המומלצת לגילך ולמינך"
+        : "Daily average compared with the reference intake for your age and sex",
+    bodyProgress: language === "he" ? "משקל והרכב גוף" : "Weight & Body",
+    logWeighIn: language === "he" ? "הוסף שקילה" : "Log weigh-in",
+    scaleWeight: language === "he" ? "משקל בשקילה" : "Scale weight",
+    trendWeight: language === "he" ? "מגמת משקל" : "Trend weight",
+    targetWeight: language === "he" ? "משקל יעד" : "Target weight",
+    weeklyChange: language === "he" ? "שינוי שבועי" : "Weekly change",
+    bodyFat: language === "he" ? "אחוז שומן" : "Body fat",
+    waist: language === "he" ? "היקף מותניים" : "Waist",
+    kg: language === "he" ? "ק״ג" : "kg",
+    cm: language === "he" ? "ס״מ" : "cm",
+    noWeighIns:
+      language === "he"
+        ? "עדיין אין שקילות. הוסף שקילה כדי לראות את המגמה"
+        : "No weigh-ins yet. Log one to see your trend",
+    save: language === "he" ? "שמור" : "Save",
+    cancel: language === "he" ? "ביטול" : "Cancel",
+    invalidMeasurement:
+      language === "he"
+        ? "הזן משקל, אחוז שומן או היקף מותניים"
+        : "Enter a weight, body fat or waist measurement",
   };
 
   // Fetch statistics data from API
@@ -380,10 +538,27 @@ export default function StatisticsScreen() {
 
     try {
       console.log(`📊 Fetching statistics for period: ${period}`);
-      const [statisticsResponse, questionnaireResponse] = await Promise.all([
+      const [
+        statisticsResponse,
+        questionnaireResponse,
+        micronutrientData,
+        weightProgressData,
+      ] = await Promise.all([
         api.get(`/statistics?period=${period}`),
         api.get("/questionnaire"),
+        // Missing micronutrients or weight data shouldn't block the rest of
+        // the screen
+        fetchMicronutrients(period).catch((err) => {
+          console.warn("⚠️ Failed to load micronutrients:", err);
+          return null;
+        }),
+        bodyAPI.getProgress(WEIGHT_PROGRESS_DAYS).catch((err) => {
+          console.warn("⚠️ Failed to load weight progress:", err);
+          return null;
+        }),
       ]);
+      setMicronutrients(micronutrientData);
+      setWeightProgress(weightProgressData);
 
       console.log("📊 Raw statistics response:", statisticsResponse.data);
 
@@ -996,6 +1171,238 @@ export default function StatisticsScreen() {
     </TouchableOpacity>
   );
 
+  const getMicronutrientColor = (status: MicronutrientIntake["status"]) => {
+    switch (status) {
+      case "adequate":
+        return "#2ECC71";
+      case "deficient":
+        return "#E74C3C";
+      case "excess":
+        return "#E67E22";
+      default:
+        return "#95A5A6";
+    }
+  };
+
+  const renderMicronutrientRow = (intake: MicronutrientIntake) => {
+    const color = getMicronutrientColor(intake.status);
+    const limitText =
+      intake.upper_limit !== null
+        ? ` · ${texts.upperLimit}: ${intake.upper_limit.toLocaleString()} ${
+            intake.unit
+          }`
+        : "";
+
+    return (
+      <View key={intake.nutrient} style={styles.micronutrientRow}>
+        <View style={styles.micronutrientHeader}>
+          <Text style={styles.micronutrientName}>
+            {language === "he" ? intake.label_he : intake.label}
+          </Text>
+          <Text style={[styles.micronutrientStatus, { color }]}>
+            {texts[intake.status]}
+          </Text>
+        </View>
+        <Text style={styles.micronutrientValue}>
+          {intake.amount.toLocaleString()} {intake.unit} ·{" "}
+          {intake.percent_of_rdi}%
+        </Text>
+        <View style={styles.metricProgressBg}>
+          <View
+            style={[
+              styles.metricProgressFill,
+              {
+                width: `${Math.min(intake.percent_of_rdi, 100)}%`,
+                backgroundColor: color,
+              },
+            ]}
+          />
+        </View>
+        <Text style={styles.micronutrientReference}>
+          {texts.referenceIntake}: {intake.rdi.toLocaleString()} {intake.unit}
+          {limitText}
+        </Text>
+      </View>
+    );
+  };
+
+  const parseMeasurement = (value: string) => {
+    const parsed = parseFloat(value.replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  const handleSaveWeighIn = async () => {
+    const entry = {
+      weight_kg: parseMeasurement(weightForm.weight),
+      body_fat_percentage: parseMeasurement(weightForm.bodyFat),
+      waist_cm: parseMeasurement(weightForm.waist),
+    };
+    if (
+      entry.weight_kg === undefined &&
+      entry.body_fat_percentage === undefined &&
+      entry.waist_cm === undefined
+    ) {
+      Alert.alert(texts.logWeighIn, texts.invalidMeasurement);
+      return;
+    }
+
+    setIsSavingWeight(true);
+    try {
+      await bodyAPI.addEntry(entry);
+      setShowWeightModal(false);
+      setWeightForm({ weight: "", bodyFat: "", waist: "" });
+      setWeightProgress(await bodyAPI.getProgress(WEIGHT_PROGRESS_DAYS));
+    } catch (err: any) {
+      Alert.alert(texts.logWeighIn, err.message || texts.errorMessage);
+    } finally {
+      setIsSavingWeight(false);
+    }
+  };
+
+  const describeProjection = (progress: WeightProgress) => {
+    const projection = progress.projection;
+    if (!projection) return null;
+
+    switch (projection.status) {
+      case "reached":
+        return language === "he"
+          ? "הגעת למשקל היעד שלך"
+          : "You've reached your target weight";
+      case "on_track": {
+        const date = new Date(projection.estimated_date!).toLocaleDateString(
+          language === "he" ? "he-IL" : "en-US",
+          { day: "numeric", month: "long", year: "numeric" }
+        );
+        return language === "he"
+          ? `בצריכה הנוכחית תגיע ל-${progress.target_weight_kg} ק״ג בסביבות ${date}`
+          : `At your current intake you'll reach ${progress.target_weight_kg} kg around ${date}`;
+      }
+      case "wrong_direction":
+        return language === "he"
+          ? "בצריכה הנוכחית המשקל מתרחק מהיעד"
+          : "At your current intake your weight is moving away from your target";
+      case "maintaining":
+        return language === "he"
+          ? "הצריכה שלך קרובה להוצאה היומית, כך שהמשקל צפוי להישאר יציב"
+          : "Your intake is close to what you burn, so your weight should stay about the same";
+      default:
+        return language === "he"
+          ? "תעד ארוחות לפחות 3 ימים כדי לקבל תאריך יעד משוער"
+          : "Log meals on at least 3 days to get an estimated goal date";
+    }
+  };
+
+  const renderWeightSection = () => {
+    if (!weightProgress) return null;
+
+    const chartWidth = width - 80;
+    const weighInCount = weightProgress.trend.filter(
+      (point) => point.weight_kg !== null
+    ).length;
+    const bodyFatPoints = weightProgress.body_fat.slice(-30);
+    const latestWaist = weightProgress.waist[weightProgress.waist.length - 1];
+    const projectionText = describeProjection(weightProgress);
+    const formatKg = (value: number | null) =>
+      value === null ? "—" : `${value.toFixed(1)} ${texts.kg}`;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.achievementsHeader}>
+          <Text style={styles.sectionTitle}>{texts.bodyProgress}</Text>
+          <TouchableOpacity
+            style={styles.viewAllButton}
+            onPress={() => setShowWeightModal(true)}
+          >
+            <Text style={styles.viewAllText}>{texts.logWeighIn}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.micronutrientCard}>
+          <View style={styles.weightStatsRow}>
+            <View style={styles.weightStat}>
+              <Text style={styles.weightStatValue}>
+                {formatKg(weightProgress.trend_weight_kg)}
+              </Text>
+              <Text style={styles.weightStatLabel}>{texts.trendWeight}</Text>
+            </View>
+            <View style={styles.weightStat}>
+              <Text style={styles.weightStatValue}>
+                {weightProgress.weekly_trend_change_kg === null
+                  ? "—"
+                  : `${weightProgress.weekly_trend_change_kg > 0 ? "+" : ""}${
+                      weightProgress.weekly_trend_change_kg
+                    } ${texts.kg}`}
+              </Text>
+              <Text style={styles.weightStatLabel}>{texts.weeklyChange}</Text>
+            </View>
+            <View style={styles.weightStat}>
+              <Text style={styles.weightStatValue}>
+                {formatKg(weightProgress.target_weight_kg)}
+              </Text>
+              <Text style={styles.weightStatLabel}>{texts.targetWeight}</Text>
+            </View>
+          </View>
+
+          {weighInCount >= 2 ? (
+            <LineChart
+              data={buildWeightChartData(weightProgress.trend, [
+                texts.scaleWeight,
+                texts.trendWeight,
+              ])}
+              width={chartWidth}
+              height={200}
+              chartConfig={chartConfig}
+              bezier
+              style={styles.weightChart}
+            />
+          ) : (
+            <Text style={styles.micronutrientSubtitle}>{texts.noWeighIns}</Text>
+          )}
+
+          {bodyFatPoints.length >= 2 && (
+            <>
+              <Text style={styles.micronutrientName}>{texts.bodyFat}</Text>
+              <LineChart
+                data={{
+                  labels: sparseDateLabels(
+                    bodyFatPoints.map((point) => point.date)
+                  ),
+                  datasets: [
+                    {
+                      data: bodyFatPoints.map(
+                        (point) => point.body_fat_percentage
+                      ),
+                    },
+                  ],
+                }}
+                width={chartWidth}
+                height={160}
+                yAxisSuffix="%"
+                chartConfig={chartConfig}
+                style={styles.weightChart}
+              />
+            </>
+          )}
+
+          {latestWaist && (
+            <Text style={styles.micronutrientReference}>
+              {texts.waist}: {latestWaist.waist_cm} {texts.cm}
+            </Text>
+          )}
+
+          {projectionText && (
+            <View style={styles.metricRecommendation}>
+              <Target size={14} color="#16A085" />
+              <Text style={styles.metricRecommendationText}>
+                {projectionText}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
   const alerts = getAlertsData();
 
   // Loading state
@@ -1534,6 +1941,24 @@ export default function StatisticsScreen() {
               </View>
             </View>
 
+            {/* Weight & Body */}
+            {renderWeightSection()}
+
+            {/* Vitamins & Minerals */}
+            {micronutrients && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {texts.vitaminsMinerals}
+                </Text>
+                <Text style={styles.micronutrientSubtitle}>
+                  {texts.micronutrientReference}
+                </Text>
+                <View style={styles.micronutrientCard}>
+                  {micronutrients.nutrients.map(renderMicronutrientRow)}
+                </View>
+              </View>
+            )}
+
             {/* Lifestyle Metrics */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{texts.lifestyle}</Text>
@@ -1544,6 +1969,59 @@ export default function StatisticsScreen() {
           </>
         )}
 
+        {/* Log Weigh-in Modal */}
+        <Modal
+          visible={showWeightModal}
+          animationType="fade"
+          transparent
+          onRequestClose={() => setShowWeightModal(false)}
+        >
+          <View style={styles.weightModalOverlay}>
+            <View style={styles.weightModalCard}>
+              <Text style={styles.modalTitle}>{texts.logWeighIn}</Text>
+              {(
+                [
+                  ["weight", `${texts.scaleWeight} (${texts.kg})`],
+                  ["bodyFat", `${texts.bodyFat} (%)`],
+                  ["waist", `${texts.waist} (${texts.cm})`],
+                ] as const
+              ).map(([field, label]) => (
+                <View key={field} style={styles.weightInputRow}>
+                  <Text style={styles.weightStatLabel}>{label}</Text>
+                  <TextInput
+                    style={styles.weightInput}
+                    keyboardType="decimal-pad"
+                    value={weightForm[field]}
+                    onChangeText={(value) =>
+                      setWeightForm((form) => ({ ...form, [field]: value }))
+                    }
+                  />
+                </View>
+              ))}
+              <View style={styles.weightModalActions}>
+                <TouchableOpacity
+                  style={styles.weightModalButton}
+                  onPress={() => setShowWeightModal(false)}
+                  disabled={isSavingWeight}
+                >
+                  <Text style={styles.weightStatLabel}>{texts.cancel}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.weightModalButton, styles.viewAllButton]}
+                  onPress={handleSaveWeighIn}
+                  disabled={isSavingWeight}
+                >
+                  {isSavingWeight ? (
+                    <ActivityIndicator size="small" color="#16A085" />
+                  ) : (
+                    <Text style={styles.viewAllText}>{texts.save}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         {/* Achievements Modal */}
         <Modal
           visible={showAchievements}
@@ -2382,6 +2860,115 @@ const styles = StyleSheet.create({
     letterSpacing: 0.1,
   },
 
+  // Vitamins & Minerals
+  micronutrientSubtitle: {
+    fontSize: 14,
+    color: "#64748B",
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  micronutrientCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: "#1E293B",
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.08,
+    shadowRadius: 20,
+  },
+  micronutrientRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  micronutrientHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  micronutrientName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#0F172A",
+  },
+  micronutrientStatus: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  micronutrientValue: {
+    fontSize: 14,
+    color: "#334155",
+    marginBottom: 8,
+  },
+  micronutrientReference: {
+    fontSize: 12,
+    color: "#64748B",
+    marginTop: 6,
+  },
+
+  // Weight & Body
+  weightStatsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  weightStat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  weightStatValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0F172A",
+  },
+  weightStatLabel: {
+    fontSize: 13,
+    color: "#64748B",
+    marginTop: 4,
+  },
+  weightChart: {
+    marginVertical: 12,
+    borderRadius: 16,
+  },
+  weightModalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 24,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+  },
+  weightModalCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 24,
+    padding: 24,
+    gap: 12,
+  },
+  weightInputRow: {
+    gap: 4,
+  },
+  weightInput: {
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: "#0F172A",
+  },
+  weightModalActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 8,
+  },
+  weightModalButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    minWidth: 80,
+    alignItems: "center",
+  },
+
   // Enhanced Modal
   modalContainer: {
     flex: 1,
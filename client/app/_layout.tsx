@@ -124,7 +124,9 @@ function useNavigationManager(
       currentPath === "payment-plan" ||
       currentPath === "questionnaire" ||
       currentFullPath.includes("questionnaire") ||
-      currentPath === "menu"
+      currentPath === "menu" ||
+      currentPath === "recipes" ||
+      currentPath === "shopping-list"
     ) {
       return;
     }
@@ -164,6 +166,8 @@ const StackScreens = React.memo(() => (
     <Stack.Screen name="questionnaire" />
     <Stack.Screen name="privacy-policy" />
     <Stack.Screen name="menu/[id]" />
+    <Stack.Screen name="recipes" />
+    <Stack.Screen name="shopping-list" />
     <Stack.Screen name="+not-found" />
   </Stack>
 ));
@@ -41,6 +41,7 @@ import {
   Award,
   Plus,
   Minus,
+  ShoppingCart,
 } from "lucide-react-native";
 import { api, mealPlanAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
@@ -68,6 +69,9 @@ interface MealPlan {
 
 interface PlanMeal {
   template_id: string;
+  // Only set for meal plan slots, not recommended menu meals
+  schedule_id?: string;
+  portion_multiplier?: number;
   name: string;
   description?: string;
   meal_timing: string;
@@ -141,6 +145,7 @@ export default function ActiveMenuScreen() {
   const [mealFavorites, setMealFavorites] = useState<{
     [key: string]: boolean;
   }>({});
+  const [eatenMeals, setEatenMeals] = useState<{ [key: string]: boolean }>({});
 
   // Filter state
   const [filters, setFilters] = useState({
@@ -463,6 +468,55 @@ export default function ActiveMenuScreen() {
     }
   };
 
+  const logEatenMeal = async (
+    meal: PlanMeal,
+    key: string,
+    portionEaten: number
+  ) => {
+    if (!mealPlan) return;
+
+    try {
+      await mealPlanAPI.eatPlannedMeal(mealPlan.plan_id, meal, {
+        portion_eaten: portionEaten,
+      });
+      setEatenMeals((prev) => ({ ...prev, [key]: true }));
+      Alert.alert(
+        language === "he" ? "נרשם!" : "Logged!",
+        language === "he"
+          ? "הארוחה נוספה ליומן התזונה שלך"
+          : "The meal was added to your food log"
+      );
+    } catch (error: any) {
+      console.error("💥 Error logging eaten meal:", error);
+      Alert.alert(
+        language === "he" ? "שגיאה" : "Error",
+        error.message ||
+          (language === "he" ? "נכשל ברישום הארוחה" : "Failed to log meal")
+      );
+    }
+  };
+
+  // Logs the planned meal without a photo, asking how much of it was eaten
+  const handleAteMeal = (meal: PlanMeal, dayName: string, timing: string) => {
+    const key = `${dayName}-${timing}-${meal.template_id}`;
+
+    Alert.alert(
+      language === "he" ? "אכלתי את זה" : "Ate this",
+      language === "he" ? "כמה מהמנה אכלת?" : "How much of it did you eat?",
+      [
+        { text: language === "he" ? "ביטול" : "Cancel", style: "cancel" },
+        {
+          text: language === "he" ? "חצי מנה" : "Half portion",
+          onPress: () => logEatenMeal(meal, key, 0.5),
+        },
+        {
+          text: language === "he" ? "מנה מלאה" : "Full portion",
+          onPress: () => logEatenMeal(meal, key, 1),
+        },
+      ]
+    );
+  };
+
   const handleSwapMeal = (meal: PlanMeal, dayName: string, timing: string) => {
     setSelectedMeal(meal);
     setSwapError(null);
@@ -894,6 +948,7 @@ export default function ActiveMenuScreen() {
     const rating = mealRatings[key] || 0;
     const comment = mealComments[key] || "";
     const isFavorite = mealFavorites[key] || false;
+    const isEaten = eatenMeals[key] || false;
 
     return (
       <TouchableOpacity
@@ -1007,15 +1062,48 @@ export default function ActiveMenuScreen() {
             )}
           </View>
 
-          <TouchableOpacity
-            style={[styles.swapButton, { backgroundColor: colors.surface }]}
-            onPress={() => handleSwapMeal(meal, dayName, timing)}
-          >
-            <RefreshCw size={14} color={colors.emerald500} />
-            <Text style={[styles.swapButtonText, { color: colors.emerald500 }]}>
-              {language === "he" ? "החלף" : "Swap"}
-            </Text>
-          </TouchableOpacity>
+          <View style={[styles.mealMeta, isRTL && styles.rtlRow]}>
+            <TouchableOpacity
+              style={[
+                styles.swapButton,
+                {
+                  backgroundColor: isEaten ? colors.emerald500 : colors.surface,
+                },
+              ]}
+              onPress={() => handleAteMeal(meal, dayName, timing)}
+            >
+              <Check
+                size={14}
+                color={isEaten ? "#ffffff" : colors.emerald500}
+              />
+              <Text
+                style={[
+                  styles.swapButtonText,
+                  { color: isEaten ? "#ffffff" : colors.emerald500 },
+                ]}
+              >
+                {isEaten
+                  ? language === "he"
+                    ? "נאכל"
+                    : "Eaten"
+                  : language === "he"
+                    ? "אכלתי"
+                    : "Ate this"}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.swapButton, { backgroundColor: colors.surface }]}
+              onPress={() => handleSwapMeal(meal, dayName, timing)}
+            >
+              <RefreshCw size={14} color={colors.emerald500} />
+              <Text
+                style={[styles.swapButtonText, { color: colors.emerald500 }]}
+              >
+                {language === "he" ? "החלף" : "Swap"}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {comment && (
@@ -1731,6 +1819,19 @@ export default function ActiveMenuScreen() {
             <Filter size={20} color={colors.emerald500} />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[
+              styles.filterHeaderButton,
+              { backgroundColor: colors.card },
+            ]}
+            onPress={() =>
+              router.push(`/shopping-list?planId=${mealPlan.plan_id}`)
+            }
+            accessibilityLabel={t("shopping_list.open")}
+          >
+            <ShoppingCart size={20} color={colors.emerald500} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[
               styles.completeButton,
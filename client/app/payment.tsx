@@ -10,12 +10,13 @@ import {
   ScrollView,
   Animated,
   Dimensions,
+  Linking,
 } from "react-native";
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
 import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import { subscriptionAPI, userAPI } from "@/src/services/api";
 import {
   CreditCard,
   Lock,
@@ -222,11 +223,39 @@ export default function PaymentScreen() {
     try {
       setIsLoading(true);
 
-      // Simulate payment processing (always successful for now)
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      if (planType === "FREE") {
+        await userAPI.updateSubscription("FREE");
+      } else {
+        // The plan is granted by the server once the payment is confirmed
+        const session = await subscriptionAPI.createCheckout(
+          planType as "PREMIUM" | "GOLD"
+        );
 
-      // Update user subscription
-      await userAPI.updateSubscription(planType as string);
+        if (session.provider !== "mock") {
+          await Linking.openURL(session.checkout_url);
+          Alert.alert(
+            "Complete Your Payment",
+            "Your plan will be activated as soon as the payment is confirmed."
+          );
+          return;
+        }
+
+        const [month, year] = paymentData.expiryDate.split("/");
+        const result = await subscriptionAPI.payMockCheckout(
+          session.session_id,
+          {
+            cardNumber: paymentData.cardNumber,
+            expiryMonth: parseInt(month),
+            expiryYear: parseInt(year),
+            cvv: paymentData.cvv,
+            cardholderName: paymentData.cardholderName,
+          }
+        );
+
+        if (result.status !== "COMPLETED") {
+          throw new Error("Your card was declined. Please try another card.");
+        }
+      }
 
       // Update Redux state
       dispatch({
@@ -267,7 +296,8 @@ export default function PaymentScreen() {
       console.error("Payment error:", error);
       Alert.alert(
         "Payment Failed",
-        "There was an error processing your payment. Please try again."
+        error?.message ||
+          "There was an error processing your payment. Please try again."
       );
     } finally {
       setIsLoading(false);
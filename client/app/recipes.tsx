@@ -0,0 +1,999 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import {
+  ArrowLeft,
+  ArrowRight,
+  ChefHat,
+  Plus,
+  Trash2,
+  X,
+  Utensils,
+} from "lucide-react-native";
+import { AppDispatch } from "@/src/store";
+import { fetchMeals } from "@/src/store/mealSlice";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { useTheme } from "@/src/context/ThemeContext";
+import { recipeAPI } from "@/src/services/api";
+import LoadingScreen from "@/components/LoadingScreen";
+
+type IngredientUnit = "g" | "ml" | "serving" | "package";
+
+interface DraftIngredient {
+  key: string;
+  mode: "manual" | "product";
+  product_id?: number;
+  name: string;
+  barcode: string;
+  quantity: string;
+  unit: IngredientUnit;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+}
+
+interface RecipeDraft {
+  recipe_id?: string;
+  name: string;
+  description: string;
+  instructions: string;
+  servings: string;
+  ingredients: DraftIngredient[];
+}
+
+const PRODUCT_UNITS: IngredientUnit[] = ["g", "ml", "serving", "package"];
+const MANUAL_UNITS: IngredientUnit[] = ["g", "ml"];
+
+let ingredientKey = 0;
+
+const emptyIngredient = (): DraftIngredient => ({
+  key: `ingredient-${ingredientKey++}`,
+  mode: "manual",
+  name: "",
+  barcode: "",
+  quantity: "",
+  unit: "g",
+  calories: "",
+  protein: "",
+  carbs: "",
+  fat: "",
+});
+
+const emptyDraft = (): RecipeDraft => ({
+  name: "",
+  description: "",
+  instructions: "",
+  servings: "1",
+  ingredients: [emptyIngredient()],
+});
+
+const toNumber = (value: string) => parseFloat(value.replace(",", "."));
+
+function draftFromRecipe(recipe: any): RecipeDraft {
+  return {
+    recipe_id: recipe.recipe_id,
+    name: recipe.name,
+    description: recipe.description || "",
+    instructions: recipe.instructions || "",
+    servings: String(recipe.servings),
+    ingredients: recipe.ingredients.map((ingredient: any) => ({
+      ...emptyIngredient(),
+      mode: ingredient.product_id ? "product" : "manual",
+      product_id: ingredient.product_id ?? undefined,
+      name: ingredient.name,
+      quantity: String(ingredient.quantity),
+      unit: ingredient.unit,
+      calories: String(ingredient.nutrition_per_100g?.calories ?? ""),
+      protein: String(ingredient.nutrition_per_100g?.protein ?? ""),
+      carbs: String(ingredient.nutrition_per_100g?.carbs ?? ""),
+      fat: String(ingredient.nutrition_per_100g?.fat ?? ""),
+    })),
+  };
+}
+
+// Builds the request body, skipping rows that were left incomplete
+function draftToPayload(draft: RecipeDraft) {
+  const ingredients = draft.ingredients
+    .map((ingredient) => {
+      const quantity = toNumber(ingredient.quantity);
+      if (!(quantity > 0)) return null;
+
+      if (ingredient.mode === "product") {
+        if (ingredient.barcode.trim()) {
+          return {
+            barcode: ingredient.barcode.trim(),
+            name: ingredient.name.trim() || undefined,
+            quantity,
+            unit: ingredient.unit,
+          };
+        }
+        if (ingredient.product_id) {
+          return {
+            product_id: ingredient.product_id,
+            name: ingredient.name.trim() || undefined,
+            quantity,
+            unit: ingredient.unit,
+          };
+        }
+        return null;
+      }
+
+      const calories = toNumber(ingredient.calories);
+      if (!ingredient.name.trim() || !(calories >= 0)) return null;
+
+      return {
+        name: ingredient.name.trim(),
+        quantity,
+        unit: ingredient.unit,
+        nutrition_per_100g: {
+          calories,
+          protein: toNumber(ingredient.protein) || 0,
+          carbs: toNumber(ingredient.carbs) || 0,
+          fat: toNumber(ingredient.fat) || 0,
+        },
+      };
+    })
+    .filter((ingredient) => ingredient !== null);
+
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    instructions: draft.instructions.trim() || undefined,
+    servings: toNumber(draft.servings),
+    ingredients,
+  };
+}
+
+export default function RecipesScreen() {
+  const { t } = useTranslation();
+  const { isRTL } = useLanguage();
+  const { colors } = useTheme();
+  const router = useRouter();
+  const dispatch = useDispatch<AppDispatch>();
+
+  const [recipes, setRecipes] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [preview, setPreview] = useState<any>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [logTarget, setLogTarget] = useState<any>(null);
+  const [logServings, setLogServings] = useState("1");
+
+  const loadRecipes = useCallback(async () => {
+    try {
+      setRecipes(await recipeAPI.getRecipes());
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadRecipes();
+  }, [loadRecipes]);
+
+  const updateDraft = (changes: Partial<RecipeDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+    setPreview(null);
+  };
+
+  const updateIngredient = (key: string, changes: Partial<DraftIngredient>) => {
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            ingredients: current.ingredients.map((ingredient) =>
+              ingredient.key === key
+                ? { ...ingredient, ...changes }
+                : ingredient
+            ),
+          }
+        : current
+    );
+    setPreview(null);
+  };
+
+  const removeIngredient = (key: string) => {
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            ingredients: current.ingredients.filter((i) => i.key !== key),
+          }
+        : current
+    );
+    setPreview(null);
+  };
+
+  const validateDraft = () => {
+    if (!draft) return null;
+    const payload = draftToPayload(draft);
+
+    if (!payload.name) {
+      Alert.alert(t("common.error"), t("recipes.name_required"));
+      return null;
+    }
+    if (!(payload.servings > 0)) {
+      Alert.alert(t("common.error"), t("recipes.invalid_servings"));
+      return null;
+    }
+    if (payload.ingredients.length === 0) {
+      Alert.alert(t("common.error"), t("recipes.ingredient_required"));
+      return null;
+    }
+    return payload;
+  };
+
+  const handlePreview = async () => {
+    const payload = validateDraft();
+    if (!payload) return;
+
+    try {
+      setIsSaving(true);
+      setPreview(await recipeAPI.previewRecipe(payload));
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const payload = validateDraft();
+    if (!payload || !draft) return;
+
+    try {
+      setIsSaving(true);
+      await recipeAPI.saveRecipe(payload, draft.recipe_id);
+      setDraft(null);
+      setPreview(null);
+      Alert.alert(t("common.success"), t("recipes.saved"));
+      loadRecipes();
+    } catch (error: any) {
+      Alert.alert(t("recipes.save_error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (recipe: any) => {
+    Alert.alert(t("recipes.delete"), t("recipes.delete_confirmation"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("recipes.delete"),
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await recipeAPI.deleteRecipe(recipe.recipe_id);
+            setRecipes((current) =>
+              current.filter((r) => r.recipe_id !== recipe.recipe_id)
+            );
+          } catch (error: any) {
+            Alert.alert(t("recipes.delete_error"), error.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLog = async () => {
+    const servings = toNumber(logServings);
+    if (!logTarget || !(servings > 0)) {
+      Alert.alert(t("common.error"), t("recipes.invalid_servings"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await recipeAPI.logServings(logTarget.recipe_id, servings);
+      Alert.alert(
+        t("common.success"),
+        t("recipes.logged", { servings, name: logTarget.name })
+      );
+      setLogTarget(null);
+      dispatch(fetchMeals());
+    } catch (error: any) {
+      Alert.alert(t("recipes.log_error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderMacros = (nutrition: any) => (
+    <View style={[styles.macroRow, isRTL && styles.rowReverse]}>
+      <Text style={[styles.macroText, { color: colors.text }]}>
+        {Math.round(nutrition.calories)} {t("recipes.calories")}
+      </Text>
+      <Text style={[styles.macroText, { color: colors.icon }]}>
+        {t("recipes.protein")} {nutrition.protein_g}g
+      </Text>
+      <Text style={[styles.macroText, { color: colors.icon }]}>
+        {t("recipes.carbs")} {nutrition.carbs_g}g
+      </Text>
+      <Text style={[styles.macroText, { color: colors.icon }]}>
+        {t("recipes.fat")} {nutrition.fats_g}g
+      </Text>
+    </View>
+  );
+
+  const renderRecipe = ({ item }: { item: any }) => (
+    <TouchableOpacity
+      style={[styles.recipeCard, { backgroundColor: colors.card }]}
+      onPress={() => setDraft(draftFromRecipe(item))}
+    >
+      <View style={[styles.recipeHeader, isRTL && styles.rowReverse]}>
+        <Text
+          style={[
+            styles.recipeName,
+            { color: colors.text, textAlign: isRTL ? "right" : "left" },
+          ]}
+          numberOfLines={1}
+        >
+          {item.name}
+        </Text>
+        <TouchableOpacity onPress={() => handleDelete(item)}>
+          <Trash2 size={18} color="#ef4444" />
+        </TouchableOpacity>
+      </View>
+
+      <Text
+        style={[
+          styles.recipeMeta,
+          { color: colors.icon, textAlign: isRTL ? "right" : "left" },
+        ]}
+      >
+        {item.ingredients.length} {t("recipes.ingredients")} · {item.servings}{" "}
+        {t("recipes.servings")}
+      </Text>
+
+      <Text style={[styles.sectionLabel, { color: colors.emerald500 }]}>
+        {t("recipes.per_serving")}
+      </Text>
+      {renderMacros(item.per_serving)}
+
+      <TouchableOpacity
+        style={[styles.logButton, { backgroundColor: colors.emerald500 }]}
+        onPress={() => {
+          setLogServings("1");
+          setLogTarget(item);
+        }}
+      >
+        <Utensils size={16} color="#ffffff" />
+        <Text style={styles.logButtonText}>{t("recipes.log_servings")}</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderIngredientEditor = (ingredient: DraftIngredient) => {
+    const units = ingredient.mode === "product" ? PRODUCT_UNITS : MANUAL_UNITS;
+    const inputStyle = [
+      styles.input,
+      {
+        color: colors.text,
+        borderColor: colors.border,
+        textAlign: isRTL ? ("right" as const) : ("left" as const),
+      },
+    ];
+
+    return (
+      <View
+        key={ingredient.key}
+        style={[styles.ingredientCard, { borderColor: colors.border }]}
+      >
+        <View style={[styles.recipeHeader, isRTL && styles.rowReverse]}>
+          <View style={[styles.chipRow, isRTL && styles.rowReverse]}>
+            {(["manual", "product"] as const).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.chip,
+                  ingredient.mode === mode && {
+                    backgroundColor: colors.emerald500,
+                  },
+                ]}
+                onPress={() =>
+                  updateIngredient(ingredient.key, { mode, unit: "g" })
+                }
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    {
+                      color: ingredient.mode === mode ? "#ffffff" : colors.text,
+                    },
+                  ]}
+                >
+                  {t(`recipes.${mode}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity onPress={() => removeIngredient(ingredient.key)}>
+            <X size={18} color={colors.icon} />
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={inputStyle}
+          placeholder={t("recipes.ingredient_name")}
+          placeholderTextColor={colors.icon}
+          value={ingredient.name}
+          onChangeText={(name) => updateIngredient(ingredient.key, { name })}
+        />
+
+        {ingredient.mode === "product" && (
+          <TextInput
+            style={inputStyle}
+            placeholder={t("recipes.barcode")}
+            placeholderTextColor={colors.icon}
+            keyboardType="number-pad"
+            value={ingredient.barcode}
+            onChangeText={(barcode) =>
+              updateIngredient(ingredient.key, {
+                barcode,
+                product_id: undefined,
+              })
+            }
+          />
+        )}
+
+        <View style={[styles.quantityRow, isRTL && styles.rowReverse]}>
+          <TextInput
+            style={[inputStyle, styles.quantityInput]}
+            placeholder={t("recipes.quantity")}
+            placeholderTextColor={colors.icon}
+            keyboardType="decimal-pad"
+            value={ingredient.quantity}
+            onChangeText={(quantity) =>
+              updateIngredient(ingredient.key, { quantity })
+            }
+          />
+          <View style={[styles.chipRow, isRTL && styles.rowReverse]}>
+            {units.map((unit) => (
+              <TouchableOpacity
+                key={unit}
+                style={[
+                  styles.chip,
+                  ingredient.unit === unit && {
+                    backgroundColor: colors.emerald500,
+                  },
+                ]}
+                onPress={() => updateIngredient(ingredient.key, { unit })}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    {
+                      color: ingredient.unit === unit ? "#ffffff" : colors.text,
+                    },
+                  ]}
+                >
+                  {t(`recipes.units.${unit}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {ingredient.mode === "manual" && (
+          <>
+            <Text style={[styles.sectionLabel, { color: colors.icon }]}>
+              {t("recipes.per_100g")}
+            </Text>
+            <View style={[styles.quantityRow, isRTL && styles.rowReverse]}>
+              {(["calories", "protein", "carbs", "fat"] as const).map(
+                (field) => (
+                  <TextInput
+                    key={field}
+                    style={[inputStyle, styles.nutrientInput]}
+                    placeholder={t(`recipes.${field}`)}
+                    placeholderTextColor={colors.icon}
+                    keyboardType="decimal-pad"
+                    value={ingredient[field]}
+                    onChangeText={(value) =>
+                      updateIngredient(ingredient.key, { [field]: value })
+                    }
+                  />
+                )
+              )}
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <LoadingScreen text={isRTL ? "טוען מתכונים..." : "Loading recipes..."} />
+    );
+  }
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <BackIcon size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {t("recipes.title")}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.icon }]}>
+            {t("recipes.subtitle")}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: colors.emerald500 }]}
+          onPress={() => {
+            setPreview(null);
+            setDraft(emptyDraft());
+          }}
+        >
+          <Plus size={22} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={recipes}
+        keyExtractor={(item) => item.recipe_id}
+        renderItem={renderRecipe}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadRecipes();
+            }}
+            colors={[colors.emerald500]}
+            tintColor={colors.emerald500}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <ChefHat size={48} color={colors.icon} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {t("recipes.no_recipes")}
+            </Text>
+            <Text style={[styles.emptyText, { color: colors.icon }]}>
+              {t("recipes.create_first")}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={draft !== null}
+        animationType="slide"
+        onRequestClose={() => setDraft(null)}
+      >
+        <SafeAreaView
+          style={[styles.container, { backgroundColor: colors.background }]}
+        >
+          <View style={[styles.header, isRTL && styles.rowReverse]}>
+            <TouchableOpacity onPress={() => setDraft(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {draft?.recipe_id
+                ? t("recipes.edit_recipe")
+                : t("recipes.new_recipe")}
+            </Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          {draft && (
+            <ScrollView contentContainerStyle={styles.editor}>
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: colors.text, borderColor: colors.border },
+                  isRTL && styles.rtlText,
+                ]}
+                placeholder={t("recipes.name")}
+                placeholderTextColor={colors.icon}
+                value={draft.name}
+                onChangeText={(name) => updateDraft({ name })}
+              />
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: colors.text, borderColor: colors.border },
+                  isRTL && styles.rtlText,
+                ]}
+                placeholder={t("recipes.description")}
+                placeholderTextColor={colors.icon}
+                value={draft.description}
+                onChangeText={(description) => updateDraft({ description })}
+              />
+
+              <View style={[styles.quantityRow, isRTL && styles.rowReverse]}>
+                <Text style={[styles.sectionLabel, { color: colors.text }]}>
+                  {t("recipes.servings")}
+                </Text>
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.quantityInput,
+                    { color: colors.text, borderColor: colors.border },
+                  ]}
+                  keyboardType="decimal-pad"
+                  value={draft.servings}
+                  onChangeText={(servings) => updateDraft({ servings })}
+                />
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("recipes.ingredients")}
+              </Text>
+              {draft.ingredients.map(renderIngredientEditor)}
+
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.border }]}
+                onPress={() =>
+                  updateDraft({
+                    ingredients: [...draft.ingredients, emptyIngredient()],
+                  })
+                }
+              >
+                <Plus size={16} color={colors.emerald500} />
+                <Text
+                  style={[styles.secondaryText, { color: colors.emerald500 }]}
+                >
+                  {t("recipes.add_ingredient")}
+                </Text>
+              </TouchableOpacity>
+
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.multiline,
+                  { color: colors.text, borderColor: colors.border },
+                  isRTL && styles.rtlText,
+                ]}
+                placeholder={t("recipes.instructions")}
+                placeholderTextColor={colors.icon}
+                multiline
+                value={draft.instructions}
+                onChangeText={(instructions) => updateDraft({ instructions })}
+              />
+
+              {preview && (
+                <View
+                  style={[styles.previewCard, { backgroundColor: colors.card }]}
+                >
+                  <Text
+                    style={[styles.sectionLabel, { color: colors.emerald500 }]}
+                  >
+                    {t("recipes.total")}
+                  </Text>
+                  {renderMacros(preview.total_nutrition)}
+                  <Text
+                    style={[styles.sectionLabel, { color: colors.emerald500 }]}
+                  >
+                    {t("recipes.per_serving")}
+                  </Text>
+                  {renderMacros(preview.per_serving)}
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: colors.border }]}
+                onPress={handlePreview}
+                disabled={isSaving}
+              >
+                <Text
+                  style={[styles.secondaryText, { color: colors.emerald500 }]}
+                >
+                  {t("recipes.calculate")}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  { backgroundColor: colors.emerald500 },
+                ]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryText}>{t("recipes.save")}</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      <Modal
+        visible={logTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setLogTarget(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={[styles.dialog, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {logTarget?.name}
+            </Text>
+            <Text style={[styles.recipeMeta, { color: colors.icon }]}>
+              {t("recipes.servings_to_log")}
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              keyboardType="decimal-pad"
+              value={logServings}
+              onChangeText={setLogServings}
+            />
+            <View style={[styles.quantityRow, isRTL && styles.rowReverse]}>
+              <TouchableOpacity
+                style={[
+                  styles.secondaryButton,
+                  styles.dialogButton,
+                  { borderColor: colors.border },
+                ]}
+                onPress={() => setLogTarget(null)}
+              >
+                <Text style={[styles.secondaryText, { color: colors.text }]}>
+                  {t("common.cancel")}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  styles.dialogButton,
+                  { backgroundColor: colors.emerald500 },
+                ]}
+                onPress={handleLog}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryText}>{t("recipes.log")}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    letterSpacing: -0.3,
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  recipeCard: {
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  recipeHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  recipeName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  recipeMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 10,
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+  macroRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  macroText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+  logButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderRadius: 12,
+    paddingVertical: 10,
+    marginTop: 12,
+  },
+  logButtonText: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 64,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: 32,
+  },
+  editor: {
+    padding: 16,
+    gap: 12,
+    paddingBottom: 48,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  multiline: {
+    minHeight: 96,
+    textAlignVertical: "top",
+  },
+  ingredientCard: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: "rgba(16, 185, 129, 0.1)",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  quantityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  quantityInput: {
+    width: 90,
+  },
+  nutrientInput: {
+    flex: 1,
+    paddingHorizontal: 8,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  secondaryText: {
+    fontWeight: "600",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  primaryText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  previewCard: {
+    borderRadius: 14,
+    padding: 12,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  dialogButton: {
+    flex: 1,
+  },
+});
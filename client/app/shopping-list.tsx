@@ -0,0 +1,939 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  RefreshControl,
+  Share,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useTranslation } from "react-i18next";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  Layers,
+  Plus,
+  Share2,
+  ShoppingCart,
+  Trash2,
+  X,
+} from "lucide-react-native";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { useTheme } from "@/src/context/ThemeContext";
+import { shoppingListAPI } from "@/src/services/api";
+import LoadingScreen from "@/components/LoadingScreen";
+
+type Tab = "list" | "pantry";
+
+interface ItemDraft {
+  name: string;
+  quantity: string;
+  unit: string;
+}
+
+const emptyItemDraft = (): ItemDraft => ({
+  name: "",
+  quantity: "1",
+  unit: "piece",
+});
+
+const toNumber = (value: string) => parseFloat(value.replace(",", "."));
+
+const sameSources = (list: any, type: string, id: string) =>
+  list.sources_json.length === 1 &&
+  list.sources_json[0].type === type &&
+  list.sources_json[0].id === id;
+
+export default function ShoppingListScreen() {
+  const { t } = useTranslation();
+  const { isRTL, language } = useLanguage();
+  const { colors } = useTheme();
+  const router = useRouter();
+  const { planId, menuId } = useLocalSearchParams<{
+    planId?: string;
+    menuId?: string;
+  }>();
+
+  const [lists, setLists] = useState<any[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pantry, setPantry] = useState<any[]>([]);
+  const [tab, setTab] = useState<Tab>("list");
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newItem, setNewItem] = useState<ItemDraft>(emptyItemDraft());
+  const [newPantryItem, setNewPantryItem] =
+    useState<ItemDraft>(emptyItemDraft());
+  const [editTarget, setEditTarget] = useState<any>(null);
+  const [editQuantity, setEditQuantity] = useState("");
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+  const selectedList = lists.find((list) => list.list_id === selectedId);
+
+  const replaceList = (updated: any) =>
+    setLists((current) =>
+      current.map((list) => (list.list_id === updated.list_id ? updated : list))
+    );
+
+  const loadData = useCallback(async () => {
+    try {
+      const [fetchedLists, fetchedPantry] = await Promise.all([
+        shoppingListAPI.getLists(),
+        shoppingListAPI.getPantry(),
+      ]);
+      setPantry(fetchedPantry);
+
+      // Opened from a plan or menu: reuse its open list, or generate one
+      const sourceType = planId ? "plan" : menuId ? "menu" : null;
+      const sourceId = planId || menuId;
+      if (sourceType && sourceId) {
+        let list = fetchedLists.find(
+          (l) => !l.is_completed && sameSources(l, sourceType, sourceId)
+        );
+        if (!list) {
+          list = await shoppingListAPI.generateList(
+            planId ? { plan_ids: [planId] } : { menu_ids: [menuId!] }
+          );
+          fetchedLists.unshift(list);
+        }
+        setSelectedId(list.list_id);
+      } else {
+        setSelectedId((current) => current || fetchedLists[0]?.list_id || null);
+      }
+      setLists(fetchedLists);
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, [planId, menuId, t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const sections = useMemo(() => {
+    if (!selectedList) return [];
+
+    const byCategory = new Map<string, any[]>();
+    for (const item of selectedList.items_json) {
+      const category = item.category || "other";
+      byCategory.set(category, [...(byCategory.get(category) || []), item]);
+    }
+
+    return Array.from(byCategory.entries()).map(([category, data]) => ({
+      title: t(`shopping_list.categories.${category}`, {
+        defaultValue: category,
+      }),
+      data,
+    }));
+  }, [selectedList, t]);
+
+  const runUpdate = async (update: () => Promise<any>) => {
+    try {
+      setIsSaving(true);
+      replaceList(await update());
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleItem = (item: any) =>
+    runUpdate(() =>
+      shoppingListAPI.updateItem(selectedList.list_id, item.item_id, {
+        checked: !item.checked,
+      })
+    );
+
+  const deleteItem = (item: any) =>
+    runUpdate(() =>
+      shoppingListAPI.deleteItem(selectedList.list_id, item.item_id)
+    );
+
+  const saveQuantity = async () => {
+    const quantity = toNumber(editQuantity);
+    if (!editTarget || !(quantity > 0)) {
+      Alert.alert(t("common.error"), t("shopping_list.invalid_quantity"));
+      return;
+    }
+
+    await runUpdate(() =>
+      shoppingListAPI.updateItem(selectedList.list_id, editTarget.item_id, {
+        quantity,
+      })
+    );
+    setEditTarget(null);
+  };
+
+  const addItem = async () => {
+    const quantity = toNumber(newItem.quantity);
+    if (!newItem.name.trim() || !(quantity > 0)) {
+      Alert.alert(t("common.error"), t("shopping_list.item_required"));
+      return;
+    }
+
+    await runUpdate(() =>
+      shoppingListAPI.addItem(selectedList.list_id, {
+        name: newItem.name.trim(),
+        quantity,
+        unit: newItem.unit.trim() || "piece",
+      })
+    );
+    setNewItem(emptyItemDraft());
+  };
+
+  const deleteList = () => {
+    if (!selectedList) return;
+
+    Alert.alert(
+      t("shopping_list.delete"),
+      t("shopping_list.delete_confirmation"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("shopping_list.delete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await shoppingListAPI.deleteList(selectedList.list_id);
+              const remaining = lists.filter(
+                (list) => list.list_id !== selectedList.list_id
+              );
+              setLists(remaining);
+              setSelectedId(remaining[0]?.list_id || null);
+            } catch (error: any) {
+              Alert.alert(t("common.error"), error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Shares the list as plain text, localized and grouped by category on the
+  // server, so it reads well in messaging apps
+  const shareList = async () => {
+    if (!selectedList) return;
+
+    try {
+      const message = await shoppingListAPI.exportList(
+        selectedList.list_id,
+        "text",
+        language
+      );
+      await Share.share({ title: selectedList.name, message });
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    }
+  };
+
+  // Generates a new list from every plan and menu behind the chosen lists
+  const mergeLists = async () => {
+    const sources = lists
+      .filter((list) => mergeIds.includes(list.list_id))
+      .flatMap((list) => list.sources_json);
+    const plan_ids = [
+      ...new Set(sources.filter((s) => s.type === "plan").map((s) => s.id)),
+    ] as string[];
+    const menu_ids = [
+      ...new Set(sources.filter((s) => s.type === "menu").map((s) => s.id)),
+    ] as string[];
+
+    if (plan_ids.length + menu_ids.length === 0) {
+      Alert.alert(t("common.error"), t("shopping_list.merge_required"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const merged = await shoppingListAPI.generateList({ plan_ids, menu_ids });
+      setLists((current) => [merged, ...current]);
+      setSelectedId(merged.list_id);
+      setShowMerge(false);
+      setMergeIds([]);
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addPantryItem = async () => {
+    const quantity = toNumber(newPantryItem.quantity);
+    if (!newPantryItem.name.trim() || !(quantity > 0)) {
+      Alert.alert(t("common.error"), t("shopping_list.item_required"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const item = await shoppingListAPI.addPantryItem({
+        name: newPantryItem.name.trim(),
+        quantity,
+        unit: newPantryItem.unit.trim() || "piece",
+      });
+      setPantry((current) => [
+        ...current.filter((p) => p.pantry_item_id !== item.pantry_item_id),
+        item,
+      ]);
+      setNewPantryItem(emptyItemDraft());
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePantryItem = async (item: any) => {
+    try {
+      await shoppingListAPI.deletePantryItem(item.pantry_item_id);
+      setPantry((current) =>
+        current.filter((p) => p.pantry_item_id !== item.pantry_item_id)
+      );
+    } catch (error: any) {
+      Alert.alert(t("common.error"), error.message);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: colors.text,
+      borderColor: colors.border,
+      textAlign: isRTL ? ("right" as const) : ("left" as const),
+    },
+  ];
+
+  const renderItemForm = (
+    draft: ItemDraft,
+    setDraft: (draft: ItemDraft) => void,
+    onAdd: () => void
+  ) => (
+    <View style={[styles.addRow, isRTL && styles.rowReverse]}>
+      <TextInput
+        style={[inputStyle, styles.nameInput]}
+        placeholder={t("shopping_list.item_name")}
+        placeholderTextColor={colors.icon}
+        value={draft.name}
+        onChangeText={(name) => setDraft({ ...draft, name })}
+      />
+      <TextInput
+        style={[inputStyle, styles.smallInput]}
+        keyboardType="decimal-pad"
+        value={draft.quantity}
+        onChangeText={(quantity) => setDraft({ ...draft, quantity })}
+      />
+      <TextInput
+        style={[inputStyle, styles.smallInput]}
+        placeholder={t("shopping_list.unit")}
+        placeholderTextColor={colors.icon}
+        value={draft.unit}
+        onChangeText={(unit) => setDraft({ ...draft, unit })}
+      />
+      <TouchableOpacity
+        style={[styles.iconButton, { backgroundColor: colors.emerald500 }]}
+        onPress={onAdd}
+        disabled={isSaving}
+      >
+        <Plus size={18} color="#ffffff" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: any }) => (
+    <View
+      style={[
+        styles.itemRow,
+        { backgroundColor: colors.card },
+        isRTL && styles.rowReverse,
+      ]}
+    >
+      <TouchableOpacity
+        style={[
+          styles.checkbox,
+          { borderColor: colors.emerald500 },
+          item.checked && { backgroundColor: colors.emerald500 },
+        ]}
+        onPress={() => toggleItem(item)}
+        disabled={isSaving}
+      >
+        {item.checked && <Check size={14} color="#ffffff" />}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.itemText}
+        onPress={() => {
+          setEditQuantity(String(item.quantity));
+          setEditTarget(item);
+        }}
+      >
+        <Text
+          style={[
+            styles.itemName,
+            { color: colors.text, textAlign: isRTL ? "right" : "left" },
+            item.checked && styles.checkedText,
+          ]}
+          numberOfLines={1}
+        >
+          {item.name}
+        </Text>
+        <Text
+          style={[
+            styles.itemMeta,
+            { color: colors.icon, textAlign: isRTL ? "right" : "left" },
+          ]}
+        >
+          {t("shopping_list.buy", {
+            quantity: item.purchase_quantity,
+            unit: item.purchase_unit,
+          })}{" "}
+          ·{" "}
+          {t("shopping_list.needed", {
+            quantity: item.quantity,
+            unit: item.unit,
+          })}
+          {item.pantry_deducted
+            ? ` · ${t("shopping_list.from_pantry", {
+                quantity: item.pantry_deducted,
+                unit: item.unit,
+              })}`
+            : ""}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={() => deleteItem(item)} disabled={isSaving}>
+        <Trash2 size={16} color="#ef4444" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <LoadingScreen
+        text={isRTL ? "טוען רשימת קניות..." : "Loading shopping list..."}
+      />
+    );
+  }
+
+  const BackIcon = isRTL ? ArrowRight : ArrowLeft;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <View style={[styles.header, isRTL && styles.rowReverse]}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <BackIcon size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {t("shopping_list.title")}
+          </Text>
+          {selectedList && (
+            <Text style={[styles.subtitle, { color: colors.icon }]}>
+              {t("shopping_list.progress", {
+                checked: selectedList.checked_count,
+                total: selectedList.item_count,
+              })}{" "}
+              ·{" "}
+              {t("shopping_list.estimated_cost", {
+                cost: selectedList.total_estimated_cost ?? 0,
+              })}
+            </Text>
+          )}
+        </View>
+        {lists.length > 1 && (
+          <TouchableOpacity onPress={() => setShowMerge(true)}>
+            <Layers size={22} color={colors.emerald500} />
+          </TouchableOpacity>
+        )}
+        {selectedList && (
+          <TouchableOpacity onPress={shareList}>
+            <Share2 size={22} color={colors.emerald500} />
+          </TouchableOpacity>
+        )}
+        {selectedList && (
+          <TouchableOpacity onPress={deleteList}>
+            <Trash2 size={22} color="#ef4444" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={[styles.tabs, isRTL && styles.rowReverse]}>
+        {(["list", "pantry"] as const).map((key) => (
+          <TouchableOpacity
+            key={key}
+            style={[
+              styles.chip,
+              tab === key && { backgroundColor: colors.emerald500 },
+            ]}
+            onPress={() => setTab(key)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: tab === key ? "#ffffff" : colors.text },
+              ]}
+            >
+              {t(`shopping_list.tabs.${key}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === "list" ? (
+        <>
+          {lists.length > 1 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.listChips}
+            >
+              {lists.map((list) => (
+                <TouchableOpacity
+                  key={list.list_id}
+                  style={[
+                    styles.chip,
+                    list.list_id === selectedId && {
+                      backgroundColor: colors.emerald500,
+                    },
+                  ]}
+                  onPress={() => setSelectedId(list.list_id)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      {
+                        color:
+                          list.list_id === selectedId ? "#ffffff" : colors.text,
+                      },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {list.is_completed ? "✓ " : ""}
+                    {list.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {selectedList ? (
+            <SectionList
+              sections={sections}
+              keyExtractor={(item) => item.item_id}
+              renderItem={renderItem}
+              renderSectionHeader={({ section }) => (
+                <Text
+                  style={[
+                    styles.sectionLabel,
+                    {
+                      color: colors.emerald500,
+                      textAlign: isRTL ? "right" : "left",
+                    },
+                  ]}
+                >
+                  {section.title}
+                </Text>
+              )}
+              contentContainerStyle={styles.list}
+              ListFooterComponent={renderItemForm(newItem, setNewItem, addItem)}
+              refreshControl={
+                <RefreshControl
+                  refreshing={refreshing}
+                  onRefresh={() => {
+                    setRefreshing(true);
+                    loadData();
+                  }}
+                  colors={[colors.emerald500]}
+                  tintColor={colors.emerald500}
+                />
+              }
+            />
+          ) : (
+            <View style={styles.emptyState}>
+              <ShoppingCart size={48} color={colors.icon} />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                {t("shopping_list.no_lists")}
+              </Text>
+              <Text style={[styles.emptyText, { color: colors.icon }]}>
+                {t("shopping_list.create_from_menu")}
+              </Text>
+            </View>
+          )}
+        </>
+      ) : (
+        <FlatList
+          data={pantry}
+          keyExtractor={(item) => item.pantry_item_id}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <Text
+              style={[
+                styles.itemMeta,
+                { color: colors.icon, textAlign: isRTL ? "right" : "left" },
+              ]}
+            >
+              {t("shopping_list.pantry_hint")}
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <View
+              style={[
+                styles.itemRow,
+                { backgroundColor: colors.card },
+                isRTL && styles.rowReverse,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.itemName,
+                  styles.itemText,
+                  { color: colors.text, textAlign: isRTL ? "right" : "left" },
+                ]}
+              >
+                {item.name} · {item.quantity} {item.unit}
+              </Text>
+              <TouchableOpacity onPress={() => deletePantryItem(item)}>
+                <Trash2 size={16} color="#ef4444" />
+              </TouchableOpacity>
+            </View>
+          )}
+          ListFooterComponent={renderItemForm(
+            newPantryItem,
+            setNewPantryItem,
+            addPantryItem
+          )}
+        />
+      )}
+
+      <Modal
+        visible={editTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditTarget(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={[styles.dialog, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {editTarget?.name}
+            </Text>
+            <Text style={[styles.itemMeta, { color: colors.icon }]}>
+              {t("shopping_list.quantity_in", { unit: editTarget?.unit })}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              keyboardType="decimal-pad"
+              value={editQuantity}
+              onChangeText={setEditQuantity}
+            />
+            <View style={[styles.addRow, isRTL && styles.rowReverse]}>
+              <TouchableOpacity
+                style={[
+                  styles.secondaryButton,
+                  styles.dialogButton,
+                  { borderColor: colors.border },
+                ]}
+                onPress={() => setEditTarget(null)}
+              >
+                <Text style={[styles.secondaryText, { color: colors.text }]}>
+                  {t("common.cancel")}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  styles.dialogButton,
+                  { backgroundColor: colors.emerald500 },
+                ]}
+                onPress={saveQuantity}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryText}>{t("common.save")}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showMerge}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowMerge(false)}
+      >
+        <View style={styles.overlay}>
+          <View style={[styles.dialog, { backgroundColor: colors.card }]}>
+            <View style={[styles.header, styles.dialogHeader]}>
+              <Text
+                style={[
+                  styles.sectionTitle,
+                  styles.headerText,
+                  { color: colors.text },
+                ]}
+              >
+                {t("shopping_list.merge_title")}
+              </Text>
+              <TouchableOpacity onPress={() => setShowMerge(false)}>
+                <X size={20} color={colors.icon} />
+              </TouchableOpacity>
+            </View>
+            <Text style={[styles.itemMeta, { color: colors.icon }]}>
+              {t("shopping_list.merge_hint")}
+            </Text>
+            <ScrollView style={styles.mergeList}>
+              {lists.map((list) => {
+                const selected = mergeIds.includes(list.list_id);
+                return (
+                  <TouchableOpacity
+                    key={list.list_id}
+                    style={[styles.itemRow, isRTL && styles.rowReverse]}
+                    onPress={() =>
+                      setMergeIds((current) =>
+                        selected
+                          ? current.filter((id) => id !== list.list_id)
+                          : [...current, list.list_id]
+                      )
+                    }
+                  >
+                    <View
+                      style={[
+                        styles.checkbox,
+                        { borderColor: colors.emerald500 },
+                        selected && { backgroundColor: colors.emerald500 },
+                      ]}
+                    >
+                      {selected && <Check size={14} color="#ffffff" />}
+                    </View>
+                    <Text
+                      style={[
+                        styles.itemName,
+                        styles.itemText,
+                        { color: colors.text },
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {list.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                { backgroundColor: colors.emerald500 },
+              ]}
+              onPress={mergeLists}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryText}>
+                  {t("shopping_list.merge")}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "700",
+    letterSpacing: -0.3,
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  listChips: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: "rgba(16, 185, 129, 0.1)",
+    maxWidth: 220,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  list: {
+    padding: 16,
+    gap: 8,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 12,
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 6,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  checkedText: {
+    textDecorationLine: "line-through",
+    opacity: 0.6,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowReverse: {
+    flexDirection: "row-reverse",
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  smallInput: {
+    width: 64,
+    paddingHorizontal: 8,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 64,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: 32,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  dialogHeader: {
+    paddingHorizontal: 0,
+    paddingVertical: 0,
+  },
+  dialogButton: {
+    flex: 1,
+  },
+  mergeList: {
+    maxHeight: 280,
+  },
+  secondaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  secondaryText: {
+    fontWeight: "600",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  primaryText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
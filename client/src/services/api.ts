@@ -7,6 +7,8 @@ import {
   SignInData,
   MealAnalysisData,
   QuestionnaireData,
+  ManualMealEntry,
+  MealSource,
 } from "../types";
 
 // Enhanced error handling and retry logic
@@ -40,6 +42,8 @@ const createApiInstance = (): AxiosInstance => {
     headers: {
       "Content-Type": "application/json",
       Accept: "application/json",
+      // Lets the server place meals in the user's local day and meal time
+      "X-Timezone": Intl.DateTimeFormat().resolvedOptions().timeZone,
     },
   });
 
@@ -367,6 +371,28 @@ export const nutritionAPI = {
     }
   },
 
+  // Logs a meal without a photo, from macros or a free-text description
+  async logManualMeal(entry: ManualMealEntry): Promise<any> {
+    try {
+      console.log("🔄 Logging manual meal...");
+      const response = await api.post("/nutrition/meals/manual", entry);
+
+      if (response.data.success) {
+        console.log("✅ Manual meal logged successfully");
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to log meal");
+    } catch (error: any) {
+      console.error("💥 Manual meal error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        error.response?.data?.error || "Network error while logging meal",
+        error.response?.status
+      );
+    }
+  },
+
   async getMeals(offset: number = 0, limit: number = 100): Promise<any[]> {
     try {
       console.log("🔄 Fetching meals...");
@@ -436,12 +462,20 @@ export const nutritionAPI = {
     }
   },
 
-  async getRangeStatistics(startDate: string, endDate: string): Promise<any> {
+  async getRangeStatistics(
+    startDate: string,
+    endDate: string,
+    source?: MealSource
+  ): Promise<any> {
     try {
-      console.log("📊 Fetching range statistics:", { startDate, endDate });
+      console.log("📊 Fetching range statistics:", {
+        startDate,
+        endDate,
+        source,
+      });
 
       const response = await api.get("/nutrition/stats/range", {
-        params: { startDate, endDate },
+        params: { startDate, endDate, source },
       });
 
       if (response.data.success) {
@@ -676,6 +710,86 @@ export const userAPI = {
   },
 };
 
+// Subscription checkout and billing API
+export const subscriptionAPI = {
+  async createCheckout(plan: "PREMIUM" | "GOLD"): Promise<any> {
+    try {
+      console.log("🔄 Creating checkout session for:", plan);
+      const response = await api.post("/subscriptions/checkout", { plan });
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new APIError(response.data.error || "Failed to start checkout");
+    } catch (error: any) {
+      console.error("💥 Create checkout error:", error);
+      if (error instanceof APIError) throw error;
+      throw new APIError(
+        error.response?.data?.error || "Network error while starting checkout",
+        error.response?.status
+      );
+    }
+  },
+
+  async getCheckoutSession(sessionId: string): Promise<any> {
+    try {
+      const response = await api.get(`/subscriptions/checkout/${sessionId}`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Get checkout session error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch checkout session",
+        error.response?.status
+      );
+    }
+  },
+
+  // Only available while the server runs the mock payment provider
+  async payMockCheckout(
+    sessionId: string,
+    card: {
+      cardNumber: string;
+      expiryMonth: number;
+      expiryYear: number;
+      cvv: string;
+      cardholderName: string;
+    }
+  ): Promise<any> {
+    try {
+      const response = await api.post(
+        `/subscriptions/checkout/${sessionId}/mock-pay`,
+        {
+          card_number: card.cardNumber.replace(/\s/g, ""),
+          expiry_month: card.expiryMonth,
+          expiry_year: card.expiryYear,
+          cvv: card.cvv,
+          cardholder_name: card.cardholderName,
+        }
+      );
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Mock payment error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Network error while processing payment",
+        error.response?.status
+      );
+    }
+  },
+
+  async getBillingHistory(limit = 20, offset = 0): Promise<any> {
+    try {
+      const response = await api.get("/subscriptions/billing-history", {
+        params: { limit, offset },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("💥 Get billing history error:", error);
+      throw new APIError("Failed to fetch billing history");
+    }
+  },
+};
+
 // Enhanced questionnaire API
 export const questionnaireAPI = {
   async saveQuestionnaire(data: QuestionnaireData): Promise<any> {
@@ -846,6 +960,359 @@ export const mealAPI = {
   },
 };
 
+// Recipes built from scanned products and manual ingredients
+export const recipeAPI = {
+  async getRecipes(): Promise<any[]> {
+    try {
+      const response = await api.get("/recipes");
+      return response.data.data || [];
+    } catch (error: any) {
+      console.error("💥 Get recipes error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch recipes",
+        error.response?.status
+      );
+    }
+  },
+
+  async previewRecipe(recipe: any): Promise<any> {
+    try {
+      const response = await api.post("/recipes/preview", recipe);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Preview recipe error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to calculate recipe nutrition",
+        error.response?.status
+      );
+    }
+  },
+
+  async saveRecipe(recipe: any, recipeId?: string): Promise<any> {
+    try {
+      console.log("🔄 Saving recipe:", recipe.name);
+      const response = recipeId
+        ? await api.put(`/recipes/${recipeId}`, recipe)
+        : await api.post("/recipes", recipe);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Save recipe error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to save recipe",
+        error.response?.status
+      );
+    }
+  },
+
+  async deleteRecipe(recipeId: string): Promise<void> {
+    try {
+      await api.delete(`/recipes/${recipeId}`);
+    } catch (error: any) {
+      console.error("💥 Delete recipe error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to delete recipe",
+        error.response?.status
+      );
+    }
+  },
+
+  async logServings(
+    recipeId: string,
+    servings: number,
+    date?: string
+  ): Promise<any> {
+    try {
+      console.log("🔄 Logging recipe servings:", recipeId, servings);
+      const response = await api.post(`/recipes/${recipeId}/log`, {
+        servings,
+        date,
+      });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Log recipe error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to log recipe",
+        error.response?.status
+      );
+    }
+  },
+};
+
+// Shopping lists generated from meal plans and menus, plus the pantry that is
+// subtracted from them
+export const shoppingListAPI = {
+  async getLists(): Promise<any[]> {
+    try {
+      const response = await api.get("/shopping-lists");
+      return response.data.data || [];
+    } catch (error: any) {
+      console.error("💥 Get shopping lists error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch shopping lists",
+        error.response?.status
+      );
+    }
+  },
+
+  async getList(listId: string): Promise<any> {
+    try {
+      const response = await api.get(`/shopping-lists/${listId}`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Get shopping list error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch shopping list",
+        error.response?.status
+      );
+    }
+  },
+
+  // Renders the list as plain text, Markdown, CSV or iCalendar for sharing
+  async exportList(
+    listId: string,
+    format: "text" | "markdown" | "csv" | "ical",
+    lang: string
+  ): Promise<string> {
+    try {
+      const response = await api.get(`/shopping-lists/${listId}`, {
+        params: { format, lang },
+        responseType: "text",
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Export shopping list error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to export shopping list",
+        error.response?.status
+      );
+    }
+  },
+
+  async generateList(sources: {
+    plan_ids?: string[];
+    menu_ids?: string[];
+    name?: string;
+    use_pantry?: boolean;
+  }): Promise<any> {
+    try {
+      console.log("🛒 Generating shopping list:", sources);
+      const response = await api.post("/shopping-lists", sources);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Generate shopping list error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to generate shopping list",
+        error.response?.status
+      );
+    }
+  },
+
+  async updateList(
+    listId: string,
+    changes: { name?: string; is_completed?: boolean }
+  ): Promise<any> {
+    try {
+      const response = await api.put(`/shopping-lists/${listId}`, changes);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Update shopping list error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to update shopping list",
+        error.response?.status
+      );
+    }
+  },
+
+  async deleteList(listId: string): Promise<void> {
+    try {
+      await api.delete(`/shopping-lists/${listId}`);
+    } catch (error: any) {
+      console.error("💥 Delete shopping list error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to delete shopping list",
+        error.response?.status
+      );
+    }
+  },
+
+  async addItem(
+    listId: string,
+    item: { name: string; quantity?: number; unit?: string; category?: string }
+  ): Promise<any> {
+    try {
+      const response = await api.post(`/shopping-lists/${listId}/items`, item);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Add shopping list item error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to add item",
+        error.response?.status
+      );
+    }
+  },
+
+  async updateItem(listId: string, itemId: string, changes: any): Promise<any> {
+    try {
+      const response = await api.put(
+        `/shopping-lists/${listId}/items/${itemId}`,
+        changes
+      );
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Update shopping list item error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to update item",
+        error.response?.status
+      );
+    }
+  },
+
+  async deleteItem(listId: string, itemId: string): Promise<any> {
+    try {
+      const response = await api.delete(
+        `/shopping-lists/${listId}/items/${itemId}`
+      );
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Delete shopping list item error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to delete item",
+        error.response?.status
+      );
+    }
+  },
+
+  async getPantry(): Promise<any[]> {
+    try {
+      const response = await api.get("/shopping-lists/pantry");
+      return response.data.data || [];
+    } catch (error: any) {
+      console.error("💥 Get pantry error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch pantry",
+        error.response?.status
+      );
+    }
+  },
+
+  async addPantryItem(item: {
+    name: string;
+    quantity: number;
+    unit?: string;
+    category?: string;
+  }): Promise<any> {
+    try {
+      const response = await api.post("/shopping-lists/pantry", item);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Add pantry item error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to add pantry item",
+        error.response?.status
+      );
+    }
+  },
+
+  async deletePantryItem(pantryItemId: string): Promise<void> {
+    try {
+      await api.delete(`/shopping-lists/pantry/${pantryItemId}`);
+    } catch (error: any) {
+      console.error("💥 Delete pantry item error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to delete pantry item",
+        error.response?.status
+      );
+    }
+  },
+};
+
+// Weigh-ins and body measurements
+export const bodyAPI = {
+  async getEntries(params?: {
+    from?: string;
+    to?: string;
+    limit?: number;
+  }): Promise<any[]> {
+    try {
+      const response = await api.get("/body/entries", { params });
+      return response.data.data || [];
+    } catch (error: any) {
+      console.error("💥 Get body measurements error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch body measurements",
+        error.response?.status
+      );
+    }
+  },
+
+  async addEntry(entry: {
+    measured_at?: string;
+    weight_kg?: number;
+    body_fat_percentage?: number;
+    waist_cm?: number;
+    note?: string;
+  }): Promise<any> {
+    try {
+      console.log("⚖️ Logging body measurement:", entry);
+      const response = await api.post("/body/entries", entry);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Log body measurement error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to log body measurement",
+        error.response?.status
+      );
+    }
+  },
+
+  async deleteEntry(entryId: string): Promise<void> {
+    try {
+      await api.delete(`/body/entries/${entryId}`);
+    } catch (error: any) {
+      console.error("💥 Delete body measurement error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to delete body measurement",
+        error.response?.status
+      );
+    }
+  },
+
+  // Smoothed trend, TDEE and projected goal date over the last `days` days
+  async getProgress(days: number = 90): Promise<any> {
+    try {
+      const response = await api.get("/body/progress", { params: { days } });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Get weight progress error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to fetch weight progress",
+        error.response?.status
+      );
+    }
+  },
+};
+
+// Wearable OAuth runs on the server; the app only opens the consent page
+export const deviceOAuthAPI = {
+  async getAuthorizationUrl(
+    deviceType: string,
+    returnUrl: string
+  ): Promise<{ url: string; state: string; expires_at: string }> {
+    try {
+      const response = await api.get(`/devices/oauth/${deviceType}/authorize`, {
+        params: { returnUrl },
+      });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Start device authorization error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to start device authorization",
+        error.response?.status
+      );
+    }
+  },
+};
+
 // Enhanced meal plan API
 export const mealPlanAPI = {
   async getCurrentMealPlan(): Promise<any> {
@@ -967,6 +1434,30 @@ export const mealPlanAPI = {
     }
   },
 
+  // "Ate this": logs a planned meal from its known nutrition. Meal plan slots
+  // are logged by schedule, recommended menu meals by meal id.
+  async eatPlannedMeal(
+    planId: string,
+    meal: { schedule_id?: string; template_id: string },
+    portion: { portion_eaten?: number; portion_multiplier?: number } = {}
+  ): Promise<any> {
+    try {
+      const response = await api.post(
+        meal.schedule_id
+          ? `/meal-plans/${planId}/schedule/${meal.schedule_id}/eat`
+          : `/recommended-menus/${planId}/meals/${meal.template_id}/eat`,
+        portion
+      );
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Log planned meal error:", error);
+      throw new APIError(
+        error.response?.data?.error || "Failed to log meal",
+        error.response?.status
+      );
+    }
+  },
+
   async completeMealPlan(planId: string, feedback: any): Promise<any> {
     try {
       console.log("🔄 Completing meal plan...");
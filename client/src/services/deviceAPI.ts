@@ -43,6 +43,11 @@ const deviceAxios = axios.create({
   withCredentials: Platform.OS === "web",
 });
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days of Apple Health history sent on the first sync, and the most sent at
+// once after a long time offline
+const INITIAL_BACKFILL_DAYS = 30;
+
 class DeviceAPIService {
   async getConnectedDevices(): Promise<ConnectedDevice[]> {
     try {
@@ -104,23 +109,11 @@ class DeviceAPIService {
         return false;
       }
 
-      // For other devices, use OAuth flow
+      // For other devices, use OAuth flow. The server exchanges the code and
+      // registers the device itself.
       const result = await deviceConnectionService.connectDevice(deviceType);
 
-      if (result.success && result.accessToken) {
-        // Register with server
-        try {
-          await deviceAxios.post("/devices/connect", {
-            deviceType,
-            deviceName:
-              result.deviceData?.displayName || `${deviceType} Device`,
-            accessToken: result.accessToken,
-            refreshToken: result.refreshToken,
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to register with server:", serverError);
-        }
-
+      if (result.success) {
         console.log("✅ Device connected successfully:", deviceType);
         return true;
       }
@@ -137,118 +130,63 @@ class DeviceAPIService {
     try {
       console.log("🔄 Syncing device:", deviceId);
 
-      if (deviceId === "apple_health") {
-        // Get today's health data
-        const today = new Date().toISOString().split("T")[0];
-        const healthData = await healthKitService.getHealthDataForDate(today);
-
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: healthData.steps,
-              caloriesBurned: healthData.caloriesBurned,
-              activeMinutes: healthData.activeMinutes,
-              bmr: 1800, // Default BMR estimate
-              heartRate: healthData.heartRate,
-              weight: healthData.weight,
-              distance: healthData.distance,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
-
-        console.log("📊 Synced Apple Health data:", healthData);
-        return true;
-      }
-
-      // For other devices, fetch data using their APIs
       const devices = await this.getConnectedDevices();
       const device = devices.find((d) => d.id === deviceId);
 
-      if (!device) {
-        console.error("❌ Device not found:", deviceId);
-        return false;
-      }
-
-      const today = new Date().toISOString().split("T")[0];
-      let activityData = null;
-
-      // Get stored tokens
-      const tokens = await deviceConnectionService.getDeviceTokens(device.type);
-
-      if (!tokens.accessToken) {
-        console.error("❌ No access token found for device:", device.type);
-        return false;
-      }
-
-      // Fetch data based on device type
-      switch (device.type) {
-        case "GOOGLE_FIT":
-          activityData = await deviceConnectionService.fetchGoogleFitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "FITBIT":
-          activityData = await deviceConnectionService.fetchFitbitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "WHOOP":
-          activityData = await deviceConnectionService.fetchWhoopData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "POLAR":
-          activityData = await deviceConnectionService.fetchPolarData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "GARMIN":
-          activityData = await deviceConnectionService.fetchGarminData(
-            tokens.accessToken,
-            tokens.refreshToken || "",
-            today
-          );
-          break;
-        default:
-          console.error("❌ Unsupported device type:", device.type);
-          return false;
+      if (device?.type === "APPLE_HEALTH") {
+        return await this.pushAppleHealthDays(device);
       }
 
-      if (activityData) {
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: activityData.steps || 0,
-              caloriesBurned: activityData.caloriesBurned || 0,
-              activeMinutes: activityData.activeMinutes || 0,
-              bmr: 1800, // Default BMR estimate
-              distance: activityData.distance,
-              heartRate: activityData.heartRate,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
-
-        console.log("📊 Synced device data:", activityData);
-        return true;
-      }
-
-      return false;
+      // Other devices are pulled by the server from the provider's API
+      const response = await deviceAxios.post(`/devices/${deviceId}/sync`);
+      console.log("📊 Synced device data:", response.data.data);
+      return response.data.success;
     } catch (error) {
       console.error("💥 Error syncing device:", error);
       return false;
     }
   }
 
+  // Apple Health data only exists on the phone, so the app sends one dated
+  // record for every day since the last sync (the last 30 days the first
+  // time). Days sent again are safe: the server keeps the newest reading.
+  private async pushAppleHealthDays(device: ConnectedDevice): Promise<boolean> {
+    const now = new Date();
+    const since = device.lastSync
+      ? new Date(device.lastSync)
+      : new Date(now.getTime() - (INITIAL_BACKFILL_DAYS - 1) * DAY_MS);
+    const start = new Date(
+      Math.max(
+        since.getTime(),
+        now.getTime() - (INITIAL_BACKFILL_DAYS - 1) * DAY_MS
+      )
+    );
+    start.setUTCHours(0, 0, 0, 0);
+
+    const records = [];
+    for (let day = start; day <= now; day = new Date(day.getTime() + DAY_MS)) {
+      const date = day.toISOString().split("T")[0];
+      const healthData = await healthKitService.getHealthDataForDate(date);
+      records.push({
+        date,
+        steps: healthData.steps,
+        caloriesBurned: healthData.caloriesBurned,
+        activeMinutes: healthData.activeMinutes,
+        bmr: 1800, // Default BMR estimate
+        heartRate: healthData.heartRate || undefined,
+        weight: healthData.weight || undefined,
+        distance: healthData.distance,
+        recordedAt: now.toISOString(),
+      });
+    }
+
+    const response = await deviceAxios.post(`/devices/${device.id}/sync`, {
+      records,
+    });
+    console.log("📊 Synced Apple Health days:", response.data.data);
+    return response.data.success;
+  }
+
   async getActivityData(date: string): Promise<HealthData | null> {
     try {
       console.log("📊 Getting activity data for:", date);
@@ -281,39 +219,10 @@ class DeviceAPIService {
       const devices = await this.getConnectedDevices();
       const connectedDevice = devices.find((d) => d.status === "CONNECTED");
 
-      if (connectedDevice) {
-        if (connectedDevice.type === "APPLE_HEALTH") {
-          return await healthKitService.getHealthDataForDate(date);
-        } else {
-          // Try to get data from other connected devices
-          const tokens = await deviceConnectionService.getDeviceTokens(
-            connectedDevice.type
-          );
-          if (tokens.accessToken) {
-            switch (connectedDevice.type) {
-              case "GOOGLE_FIT":
-                return await deviceConnectionService.fetchGoogleFitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "FITBIT":
-                return await deviceConnectionService.fetchFitbitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "WHOOP":
-                return await deviceConnectionService.fetchWhoopData(
-                  tokens.accessToken,
-                  date
-                );
-              case "POLAR":
-                return await deviceConnectionService.fetchPolarData(
-                  tokens.accessToken,
-                  date
-                );
-            }
-          }
-        }
+      // Only Apple Health can be read on the device; other providers are
+      // synced by the server
+      if (connectedDevice?.type === "APPLE_HEALTH") {
+        return await healthKitService.getHealthDataForDate(date);
       }
 
       console.log("⚠️ No connected devices found");
@@ -391,16 +300,7 @@ class DeviceAPIService {
     try {
       console.log("🔌 Disconnecting device:", deviceId);
 
-      // Get device info
-      const devices = await this.getConnectedDevices();
-      const device = devices.find((d) => d.id === deviceId);
-
-      if (device) {
-        // Clear local tokens
-        await deviceConnectionService.clearDeviceTokens(device.type);
-      }
-
-      // Disconnect from server
+      // Disconnect from server, which also drops the device's tokens
       try {
         await deviceAxios.delete(`/devices/${deviceId}`);
       } catch (serverError) {
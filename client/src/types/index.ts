@@ -96,13 +96,44 @@ export interface User {
   active_menu_id?: string;
 }
 
+// How a meal was logged
+export type MealSource = "PHOTO" | "BARCODE" | "MANUAL" | "RECIPE" | "PLAN";
+
+// Which meal of the day a meal was, in eating order
+export type MealTiming =
+  | "BREAKFAST"
+  | "MORNING_SNACK"
+  | "LUNCH"
+  | "AFTERNOON_SNACK"
+  | "DINNER"
+  | "SNACK";
+
+// Body of POST /nutrition/meals/manual: either macros or a description
+export interface ManualMealEntry {
+  meal_name?: string;
+  description?: string;
+  calories?: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+  serving_size_g?: number;
+  meal_timing?: MealTiming;
+  language?: "english" | "hebrew";
+  date?: string;
+}
+
 export interface Meal {
   // Primary Prisma fields
   meal_id: number;
   user_id: string;
-  image_url?: string;
+  image_url?: string | null;
   upload_time: string;
   analysis_status: "PENDING" | "COMPLETED";
+  source?: MealSource;
+  meal_timing?: MealTiming | null;
   meal_name: string | null;
   calories: number | null;
   protein_g: number | null;
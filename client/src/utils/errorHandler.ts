@@ -69,6 +69,9 @@ export class ErrorHandler {
         case 404:
           return t('common.not_found');
         case 429:
+          if (error.response?.data?.code === 'AI_QUOTA_EXCEEDED') {
+            return t('common.quota_exceeded');
+          }
           return t('common.rate_limit');
         case 500:
         case 502:
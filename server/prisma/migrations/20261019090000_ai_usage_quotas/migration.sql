@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."AiFeature" AS ENUM ('MEAL_ANALYSIS', 'CHAT', 'MENU_GENERATION', 'PRODUCT_SCAN');
+
+-- CreateTable
+CREATE TABLE "public"."ai_usage" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "feature" "public"."AiFeature" NOT NULL,
+    "date" DATE NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_user_id_date_idx" ON "public"."ai_usage"("user_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_usage_user_id_feature_date_key" ON "public"."ai_usage"("user_id", "feature", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_usage" ADD CONSTRAINT "ai_usage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentStatus" AS ENUM ('SUCCEEDED', 'FAILED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "public"."CheckoutSessionStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."SubscriptionPayment" ADD COLUMN     "checkout_session_id" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'ILS',
+ADD COLUMN     "period_end" TIMESTAMP(3),
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "status" "public"."PaymentStatus" NOT NULL DEFAULT 'SUCCEEDED';
+
+-- CreateTable
+CREATE TABLE "public"."checkout_sessions" (
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "plan_type" "public"."SubscriptionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_session_id" TEXT,
+    "checkout_url" TEXT,
+    "status" "public"."CheckoutSessionStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "checkout_sessions_pkey" PRIMARY KEY ("session_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_payment_id_key" ON "public"."SubscriptionPayment"("provider_payment_id");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_user_id_payment_date_idx" ON "public"."SubscriptionPayment"("user_id", "payment_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_sessions_provider_session_id_key" ON "public"."checkout_sessions"("provider_session_id");
+
+-- CreateIndex
+CREATE INDEX "checkout_sessions_user_id_created_at_idx" ON "public"."checkout_sessions"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."SubscriptionPayment" ADD CONSTRAINT "SubscriptionPayment_checkout_session_id_fkey" FOREIGN KEY ("checkout_session_id") REFERENCES "public"."checkout_sessions"("session_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."checkout_sessions" ADD CONSTRAINT "checkout_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ADD COLUMN     "serving_size" TEXT,
+ADD COLUMN     "servings_per_container" DOUBLE PRECISION,
+ADD COLUMN     "source" TEXT,
+ADD COLUMN     "source_fetched_at" TIMESTAMP(3),
+ADD COLUMN     "source_reference" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."catalog_products" (
+    "barcode" TEXT NOT NULL,
+    "product_name" TEXT NOT NULL,
+    "brand" TEXT,
+    "category" TEXT NOT NULL,
+    "nutrition_per_100g" JSONB NOT NULL,
+    "ingredients" JSONB NOT NULL,
+    "allergens" JSONB NOT NULL,
+    "labels" JSONB NOT NULL,
+    "health_score" INTEGER,
+    "image_url" TEXT,
+    "serving_size" TEXT,
+    "servings_per_container" DOUBLE PRECISION,
+    "catalog" TEXT NOT NULL,
+    "imported_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "catalog_products_pkey" PRIMARY KEY ("barcode")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_lookup_misses" (
+    "id" TEXT NOT NULL,
+    "barcode" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "last_checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_lookup_misses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "catalog_products_catalog_idx" ON "public"."catalog_products"("catalog");
+
+-- CreateIndex
+CREATE INDEX "product_lookup_misses_expires_at_idx" ON "public"."product_lookup_misses"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_lookup_misses_barcode_source_key" ON "public"."product_lookup_misses"("barcode", "source");
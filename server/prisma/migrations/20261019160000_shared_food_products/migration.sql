@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "public"."food_product_overrides" (
+    "override_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "product_name" TEXT,
+    "nutrition_per_100g" JSONB,
+    "serving_size" TEXT,
+    "servings_per_container" DOUBLE PRECISION,
+    "allergens" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "food_product_overrides_pkey" PRIMARY KEY ("override_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."food_product_scans" (
+    "scan_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "scan_method" TEXT NOT NULL,
+    "source" TEXT,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_product_scans_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- Keep the existing per-user ownership as each user's first scan
+INSERT INTO "public"."food_product_scans" ("scan_id", "user_id", "product_id", "scan_method", "source", "scanned_at")
+SELECT 'migrated_' || "product_id", "user_id", "product_id",
+       CASE WHEN "barcode" LIKE 'img\_%' THEN 'image' ELSE 'barcode' END,
+       "source", "created_at"
+FROM "public"."FoodProduct";
+
+-- DropForeignKey
+ALTER TABLE "public"."FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- DropIndex
+DROP INDEX "public"."FoodProduct_user_id_idx";
+
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" DROP COLUMN "user_id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_product_overrides_user_id_product_id_key" ON "public"."food_product_overrides"("user_id", "product_id");
+
+-- CreateIndex
+CREATE INDEX "food_product_scans_user_id_scanned_at_idx" ON "public"."food_product_scans"("user_id", "scanned_at");
+
+-- CreateIndex
+CREATE INDEX "food_product_scans_product_id_idx" ON "public"."food_product_scans"("product_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_overrides" ADD CONSTRAINT "food_product_overrides_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_overrides" ADD CONSTRAINT "food_product_overrides_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_scans" ADD CONSTRAINT "food_product_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_scans" ADD CONSTRAINT "food_product_scans_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "public"."recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "instructions" TEXT,
+    "servings" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "total_nutrition" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."recipe_ingredients" (
+    "ingredient_id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "product_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity_g" DOUBLE PRECISION NOT NULL,
+    "nutrition_per_100g" JSONB NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateIndex
+CREATE INDEX "recipes_user_id_idx" ON "public"."recipes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_recipe_id_idx" ON "public"."recipe_ingredients"("recipe_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE SET NULL ON UPDATE CASCADE;
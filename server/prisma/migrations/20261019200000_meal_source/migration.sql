@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "public"."MealSource" AS ENUM ('PHOTO', 'BARCODE', 'MANUAL', 'RECIPE');
+
+-- AlterTable
+ALTER TABLE "public"."Meal" ALTER COLUMN "image_url" DROP NOT NULL,
+ADD COLUMN     "source" "public"."MealSource" NOT NULL DEFAULT 'PHOTO';
+
+-- Backfill meals logged from scanned products and recipes
+UPDATE "public"."Meal"
+SET "source" = 'BARCODE'
+WHERE jsonb_typeof("ingredients") = 'array'
+  AND "ingredients" @> '[{"source": "barcode"}]'::jsonb;
+
+UPDATE "public"."Meal"
+SET "source" = 'RECIPE'
+WHERE "additives_json" ? 'recipe_id';
+
+-- Meals without a photo stored an empty string
+UPDATE "public"."Meal" SET "image_url" = NULL WHERE "image_url" = '';
+
+-- CreateIndex
+CREATE INDEX "Meal_user_id_source_idx" ON "public"."Meal"("user_id", "source");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "meal_timing" "public"."MealTiming";
+
+-- Classify existing meals by the local time they were logged, using the same
+-- default windows and default time zone as inferMealTiming (no user has
+-- reported a zone yet)
+UPDATE "public"."Meal" AS "meal"
+SET "meal_timing" = (
+  CASE
+    WHEN "local"."minutes" < 300 THEN 'SNACK'
+    WHEN "local"."minutes" < 630 THEN 'BREAKFAST'
+    WHEN "local"."minutes" < 690 THEN 'MORNING_SNACK'
+    WHEN "local"."minutes" < 900 THEN 'LUNCH'
+    WHEN "local"."minutes" < 1050 THEN 'AFTERNOON_SNACK'
+    WHEN "local"."minutes" < 1290 THEN 'DINNER'
+    ELSE 'SNACK'
+  END
+)::"public"."MealTiming"
+FROM (
+  SELECT "meal_id", EXTRACT(HOUR FROM "time") * 60 + EXTRACT(MINUTE FROM "time") AS "minutes"
+  FROM (
+    SELECT "meal_id", ("upload_time" AT TIME ZONE 'UTC') AT TIME ZONE 'Asia/Jerusalem' AS "time"
+    FROM "public"."Meal"
+  ) AS "times"
+) AS "local"
+WHERE "local"."meal_id" = "meal"."meal_id";
+
+-- CreateIndex
+CREATE INDEX "Meal_user_id_meal_timing_idx" ON "public"."Meal"("user_id", "meal_timing");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."shopping_lists" ADD COLUMN     "sources_json" JSONB;
+
+-- Record the plan existing lists were generated from
+UPDATE "public"."shopping_lists"
+SET "sources_json" = jsonb_build_array(jsonb_build_object('type', 'plan', 'id', "plan_id"))
+WHERE "plan_id" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."pantry_items" (
+    "pantry_item_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ingredient_key" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "category" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pantry_items_pkey" PRIMARY KEY ("pantry_item_id")
+);
+
+-- CreateIndex
+CREATE INDEX "pantry_items_user_id_idx" ON "public"."pantry_items"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pantry_items_user_id_ingredient_key_unit_key" ON "public"."pantry_items"("user_id", "ingredient_key", "unit");
+
+-- AddForeignKey
+ALTER TABLE "public"."pantry_items" ADD CONSTRAINT "pantry_items_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."MealPlanSlotStatus" AS ENUM ('EATEN', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "public"."meal_plan_slot_logs" (
+    "log_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" "public"."MealPlanSlotStatus" NOT NULL,
+    "meal_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meal_plan_slot_logs_pkey" PRIMARY KEY ("log_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_plan_slot_logs_plan_id_date_idx" ON "public"."meal_plan_slot_logs"("plan_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meal_plan_slot_logs_schedule_id_date_key" ON "public"."meal_plan_slot_logs"("schedule_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_plan_slot_logs" ADD CONSTRAINT "meal_plan_slot_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_plan_slot_logs" ADD CONSTRAINT "meal_plan_slot_logs_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "public"."user_meal_plans"("plan_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_plan_slot_logs" ADD CONSTRAINT "meal_plan_slot_logs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "public"."meal_plan_schedules"("schedule_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_plan_slot_logs" ADD CONSTRAINT "meal_plan_slot_logs_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
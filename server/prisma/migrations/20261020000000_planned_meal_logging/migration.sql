@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."MealSource" ADD VALUE 'PLAN';
+
+-- AlterTable
+ALTER TABLE "public"."Meal" ADD COLUMN     "recommended_meal_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."Meal" ADD CONSTRAINT "Meal_recommended_meal_id_fkey" FOREIGN KEY ("recommended_meal_id") REFERENCES "public"."recommended_meals"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."recommended_menus" ADD COLUMN     "generation_seed" TEXT;
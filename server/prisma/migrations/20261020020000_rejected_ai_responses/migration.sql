@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."rejected_ai_responses" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "kind" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "payload" TEXT NOT NULL,
+    "issues" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rejected_ai_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rejected_ai_responses_kind_created_at_idx" ON "public"."rejected_ai_responses"("kind", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."rejected_ai_responses" ADD CONSTRAINT "rejected_ai_responses_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
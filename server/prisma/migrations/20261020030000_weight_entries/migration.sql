@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."WeightEntrySource" AS ENUM ('MANUAL', 'DEVICE');
+
+-- CreateTable
+CREATE TABLE "public"."weight_entries" (
+    "weight_entry_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT,
+    "source" "public"."WeightEntrySource" NOT NULL DEFAULT 'MANUAL',
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "weight_kg" DOUBLE PRECISION,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "waist_cm" DOUBLE PRECISION,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weight_entries_pkey" PRIMARY KEY ("weight_entry_id")
+);
+
+-- CreateIndex
+CREATE INDEX "weight_entries_user_id_measured_at_idx" ON "public"."weight_entries"("user_id", "measured_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weight_entries_user_id_device_id_measured_at_key" ON "public"."weight_entries"("user_id", "device_id", "measured_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE SET NULL ON UPDATE CASCADE;
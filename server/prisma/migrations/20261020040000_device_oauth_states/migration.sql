@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."device_oauth_states" (
+    "state" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_type" "public"."DeviceType" NOT NULL,
+    "code_verifier_encrypted" TEXT NOT NULL,
+    "return_url" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_oauth_states_pkey" PRIMARY KEY ("state")
+);
+
+-- CreateIndex
+CREATE INDEX "device_oauth_states_expires_at_idx" ON "public"."device_oauth_states"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."device_oauth_states" ADD CONSTRAINT "device_oauth_states_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."connected_devices" ADD COLUMN     "last_sync_error" TEXT,
+ADD COLUMN     "next_sync_at" TIMESTAMP(3),
+ADD COLUMN     "sync_cursor" JSONB,
+ADD COLUMN     "sync_failure_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "connected_devices_connection_status_next_sync_at_idx" ON "public"."connected_devices"("connection_status", "next_sync_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."daily_activity_summary" ADD COLUMN     "recorded_at" TIMESTAMP(3);
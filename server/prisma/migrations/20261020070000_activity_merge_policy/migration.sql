@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "activity_source_priority" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."daily_activity_summary" ADD COLUMN     "workouts" JSONB;
+
+-- Every device used to be created as primary; keep the oldest one per user
+UPDATE "public"."connected_devices" AS "device" SET "is_primary_device" = false
+WHERE "device"."is_primary_device" = true AND EXISTS (
+    SELECT 1 FROM "public"."connected_devices" AS "older"
+    WHERE "older"."user_id" = "device"."user_id"
+    AND "older"."is_primary_device" = true
+    AND "older"."created_at" < "device"."created_at"
+);
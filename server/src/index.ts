@@ -21,7 +21,12 @@ import { healthRoutes } from "./routes/health";
 import { CronJobService } from "./services/cronJobs";
 import "./services/cron";
 import { dailyGoalsRoutes } from "./routes/dailyGoal";
+import { subscriptionRoutes } from "./routes/subscriptions";
+import { recipeRoutes } from "./routes/recipes";
+import { shoppingListRoutes } from "./routes/shoppingLists";
+import { bodyRoutes } from "./routes/body";
 import achievementsRouter from "./routes/achievements";
+import { getAIProvider } from "./services/ai";
 
 // Load environment variables
 dotenv.config();
@@ -89,12 +94,17 @@ const corsOptions = {
   ].filter(Boolean) as string[],
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+  allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Timezone"],
 };
 
 app.use(cors(corsOptions));
 // Body parsing middleware
 app.use(cookieParser());
+// Payment webhooks are verified against the raw body, so keep it unparsed
+app.use(
+  "/api/subscriptions/webhook",
+  express.raw({ type: "*/*", limit: "1mb" })
+);
 app.use(
   express.json({
     limit: "10mb",
@@ -118,6 +128,7 @@ app.get("/health", (req, res) => {
     version: process.env.npm_package_version || "unknown",
     uptime: process.uptime(),
     openai_enabled: !!config.openaiApiKey,
+    ai_provider: getAIProvider().name,
   });
 });
 
@@ -141,11 +152,15 @@ apiRouter.use("/questionnaire", questionnaireRoutes);
 apiRouter.use("/nutrition", nutritionRoutes);
 apiRouter.use("/recommended-menus", recommendedMenuRoutes);
 apiRouter.use("/user", userRoutes);
+apiRouter.use("/subscriptions", subscriptionRoutes);
 apiRouter.use("/devices", deviceRoutes);
 apiRouter.use("/calendar", calendarRoutes);
 apiRouter.use("/meal-plans", mealPlansRoutes);
 apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
+apiRouter.use("/recipes", recipeRoutes);
+apiRouter.use("/shopping-lists", shoppingListRoutes);
+apiRouter.use("/body", bodyRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", dailyGoalsRoutes);
 apiRouter.use("/", achievementsRouter);
@@ -172,11 +187,14 @@ const logStartup = () => {
   log.info(`Port: ${config.port}`);
   log.info(`API Base URL: ${config.apiBaseUrl || "Not set"}`);
 
-  if (config.openaiApiKey) {
-    log.success("OpenAI API key found - AI features enabled");
+  const aiProvider = getAIProvider();
+  if (!aiProvider.offline) {
+    log.success(`AI provider "${aiProvider.name}" enabled`);
   } else {
-    log.warn("No OpenAI API key found. AI features will use mock data.");
-    log.info("To enable AI features, set OPENAI_API_KEY in your .env file");
+    log.warn("AI provider is offline. AI features will use fixture data.");
+    log.info(
+      "To enable AI features, set OPENAI_API_KEY, or AI_PROVIDER=local with AI_LOCAL_BASE_URL, in your .env file"
+    );
   }
 };
 
@@ -200,9 +218,9 @@ const server = app.listen(config.port, "0.0.0.0", () => {
   log.info(`Test endpoint: http://${config.serverIp}:${config.port}/test`);
   log.info(`Health check: http://${config.serverIp}:${config.port}/health`);
 
-  if (!config.openaiApiKey) {
+  if (getAIProvider().offline) {
     log.warn(
-      "Note: AI features are using mock data. Add OPENAI_API_KEY to enable real AI analysis."
+      "Note: AI features are using fixture data. Configure an AI provider to enable real AI analysis."
     );
   }
   // Initialize cron jobs
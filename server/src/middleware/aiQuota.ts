@@ -0,0 +1,70 @@
+import { Response, NextFunction } from "express";
+import { AiFeature } from "@prisma/client";
+import { AuthRequest } from "./auth";
+import { AIQuotaService } from "../services/aiQuota";
+
+// Must run after authenticateToken. Reserves one request from the user's
+// daily quota for the feature and gives it back if the handler fails.
+export function requireAIQuota(feature: AiFeature) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    try {
+      const quota = await AIQuotaService.consume(
+        userId,
+        req.user.subscription_type,
+        feature
+      );
+
+      res.setHeader("X-AI-Quota-Limit", quota.limit);
+      res.setHeader("X-AI-Quota-Remaining", quota.remaining);
+      res.setHeader("X-AI-Quota-Reset", quota.resetAt.toISOString());
+
+      if (!quota.allowed) {
+        const retryAfterSeconds = Math.ceil(
+          (quota.resetAt.getTime() - Date.now()) / 1000
+        );
+        console.log(
+          `🚫 AI quota exceeded for user ${userId}: ${feature} ${quota.used}/${quota.limit}`
+        );
+
+        res.setHeader("Retry-After", retryAfterSeconds);
+        return res.status(429).json({
+          success: false,
+          error: "Daily AI quota exceeded for this feature",
+          code: "AI_QUOTA_EXCEEDED",
+          quota: {
+            feature,
+            plan: quota.plan,
+            limit: quota.limit,
+            used: quota.used,
+            remaining: 0,
+            resetAt: quota.resetAt.toISOString(),
+            retryAfterSeconds,
+          },
+        });
+      }
+
+      res.on("finish", () => {
+        if (res.statusCode >= 400) {
+          AIQuotaService.refund(userId, feature, quota.windowStart);
+        }
+      });
+
+      next();
+    } catch (error) {
+      console.error("💥 AI quota check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check AI quota",
+      });
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth";
+import { isTimeZone } from "../utils/timeZone";
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -49,6 +50,12 @@ export async function authenticateToken(
     const user = await AuthService.verifyToken(token);
     console.log("✅ Token verified for user:", user.user_id);
 
+    const timeZone = req.headers["x-timezone"];
+    if (isTimeZone(timeZone) && timeZone !== user.timezone) {
+      await AuthService.updateTimeZone(user.user_id, timeZone);
+      user.timezone = timeZone;
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -0,0 +1,99 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { BodyEntryError, BodyService } from "../services/body";
+import { StatisticsService } from "../services/statistics";
+import {
+  weightEntryQuerySchema,
+  weightEntrySchema,
+  weightProgressQuerySchema,
+} from "../types/body";
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof BodyEntryError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+router.get("/entries", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const query = weightEntryQuerySchema.parse(req.query);
+    const entries = await BodyService.getEntries(req.user.user_id, query);
+    res.json({ success: true, data: entries });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch body measurements");
+  }
+});
+
+router.post("/entries", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = weightEntrySchema.parse(req.body);
+    const entry = await BodyService.createEntry(req.user.user_id, input);
+    res.status(201).json({ success: true, data: entry });
+  } catch (error) {
+    handleError(res, error, "Failed to log body measurement");
+  }
+});
+
+router.put(
+  "/entries/:entryId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = weightEntrySchema.parse(req.body);
+      const entry = await BodyService.updateEntry(
+        req.user.user_id,
+        req.params.entryId,
+        input
+      );
+      res.json({ success: true, data: entry });
+    } catch (error) {
+      handleError(res, error, "Failed to update body measurement");
+    }
+  }
+);
+
+router.delete(
+  "/entries/:entryId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      await BodyService.deleteEntry(req.user.user_id, req.params.entryId);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, "Failed to delete body measurement");
+    }
+  }
+);
+
+// Smoothed weight trend, TDEE and the projected date for the target weight
+router.get("/progress", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { days } = weightProgressQuerySchema.parse(req.query);
+    const progress = await StatisticsService.getWeightProgress(
+      req.user.user_id,
+      days
+    );
+    res.json({ success: true, data: progress });
+  } catch (error) {
+    handleError(res, error, "Failed to calculate weight progress");
+  }
+});
+
+export { router as bodyRoutes };
@@ -1,12 +1,96 @@
-import { Router } from "express";
-import { DeviceService } from "../services/devices";
+import { Router, Response } from "express";
+import { z } from "zod";
+import { DeviceError, DeviceService } from "../services/devices";
+import {
+  ActivityMergeService,
+  DEFAULT_SOURCE_PRIORITY,
+} from "../services/activityMerge";
+import {
+  DeviceOAuthError,
+  DeviceOAuthService,
+  isOAuthDeviceType,
+} from "../services/deviceOAuth";
+import { DeviceSyncError, DeviceSyncService } from "../services/deviceSync";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  activitySourcePrioritySchema,
+  deviceSyncBodySchema,
+  oauthAuthorizeQuerySchema,
+  oauthCallbackQuerySchema,
+} from "../types/devices";
 
 const router = Router();
 
-// Apply auth middleware to all routes
+function handleDeviceError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (
+    error instanceof DeviceError ||
+    error instanceof DeviceOAuthError ||
+    error instanceof DeviceSyncError
+  ) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+// Provider redirect after the consent page. The browser arrives here without
+// the app's auth header, so the user is identified by the OAuth state.
+router.get("/oauth/callback", async (req, res) => {
+  try {
+    const query = oauthCallbackQuerySchema.parse(req.query);
+    const result = await DeviceOAuthService.handleCallback(query);
+
+    if (result.returnUrl) {
+      const returnUrl = new URL(result.returnUrl);
+      returnUrl.searchParams.set("status", result.error ? "error" : "success");
+      returnUrl.searchParams.set("deviceType", result.deviceType);
+      if (result.error) returnUrl.searchParams.set("error", result.error);
+      return res.redirect(returnUrl.toString());
+    }
+
+    if (result.error) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+    res.json({
+      success: true,
+      data: { deviceType: result.deviceType, deviceId: result.deviceId },
+    });
+  } catch (error) {
+    handleDeviceError(res, error, "Failed to complete device authorization");
+  }
+});
+
+// Apply auth middleware to all routes below
 router.use(authenticateToken);
 
+// Start the OAuth flow; the app opens the returned URL in a browser
+router.get("/oauth/:deviceType/authorize", async (req: AuthRequest, res) => {
+  try {
+    const { returnUrl } = oauthAuthorizeQuerySchema.parse(req.query);
+    const authorization = await DeviceOAuthService.createAuthorization(
+      req.user.user_id,
+      req.params.deviceType,
+      returnUrl
+    );
+
+    res.json({ success: true, data: authorization });
+  } catch (error) {
+    handleDeviceError(res, error, "Failed to start device authorization");
+  }
+});
+
 // Get user's connected devices
 router.get("/", async (req: AuthRequest, res) => {
   try {
@@ -29,6 +113,42 @@ router.get("/", async (req: AuthRequest, res) => {
   }
 });
 
+// Per-metric device order used when activity from several devices is merged
+router.get("/merge-policy", async (req: AuthRequest, res) => {
+  try {
+    const priority = await ActivityMergeService.getSourcePriority(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: { priority, defaults: DEFAULT_SOURCE_PRIORITY },
+    });
+  } catch (error) {
+    handleDeviceError(res, error, "Failed to fetch merge policy");
+  }
+});
+
+router.put("/merge-policy", async (req: AuthRequest, res) => {
+  try {
+    const priority = activitySourcePrioritySchema.parse(req.body?.priority);
+
+    console.log("🔀 Update merge policy request:", priority);
+
+    const saved = await ActivityMergeService.setSourcePriority(
+      req.user.user_id,
+      priority
+    );
+
+    res.json({
+      success: true,
+      data: { priority: saved, defaults: DEFAULT_SOURCE_PRIORITY },
+    });
+  } catch (error) {
+    handleDeviceError(res, error, "Failed to update merge policy");
+  }
+});
+
 // Connect a new device
 router.post("/connect", async (req: AuthRequest, res) => {
   try {
@@ -41,6 +161,13 @@ router.post("/connect", async (req: AuthRequest, res) => {
       });
     }
 
+    if (isOAuthDeviceType(deviceType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Connect ${deviceType} through /devices/oauth/${deviceType}/authorize`,
+      });
+    }
+
     console.log("🔗 Connect device request:", { deviceType, deviceName });
 
     const device = await DeviceService.connectDevice(
@@ -80,42 +207,68 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
       message: "Device disconnected successfully",
     });
   } catch (error) {
-    console.error("💥 Disconnect device error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to disconnect device";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+    handleDeviceError(res, error, "Failed to disconnect device");
   }
 });
 
-// Sync device data
-router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
+// Make a device the preferred source for merged activity
+router.put("/:deviceId/primary", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
 
-    console.log("🔄 Sync device data request:", deviceId);
+    console.log("⭐ Set primary device request:", deviceId);
 
-    const result = await DeviceService.syncDeviceData(
+    const device = await DeviceService.setPrimaryDevice(
       req.user.user_id,
-      deviceId,
-      activityData
+      deviceId
     );
 
     res.json({
       success: true,
-      data: result,
+      data: device,
     });
   } catch (error) {
-    console.error("💥 Sync device error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to sync device";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+    handleDeviceError(res, error, "Failed to set primary device");
+  }
+});
+
+// Sync device data. `records` (or the older single-day `activityData`) are
+// saved day by day; without them the server pulls the data from the provider
+// right away instead of waiting for the scheduled sync.
+router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+    const body = deviceSyncBodySchema.parse(req.body || {});
+
+    console.log("🔄 Sync device data request:", deviceId);
+
+    if (body.records || body.activityData) {
+      const records = body.records || [
+        {
+          ...body.activityData,
+          date:
+            body.activityData?.date || new Date().toISOString().split("T")[0],
+        },
+      ];
+      const result = await DeviceSyncService.ingestRecords(
+        req.user.user_id,
+        deviceId,
+        records
+      );
+      return res.json({ success: true, data: result });
+    }
+
+    const outcome = await DeviceSyncService.syncNow(
+      req.user.user_id,
+      deviceId,
+      body.backfillDays
+    );
+    if (outcome.status === "failed") {
+      return res.status(502).json({ success: false, error: outcome.error });
+    }
+    res.json({ success: true, data: outcome });
+  } catch (error) {
+    handleDeviceError(res, error, "Failed to sync device");
   }
 });
 
@@ -1,7 +1,10 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { FoodScannerService } from "../services/foodScanner";
 import { z } from "zod";
+import { MealTiming } from "@prisma/client";
+import { PortionUnitError } from "../utils/portions";
 
 const router = Router();
 
@@ -19,30 +22,105 @@ const imageSchema = z
     message: "Either image or imageBase64 is required",
   });
 
-const addToMealSchema = z.object({
-  productData: z.object({
-    name: z.string(),
-    brand: z.string().optional(),
-    category: z.string(),
-    nutrition_per_100g: z.object({
-      calories: z.number(),
-      protein: z.number(),
-      carbs: z.number(),
-      fat: z.number(),
-      fiber: z.number().optional(),
-      sugar: z.number().optional(),
-      sodium: z.number().optional(),
-    }),
-    ingredients: z.array(z.string()),
-    allergens: z.array(z.string()),
-    labels: z.array(z.string()),
-    health_score: z.number().optional(),
-    barcode: z.string().optional(),
+const optionalNutrient = z.number().min(0).optional();
+
+const productDataSchema = z.object({
+  name: z.string(),
+  brand: z.string().optional(),
+  category: z.string(),
+  nutrition_per_100g: z.object({
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    fiber: optionalNutrient,
+    sugar: optionalNutrient,
+    sodium: optionalNutrient,
+    saturated_fat: optionalNutrient,
+    trans_fat: optionalNutrient,
+    cholesterol: optionalNutrient,
+    potassium: optionalNutrient,
+    calcium: optionalNutrient,
+    iron: optionalNutrient,
+    vitamin_c: optionalNutrient,
+    vitamin_d: optionalNutrient,
   }),
-  quantity: z.number().min(1, "Quantity must be at least 1 gram"),
-  mealTiming: z.string().optional().default("SNACK"),
+  ingredients: z.array(z.string()),
+  allergens: z.array(z.string()),
+  labels: z.array(z.string()),
+  health_score: z.number().optional(),
+  barcode: z.string().optional(),
+  product_id: z.number().int().optional(),
+  image_url: z.string().optional(),
+  serving_size: z.string().optional(),
+  servings_per_container: z.number().positive().optional(),
+});
+
+const mealItemSchema = z.object({
+  productData: productDataSchema,
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unit: z.enum(["g", "ml", "serving", "package"]).default("g"),
 });
 
+// Accepts a single product ({ productData, quantity, unit }) or several
+// products combined into one meal ({ items: [...] })
+const addToMealSchema = z.preprocess(
+  (body: any) =>
+    body && !body.items && body.productData
+      ? {
+          items: [
+            {
+              productData: body.productData,
+              quantity: body.quantity,
+              unit: body.unit,
+            },
+          ],
+          mealName: body.mealName,
+          mealTiming: body.mealTiming,
+        }
+      : body,
+  z.object({
+    items: z.array(mealItemSchema).min(1, "At least one product is required"),
+    mealName: z.string().trim().min(1).optional(),
+    // Inferred from the time of day when omitted
+    mealTiming: z.preprocess(
+      (value) => (typeof value === "string" ? value.toUpperCase() : value),
+      z.nativeEnum(MealTiming).optional()
+    ),
+  })
+);
+
+const productOverrideSchema = z
+  .object({
+    product_name: z.string().trim().min(1).optional(),
+    nutrition_per_100g: z
+      .object({
+        calories: z.number().min(0),
+        protein: z.number().min(0),
+        carbs: z.number().min(0),
+        fat: z.number().min(0),
+        fiber: z.number().min(0),
+        sugar: z.number().min(0),
+        sodium: z.number().min(0),
+        saturated_fat: z.number().min(0),
+        trans_fat: z.number().min(0),
+        cholesterol: z.number().min(0),
+        potassium: z.number().min(0),
+        calcium: z.number().min(0),
+        iron: z.number().min(0),
+        vitamin_c: z.number().min(0),
+        vitamin_d: z.number().min(0),
+      })
+      .partial()
+      .optional(),
+    serving_size: z.string().trim().min(1).optional(),
+    servings_per_container: z.number().positive().optional(),
+    allergens: z.array(z.string().trim().min(1)).optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "At least one field must be corrected",
+  });
+
 // Scan barcode endpoint
 router.post(
   "/barcode",
@@ -91,6 +169,7 @@ router.post(
 router.post(
   "/image",
   authenticateToken,
+  requireAIQuota("PRODUCT_SCAN"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -160,13 +239,15 @@ router.post(
         });
       }
 
-      const { productData, quantity, mealTiming } = validationResult.data;
+      const { items, mealName, mealTiming } = validationResult.data;
 
-      const meal = await FoodScannerService.addProductToMealLog(
+      const meal = await FoodScannerService.addProductsToMealLog(
         userId,
-        productData,
-        quantity,
-        mealTiming
+        items.map((item) => ({
+          product: item.productData,
+          portion: { amount: item.quantity, unit: item.unit },
+        })),
+        { mealName, mealTiming }
       );
 
       res.json({
@@ -174,6 +255,14 @@ router.post(
         data: meal,
       });
     } catch (error) {
+      // The product lacks the serving data needed for the requested unit
+      if (error instanceof PortionUnitError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
       console.error("❌ Add to meal error:", error);
       res.status(500).json({
         success: false,
@@ -184,6 +273,130 @@ router.post(
   }
 );
 
+// Get a product with the user's corrections applied
+router.get(
+  "/products/:barcode",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const product = await FoodScannerService.getProductForUser(
+        req.params.barcode,
+        userId
+      );
+
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: "Product not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      console.error("❌ Get product error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get product",
+      });
+    }
+  }
+);
+
+// Save the user's own corrections to a product without changing it for others
+router.put(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = productOverrideSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid product correction",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await FoodScannerService.saveUserOverride(
+        userId,
+        req.params.barcode,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Product not found") {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error("❌ Save product override error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to save product correction",
+      });
+    }
+  }
+);
+
+// Drop the user's corrections and go back to the shared product data
+router.delete(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const removed = await FoodScannerService.deleteUserOverride(
+        userId,
+        req.params.barcode
+      );
+
+      res.json({
+        success: true,
+        data: { removed },
+      });
+    } catch (error) {
+      console.error("❌ Delete product override error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to remove product correction",
+      });
+    }
+  }
+);
+
 // Get scan history
 router.get(
   "/history",
@@ -1,11 +1,39 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
-import { MealPlanService } from "../services/mealPlans";
+import { MealPlanError, MealPlanService } from "../services/mealPlans";
 import { MealTiming } from "@prisma/client";
+import { z } from "zod";
+import {
+  adherenceQuerySchema,
+  clearSlotConfirmationSchema,
+  confirmSlotSchema,
+  eatPlannedMealSchema,
+} from "../types/mealPlans";
 
 const router = Router();
 
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof MealPlanError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
 // Get user's meal plans (for recommended menus tab)
 router.get("/recommended", authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -115,6 +143,7 @@ router.get(
 router.post(
   "/recommended/generate",
   authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -368,6 +397,8 @@ router.get("/current", authenticateToken, async (req: AuthRequest, res) => {
 
           weeklyPlan[dayName][timing].push({
             template_id: schedule.template.template_id,
+            schedule_id: schedule.schedule_id,
+            portion_multiplier: schedule.portion_multiplier,
             name: schedule.template.name,
             description: schedule.template.description,
             meal_timing: timing,
@@ -1062,8 +1093,12 @@ router.post("/:planId/complete", authenticateToken, async (req, res) => {
     res.json({
       success: true,
       message: result.message,
+      summary: result.summary,
     });
   } catch (error) {
+    if (error instanceof MealPlanError) {
+      return handleError(res, error, "Failed to complete meal plan");
+    }
     console.error("💥 Error completing meal plan:", error);
     res.status(500).json({
       success: false,
@@ -1073,73 +1108,118 @@ router.post("/:planId/complete", authenticateToken, async (req, res) => {
   }
 });
 
-// Get meal plan progress
-router.get("/:planId/progress", authenticateToken, async (req, res) => {
-  try {
-    const user_id = req.user?.user_id;
-    if (!user_id) {
-      return res.status(401).json({
-        success: false,
-        error: "User not authenticated",
+// Get meal plan progress: calendar position plus adherence to what was
+// actually eaten (optional ?from=&to= as YYYY-MM-DD)
+router.get(
+  "/:planId/progress",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { planId } = req.params;
+      const range = adherenceQuerySchema.parse(req.query);
+      const adherence = await MealPlanService.getAdherence(
+        req.user.user_id,
+        planId,
+        range
+      );
+      const plan = await prisma.userMealPlan.findUniqueOrThrow({
+        where: { plan_id: planId },
       });
-    }
-
-    const { planId } = req.params;
 
-    // Get plan details
-    const plan = await prisma.userMealPlan.findFirst({
-      where: {
-        plan_id: planId,
-        user_id,
-      },
-    });
+      const startDate = plan.start_date || plan.created_at;
+      const currentDate = new Date();
+      const totalDays = plan.rotation_frequency_days || 7;
+      const daysSinceStart = Math.max(
+        0,
+        Math.floor(
+          (currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
+        )
+      );
 
-    if (!plan) {
-      return res.status(404).json({
-        success: false,
-        error: "Plan not found",
+      res.json({
+        success: true,
+        data: {
+          planId,
+          startDate: startDate.toISOString(),
+          currentDate: currentDate.toISOString(),
+          totalDays,
+          daysSinceStart,
+          currentDay: (daysSinceStart % totalDays) + 1,
+          completedCycles: Math.floor(daysSinceStart / totalDays),
+          progressPercentage: Math.round(
+            Math.min(100, (daysSinceStart / totalDays) * 100)
+          ),
+          adherencePercentage: adherence.summary.adherence_percentage,
+          isActive: plan.is_active,
+          isCompleted: !!plan.completed_at,
+          adherence,
+        },
       });
+    } catch (error) {
+      handleError(res, error, "Failed to get plan progress");
     }
+  }
+);
 
-    // Calculate progress based on start date and current date
-    const startDate = plan.start_date || new Date();
-    const currentDate = new Date();
-    const totalDays = plan.rotation_frequency_days || 7;
-
-    const daysSinceStart = Math.floor(
-      (currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
+// Confirm that a scheduled meal was eaten ("I ate this") or skipped on a date
+router.post(
+  "/:planId/schedule/:scheduleId/confirm",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = confirmSlotSchema.parse(req.body);
+      const log = await MealPlanService.confirmSlot(
+        req.user.user_id,
+        req.params.planId,
+        req.params.scheduleId,
+        input
+      );
+      res.json({ success: true, data: log });
+    } catch (error) {
+      handleError(res, error, "Failed to confirm scheduled meal");
+    }
+  }
+);
 
-    const currentDay = (daysSinceStart % totalDays) + 1;
-    const completedCycles = Math.floor(daysSinceStart / totalDays);
-    const progressPercentage = Math.min(
-      100,
-      (daysSinceStart / totalDays) * 100
-    );
+// Log a scheduled meal as eaten from its template, without a photo
+router.post(
+  "/:planId/schedule/:scheduleId/eat",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = eatPlannedMealSchema.parse(req.body);
+      const result = await MealPlanService.logScheduledMeal(
+        req.user.user_id,
+        req.params.planId,
+        req.params.scheduleId,
+        input
+      );
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      handleError(res, error, "Failed to log scheduled meal");
+    }
+  }
+);
 
-    res.json({
-      success: true,
-      data: {
-        planId,
-        startDate: startDate.toISOString(),
-        currentDate: currentDate.toISOString(),
-        totalDays,
-        daysSinceStart,
-        currentDay,
-        completedCycles,
-        progressPercentage: Math.round(progressPercentage),
-        isActive: plan.is_active,
-        isCompleted: !!plan.completed_at,
-      },
-    });
-  } catch (error) {
-    console.error("💥 Error getting plan progress:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to get plan progress",
-    });
+// Remove a confirmation (?date=YYYY-MM-DD) so logged meals decide again
+router.delete(
+  "/:planId/schedule/:scheduleId/confirm",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { date } = clearSlotConfirmationSchema.parse(req.query);
+      await MealPlanService.clearSlotConfirmation(
+        req.user.user_id,
+        req.params.planId,
+        req.params.scheduleId,
+        date
+      );
+      res.json({ success: true, message: "Confirmation removed" });
+    } catch (error) {
+      handleError(res, error, "Failed to remove confirmation");
+    }
   }
-});
+);
 
 // Get today's meals from active plan
 router.get("/today", authenticateToken, async (req, res) => {
@@ -1192,6 +1272,8 @@ router.get("/today", authenticateToken, async (req, res) => {
 
       todayMeals = schedules.map((schedule) => ({
         template_id: schedule.template.template_id,
+        schedule_id: schedule.schedule_id,
+        portion_multiplier: schedule.portion_multiplier,
         name: schedule.template.name,
         description: schedule.template.description,
         meal_timing: schedule.meal_timing,
@@ -1383,6 +1465,8 @@ router.get("/:planId", authenticateToken, async (req, res) => {
 
         weeklyPlan[dayName][timing].push({
           template_id: schedule.template.template_id,
+          schedule_id: schedule.schedule_id,
+          portion_multiplier: schedule.portion_multiplier,
           name: schedule.template.name,
           description: schedule.template.description || "",
           meal_timing: timing,
@@ -1,9 +1,16 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { z } from "zod";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
+import { MealSource } from "@prisma/client";
+import {
+  manualMealSchema,
+  mealAnalysisSchema,
+  mealUpdateSchema,
+} from "../types/nutrition";
 import { NutritionService } from "../services/nutrition";
+import { MEAL_TIMING_ORDER, isMealTiming } from "../utils/mealTiming";
 import { StatisticsService } from "../services/statistics";
 import { AchievementService } from "../services/achievements";
 
@@ -259,169 +266,179 @@ router.get(
 // router.use(authenticateToken); //commented to apply auth each route
 
 // Analyze meal endpoint
-router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("Analyze meal request received");
-    console.log("Request body keys:", Object.keys(req.body));
-    console.log("User ID:", req.user.user_id);
-    console.log("Language:", req.body.language);
-    console.log("Has update text:", !!req.body.updateText);
-    console.log(
-      "Edited ingredients count:",
-      req.body.editedIngredients?.length || 0
-    );
+router.post(
+  "/analyze",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Analyze meal request received");
+      console.log("Request body keys:", Object.keys(req.body));
+      console.log("User ID:", req.user.user_id);
+      console.log("Language:", req.body.language);
+      console.log("Has update text:", !!req.body.updateText);
+      console.log(
+        "Edited ingredients count:",
+        req.body.editedIngredients?.length || 0
+      );
 
-    // Validate request body
-    const validationResult = mealAnalysisSchema.safeParse(req.body);
+      // Validate request body
+      const validationResult = mealAnalysisSchema.safeParse(req.body);
 
-    if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
-      return res.status(400).json({
-        success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
-      });
-    }
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    const {
-      imageBase64,
-      language = "english",
-      date,
-      updateText,
-      editedIngredients = [],
-    } = validationResult.data;
+      const {
+        imageBase64,
+        language = "english",
+        date,
+        updateText,
+        editedIngredients = [],
+      } = validationResult.data;
 
-    if (!imageBase64 || imageBase64.trim() === "") {
-      return res.status(400).json({
-        success: false,
-        error: "Image data is required",
-      });
-    }
+      if (!imageBase64 || imageBase64.trim() === "") {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is required",
+        });
+      }
 
-    // Validate image data
-    let cleanBase64 = imageBase64;
-    if (imageBase64.startsWith("data:image/")) {
-      const commaIndex = imageBase64.indexOf(",");
-      if (commaIndex !== -1) {
-        cleanBase64 = imageBase64.substring(commaIndex + 1);
+      // Validate image data
+      let cleanBase64 = imageBase64;
+      if (imageBase64.startsWith("data:image/")) {
+        const commaIndex = imageBase64.indexOf(",");
+        if (commaIndex !== -1) {
+          cleanBase64 = imageBase64.substring(commaIndex + 1);
+        }
       }
-    }
 
-    // Check if base64 is valid
-    const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-    if (!base64Regex.test(cleanBase64)) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid image data format",
-      });
-    }
+      // Check if base64 is valid
+      const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
+      if (!base64Regex.test(cleanBase64)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid image data format",
+        });
+      }
 
-    if (cleanBase64.length < 1000) {
-      return res.status(400).json({
-        success: false,
-        error: "Image data is too small or invalid",
+      if (cleanBase64.length < 1000) {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is too small or invalid",
+        });
+      }
+
+      console.log("Processing meal analysis for user:", req.user.user_id);
+      console.log("Image data length:", cleanBase64.length);
+      console.log("Edited ingredients:", editedIngredients.length);
+      console.log("Update text:", updateText ? "provided" : "not provided");
+
+      const result = await NutritionService.analyzeMeal(req.user.user_id, {
+        imageBase64: cleanBase64,
+        language: language || "english",
+        date: date || new Date().toISOString().split("T")[0],
+        updateText,
+        editedIngredients,
       });
-    }
 
-    console.log("Processing meal analysis for user:", req.user.user_id);
-    console.log("Image data length:", cleanBase64.length);
-    console.log("Edited ingredients:", editedIngredients.length);
-    console.log("Update text:", updateText ? "provided" : "not provided");
-
-    const result = await NutritionService.analyzeMeal(req.user.user_id, {
-      imageBase64: cleanBase64,
-      language: language || "english",
-      date: date || new Date().toISOString().split("T")[0],
-      updateText,
-      editedIngredients,
-    });
+      console.log("✅ Analysis completed successfully");
+      console.log("📊 Result summary:", {
+        success: result.success,
+        mealName: result.data?.meal_name,
+        calories: result.data?.calories,
+        ingredientsCount: result.data?.ingredients?.length || 0,
+      });
 
-    console.log("✅ Analysis completed successfully");
-    console.log("📊 Result summary:", {
-      success: result.success,
-      mealName: result.data?.meal_name,
-      calories: result.data?.calories,
-      ingredientsCount: result.data?.ingredients?.length || 0,
-    });
+      console.log("Analysis completed successfully");
+      res.json(result);
+    } catch (error: any) {
+      console.error("💥 Nutrition analysis error:", error);
+
+      let errorMessage =
+        "Analysis failed. Please check your image and try again.";
+      let statusCode = 500;
+
+      if (error.message?.includes("timeout") || error.message?.includes("408")) {
+        errorMessage =
+          "Analysis is taking too long. Please try with a clearer image.";
+        statusCode = 408;
+      } else if (error.message?.includes("Image data is required")) {
+        errorMessage = "Please provide a valid image.";
+        statusCode = 400;
+      } else if (error.message?.includes("Invalid base64")) {
+        errorMessage = "Invalid image format. Please try a different image.";
+        statusCode = 400;
+      } else if (error.message?.includes("OpenAI")) {
+        errorMessage = "AI analysis temporarily unavailable. Please try again later.";
+        statusCode = 503;
+      } else if (error.message) {
+        errorMessage = error.message;
+      }
 
-    console.log("Analysis completed successfully");
-    res.json(result);
-  } catch (error: any) {
-    console.error("💥 Nutrition analysis error:", error);
-
-    let errorMessage =
-      "Analysis failed. Please check your image and try again.";
-    let statusCode = 500;
-
-    if (error.message?.includes("timeout") || error.message?.includes("408")) {
-      errorMessage =
-        "Analysis is taking too long. Please try with a clearer image.";
-      statusCode = 408;
-    } else if (error.message?.includes("Image data is required")) {
-      errorMessage = "Please provide a valid image.";
-      statusCode = 400;
-    } else if (error.message?.includes("Invalid base64")) {
-      errorMessage = "Invalid image format. Please try a different image.";
-      statusCode = 400;
-    } else if (error.message?.includes("OpenAI")) {
-      errorMessage = "AI analysis temporarily unavailable. Please try again later.";
-      statusCode = 503;
-    } else if (error.message) {
-      errorMessage = error.message;
+      res.status(statusCode).json({
+        success: false,
+        error: errorMessage,
+      });
     }
-
-    res.status(statusCode).json({
-      success: false,
-      error: errorMessage,
-    });
   }
-});
+);
 
 // Update meal endpoint
-router.put("/update", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("Update meal request received");
+router.put(
+  "/update",
+  authenticateToken,
+  requireAIQuota("MEAL_ANALYSIS"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Update meal request received");
 
-    const validationResult = mealUpdateSchema.safeParse(req.body);
+      const validationResult = mealUpdateSchema.safeParse(req.body);
 
-    if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
-      return res.status(400).json({
-        success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
-      });
-    }
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    const { meal_id, updateText, language } = validationResult.data;
+      const { meal_id, updateText, language } = validationResult.data;
 
-    console.log("Updating meal for user:", req.user.user_id);
+      console.log("Updating meal for user:", req.user.user_id);
 
-    const meal = await NutritionService.updateMeal(req.user.user_id, {
-      meal_id,
-      updateText,
-      language,
-    });
+      const meal = await NutritionService.updateMeal(req.user.user_id, {
+        meal_id,
+        updateText,
+        language,
+      });
 
-    console.log("Meal updated successfully");
+      console.log("Meal updated successfully");
 
-    res.json({
-      success: true,
-      message: "Meal updated successfully",
-      data: meal,
-    });
-  } catch (error) {
-    console.error("Update meal error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to update meal";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+      res.json({
+        success: true,
+        message: "Meal updated successfully",
+        data: meal,
+      });
+    } catch (error) {
+      console.error("Update meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update meal";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
   }
-});
+);
 
 // Direct meal update endpoint for manual edits
 router.put(
@@ -450,6 +467,16 @@ router.put(
         });
       }
 
+      if (
+        mealData.meal_timing !== undefined &&
+        !isMealTiming(mealData.meal_timing)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid meal_timing. Expected one of ${MEAL_TIMING_ORDER.join(", ")}`,
+        });
+      }
+
       // Update meal with provided data
       const updatedMeal = await prisma.meal.update({
         where: {
@@ -497,10 +524,12 @@ router.put(
           food_category: mealData.food_category || existingMeal.food_category,
           cooking_method:
             mealData.cooking_method || existingMeal.cooking_method,
+          meal_timing: mealData.meal_timing ?? existingMeal.meal_timing,
           updated_at: new Date(),
         },
       });
 
+      NutritionService.clearUserCaches(userId);
       console.log("Meal updated successfully");
 
       res.json({
@@ -558,6 +587,47 @@ router.post("/save", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Log a meal without a photo. Typed-in macros are saved as they are; a
+// description is parsed by the AI and counts against the analysis quota.
+const requireDescriptionQuota = requireAIQuota("MEAL_ANALYSIS");
+
+router.post(
+  "/meals/manual",
+  authenticateToken,
+  (req: AuthRequest, res: Response, next) =>
+    req.body?.calories === undefined
+      ? requireDescriptionQuota(req, res, next)
+      : next(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = manualMealSchema.parse(req.body);
+      const meal = await NutritionService.logManualMeal(
+        req.user.user_id,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal data",
+          details: error.errors,
+        });
+      }
+
+      console.error("💥 Manual meal error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to log meal",
+      });
+    }
+  }
+);
+
 // Get user meals
 router.get("/meals", authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -581,6 +651,53 @@ router.get("/meals", authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Get daily stats
+router.get("/stats/daily", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const date = String(req.query.date || "").trim();
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+      isNaN(new Date(`${date}T00:00:00Z`).getTime())
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "date is required in YYYY-MM-DD format",
+      });
+    }
+
+    const source = req.query.source
+      ? String(req.query.source).trim().toUpperCase()
+      : undefined;
+    if (source && !(source in MealSource)) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Invalid source. Expected photo, barcode, manual, recipe or plan",
+      });
+    }
+
+    console.log("📊 Fetching daily stats for user:", req.user.user_id, date);
+
+    const stats = await NutritionService.getDailyStats(
+      req.user.user_id,
+      date,
+      source as MealSource | undefined
+    );
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    console.error("💥 Get daily stats error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch daily stats";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get range statistics
 router.get("/stats/range", authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -666,12 +783,25 @@ router.get("/stats/range", authenticateToken, async (req: AuthRequest, res) => {
     }
 
     console.log("✅ Date validation passed:", { startDateStr, endDateStr });
+
+    // Optional filter on how meals were logged (photo/barcode/manual/recipe/plan)
+    const source = req.query.source
+      ? String(req.query.source).trim().toUpperCase()
+      : undefined;
+    if (source && !(source in MealSource)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid source. Expected photo, barcode, manual, recipe or plan",
+      });
+    }
+
     console.log("📊 Fetching range statistics for user:", req.user.user_id);
 
     const statistics = await NutritionService.getRangeStatistics(
       req.user.user_id,
       startDateStr,
-      endDateStr
+      endDateStr,
+      source as MealSource | undefined
     );
 
     console.log("✅ Range statistics retrieved successfully");
@@ -0,0 +1,120 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeError, RecipeService } from "../services/recipes";
+import { logRecipeSchema, recipeSchema } from "../types/recipes";
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof RecipeError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const recipes = await RecipeService.getRecipes(req.user.user_id);
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recipes");
+  }
+});
+
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = recipeSchema.parse(req.body);
+    const recipe = await RecipeService.createRecipe(req.user.user_id, input);
+    res.status(201).json({ success: true, data: recipe });
+  } catch (error) {
+    handleError(res, error, "Failed to create recipe");
+  }
+});
+
+// Computes totals and per-serving nutrition without saving
+router.post("/preview", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = recipeSchema.parse(req.body);
+    const preview = await RecipeService.previewNutrition(
+      req.user.user_id,
+      input
+    );
+    res.json({ success: true, data: preview });
+  } catch (error) {
+    handleError(res, error, "Failed to calculate recipe nutrition");
+  }
+});
+
+router.get("/:recipeId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const recipe = await RecipeService.getRecipe(
+      req.user.user_id,
+      req.params.recipeId
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recipe");
+  }
+});
+
+router.put("/:recipeId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = recipeSchema.parse(req.body);
+    const recipe = await RecipeService.updateRecipe(
+      req.user.user_id,
+      req.params.recipeId,
+      input
+    );
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    handleError(res, error, "Failed to update recipe");
+  }
+});
+
+router.delete(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      await RecipeService.deleteRecipe(req.user.user_id, req.params.recipeId);
+      res.json({ success: true, message: "Recipe deleted" });
+    } catch (error) {
+      handleError(res, error, "Failed to delete recipe");
+    }
+  }
+);
+
+// Logs N servings of the recipe as a meal
+router.post(
+  "/:recipeId/log",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = logRecipeSchema.parse(req.body ?? {});
+      const meal = await RecipeService.logServings(
+        req.user.user_id,
+        req.params.recipeId,
+        input
+      );
+      res.status(201).json({ success: true, data: meal });
+    } catch (error) {
+      handleError(res, error, "Failed to log recipe");
+    }
+  }
+);
+
+export { router as recipeRoutes };
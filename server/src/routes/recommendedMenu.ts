@@ -1,10 +1,15 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAIQuota } from "../middleware/aiQuota";
 import { RecommendedMenuService } from "../services/recommendedMenu";
+import { MealPlanError, MealPlanService } from "../services/mealPlans";
+import { eatPlannedMealSchema } from "../types/mealPlans";
+import { z } from "zod";
 import { prisma } from "../lib/database";
 import { Response } from "express";
 import { $Enums } from "@prisma/client";
 import { JsonValue } from "@prisma/client/runtime/library";
+import { sendShoppingList } from "../utils/shoppingListExport";
 
 const router = Router();
 
@@ -174,6 +179,7 @@ router.get("/debug", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/generate-custom",
   authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -188,6 +194,7 @@ router.post(
         mealChangeFrequency = "daily",
         includeLeftovers = false,
         sameMealTimes = true,
+        seed,
       } = req.body;
 
       // Validate input
@@ -216,6 +223,7 @@ router.post(
         mealChangeFrequency,
         includeLeftovers,
         sameMealTimes,
+        seed,
       });
 
       if (!menu) {
@@ -278,117 +286,124 @@ router.post(
 );
 
 // POST /api/recommended-menus/generate - Generate new menu with preferences
-router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
-    console.log("🎯 Generating menu for user:", userId);
-    console.log("📋 Request body:", req.body);
-
-    const {
-      days = 7,
-      mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
-      mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
-      includeLeftovers = false,
-      sameMealTimes = true,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    } = req.body;
-
-    // Validate input parameters
-    if (days < 1 || days > 30) {
-      return res.status(400).json({
-        success: false,
-        error: "Days must be between 1 and 30",
-      });
-    }
+router.post(
+  "/generate",
+  authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user.user_id;
+      console.log("🎯 Generating menu for user:", userId);
+      console.log("📋 Request body:", req.body);
 
-    if (
-      !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
-        mealsPerDay
-      )
-    ) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid meals per day option",
+      const {
+        days = 7,
+        mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
+        mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
+        includeLeftovers = false,
+        sameMealTimes = true,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
+        seed, // Reproduces an earlier template-generated menu
+      } = req.body;
+
+      // Validate input parameters
+      if (days < 1 || days > 30) {
+        return res.status(400).json({
+          success: false,
+          error: "Days must be between 1 and 30",
+        });
+      }
+
+      if (
+        !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
+          mealsPerDay
+        )
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meals per day option",
+        });
+      }
+
+      console.log("✅ Input validation passed, generating menu...");
+
+      const menu = await RecommendedMenuService.generatePersonalizedMenu({
+        userId,
+        days,
+        mealsPerDay,
+        mealChangeFrequency,
+        includeLeftovers,
+        sameMealTimes,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
+        seed,
       });
-    }
 
-    console.log("✅ Input validation passed, generating menu...");
-
-    const menu = await RecommendedMenuService.generatePersonalizedMenu({
-      userId,
-      days,
-      mealsPerDay,
-      mealChangeFrequency,
-      includeLeftovers,
-      sameMealTimes,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    });
+      if (!menu) {
+        throw new Error("Menu generation returned null");
+      }
 
-    if (!menu) {
-      throw new Error("Menu generation returned null");
-    }
+      console.log("🎉 Menu generated successfully!");
+      console.log("📊 Menu stats:", {
+        menu_id: menu?.menu_id,
+        title: menu?.title,
+        meals_count: menu?.meals?.length || 0,
+        total_calories: menu?.total_calories,
+      });
 
-    console.log("🎉 Menu generated successfully!");
-    console.log("📊 Menu stats:", {
-      menu_id: menu?.menu_id,
-      title: menu?.title,
-      meals_count: menu?.meals?.length || 0,
-      total_calories: menu?.total_calories,
-    });
+      // Ensure the response has the expected structure
+      const responseData = {
+        ...menu,
+        // Ensure we have at least these fields for the client
+        menu_id: menu.menu_id,
+        title: menu.title,
+        description: menu.description,
+        meals: menu.meals || [],
+        days_count: menu.days_count,
+        total_calories: menu.total_calories,
+        estimated_cost: menu.estimated_cost,
+      };
 
-    // Ensure the response has the expected structure
-    const responseData = {
-      ...menu,
-      // Ensure we have at least these fields for the client
-      menu_id: menu.menu_id,
-      title: menu.title,
-      description: menu.description,
-      meals: menu.meals || [],
-      days_count: menu.days_count,
-      total_calories: menu.total_calories,
-      estimated_cost: menu.estimated_cost,
-    };
+      console.log("📤 Sending response with", responseData.meals.length, "meals");
 
-    console.log("📤 Sending response with", responseData.meals.length, "meals");
+      res.json({
+        success: true,
+        message: "Menu generated successfully",
+        data: responseData,
+      });
+    } catch (error) {
+      console.error("💥 Error generating menu:", error);
 
-    res.json({
-      success: true,
-      message: "Menu generated successfully",
-      data: responseData,
-    });
-  } catch (error) {
-    console.error("💥 Error generating menu:", error);
-
-    // Provide more specific error messages
-    let errorMessage = "Failed to generate menu";
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      if (error.message.includes("questionnaire not found")) {
-        errorMessage =
-          "Please complete your questionnaire first before generating a menu";
-        statusCode = 400;
-      } else if (error.message.includes("budget")) {
-        errorMessage = "Please set a daily food budget in your questionnaire";
-        statusCode = 400;
-      } else {
-        errorMessage = error.message;
+      // Provide more specific error messages
+      let errorMessage = "Failed to generate menu";
+      let statusCode = 500;
+
+      if (error instanceof Error) {
+        if (error.message.includes("questionnaire not found")) {
+          errorMessage =
+            "Please complete your questionnaire first before generating a menu";
+          statusCode = 400;
+        } else if (error.message.includes("budget")) {
+          errorMessage = "Please set a daily food budget in your questionnaire";
+          statusCode = 400;
+        } else {
+          errorMessage = error.message;
+        }
       }
-    }
 
-    res.status(statusCode).json({
-      success: false,
-      error: errorMessage,
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
+      res.status(statusCode).json({
+        success: false,
+        error: errorMessage,
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   }
-});
+);
 
 // POST /api/recommended-menus/:menuId/replace-meal - Replace a specific meal
 router.post(
@@ -489,6 +504,7 @@ router.post(
 );
 
 // GET /api/recommended-menus/:menuId/shopping-list - Get shopping list for menu
+// (JSON, or text/Markdown/CSV/iCalendar via ?format= or the Accept header)
 router.get(
   "/:menuId/shopping-list",
   authenticateToken,
@@ -502,10 +518,17 @@ router.get(
         menuId
       );
 
-      res.json({
-        success: true,
-        data: shoppingList,
-      });
+      sendShoppingList(
+        req,
+        res,
+        {
+          id: menuId,
+          name: shoppingList.menu_title,
+          items: shoppingList.items,
+          total_estimated_cost: shoppingList.total_estimated_cost,
+        },
+        shoppingList
+      );
     } catch (error) {
       console.error("💥 Error generating shopping list:", error);
       res.status(500).json({
@@ -517,6 +540,49 @@ router.get(
   }
 );
 
+// POST /api/recommended-menus/:menuId/meals/:mealId/eat - Log a menu meal as eaten
+router.post(
+  "/:menuId/meals/:mealId/eat",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = eatPlannedMealSchema.parse(req.body);
+      const result = await MealPlanService.logRecommendedMeal(
+        req.user.user_id,
+        req.params.menuId,
+        req.params.mealId,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+          details: error.errors,
+        });
+      }
+      if (error instanceof MealPlanError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error("💥 Error logging menu meal:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to log menu meal",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 // POST /api/recommended-menus/:menuId/start-today - Start a recommended menu as today's plan
 router.post(
   "/:menuId/start-today",
@@ -589,6 +655,7 @@ router.post(
 router.post(
   "/generate-comprehensive",
   authenticateToken,
+  requireAIQuota("MENU_GENERATION"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
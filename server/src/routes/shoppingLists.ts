@@ -0,0 +1,219 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  ShoppingListError,
+  ShoppingListService,
+} from "../services/shoppingLists";
+import {
+  generateShoppingListSchema,
+  pantryItemSchema,
+  shoppingListItemSchema,
+  updateShoppingListItemSchema,
+  updateShoppingListSchema,
+} from "../types/shoppingLists";
+import { sendShoppingList } from "../utils/shoppingListExport";
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof ShoppingListError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const lists = await ShoppingListService.getLists(req.user.user_id);
+    res.json({ success: true, data: lists });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch shopping lists");
+  }
+});
+
+// Generates a list from one or more meal plans and recommended menus
+router.post("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = generateShoppingListSchema.parse(req.body);
+    const list = await ShoppingListService.generateList(
+      req.user.user_id,
+      input
+    );
+    res.status(201).json({ success: true, data: list });
+  } catch (error) {
+    handleError(res, error, "Failed to generate shopping list");
+  }
+});
+
+router.get("/pantry", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const pantry = await ShoppingListService.getPantry(req.user.user_id);
+    res.json({ success: true, data: pantry });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch pantry");
+  }
+});
+
+router.post("/pantry", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = pantryItemSchema.parse(req.body);
+    const item = await ShoppingListService.addPantryItem(
+      req.user.user_id,
+      input
+    );
+    res.status(201).json({ success: true, data: item });
+  } catch (error) {
+    handleError(res, error, "Failed to add pantry item");
+  }
+});
+
+router.put(
+  "/pantry/:pantryItemId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = pantryItemSchema.parse(req.body);
+      const item = await ShoppingListService.updatePantryItem(
+        req.user.user_id,
+        req.params.pantryItemId,
+        input
+      );
+      res.json({ success: true, data: item });
+    } catch (error) {
+      handleError(res, error, "Failed to update pantry item");
+    }
+  }
+);
+
+router.delete(
+  "/pantry/:pantryItemId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      await ShoppingListService.deletePantryItem(
+        req.user.user_id,
+        req.params.pantryItemId
+      );
+      res.json({ success: true, message: "Pantry item deleted" });
+    } catch (error) {
+      handleError(res, error, "Failed to delete pantry item");
+    }
+  }
+);
+
+// JSON by default; ?format= or the Accept header picks a text, Markdown, CSV
+// or iCalendar export instead
+router.get("/:listId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const list = await ShoppingListService.getList(
+      req.user.user_id,
+      req.params.listId
+    );
+    sendShoppingList(
+      req,
+      res,
+      {
+        id: list.list_id,
+        name: list.name,
+        items: list.items_json,
+        total_estimated_cost: list.total_estimated_cost,
+      },
+      list
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to fetch shopping list");
+  }
+});
+
+router.put("/:listId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const input = updateShoppingListSchema.parse(req.body);
+    const list = await ShoppingListService.updateList(
+      req.user.user_id,
+      req.params.listId,
+      input
+    );
+    res.json({ success: true, data: list });
+  } catch (error) {
+    handleError(res, error, "Failed to update shopping list");
+  }
+});
+
+router.delete("/:listId", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await ShoppingListService.deleteList(req.user.user_id, req.params.listId);
+    res.json({ success: true, message: "Shopping list deleted" });
+  } catch (error) {
+    handleError(res, error, "Failed to delete shopping list");
+  }
+});
+
+router.post(
+  "/:listId/items",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = shoppingListItemSchema.parse(req.body);
+      const list = await ShoppingListService.addItem(
+        req.user.user_id,
+        req.params.listId,
+        input
+      );
+      res.status(201).json({ success: true, data: list });
+    } catch (error) {
+      handleError(res, error, "Failed to add shopping list item");
+    }
+  }
+);
+
+router.put(
+  "/:listId/items/:itemId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = updateShoppingListItemSchema.parse(req.body);
+      const list = await ShoppingListService.updateItem(
+        req.user.user_id,
+        req.params.listId,
+        req.params.itemId,
+        input
+      );
+      res.json({ success: true, data: list });
+    } catch (error) {
+      handleError(res, error, "Failed to update shopping list item");
+    }
+  }
+);
+
+router.delete(
+  "/:listId/items/:itemId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const list = await ShoppingListService.deleteItem(
+        req.user.user_id,
+        req.params.listId,
+        req.params.itemId
+      );
+      res.json({ success: true, data: list });
+    } catch (error) {
+      handleError(res, error, "Failed to delete shopping list item");
+    }
+  }
+);
+
+export { router as shoppingListRoutes };
@@ -2,11 +2,28 @@ import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth"; // Import your AuthRequest type here
 import { StatisticsService } from "../services/statistics";
 import { z } from "zod";
+import { MealSource } from "@prisma/client";
 import { AchievementService } from "../services/achievements";
 
 const router = Router();
 
 const periodSchema = z.enum(["today", "week", "month", "custom"]);
+const mealSourceSchema = z.nativeEnum(MealSource).optional();
+
+const reportQuerySchema = z
+  .object({
+    period: z.enum(["week", "month", "custom"]).default("week"),
+    start: z.coerce.date().optional(),
+    end: z.coerce.date().optional(),
+  })
+  .refine(
+    (query) => query.period !== "custom" || (query.start && query.end),
+    { message: "start and end are required for a custom period" }
+  )
+  .refine(
+    (query) => !query.start || !query.end || query.start <= query.end,
+    { message: "start must be before end" }
+  );
 
 // Get nutrition statistics
 router.get(
@@ -28,9 +45,21 @@ router.get(
       );
 
       const period = periodSchema.parse(req.query.period || "week");
+      const customRange =
+        period === "custom"
+          ? {
+              start: z.coerce.date().parse(req.query.start),
+              end: z.coerce.date().parse(req.query.end),
+            }
+          : undefined;
+      const source = mealSourceSchema.parse(
+        req.query.source ? String(req.query.source).toUpperCase() : undefined
+      );
       const statistics = await StatisticsService.getNutritionStatistics(
         userId,
-        period
+        period,
+        customRange,
+        source
       );
 
       console.log(`✅ Statistics fetched successfully for user: ${userId}`);
@@ -130,16 +159,40 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const query = reportQuerySchema.parse(req.query);
+      const customRange =
+        query.period === "custom" && query.start && query.end
+          ? {
+              start: query.start,
+              // Include the whole end day
+              end: new Date(query.end.getTime() + 24 * 60 * 60 * 1000 - 1),
+            }
+          : undefined;
+
+      const pdfBuffer = await StatisticsService.generatePDFReport(
+        userId,
+        query.period,
+        customRange
+      );
 
+      const today = new Date().toISOString().split("T")[0];
       res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdfBuffer.length);
       res.setHeader(
         "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
+        `attachment; filename=nutrition-report-${query.period}-${today}.pdf`
       );
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating PDF report:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+
       res.status(500).json({ error: "Failed to generate report" });
     }
   }
@@ -0,0 +1,162 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  SubscriptionError,
+  SubscriptionService,
+} from "../services/subscription";
+import { isMockPaymentEnabled } from "../services/payments";
+
+const router = Router();
+
+const checkoutSchema = z.object({
+  plan: z.enum(["PREMIUM", "GOLD"]),
+  success_url: z.string().url().optional(),
+  cancel_url: z.string().url().optional(),
+});
+
+const mockPaymentSchema = z.object({
+  card_number: z.string().min(12).max(23),
+  expiry_month: z.coerce.number().int().min(1).max(12),
+  expiry_year: z.coerce.number().int().min(0),
+  cvv: z.string().min(3).max(4),
+  cardholder_name: z.string().trim().min(1),
+});
+
+const billingHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof SubscriptionError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  console.error(`💥 ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+// Plans with prices and AI limits
+router.get("/plans", (req, res) => {
+  res.json({ success: true, data: SubscriptionService.getPlans() });
+});
+
+router.get("/", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await SubscriptionService.getSubscription(
+      req.user.user_id
+    );
+    res.json({ success: true, data: subscription });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch subscription");
+  }
+});
+
+// Starts a checkout for a paid plan. The plan is only granted once the
+// payment provider confirms the payment through the webhook.
+router.post("/checkout", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { plan, success_url, cancel_url } = checkoutSchema.parse(req.body);
+    const session = await SubscriptionService.createCheckout(
+      req.user.user_id,
+      plan,
+      { successUrl: success_url, cancelUrl: cancel_url }
+    );
+
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    handleError(res, error, "Failed to create checkout session");
+  }
+});
+
+router.get(
+  "/checkout/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const session = await SubscriptionService.getCheckoutSession(
+        req.user.user_id,
+        req.params.sessionId
+      );
+      res.json({ success: true, data: session });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch checkout session");
+    }
+  }
+);
+
+// Local development only; the route doesn't exist in production
+if (isMockPaymentEnabled()) {
+  router.post(
+    "/checkout/:sessionId/mock-pay",
+    authenticateToken,
+    async (req: AuthRequest, res) => {
+      try {
+        const card = mockPaymentSchema.parse(req.body);
+        const session = await SubscriptionService.payMockCheckout(
+          req.user.user_id,
+          req.params.sessionId,
+          {
+            cardNumber: card.card_number,
+            expiryMonth: card.expiry_month,
+            expiryYear: card.expiry_year,
+            cvv: card.cvv,
+            cardholderName: card.cardholder_name,
+          }
+        );
+        res.json({ success: true, data: session });
+      } catch (error) {
+        handleError(res, error, "Failed to process mock payment");
+      }
+    }
+  );
+}
+
+// Called by the payment provider. The body arrives unparsed (see index.ts)
+// so the signature can be checked against the exact bytes that were signed.
+router.post("/webhook", async (req, res) => {
+  try {
+    const rawBody = Buffer.isBuffer(req.body)
+      ? req.body
+      : JSON.stringify(req.body);
+    const result = await SubscriptionService.handleWebhook(
+      rawBody,
+      req.headers
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to process payment webhook");
+  }
+});
+
+router.get(
+  "/billing-history",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { limit, offset } = billingHistoryQuerySchema.parse(req.query);
+      const history = await SubscriptionService.getBillingHistory(
+        req.user.user_id,
+        limit,
+        offset
+      );
+      res.json({ success: true, data: history });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch billing history");
+    }
+  }
+);
+
+export { router as subscriptionRoutes };
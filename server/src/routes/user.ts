@@ -3,6 +3,8 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { AIQuotaService, PLAN_QUOTAS } from "../services/aiQuota";
+import { SubscriptionService } from "../services/subscription";
 import { z } from "zod";
 
 const avatarUploadSchema = z.object({
@@ -136,10 +138,16 @@ router.put(
           .json({ success: false, error: "Invalid subscription type" });
       }
 
-      await prisma.user.update({
-        where: { user_id: userId },
-        data: { subscription_type },
-      });
+      // Paid plans are only granted by a confirmed payment webhook
+      if (subscription_type !== "FREE") {
+        return res.status(402).json({
+          success: false,
+          error: "Paid plans require a checkout",
+          checkout_url: "/api/subscriptions/checkout",
+        });
+      }
+
+      await SubscriptionService.downgradeToFree(userId);
 
       return res.json({ success: true, message: "Subscription updated" });
     } catch (error) {
@@ -155,25 +163,34 @@ router.get(
   "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
-
-    const userSubscriptionType = req.user.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
+    try {
+      const plan = req.user.subscription_type || "FREE";
+      const planQuota = AIQuotaService.getPlanQuota(plan);
+      const usage = await AIQuotaService.getUsage(req.user.user_id, plan);
+      const { resetAt } = AIQuotaService.getWindow();
 
-    res.json({
-      success: true,
-      subscription: {
-        ...info,
-        currentRequests: req.user.ai_requests_count,
-        resetAt: req.user.ai_requests_reset_at,
-      },
-    });
+      res.json({
+        success: true,
+        subscription: {
+          type: plan,
+          name: planQuota.name,
+          dailyRequests: usage.reduce((sum, q) => sum + q.limit, 0),
+          currentRequests: usage.reduce((sum, q) => sum + q.used, 0),
+          resetAt,
+          quotas: usage,
+          plans: Object.entries(PLAN_QUOTAS).map(([type, quota]) => ({
+            type,
+            name: quota.name,
+            dailyLimits: quota.dailyLimits,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Subscription info error:", error);
+      res
+        .status(500)
+        .json({ success: false, error: "Failed to fetch subscription info" });
+    }
   }
 );
 
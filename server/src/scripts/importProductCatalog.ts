@@ -0,0 +1,195 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import zlib from "zlib";
+import { prisma } from "../lib/database";
+import { mapOpenFoodFactsProduct } from "../services/productSources";
+import { ProductData } from "../types/foodScanner";
+
+// Loads an OpenFoodFacts dump into the offline product catalog.
+//
+//   npm run catalog:import -- <file> [--catalog=name] [--limit=N] [--batch-size=N]
+//
+// Accepts the CSV/TSV export (en.openfoodfacts.org.products.csv) and the
+// JSONL dump (openfoodfacts-products.jsonl), optionally gzipped.
+
+interface ImportOptions {
+  file: string;
+  catalog: string;
+  limit: number;
+  batchSize: number;
+}
+
+function parseArgs(argv: string[]): ImportOptions {
+  const flags = new Map<string, string>();
+  const positional: string[] = [];
+
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) flags.set(match[1], match[2]);
+    else positional.push(arg);
+  }
+
+  if (!positional[0]) {
+    throw new Error(
+      "Usage: npm run catalog:import -- <file.csv|file.jsonl[.gz]> [--catalog=name] [--limit=N] [--batch-size=N]"
+    );
+  }
+
+  return {
+    file: path.resolve(positional[0]),
+    catalog: flags.get("catalog") || "openfoodfacts",
+    limit: Number(flags.get("limit")) || Infinity,
+    batchSize: Number(flags.get("batch-size")) || 500,
+  };
+}
+
+// Splits one delimited line, honouring double-quoted fields
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
+
+async function* readRecords(file: string): AsyncGenerator<any> {
+  let stream: NodeJS.ReadableStream = fs.createReadStream(file);
+  const name = file.toLowerCase().replace(/\.gz$/, "");
+  if (file.toLowerCase().endsWith(".gz")) {
+    stream = stream.pipe(zlib.createGunzip());
+  }
+
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  const isJson = name.endsWith(".jsonl") || name.endsWith(".ndjson");
+  let header: string[] | null = null;
+  let delimiter = "\t";
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (isJson) {
+      try {
+        yield JSON.parse(line);
+      } catch {
+        console.warn("⚠️ Skipping malformed JSON line");
+      }
+      continue;
+    }
+
+    if (!header) {
+      // The official export is tab separated despite the .csv extension
+      delimiter = line.includes("\t") ? "\t" : ",";
+      header = splitLine(line, delimiter);
+      continue;
+    }
+
+    const values = splitLine(line, delimiter);
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = values[index] ?? "";
+    });
+    yield record;
+  }
+}
+
+async function saveBatch(products: ProductData[], catalog: string) {
+  await prisma.$transaction(
+    products.map((product) => {
+      const data = {
+        product_name: product.name,
+        brand: product.brand,
+        category: product.category,
+        nutrition_per_100g: product.nutrition_per_100g,
+        ingredients: product.ingredients,
+        allergens: product.allergens,
+        labels: product.labels,
+        health_score: product.health_score,
+        image_url: product.image_url,
+        serving_size: product.serving_size,
+        servings_per_container: product.servings_per_container,
+        catalog,
+      };
+
+      return prisma.catalogProduct.upsert({
+        where: { barcode: product.barcode! },
+        create: { barcode: product.barcode!, ...data },
+        update: data,
+      });
+    })
+  );
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!fs.existsSync(options.file)) {
+    throw new Error(`File not found: ${options.file}`);
+  }
+
+  console.log(`📥 Importing ${options.file} into catalog "${options.catalog}"`);
+
+  let read = 0;
+  let imported = 0;
+  let skipped = 0;
+  let batch = new Map<string, ProductData>();
+
+  for await (const record of readRecords(options.file)) {
+    if (read >= options.limit) break;
+    read++;
+
+    const product = mapOpenFoodFactsProduct(record);
+    if (!product || !/^\d{8,14}$/.test(product.barcode || "")) {
+      skipped++;
+      continue;
+    }
+
+    // Dumps can repeat a barcode; the last occurrence wins
+    batch.set(product.barcode!, product);
+
+    if (batch.size >= options.batchSize) {
+      await saveBatch([...batch.values()], options.catalog);
+      imported += batch.size;
+      batch = new Map();
+      console.log(`   ${imported} products imported...`);
+    }
+  }
+
+  if (batch.size > 0) {
+    await saveBatch([...batch.values()], options.catalog);
+    imported += batch.size;
+  }
+
+  console.log(
+    `✅ Catalog import finished: ${imported} imported, ${skipped} skipped, ${read} read`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Catalog import failed:", error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,146 @@
+import "dotenv/config";
+import crypto from "crypto";
+import express from "express";
+
+// Local stand-in for the wearable providers' OAuth servers, so the device
+// connection flow can be run end to end without real developer accounts.
+//
+//   npm run devices:mock-oauth -- [--port=5055] [--expires-in=3600]
+//
+// Point the API at it with DEVICE_OAUTH_BASE_URL=http://localhost:5055 and
+// any <PROVIDER>_CLIENT_ID / <PROVIDER>_CLIENT_SECRET values. The consent
+// page is skipped: /:provider/authorize redirects straight back with a code.
+// Authorization codes check the PKCE verifier and redirect URI, and refresh
+// tokens are rotated on every use, like Fitbit and WHOOP do.
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+
+const codes = new Map<string, PendingCode>();
+// Refresh token -> client ID it was issued to
+const refreshTokens = new Map<string, string>();
+
+function parseArgs(argv: string[]) {
+  const value = (name: string) =>
+    argv
+      .map((arg) => arg.match(new RegExp(`^--${name}=(\\d+)$`)))
+      .find(Boolean);
+  const port = value("port");
+  const expiresIn = value("expires-in");
+
+  return {
+    port: port ? Number(port[1]) : 5055,
+    expiresIn: expiresIn ? Number(expiresIn[1]) : 3600,
+  };
+}
+
+function randomToken(prefix: string) {
+  return `${prefix}_${crypto.randomBytes(16).toString("hex")}`;
+}
+
+// Client credentials from a Basic header or the form body
+function clientId(req: express.Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Basic ")) {
+    const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
+    const [id, secret] = decoded.split(":");
+    return id && secret ? id : null;
+  }
+  return req.body.client_id && req.body.client_secret
+    ? req.body.client_id
+    : null;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/:provider/authorize", (req, res) => {
+    const query = req.query as Record<string, string | undefined>;
+    if (
+      query.response_type !== "code" ||
+      !query.client_id ||
+      !query.redirect_uri ||
+      !query.code_challenge ||
+      query.code_challenge_method !== "S256"
+    ) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const code = randomToken("code");
+    codes.set(code, {
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set("code", code);
+    if (query.state) redirect.searchParams.set("state", query.state);
+    console.log(`🔐 ${req.params.provider}: issued authorization code`);
+    res.redirect(redirect.toString());
+  });
+
+  app.post("/:provider/token", (req, res) => {
+    const client = clientId(req);
+    if (!client) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+
+    if (req.body.grant_type === "authorization_code") {
+      const pending = codes.get(req.body.code);
+      codes.delete(req.body.code);
+
+      const challenge = crypto
+        .createHash("sha256")
+        .update(req.body.code_verifier || "")
+        .digest("base64url");
+      if (
+        !pending ||
+        pending.expiresAt < Date.now() ||
+        pending.clientId !== client ||
+        pending.redirectUri !== req.body.redirect_uri ||
+        pending.codeChallenge !== challenge
+      ) {
+        return res.status(400).json({ error: "invalid_grant" });
+      }
+    } else if (req.body.grant_type === "refresh_token") {
+      if (refreshTokens.get(req.body.refresh_token) !== client) {
+        return res.status(400).json({ error: "invalid_grant" });
+      }
+      refreshTokens.delete(req.body.refresh_token);
+    } else {
+      return res.status(400).json({ error: "unsupported_grant_type" });
+    }
+
+    const refreshToken = randomToken("refresh");
+    refreshTokens.set(refreshToken, client);
+    console.log(
+      `🔑 ${req.params.provider}: issued tokens (${req.body.grant_type})`
+    );
+
+    res.json({
+      access_token: randomToken("access"),
+      refresh_token: refreshToken,
+      token_type: "Bearer",
+      expires_in: options.expiresIn,
+      user_id: `mock-${req.params.provider}-user`,
+    });
+  });
+
+  app.listen(options.port, () => {
+    console.log(
+      `🚀 Mock OAuth server on http://localhost:${options.port}, set DEVICE_OAUTH_BASE_URL to use it`
+    );
+  });
+}
+
+main();
@@ -0,0 +1,53 @@
+import "dotenv/config";
+import { prisma } from "../lib/database";
+import { DeviceService } from "../services/devices";
+import { getKeyring } from "../utils/tokenEncryption";
+
+// Re-encrypts stored device OAuth tokens with the active key.
+//
+//   npm run devices:rotate-keys -- [--dry-run] [--batch-size=N]
+//
+// To rotate: add the new key to the front of DEVICE_TOKEN_KEYS (or point
+// DEVICE_TOKEN_ACTIVE_KEY at it), deploy, run this command, then remove the
+// old key once it reports no failures.
+
+function parseArgs(argv: string[]) {
+  const batchSize = argv
+    .map((arg) => arg.match(/^--batch-size=(\d+)$/))
+    .find(Boolean);
+
+  return {
+    dryRun: argv.includes("--dry-run"),
+    batchSize: batchSize ? Number(batchSize[1]) : 100,
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const keyring = getKeyring();
+
+  console.log(
+    `🔐 Re-encrypting device tokens with key "${keyring.activeKeyId}"${
+      options.dryRun ? " (dry run)" : ""
+    }`
+  );
+
+  const result = await DeviceService.reencryptTokens(options);
+
+  console.log(
+    `✅ Device token rotation finished: ${result.reencrypted} re-encrypted, ${result.failed} failed, ${result.scanned} scanned`
+  );
+  if (result.failed > 0) {
+    console.warn(
+      "⚠️ Devices that failed to decrypt were marked ERROR; keep the old keys until they are reconnected"
+    );
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Device token rotation failed:", error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,236 @@
+import {
+  ConnectedDevice,
+  DailyActivitySummary,
+  DeviceType,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  ActivityMetric,
+  ActivitySource,
+  ActivitySourcePriority,
+  DeviceWorkout,
+  MergedDailyActivity,
+  MergedWorkout,
+} from "../types/devices";
+
+type ActivityRow = DailyActivitySummary & { device: ConnectedDevice };
+type ScalarMetric = Exclude<ActivityMetric, "workouts">;
+type MetricField = keyof MergedDailyActivity & keyof DailyActivitySummary;
+
+// Columns taken together from one device. The first one decides whether the
+// device reported the metric, so e.g. BMR always matches the calories it
+// was estimated with.
+const METRIC_FIELDS: Record<ScalarMetric, MetricField[]> = {
+  steps: ["steps"],
+  distance: ["distance_km"],
+  active_minutes: ["active_minutes"],
+  calories: ["calories_burned", "bmr_estimate"],
+  heart_rate: ["heart_rate_avg", "heart_rate_max"],
+  sleep: ["sleep_hours"],
+  weight: ["weight_kg", "body_fat_percentage"],
+};
+
+// Columns that default to 0 when a device doesn't report them
+const ZERO_DEFAULT_FIELDS = new Set<MetricField>([
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "distance_km",
+]);
+
+const WRIST_FIRST: DeviceType[] = [
+  "GARMIN",
+  "FITBIT",
+  "POLAR",
+  "SUUNTO",
+  "AMAZFIT",
+  "APPLE_HEALTH",
+  "SAMSUNG_HEALTH",
+  "HUAWEI_HEALTH",
+  "GOOGLE_FIT",
+];
+
+const RECOVERY_FIRST: DeviceType[] = ["WHOOP", "OURA", ...WRIST_FIRST];
+
+// Used after the user's own order and the primary device. Device types
+// missing from a list rank after the listed ones.
+export const DEFAULT_SOURCE_PRIORITY: Record<ActivityMetric, DeviceType[]> = {
+  steps: WRIST_FIRST,
+  distance: WRIST_FIRST,
+  active_minutes: WRIST_FIRST,
+  calories: RECOVERY_FIRST,
+  heart_rate: RECOVERY_FIRST,
+  sleep: RECOVERY_FIRST,
+  weight: ["WITHINGS", "FITBIT", "GARMIN", ...WRIST_FIRST],
+  workouts: WRIST_FIRST,
+};
+
+// Two sessions from different devices are the same workout when they
+// overlap for at least this share of the shorter one
+const WORKOUT_OVERLAP_RATIO = 0.5;
+
+const toSource = (row: ActivityRow): ActivitySource => ({
+  device_id: row.device.connected_device_id,
+  device_type: row.device.device_type,
+  device_name: row.device.device_name,
+});
+
+const hasValue = (row: ActivityRow, field: MetricField) => {
+  const value = row[field] as number | null;
+  if (value === null) return false;
+  return !ZERO_DEFAULT_FIELDS.has(field) || value > 0;
+};
+
+function rankRows(
+  rows: ActivityRow[],
+  metric: ActivityMetric,
+  priority: ActivitySourcePriority
+): ActivityRow[] {
+  const configured = priority[metric] || [];
+  const defaults = DEFAULT_SOURCE_PRIORITY[metric];
+  const rank = (row: ActivityRow) => {
+    const type = row.device.device_type;
+    if (configured.includes(type)) return configured.indexOf(type);
+    const index = defaults.indexOf(type);
+    const fallback = index === -1 ? defaults.length : index;
+    return (row.device.is_primary_device ? 100 : 200) + fallback;
+  };
+
+  return [...rows].sort((a, b) => rank(a) - rank(b));
+}
+
+const workoutMs = (workout: DeviceWorkout) =>
+  new Date(workout.end).getTime() - new Date(workout.start).getTime();
+
+function isSameWorkout(a: DeviceWorkout, b: DeviceWorkout): boolean {
+  const overlap =
+    Math.min(new Date(a.end).getTime(), new Date(b.end).getTime()) -
+    Math.max(new Date(a.start).getTime(), new Date(b.start).getTime());
+  return (
+    overlap > 0 &&
+    overlap >= WORKOUT_OVERLAP_RATIO * Math.min(workoutMs(a), workoutMs(b))
+  );
+}
+
+// Sessions from higher ranked devices win; a lower ranked device's copy of
+// the same session is only listed as a duplicate
+function mergeWorkouts(rankedRows: ActivityRow[]): MergedWorkout[] {
+  const merged: MergedWorkout[] = [];
+
+  for (const row of rankedRows) {
+    const workouts = (row.workouts as unknown as DeviceWorkout[] | null) || [];
+    for (const workout of workouts) {
+      const existing = merged.find((candidate) =>
+        isSameWorkout(candidate, workout)
+      );
+      if (existing) {
+        const known = [existing.source, ...existing.duplicates].some(
+          (source) => source.device_id === row.device_id
+        );
+        if (!known) existing.duplicates.push(toSource(row));
+        continue;
+      }
+      merged.push({ ...workout, source: toSource(row), duplicates: [] });
+    }
+  }
+
+  return merged.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function mergeActivityDay(
+  date: string,
+  rows: ActivityRow[],
+  priority: ActivitySourcePriority = {}
+): MergedDailyActivity {
+  const merged: MergedDailyActivity = {
+    date,
+    steps: null,
+    calories_burned: null,
+    bmr_estimate: null,
+    active_minutes: null,
+    distance_km: null,
+    heart_rate_avg: null,
+    heart_rate_max: null,
+    sleep_hours: null,
+    weight_kg: null,
+    body_fat_percentage: null,
+    workouts: [],
+    sources: {},
+    devices: rows.map(toSource),
+  };
+
+  for (const [metric, fields] of Object.entries(METRIC_FIELDS) as [
+    ScalarMetric,
+    MetricField[],
+  ][]) {
+    const ranked = rankRows(rows, metric, priority);
+    // A reported 0 is only used when no device has anything better
+    const row =
+      ranked.find((candidate) => hasValue(candidate, fields[0])) ||
+      ranked.find((candidate) => candidate[fields[0]] !== null);
+    if (!row) continue;
+
+    for (const field of fields) {
+      (merged as any)[field] = row[field];
+    }
+    merged.sources[metric] = toSource(row);
+  }
+
+  // Each workout carries its own source
+  merged.workouts = mergeWorkouts(rankRows(rows, "workouts", priority));
+
+  return merged;
+}
+
+export class ActivityMergeService {
+  // One record per day with data, newest first
+  static async getMergedDays(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedDailyActivity[]> {
+    const [rows, priority] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+        include: { device: true },
+      }),
+      this.getSourcePriority(userId),
+    ]);
+
+    const rowsByDay = new Map<string, ActivityRow[]>();
+    for (const row of rows) {
+      const date = row.date.toISOString().split("T")[0];
+      rowsByDay.set(date, [...(rowsByDay.get(date) || []), row]);
+    }
+
+    return [...rowsByDay]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, dayRows]) => mergeActivityDay(date, dayRows, priority));
+  }
+
+  static async getSourcePriority(
+    userId: string
+  ): Promise<ActivitySourcePriority> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { activity_source_priority: true },
+    });
+    return (user?.activity_source_priority as ActivitySourcePriority) || {};
+  }
+
+  // Replaces the user's order; metrics left out fall back to the primary
+  // device and the defaults
+  static async setSourcePriority(
+    userId: string,
+    priority: ActivitySourcePriority
+  ): Promise<ActivitySourcePriority> {
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { activity_source_priority: priority },
+    });
+    return priority;
+  }
+}
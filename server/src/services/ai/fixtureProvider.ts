@@ -0,0 +1,483 @@
+import {
+  AIChatRequest,
+  AICompletion,
+  AIModelConfig,
+  AIProvider,
+  AIProviderName,
+  AITextRequest,
+  AIVisionRequest,
+} from "../../types/ai";
+
+const FIXTURE_MODEL = "fixture-v1";
+
+interface FixtureFood {
+  keywords: string[];
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium_mg: number;
+}
+
+// Per typical unit (one egg, one slice, one cup...)
+const FIXTURE_FOODS: FixtureFood[] = [
+  {
+    keywords: ["egg", "ביצ"],
+    grams: 50,
+    calories: 78,
+    protein: 6.3,
+    carbs: 0.6,
+    fat: 5.3,
+    fiber: 0,
+    sugar: 0.6,
+    sodium_mg: 62,
+  },
+  {
+    keywords: ["toast", "bread", "טוסט", "לחם", "פרוס"],
+    grams: 30,
+    calories: 80,
+    protein: 3,
+    carbs: 14,
+    fat: 1,
+    fiber: 1.2,
+    sugar: 1.5,
+    sodium_mg: 150,
+  },
+  {
+    keywords: ["rice", "אורז"],
+    grams: 160,
+    calories: 205,
+    protein: 4.3,
+    carbs: 45,
+    fat: 0.4,
+    fiber: 0.6,
+    sugar: 0.1,
+    sodium_mg: 2,
+  },
+  {
+    keywords: ["chicken", "עוף", "חזה"],
+    grams: 120,
+    calories: 198,
+    protein: 37,
+    carbs: 0,
+    fat: 4.3,
+    fiber: 0,
+    sugar: 0,
+    sodium_mg: 89,
+  },
+  {
+    keywords: ["apple", "תפוח"],
+    grams: 180,
+    calories: 95,
+    protein: 0.5,
+    carbs: 25,
+    fat: 0.3,
+    fiber: 4.4,
+    sugar: 19,
+    sodium_mg: 2,
+  },
+  {
+    keywords: ["banana", "בננה"],
+    grams: 120,
+    calories: 105,
+    protein: 1.3,
+    carbs: 27,
+    fat: 0.4,
+    fiber: 3.1,
+    sugar: 14,
+    sodium_mg: 1,
+  },
+  {
+    keywords: ["coffee", "קפה"],
+    grams: 240,
+    calories: 5,
+    protein: 0.3,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium_mg: 5,
+  },
+  {
+    keywords: ["milk", "חלב"],
+    grams: 240,
+    calories: 122,
+    protein: 8,
+    carbs: 12,
+    fat: 4.8,
+    fiber: 0,
+    sugar: 12,
+    sodium_mg: 100,
+  },
+  {
+    keywords: ["yogurt", "yoghurt", "יוגורט"],
+    grams: 150,
+    calories: 100,
+    protein: 10,
+    carbs: 6,
+    fat: 3,
+    fiber: 0,
+    sugar: 5,
+    sodium_mg: 55,
+  },
+  {
+    keywords: ["salad", "סלט"],
+    grams: 150,
+    calories: 50,
+    protein: 2,
+    carbs: 8,
+    fat: 1,
+    fiber: 3,
+    sugar: 4,
+    sodium_mg: 40,
+  },
+  {
+    keywords: ["cheese", "גבינ"],
+    grams: 30,
+    calories: 100,
+    protein: 7,
+    carbs: 1,
+    fat: 8,
+    fiber: 0,
+    sugar: 0.3,
+    sodium_mg: 180,
+  },
+];
+
+const GENERIC_FOOD: FixtureFood = {
+  keywords: [],
+  grams: 100,
+  calories: 150,
+  protein: 6,
+  carbs: 18,
+  fat: 6,
+  fiber: 2,
+  sugar: 4,
+  sodium_mg: 150,
+};
+
+// Deterministic stand-in used for tests, offline development and as the
+// fallback when a real provider fails. Same request in, same answer out.
+export class FixtureProvider implements AIProvider {
+  readonly name: AIProviderName = "fixture";
+  readonly offline = true;
+  readonly models: AIModelConfig = {
+    vision: FIXTURE_MODEL,
+    text: FIXTURE_MODEL,
+    chat: FIXTURE_MODEL,
+  };
+
+  async analyzeImage(request: AIVisionRequest): Promise<AICompletion> {
+    const content =
+      request.task === "product_label"
+        ? this.getProductLabel()
+        : this.getMealAnalysis(request.language);
+
+    return this.completion(JSON.stringify(content));
+  }
+
+  async generateText(request: AITextRequest): Promise<AICompletion> {
+    switch (request.task) {
+      case "meal_update":
+        return this.completion(
+          JSON.stringify(
+            this.getBasicUpdate(
+              request.context?.originalAnalysis ||
+                this.getMealAnalysis(request.language),
+              request.context?.updateText || ""
+            )
+          )
+        );
+      case "meal_description":
+        return this.completion(
+          JSON.stringify(
+            this.getDescribedMeal(
+              request.context?.description || request.prompt,
+              request.language
+            )
+          )
+        );
+      case "health_recommendation":
+        return this.completion(
+          this.getHealthRecommendation(request.context?.healthData || {})
+        );
+      default:
+        return this.completion(
+          "AI text generation not available - no API key configured"
+        );
+    }
+  }
+
+  async chat(request: AIChatRequest): Promise<AICompletion> {
+    const lastUserMessage =
+      [...request.messages].reverse().find((m) => m.role === "user")?.content ||
+      "";
+
+    return this.completion(
+      this.getChatResponse(lastUserMessage, request.language || "hebrew")
+    );
+  }
+
+  private completion(content: string): AICompletion {
+    return { content, provider: this.name, model: FIXTURE_MODEL };
+  }
+
+  private getMealAnalysis(language: string = "english") {
+    const isHebrew = language === "hebrew";
+
+    return {
+      name: isHebrew ? "ארוחה מנותחת" : "Analyzed Meal",
+      description: isHebrew ? "ניתוח בסיסי של הארוחה" : "Basic meal analysis",
+      calories: 400,
+      protein: 25,
+      carbs: 45,
+      fat: 15,
+      fiber: 8,
+      sugar: 10,
+      sodium: 600,
+      saturated_fats_g: 5,
+      polyunsaturated_fats_g: 3,
+      monounsaturated_fats_g: 7,
+      omega_3_g: 1,
+      omega_6_g: 2,
+      soluble_fiber_g: 4,
+      insoluble_fiber_g: 4,
+      cholesterol_mg: 50,
+      alcohol_g: 0,
+      caffeine_mg: 0,
+      liquids_ml: 200,
+      serving_size_g: 250,
+      glycemic_index: 55,
+      insulin_index: 45,
+      food_category: isHebrew ? "מעורב" : "Mixed",
+      processing_level: isHebrew ? "בינוני" : "Moderate",
+      cooking_method: isHebrew ? "מעורב" : "Mixed",
+      health_risk_notes: "",
+      confidence: 70,
+      ingredients: [
+        {
+          name: isHebrew ? "מרכיב עיקרי" : "Main ingredient",
+          calories: 200,
+          protein: 15,
+          carbs: 25,
+          fat: 8,
+          fiber: 4,
+          sugar: 5,
+          sodium_mg: 300,
+        },
+        {
+          name: isHebrew ? "מרכיב משני" : "Secondary ingredient",
+          calories: 200,
+          protein: 10,
+          carbs: 20,
+          fat: 7,
+          fiber: 4,
+          sugar: 5,
+          sodium_mg: 300,
+        },
+      ],
+      healthNotes: isHebrew
+        ? "ניתוח בסיסי - לתוצאות מדויקות יותר, הוסף מפתח OpenAI"
+        : "Basic analysis - for more accurate results, add OpenAI API key",
+      recommendations: isHebrew
+        ? "המלצות כלליות לתזונה בריאה"
+        : "General healthy nutrition recommendations",
+    };
+  }
+
+  private getProductLabel() {
+    return {
+      name: "Sample Product",
+      brand: "Fixture",
+      category: "snacks",
+      nutrition_per_100g: {
+        calories: 450,
+        protein: 8,
+        carbs: 60,
+        fat: 20,
+        fiber: 4,
+        sugar: 25,
+        sodium: 300,
+        saturated_fat: 6,
+        trans_fat: 0,
+        cholesterol: 0,
+        potassium: 200,
+        calcium: 40,
+        iron: 2,
+        vitamin_c: 0,
+        vitamin_d: 0,
+      },
+      ingredients: ["wheat flour", "sugar", "vegetable oil", "salt"],
+      allergens: ["gluten"],
+      labels: [],
+      health_score: 40,
+      serving_size: "30g",
+      servings_per_container: 5,
+    };
+  }
+
+  // Splits "2 eggs and toast" into items and prices each one from a small
+  // table of common foods; unknown foods get a generic estimate
+  private getDescribedMeal(description: string, language: string = "english") {
+    const isHebrew = language === "hebrew";
+    const numberWords: Record<string, number> = {
+      a: 1,
+      an: 1,
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      half: 0.5,
+      אחד: 1,
+      אחת: 1,
+      שתי: 2,
+      שני: 2,
+      שלוש: 3,
+      חצי: 0.5,
+    };
+
+    const ingredients = description
+      .split(/,|\+|\band\b|\bwith\b|\s+ו(?=\S)|\s+עם\s+/i)
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => {
+        const words = part.split(/\s+/);
+        const first = words[0].toLowerCase();
+        let quantity = 1;
+        let name = part;
+
+        if (/^\d+(\.\d+)?$/.test(first)) {
+          quantity = parseFloat(first);
+          name = words.slice(1).join(" ") || part;
+        } else if (numberWords[first] !== undefined) {
+          quantity = numberWords[first];
+          name = words.slice(1).join(" ") || part;
+        }
+
+        const food =
+          FIXTURE_FOODS.find((entry) =>
+            entry.keywords.some((keyword) =>
+              name.toLowerCase().includes(keyword)
+            )
+          ) || GENERIC_FOOD;
+        const round = (value: number) => Math.round(value * quantity * 10) / 10;
+
+        return {
+          name,
+          quantity,
+          calories: round(food.calories),
+          protein: round(food.protein),
+          carbs: round(food.carbs),
+          fat: round(food.fat),
+          fiber: round(food.fiber),
+          sugar: round(food.sugar),
+          sodium_mg: round(food.sodium_mg),
+          serving_size_g: round(food.grams),
+        };
+      });
+
+    const sum = (key: keyof (typeof ingredients)[number]) =>
+      Math.round(
+        ingredients.reduce((total, item) => total + (item[key] as number), 0) *
+          10
+      ) / 10;
+
+    return {
+      name:
+        description.length > 60
+          ? `${description.slice(0, 57)}...`
+          : description,
+      description,
+      calories: sum("calories"),
+      protein: sum("protein"),
+      carbs: sum("carbs"),
+      fat: sum("fat"),
+      fiber: sum("fiber"),
+      sugar: sum("sugar"),
+      sodium: sum("sodium_mg"),
+      serving_size_g: sum("serving_size_g"),
+      food_category: isHebrew ? "מעורב" : "Mixed",
+      confidence: 60,
+      ingredients,
+      healthNotes: isHebrew
+        ? "הערכה בסיסית לפי התיאור - לתוצאות מדויקות יותר, הוסף מפתח OpenAI"
+        : "Basic estimate from the description - for more accurate results, add OpenAI API key",
+    };
+  }
+
+  private getBasicUpdate(originalAnalysis: any, updateText: string) {
+    // Simple keyword-based adjustments
+    const updated = { ...originalAnalysis };
+    const lowerUpdate = updateText.toLowerCase();
+
+    if (lowerUpdate.includes("more protein") || lowerUpdate.includes("חלבון")) {
+      updated.protein = Math.round(updated.protein * 1.2);
+      updated.protein_g = updated.protein;
+    }
+
+    if (
+      lowerUpdate.includes("less calories") ||
+      lowerUpdate.includes("פחות קלוריות")
+    ) {
+      updated.calories = Math.round(updated.calories * 0.8);
+    }
+
+    if (
+      lowerUpdate.includes("more vegetables") ||
+      lowerUpdate.includes("ירקות")
+    ) {
+      updated.fiber = Math.round(updated.fiber * 1.3);
+      updated.fiber_g = updated.fiber;
+    }
+
+    updated.healthNotes = `Updated based on user input: ${updateText}`;
+    updated.confidence = Math.max(50, (updated.confidence || 75) - 10);
+
+    return updated;
+  }
+
+  private getChatResponse(message: string, language: string): string {
+    const isHebrew = language === "hebrew";
+    const lowerMessage = message.toLowerCase();
+
+    if (
+      lowerMessage.includes("קלוריות") ||
+      lowerMessage.includes("calories") ||
+      lowerMessage.includes("כמה")
+    ) {
+      return isHebrew
+        ? "כדי לתת לך מידע מדויק על קלוריות, אני צריך פרטים נוספים על המזון או הכמות. אתה יכול לצלם את המוצר או להכניס פרטים נוספים."
+        : "To give you accurate calorie information, I need more details about the food or quantity. You can photograph the product or enter additional details.";
+    }
+
+    if (
+      lowerMessage.includes("המלצה") ||
+      lowerMessage.includes("recommendation") ||
+      lowerMessage.includes("מה לאכול")
+    ) {
+      return isHebrew
+        ? "אני אשמח להמליץ לך על ארוחות! בהתבסס על המידע שיש לי, אני מציע להתמקד בארוחות עם חלבון איכותי, ירקות טריים ופחמימות מורכבות. אתה יכול לספר לי על המטרות שלך או הגבלות תזונתיות ואתן המלצות ספציפיות יותר."
+        : "I'd be happy to recommend meals for you! Based on the information I have, I suggest focusing on meals with quality protein, fresh vegetables, and complex carbohydrates. You can tell me about your goals or dietary restrictions and I'll give more specific recommendations.";
+    }
+
+    return isHebrew
+      ? "אני כאן לעזור לך עם שאלות תזונה! אתה יכול לשאול אותי על ערכים תזונתיים, המלצות לארוחות, או כל שאלה אחרת הקשורה לתזונה. ⚠️ חשוב לזכור שזה ייעוץ כללי ולא תחליף לייעוץ רפואי מוסמך."
+      : "I'm here to help with nutrition questions! You can ask me about nutritional values, meal recommendations, or any other nutrition-related questions. ⚠️ Important to remember this is general advice and not a substitute for licensed medical consultation.";
+  }
+
+  private getHealthRecommendation(healthData: any): string {
+    return `על בסיס הפעילות שלך היום (${healthData.steps || 0} צעדים, ${
+      healthData.caloriesBurned || 0
+    } קלוריות שנשרפו), מומלץ:
+        1. להגדיל את צריכת המים ל-${Math.ceil(
+          (healthData.activeMinutes || 0) / 10
+        )} כוסות נוספות
+        2. לאכול ארוחה עשירה בחלבון לשיקום השרירים
+        3. לצרוך פחמימות איכותיות למילוי מאגרי האנרגיה
+
+        הערה: זוהי המלצה כללית. לייעוץ אישי, יש להוסיף מפתח OpenAI.`;
+  }
+}
@@ -0,0 +1,102 @@
+import { AIModelConfig, AIProvider, AIProviderName } from "../../types/ai";
+import { FixtureProvider } from "./fixtureProvider";
+import { LocalProvider } from "./localProvider";
+import { OpenAIProvider } from "./openaiProvider";
+
+export { FixtureProvider, LocalProvider, OpenAIProvider };
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+let provider: AIProvider | null = null;
+const fixtureProvider = new FixtureProvider();
+
+function resolveModels(defaultModel: string): AIModelConfig {
+  const base = process.env.AI_MODEL || defaultModel;
+  return {
+    vision: process.env.AI_VISION_MODEL || base,
+    text: process.env.AI_TEXT_MODEL || base,
+    chat: process.env.AI_CHAT_MODEL || base,
+  };
+}
+
+function resolveProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER?.toLowerCase();
+
+  if (
+    configured === "openai" ||
+    configured === "local" ||
+    configured === "fixture"
+  ) {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`⚠️ Unknown AI_PROVIDER "${configured}", ignoring`);
+  }
+
+  return process.env.OPENAI_API_KEY ? "openai" : "fixture";
+}
+
+function createProvider(): AIProvider {
+  const name = resolveProviderName();
+  const timeoutMs = Number(process.env.AI_TIMEOUT_MS) || undefined;
+
+  switch (name) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn(
+          "⚠️ AI_PROVIDER=openai but OPENAI_API_KEY is missing, using fixture provider"
+        );
+        return fixtureProvider;
+      }
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL,
+        models: resolveModels(DEFAULT_OPENAI_MODEL),
+        timeoutMs,
+      });
+
+    case "local":
+      if (!process.env.AI_LOCAL_BASE_URL) {
+        console.warn(
+          "⚠️ AI_PROVIDER=local but AI_LOCAL_BASE_URL is missing, using fixture provider"
+        );
+        return fixtureProvider;
+      }
+      if (!process.env.AI_MODEL && !process.env.AI_TEXT_MODEL) {
+        console.warn(
+          "⚠️ No AI_MODEL configured for the local provider, requests will likely fail"
+        );
+      }
+      return new LocalProvider({
+        baseURL: process.env.AI_LOCAL_BASE_URL,
+        apiKey: process.env.AI_LOCAL_API_KEY,
+        models: resolveModels("local-model"),
+        timeoutMs,
+      });
+
+    case "fixture":
+      return fixtureProvider;
+  }
+}
+
+// The configured provider, created on first use
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(
+      `🤖 AI provider: ${provider.name} (vision: ${provider.models.vision}, text: ${provider.models.text}, chat: ${provider.models.chat})`
+    );
+  }
+  return provider;
+}
+
+// Deterministic answers for when the configured provider fails
+export function getFallbackAIProvider(): AIProvider {
+  return fixtureProvider;
+}
+
+// Allows tests and scripts to swap the provider at runtime
+export function setAIProvider(next: AIProvider | null) {
+  provider = next;
+}
@@ -0,0 +1,25 @@
+import { AIModelConfig, AIProviderName } from "../../types/ai";
+import { OpenAIProvider } from "./openaiProvider";
+
+export interface LocalProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  models: AIModelConfig;
+  timeoutMs?: number;
+}
+
+// Talks to any server exposing the OpenAI chat completions API
+// (Ollama, llama.cpp, vLLM, LM Studio...)
+export class LocalProvider extends OpenAIProvider {
+  readonly name: AIProviderName = "local";
+
+  constructor(options: LocalProviderOptions) {
+    super({
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: options.apiKey || "local",
+      baseURL: options.baseURL,
+      models: options.models,
+      timeoutMs: options.timeoutMs,
+    });
+  }
+}
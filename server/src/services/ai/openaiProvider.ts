@@ -0,0 +1,107 @@
+import OpenAI from "openai";
+import {
+  AIChatRequest,
+  AICompletion,
+  AIModelConfig,
+  AIProvider,
+  AIProviderName,
+  AITextRequest,
+  AIVisionRequest,
+} from "../../types/ai";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  models: AIModelConfig;
+  timeoutMs?: number;
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name: AIProviderName = "openai";
+  readonly offline = false;
+  readonly models: AIModelConfig;
+  protected client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.models = options.models;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs,
+    });
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<AICompletion> {
+    let cleanBase64 = request.imageBase64;
+    if (cleanBase64.startsWith("data:image/")) {
+      cleanBase64 = cleanBase64.split(",")[1];
+    }
+
+    return this.complete(
+      this.models.vision,
+      [
+        { role: "system", content: request.systemPrompt },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: request.userPrompt },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:image/jpeg;base64,${cleanBase64}`,
+                detail: "high",
+              },
+            },
+          ],
+        },
+      ],
+      request.maxTokens ?? 2000,
+      request.temperature ?? 0.3
+    );
+  }
+
+  async generateText(request: AITextRequest): Promise<AICompletion> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+    messages.push({ role: "user", content: request.prompt });
+
+    return this.complete(
+      this.models.text,
+      messages,
+      request.maxTokens ?? 1000,
+      request.temperature ?? 0.7
+    );
+  }
+
+  async chat(request: AIChatRequest): Promise<AICompletion> {
+    return this.complete(
+      this.models.chat,
+      request.messages,
+      request.maxTokens ?? 1000,
+      request.temperature ?? 0.7
+    );
+  }
+
+  protected async complete(
+    model: string,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    maxTokens: number,
+    temperature: number
+  ): Promise<AICompletion> {
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content || content.trim() === "") {
+      throw new Error(`No response from ${this.name} provider`);
+    }
+
+    return { content, provider: this.name, model };
+  }
+}
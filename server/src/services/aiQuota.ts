@@ -0,0 +1,147 @@
+import { AiFeature, SubscriptionType } from "@prisma/client";
+import { prisma } from "../lib/database";
+
+export interface PlanQuota {
+  name: string;
+  dailyLimits: Record<AiFeature, number>;
+}
+
+export interface FeatureQuotaStatus {
+  feature: AiFeature;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface QuotaCheckResult extends FeatureQuotaStatus {
+  allowed: boolean;
+  plan: SubscriptionType;
+  windowStart: Date;
+}
+
+// Daily AI request limits per subscription plan and feature
+export const PLAN_QUOTAS: Record<SubscriptionType, PlanQuota> = {
+  FREE: {
+    name: "Free Plan",
+    dailyLimits: {
+      MEAL_ANALYSIS: 5,
+      CHAT: 10,
+      MENU_GENERATION: 1,
+      PRODUCT_SCAN: 5,
+    },
+  },
+  PREMIUM: {
+    name: "Premium Plan",
+    dailyLimits: {
+      MEAL_ANALYSIS: 30,
+      CHAT: 100,
+      MENU_GENERATION: 5,
+      PRODUCT_SCAN: 30,
+    },
+  },
+  GOLD: {
+    name: "Gold Plan",
+    dailyLimits: {
+      MEAL_ANALYSIS: 100,
+      CHAT: 300,
+      MENU_GENERATION: 20,
+      PRODUCT_SCAN: 100,
+    },
+  },
+};
+
+export class AIQuotaService {
+  static getPlanQuota(plan?: SubscriptionType | null): PlanQuota {
+    return PLAN_QUOTAS[plan || "FREE"] || PLAN_QUOTAS.FREE;
+  }
+
+  // Quotas run per calendar day and reset at midnight
+  static getWindow(now: Date = new Date()): { start: Date; resetAt: Date } {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    const resetAt = new Date(start);
+    resetAt.setDate(resetAt.getDate() + 1);
+    return { start, resetAt };
+  }
+
+  static async consume(
+    userId: string,
+    plan: SubscriptionType | null | undefined,
+    feature: AiFeature
+  ): Promise<QuotaCheckResult> {
+    const planType = plan || "FREE";
+    const limit = this.getPlanQuota(planType).dailyLimits[feature];
+    const { start, resetAt } = this.getWindow();
+    const key = {
+      user_id_feature_date: { user_id: userId, feature, date: start },
+    };
+
+    await prisma.aiUsage.upsert({
+      where: key,
+      create: { user_id: userId, feature, date: start, count: 0 },
+      update: {},
+    });
+
+    // Conditional increment so concurrent requests cannot overshoot the limit
+    const { count: incremented } = await prisma.aiUsage.updateMany({
+      where: { user_id: userId, feature, date: start, count: { lt: limit } },
+      data: { count: { increment: 1 } },
+    });
+
+    const usage = await prisma.aiUsage.findUnique({ where: key });
+    const used = usage?.count || 0;
+
+    return {
+      allowed: incremented > 0,
+      plan: planType,
+      feature,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetAt,
+      windowStart: start,
+    };
+  }
+
+  // Gives back a request that failed before producing a result
+  static async refund(userId: string, feature: AiFeature, windowStart: Date) {
+    try {
+      await prisma.aiUsage.updateMany({
+        where: {
+          user_id: userId,
+          feature,
+          date: windowStart,
+          count: { gt: 0 },
+        },
+        data: { count: { decrement: 1 } },
+      });
+    } catch (error) {
+      console.warn("Failed to refund AI quota:", error);
+    }
+  }
+
+  static async getUsage(
+    userId: string,
+    plan: SubscriptionType | null | undefined
+  ): Promise<FeatureQuotaStatus[]> {
+    const { start, resetAt } = this.getWindow();
+    const limits = this.getPlanQuota(plan).dailyLimits;
+
+    const usage = await prisma.aiUsage.findMany({
+      where: { user_id: userId, date: start },
+    });
+    const usedByFeature = new Map(usage.map((row) => [row.feature, row.count]));
+
+    return (Object.keys(limits) as AiFeature[]).map((feature) => {
+      const used = usedByFeature.get(feature) || 0;
+      return {
+        feature,
+        limit: limits[feature],
+        used,
+        remaining: Math.max(0, limits[feature] - used),
+        resetAt,
+      };
+    });
+  }
+}
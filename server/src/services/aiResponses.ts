@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { prisma } from "../lib/database";
+import { getAIProvider } from "./ai";
+import { AITask } from "../types/ai";
+import {
+  AIPayloadKind,
+  mealAnalysisSchema,
+  menuSchema,
+  replacementMealSchema,
+} from "../types/aiResponses";
+import { AIJSONError, extractJSON, sanityIssues } from "../utils/aiResponses";
+
+const SCHEMAS = {
+  meal_analysis: mealAnalysisSchema,
+  menu: menuSchema,
+  replacement_meal: replacementMealSchema,
+};
+
+export type AIPayload<K extends AIPayloadKind> = z.infer<(typeof SCHEMAS)[K]>;
+
+// Thrown when a response is still invalid after the repair round-trip
+export class AIResponseError extends Error {
+  constructor(
+    message: string,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+export interface AIResponseOptions {
+  task: AITask;
+  language?: string;
+  userId?: string;
+  // Model that produced the response, for the rejection log
+  model?: string;
+  maxTokens?: number;
+}
+
+type Validation<K extends AIPayloadKind> =
+  { success: true; data: AIPayload<K> } | { success: false; issues: string[] };
+
+export class AIResponseService {
+  // Parses and validates a model response. An invalid response is sent back
+  // to the model once with the problems found; rejected payloads are stored
+  // in rejected_ai_responses.
+  static async parse<K extends AIPayloadKind>(
+    kind: K,
+    content: string,
+    options: AIResponseOptions
+  ): Promise<AIPayload<K>> {
+    const first = this.validate(kind, content);
+    if (first.success) return first.data;
+
+    console.log(`⚠️ AI ${kind} response failed validation:`, first.issues);
+    await this.recordRejection(kind, content, first.issues, 1, options);
+
+    const provider = getAIProvider();
+    if (provider.offline) {
+      throw new AIResponseError(`Invalid AI ${kind} response`, first.issues);
+    }
+
+    console.log(`🔧 Asking ${provider.name} to repair the ${kind} response...`);
+    const repaired = await provider.generateText({
+      task: options.task,
+      language: options.language,
+      systemPrompt:
+        "You fix JSON produced by another request. Reply with the corrected JSON object only, keeping the same structure and content except where needed to fix the listed problems.",
+      prompt: this.buildRepairPrompt(content, first.issues),
+      context: { repair: true, issues: first.issues },
+      maxTokens: options.maxTokens || 2000,
+      temperature: 0,
+    });
+
+    const second = this.validate(kind, repaired.content);
+    if (second.success) {
+      console.log(`✅ Repaired AI ${kind} response`);
+      return second.data;
+    }
+
+    console.log(
+      `💥 Repaired ${kind} response is still invalid:`,
+      second.issues
+    );
+    await this.recordRejection(kind, repaired.content, second.issues, 2, {
+      ...options,
+      model: repaired.model,
+    });
+    throw new AIResponseError(`Invalid AI ${kind} response`, second.issues);
+  }
+
+  static validate<K extends AIPayloadKind>(
+    kind: K,
+    content: string
+  ): Validation<K> {
+    let json: unknown;
+    try {
+      json = extractJSON(content);
+    } catch (error) {
+      if (error instanceof AIJSONError) {
+        return { success: false, issues: [error.message] };
+      }
+      throw error;
+    }
+
+    const result = SCHEMAS[kind].safeParse(json);
+    if (!result.success) {
+      return {
+        success: false,
+        issues: result.error.issues.map(
+          (issue) => `${issue.path.join(".") || "response"}: ${issue.message}`
+        ),
+      };
+    }
+
+    const issues = sanityIssues(kind, result.data);
+    return issues.length > 0
+      ? { success: false, issues }
+      : { success: true, data: result.data as AIPayload<K> };
+  }
+
+  private static buildRepairPrompt(content: string, issues: string[]) {
+    return `The JSON below has these problems:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Calories must match protein * 4 + carbs * 4 + fat * 9, and totals must equal the sum of their parts.
+
+${content}`;
+  }
+
+  // Storing is best effort: a failed insert must not hide the real error
+  private static async recordRejection(
+    kind: AIPayloadKind,
+    payload: string,
+    issues: string[],
+    attempt: number,
+    options: AIResponseOptions
+  ) {
+    try {
+      await prisma.rejectedAiResponse.create({
+        data: {
+          user_id: options.userId,
+          kind,
+          task: options.task,
+          provider: getAIProvider().name,
+          model: options.model,
+          attempt,
+          payload,
+          issues,
+        },
+      });
+    } catch (error) {
+      console.error("💥 Failed to store rejected AI response:", error);
+    }
+  }
+}
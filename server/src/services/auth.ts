@@ -21,6 +21,7 @@ const userSelectFields = {
   created_at: true,
   email_verified: true,
   is_questionnaire_completed: true,
+  timezone: true,
 };
 
 function generatePasswordResetToken(email: string) {
@@ -455,6 +456,11 @@ export class AuthService {
     }
   }
 
+  // Keeps the user's time zone in step with the one their app reports
+  static async updateTimeZone(user_id: string, timezone: string) {
+    await prisma.user.update({ where: { user_id }, data: { timezone } });
+  }
+
   static async signOut(token: string) {
     await prisma.session.deleteMany({ where: { token } });
   }
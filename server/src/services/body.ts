@@ -0,0 +1,123 @@
+import { Prisma, WeightEntrySource } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  DeviceBodyMeasurement,
+  WeightEntryInput,
+  WeightEntryQuery,
+} from "../types/body";
+
+export class BodyEntryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "BodyEntryError";
+  }
+}
+
+export class BodyService {
+  static async getEntries(userId: string, query: WeightEntryQuery) {
+    return prisma.weightEntry.findMany({
+      where: {
+        user_id: userId,
+        measured_at: { gte: query.from, lte: query.to },
+      },
+      include: { device: { select: { device_name: true, device_type: true } } },
+      orderBy: { measured_at: "desc" },
+      take: query.limit,
+    });
+  }
+
+  static async createEntry(userId: string, input: WeightEntryInput) {
+    const entry = await prisma.weightEntry.create({
+      data: {
+        user_id: userId,
+        source: WeightEntrySource.MANUAL,
+        measured_at: input.measured_at || new Date(),
+        weight_kg: input.weight_kg,
+        body_fat_percentage: input.body_fat_percentage,
+        waist_cm: input.waist_cm,
+        note: input.note,
+      },
+    });
+
+    console.log(`⚖️ Logged body measurement for user ${userId}`);
+    return entry;
+  }
+
+  // Device entries can only have their note changed; the measurements are
+  // overwritten by the next sync anyway
+  static async updateEntry(
+    userId: string,
+    entryId: string,
+    input: WeightEntryInput
+  ) {
+    const entry = await this.findOwnedEntry(userId, entryId);
+
+    const data: Prisma.WeightEntryUpdateInput =
+      entry.source === WeightEntrySource.DEVICE
+        ? { note: input.note }
+        : {
+            measured_at: input.measured_at || entry.measured_at,
+            weight_kg: input.weight_kg ?? null,
+            body_fat_percentage: input.body_fat_percentage ?? null,
+            waist_cm: input.waist_cm ?? null,
+            note: input.note ?? null,
+          };
+
+    return prisma.weightEntry.update({
+      where: { weight_entry_id: entry.weight_entry_id },
+      data,
+    });
+  }
+
+  static async deleteEntry(userId: string, entryId: string) {
+    const entry = await this.findOwnedEntry(userId, entryId);
+    await prisma.weightEntry.delete({
+      where: { weight_entry_id: entry.weight_entry_id },
+    });
+  }
+
+  // Called from device sync; one entry per device and day, updated in place
+  // when the device syncs again
+  static async recordDeviceMeasurement(
+    userId: string,
+    deviceId: string,
+    date: Date,
+    measurement: DeviceBodyMeasurement
+  ) {
+    const weight = measurement.weight_kg || null;
+    const bodyFat = measurement.body_fat_percentage || null;
+    if (weight === null && bodyFat === null) return null;
+
+    return prisma.weightEntry.upsert({
+      where: {
+        user_id_device_id_measured_at: {
+          user_id: userId,
+          device_id: deviceId,
+          measured_at: date,
+        },
+      },
+      update: { weight_kg: weight, body_fat_percentage: bodyFat },
+      create: {
+        user_id: userId,
+        device_id: deviceId,
+        source: WeightEntrySource.DEVICE,
+        measured_at: date,
+        weight_kg: weight,
+        body_fat_percentage: bodyFat,
+      },
+    });
+  }
+
+  private static async findOwnedEntry(userId: string, entryId: string) {
+    const entry = await prisma.weightEntry.findFirst({
+      where: { weight_entry_id: entryId, user_id: userId },
+    });
+    if (!entry) {
+      throw new BodyEntryError("Body measurement not found", 404);
+    }
+    return entry;
+  }
+}
@@ -1,11 +1,6 @@
-import OpenAI from "openai";
 import { prisma } from "../lib/database";
-
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+import { getAIProvider, getFallbackAIProvider } from "./ai";
+import { AIChatMessage } from "../types/ai";
 
 export class ChatService {
   static async processMessage(
@@ -38,42 +33,33 @@ export class ChatService {
         message
       );
 
+      const messages: AIChatMessage[] = [
+        { role: "system", content: systemPrompt },
+        ...conversationHistory,
+      ];
+
       let aiResponse: string;
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using fallback response");
-        aiResponse = this.getFallbackResponse(message, language);
-      } else {
-        try {
-          console.log("🔄 Calling OpenAI API...");
-
-          // Call OpenAI with improved error handling
-          const response = await openai.chat.completions.create({
-            model: "gpt-5",
-            messages: [
-              { role: "system", content: systemPrompt },
-              ...conversationHistory,
-            ],
-            max_tokens: 1000,
-            temperature: 0.7,
-          });
-
-          const aiContent = response.choices[0]?.message?.content;
-
-          if (!aiContent || aiContent.trim() === "") {
-            console.log("⚠️ Empty response from OpenAI, using fallback");
-            aiResponse = this.getFallbackResponse(message, language);
-          } else {
-            aiResponse = aiContent.trim();
-            console.log(
-              "✅ OpenAI response received:",
-              aiResponse.substring(0, 100) + "..."
-            );
-          }
-        } catch (openaiError) {
-          console.error("💥 OpenAI API error:", openaiError);
-          aiResponse = this.getFallbackResponse(message, language);
-        }
+      try {
+        const provider = getAIProvider();
+        console.log(`🔄 Calling AI provider (${provider.name})...`);
+
+        const completion = await provider.chat({
+          task: "chat",
+          language,
+          messages,
+          maxTokens: 1000,
+          temperature: 0.7,
+        });
+
+        aiResponse = completion.content.trim();
+        console.log(
+          "✅ AI response received:",
+          aiResponse.substring(0, 100) + "..."
+        );
+      } catch (providerError) {
+        console.error("💥 AI provider error:", providerError);
+        aiResponse = await this.getFallbackResponse(message, language);
       }
 
       // Ensure we have a valid response
@@ -96,7 +82,7 @@ export class ChatService {
     } catch (error) {
       console.error("💥 Chat service error:", error);
 
-      const fallbackResponse = this.getFallbackResponse(message, language);
+      const fallbackResponse = await this.getFallbackResponse(message, language);
 
       return {
         response: fallbackResponse,
@@ -266,36 +252,17 @@ For cooking questions: give suggestions for nutritional improvement of the recip
     return history;
   }
 
-  private static getFallbackResponse(
+  private static async getFallbackResponse(
     message: string,
     language: string
-  ): string {
-    const isHebrew = language === "hebrew";
-    const lowerMessage = message.toLowerCase();
-
-    if (
-      lowerMessage.includes("קלוריות") ||
-      lowerMessage.includes("calories") ||
-      lowerMessage.includes("כמה")
-    ) {
-      return isHebrew
-        ? "כדי לתת לך מידע מדויק על קלוריות, אני צריך פרטים נוספים על המזון או הכמות. אתה יכול לצלם את המוצר או להכניס פרטים נוספים."
-        : "To give you accurate calorie information, I need more details about the food or quantity. You can photograph the product or enter additional details.";
-    }
-
-    if (
-      lowerMessage.includes("המלצה") ||
-      lowerMessage.includes("recommendation") ||
-      lowerMessage.includes("מה לאכול")
-    ) {
-      return isHebrew
-        ? "אני אשמח להמליץ לך על ארוחות! בהתבסס על המידע שיש לי, אני מציע להתמקד בארוחות עם חלבון איכותי, ירקות טריים ופחמימות מורכבות. אתה יכול לספר לי על המטרות שלך או הגבלות תזונתיות ואתן המלצות ספציפיות יותר."
-        : "I'd be happy to recommend meals for you! Based on the information I have, I suggest focusing on meals with quality protein, fresh vegetables, and complex carbohydrates. You can tell me about your goals or dietary restrictions and I'll give more specific recommendations.";
-    }
+  ): Promise<string> {
+    const { content } = await getFallbackAIProvider().chat({
+      task: "chat",
+      language,
+      messages: [{ role: "user", content: message }],
+    });
 
-    return isHebrew
-      ? "אני כאן לעזור לך עם שאלות תזונה! אתה יכול לשאול אותי על ערכים תזונתיים, המלצות לארוחות, או כל שאלה אחרת הקשורה לתזונה. ⚠️ חשוב לזכור שזה ייעוץ כללי ולא תחליף לייעוץ רפואי מוסמך."
-      : "I'm here to help with nutrition questions! You can ask me about nutritional values, meal recommendations, or any other nutrition-related questions. ⚠️ Important to remember this is general advice and not a substitute for licensed medical consultation.";
+    return content;
   }
 
   static async saveChatMessage(
@@ -427,41 +394,18 @@ For cooking questions: give suggestions for nutritional improvement of the recip
         Be specific, safe, and practical in your recommendations. Answer in Hebrew.
       `;
 
-      // Process with OpenAI
-      if (!process.env.OPENAI_API_KEY || !openai) {
-        return `על בסיס הפעילות שלך היום (${healthData.steps} צעדים, ${
-          healthData.caloriesBurned
-        } קלוריות שנשרפו), מומלץ:
-        1. להגדיל את צריכת המים ל-${Math.ceil(
-          healthData.activeMinutes / 10
-        )} כוסות נוספות
-        2. לאכול ארוחה עשירה בחלבון לשיקום השרירים
-        3. לצרוך פחמימות איכותיות למילוי מאגרי האנרגיה
-
-        הערה: זוהי המלצה כללית. לייעוץ אישי, יש להוסיף מפתח OpenAI.`;
-      }
-
-      const completion = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content:
-              "אתה יועץ תזונה מקצועי הנותן המלצות מותאמות אישית על בסיס נתוני פעילות גופנית ופרופיל בריאותי. תן תשובות בעברית, בטוחות ומעשיות. אם יש אלרגיות - לעולם אל תציע מזונות המכילים אלרגנים אלה.",
-          },
-          {
-            role: "user",
-            content: healthPrompt,
-          },
-        ],
-        max_tokens: 500,
+      const { content } = await getAIProvider().generateText({
+        task: "health_recommendation",
+        language: "hebrew",
+        systemPrompt:
+          "אתה יועץ תזונה מקצועי הנותן המלצות מותאמות אישית על בסיס נתוני פעילות גופנית ופרופיל בריאותי. תן תשובות בעברית, בטוחות ומעשיות. אם יש אלרגיות - לעולם אל תציע מזונות המכילים אלרגנים אלה.",
+        prompt: healthPrompt,
+        context: { healthData },
+        maxTokens: 500,
         temperature: 0.7,
       });
 
-      return (
-        completion.choices[0]?.message?.content ||
-        "לא הצלחתי ליצור המלצות מותאמות אישית."
-      );
+      return content || "לא הצלחתי ליצור המלצות מותאמות אישית.";
     } catch (error) {
       console.error("Error in health-based recommendation:", error);
       throw error;
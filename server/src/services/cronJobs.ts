@@ -1,5 +1,9 @@
 import cron from "node-cron";
 import { prisma } from "../lib/database";
+import { SubscriptionService } from "./subscription";
+import { clearExpiredMisses } from "./productSources";
+import { DeviceOAuthService } from "./deviceOAuth";
+import { DeviceSyncService } from "./deviceSync";
 
 export class CronJobService {
   static initializeCronJobs() {
@@ -7,11 +11,82 @@ export class CronJobService {
     cron.schedule("0 0 * * *", async () => {
       console.log("🕛 Running daily reset job at midnight");
       await this.resetDailyBadges();
+      await this.clearProductLookupMisses();
+    });
+
+    // Downgrade expired subscriptions to FREE every hour
+    cron.schedule("0 * * * *", async () => {
+      await this.expireSubscriptions();
+    });
+    this.expireSubscriptions();
+
+    // Refresh device OAuth tokens before they expire
+    cron.schedule("*/5 * * * *", async () => {
+      await this.refreshDeviceTokens();
+    });
+
+    // Pull wearable data for devices whose sync is due
+    cron.schedule("*/15 * * * *", async () => {
+      await this.syncDevices();
     });
 
     console.log("📅 Cron jobs initialized");
   }
 
+  private static async syncDevices() {
+    try {
+      const { due, synced, failed } = await DeviceSyncService.runDueSyncs();
+
+      if (due > 0) {
+        console.log(
+          `⌚ Device sync: ${synced}/${due} synced, ${failed} failed`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Error running device syncs:", error);
+    }
+  }
+
+  private static async refreshDeviceTokens() {
+    try {
+      const { scanned, refreshed, failed } =
+        await DeviceOAuthService.refreshExpiringTokens();
+      const expiredStates = await DeviceOAuthService.deleteExpiredStates();
+
+      if (scanned > 0 || expiredStates > 0) {
+        console.log(
+          `🔑 Device tokens: ${refreshed}/${scanned} refreshed, ${failed} failed, ${expiredStates} expired authorizations removed`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Error refreshing device tokens:", error);
+    }
+  }
+
+  private static async expireSubscriptions() {
+    try {
+      const { downgradedUsers, expiredSessions } =
+        await SubscriptionService.expireSubscriptions();
+
+      if (downgradedUsers > 0 || expiredSessions > 0) {
+        console.log(
+          `⏰ Subscriptions expired: ${downgradedUsers} users downgraded, ${expiredSessions} checkout sessions closed`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Error expiring subscriptions:", error);
+    }
+  }
+
+  private static async clearProductLookupMisses() {
+    try {
+      const cleared = await clearExpiredMisses();
+      console.log(`🧹 Cleared ${cleared} expired product lookup misses`);
+    } catch (error) {
+      console.error("❌ Error clearing product lookup misses:", error);
+    }
+  }
+
   private static async resetDailyBadges() {
     try {
       const yesterday = new Date();
@@ -0,0 +1,452 @@
+import axios from "axios";
+import crypto from "crypto";
+import { ConnectedDevice, DeviceType } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { DeviceService } from "../devices";
+import {
+  OAuthCallbackQuery,
+  OAuthProviderConfig,
+  OAuthTokenSet,
+  TokenRefreshResult,
+} from "../../types/devices";
+import {
+  TokenEncryptionError,
+  decryptToken,
+  encryptToken,
+} from "../../utils/tokenEncryption";
+import {
+  OAUTH_DEVICE_TYPES,
+  getOAuthProvider,
+  isOAuthDeviceType,
+} from "./providers";
+
+export { getOAuthProvider, isOAuthDeviceType };
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 15000;
+// Tokens that expire within this window are refreshed ahead of time
+export const REFRESH_WINDOW_MS = 15 * 60 * 1000;
+const DEV_REDIRECT_URI = "http://localhost:5000/api/devices/oauth/callback";
+// URL schemes the callback may send the browser back to (the app's own)
+const DEFAULT_RETURN_SCHEMES = "myapp,exp,exps";
+
+export class DeviceOAuthError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "DeviceOAuthError";
+  }
+}
+
+export interface OAuthAuthorization {
+  url: string;
+  state: string;
+  expires_at: Date;
+}
+
+export interface OAuthCallbackResult {
+  deviceType: DeviceType;
+  returnUrl: string | null;
+  deviceId?: string;
+  error?: string;
+}
+
+type RefreshableDevice = Pick<
+  ConnectedDevice,
+  "connected_device_id" | "device_type" | "refresh_token_encrypted"
+>;
+
+function resolveRedirectUri(): string {
+  if (process.env.DEVICE_OAUTH_REDIRECT_URI) {
+    return process.env.DEVICE_OAUTH_REDIRECT_URI;
+  }
+  if (process.env.API_BASE_URL) {
+    return `${process.env.API_BASE_URL.replace(/\/$/, "")}/devices/oauth/callback`;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "DEVICE_OAUTH_REDIRECT_URI or API_BASE_URL must be set in production"
+    );
+  }
+
+  console.warn(
+    "⚠️ DEVICE_OAUTH_REDIRECT_URI is not set, using the development callback URL"
+  );
+  return DEV_REDIRECT_URI;
+}
+
+function isAllowedReturnUrl(returnUrl: string): boolean {
+  const schemes = (
+    process.env.DEVICE_OAUTH_RETURN_SCHEMES || DEFAULT_RETURN_SCHEMES
+  )
+    .split(",")
+    .map((scheme) => scheme.trim().toLowerCase());
+  const scheme = new URL(returnUrl).protocol.replace(/:$/, "");
+  return schemes.includes(scheme);
+}
+
+// RFC 7636 S256 code challenge
+export function createPkcePair() {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto
+    .createHash("sha256")
+    .update(verifier)
+    .digest("base64url");
+  return { verifier, challenge };
+}
+
+// Provider rejections (bad code, revoked refresh token) become a
+// DeviceOAuthError; network failures and 5xx responses are rethrown as they
+// are so callers can retry later
+async function requestTokens(
+  provider: OAuthProviderConfig,
+  params: Record<string, string>
+): Promise<OAuthTokenSet> {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  if (provider.clientAuth === "basic") {
+    const credentials = `${provider.clientId}:${provider.clientSecret}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", provider.clientId);
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  let data: any;
+  try {
+    const response = await axios.post(provider.tokenUrl, body.toString(), {
+      headers,
+      timeout: TOKEN_REQUEST_TIMEOUT_MS,
+    });
+    data = response.data;
+  } catch (error) {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    if (response && response.status < 500) {
+      const reason =
+        response.data?.error_description ||
+        response.data?.error ||
+        `HTTP ${response.status}`;
+      throw new DeviceOAuthError(
+        `${provider.name} rejected the token request: ${reason}`,
+        502
+      );
+    }
+    throw error;
+  }
+
+  if (!data?.access_token) {
+    throw new DeviceOAuthError(
+      `${provider.name} returned no access token`,
+      502
+    );
+  }
+
+  const providerUserId = data.user_id ?? data.x_user_id;
+  return {
+    accessToken: String(data.access_token),
+    refreshToken: data.refresh_token ? String(data.refresh_token) : undefined,
+    expiresAt: data.expires_in
+      ? new Date(Date.now() + Number(data.expires_in) * 1000)
+      : null,
+    scope: data.scope,
+    providerUserId:
+      providerUserId !== undefined ? String(providerUserId) : undefined,
+  };
+}
+
+export class DeviceOAuthService {
+  // Creates a single-use state with a PKCE verifier and returns the
+  // provider's consent page URL for the app to open
+  static async createAuthorization(
+    userId: string,
+    deviceType: string,
+    returnUrl?: string
+  ): Promise<OAuthAuthorization> {
+    const provider = this.requireProvider(deviceType);
+    if (returnUrl && !isAllowedReturnUrl(returnUrl)) {
+      throw new DeviceOAuthError("Return URL is not allowed");
+    }
+
+    const state = crypto.randomBytes(32).toString("base64url");
+    const { verifier, challenge } = createPkcePair();
+    const expiresAt = new Date(Date.now() + STATE_TTL_MS);
+
+    await prisma.deviceOAuthState.create({
+      data: {
+        state,
+        user_id: userId,
+        device_type: provider.deviceType,
+        code_verifier_encrypted: encryptToken(verifier),
+        return_url: returnUrl,
+        expires_at: expiresAt,
+      },
+    });
+
+    const url = new URL(provider.authUrl);
+    const params: Record<string, string> = {
+      response_type: "code",
+      client_id: provider.clientId,
+      redirect_uri: resolveRedirectUri(),
+      scope: provider.scopes.join(" "),
+      state,
+      code_challenge: challenge,
+      code_challenge_method: "S256",
+      ...provider.extraAuthParams,
+    };
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    console.log(`🔐 Started ${provider.name} authorization for user ${userId}`);
+    return { url: url.toString(), state, expires_at: expiresAt };
+  }
+
+  // Unknown, expired or reused states throw; anything that goes wrong after
+  // the state is matched is returned as `error` so the browser can still be
+  // sent back to the app
+  static async handleCallback(
+    query: OAuthCallbackQuery
+  ): Promise<OAuthCallbackResult> {
+    const pending = await this.consumeState(query.state);
+    const result: OAuthCallbackResult = {
+      deviceType: pending.device_type,
+      returnUrl: pending.return_url,
+    };
+
+    if (query.error || !query.code) {
+      console.log(
+        `🚫 ${pending.device_type} authorization declined:`,
+        query.error || "no code"
+      );
+      return {
+        ...result,
+        error:
+          query.error_description ||
+          query.error ||
+          "Authorization code is missing",
+      };
+    }
+
+    try {
+      const provider = this.requireProvider(pending.device_type);
+      const tokens = await requestTokens(provider, {
+        grant_type: "authorization_code",
+        code: query.code,
+        redirect_uri: resolveRedirectUri(),
+        code_verifier: decryptToken(pending.code_verifier_encrypted),
+      });
+
+      const device = await DeviceService.connectDevice(
+        pending.user_id,
+        provider.deviceType,
+        provider.name,
+        tokens.accessToken,
+        tokens.refreshToken,
+        {
+          tokenExpiresAt: tokens.expiresAt,
+          settings: {
+            oauth_scope: tokens.scope || provider.scopes.join(" "),
+            ...(tokens.providerUserId && {
+              provider_user_id: tokens.providerUserId,
+            }),
+          },
+        }
+      );
+
+      console.log(
+        `✅ ${provider.name} connected for user ${pending.user_id} through OAuth`
+      );
+      return { ...result, deviceId: device.connected_device_id };
+    } catch (error) {
+      console.error(`💥 ${pending.device_type} code exchange failed:`, error);
+      return {
+        ...result,
+        error:
+          error instanceof DeviceOAuthError
+            ? error.message
+            : "Failed to complete the device connection",
+      };
+    }
+  }
+
+  // The current access token for a device, refreshed first when it is about
+  // to expire. Null when the device has no usable token.
+  static async getAccessToken(
+    userId: string,
+    deviceId: string
+  ): Promise<string | null> {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id: userId },
+    });
+    if (!device) {
+      throw new DeviceOAuthError("Device not found", 404);
+    }
+
+    const provider = getOAuthProvider(device.device_type);
+    if (
+      provider &&
+      device.refresh_token_encrypted &&
+      device.token_expires_at &&
+      device.token_expires_at.getTime() <= Date.now() + REFRESH_WINDOW_MS
+    ) {
+      try {
+        await this.refreshDevice(provider, device);
+      } catch (error) {
+        await this.handleRefreshFailure(device.connected_device_id, error);
+        if (error instanceof DeviceOAuthError) return null;
+      }
+    }
+
+    const tokens = await DeviceService.getDeviceTokens(userId, deviceId);
+    return tokens.accessToken || null;
+  }
+
+  // Background job: refreshes every connected device whose token expires
+  // within the refresh window
+  static async refreshExpiringTokens(): Promise<TokenRefreshResult> {
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        device_type: { in: OAUTH_DEVICE_TYPES },
+        connection_status: { in: ["CONNECTED", "SYNCING"] },
+        refresh_token_encrypted: { not: null },
+        token_expires_at: { lte: new Date(Date.now() + REFRESH_WINDOW_MS) },
+      },
+      select: {
+        connected_device_id: true,
+        device_type: true,
+        refresh_token_encrypted: true,
+      },
+    });
+
+    const result: TokenRefreshResult = {
+      scanned: devices.length,
+      refreshed: 0,
+      failed: 0,
+    };
+
+    for (const device of devices) {
+      const provider = getOAuthProvider(device.device_type);
+      if (!provider) {
+        // Credentials were removed from the environment; the tokens may work
+        // again once they're back, so the device is left as it is
+        result.failed++;
+        continue;
+      }
+
+      try {
+        if (await this.refreshDevice(provider, device)) result.refreshed++;
+      } catch (error) {
+        result.failed++;
+        await this.handleRefreshFailure(device.connected_device_id, error);
+      }
+    }
+
+    return result;
+  }
+
+  static async deleteExpiredStates(): Promise<number> {
+    const { count } = await prisma.deviceOAuthState.deleteMany({
+      where: { expires_at: { lt: new Date() } },
+    });
+    return count;
+  }
+
+  // Providers that rotate refresh tokens invalidate the old one, so the new
+  // tokens are only written if the row still holds the refresh token that
+  // was used. Returns false when another refresh got there first.
+  private static async refreshDevice(
+    provider: OAuthProviderConfig,
+    device: RefreshableDevice
+  ): Promise<boolean> {
+    const storedRefreshToken = device.refresh_token_encrypted;
+    if (!storedRefreshToken) return false;
+
+    const tokens = await requestTokens(provider, {
+      grant_type: "refresh_token",
+      refresh_token: decryptToken(storedRefreshToken),
+    });
+
+    const updated = await prisma.connectedDevice.updateMany({
+      where: {
+        connected_device_id: device.connected_device_id,
+        refresh_token_encrypted: storedRefreshToken,
+      },
+      data: {
+        access_token_encrypted: encryptToken(tokens.accessToken),
+        refresh_token_encrypted: tokens.refreshToken
+          ? encryptToken(tokens.refreshToken)
+          : storedRefreshToken,
+        token_expires_at: tokens.expiresAt,
+        updated_at: new Date(),
+      },
+    });
+
+    if (updated.count > 0) {
+      console.log(
+        `🔄 Refreshed ${provider.name} tokens for device ${device.connected_device_id}`
+      );
+    }
+    return updated.count > 0;
+  }
+
+  // A rejected refresh token or an undecryptable one means the user has to
+  // reconnect; anything else is retried on the next run
+  private static async handleRefreshFailure(deviceId: string, error: unknown) {
+    if (
+      error instanceof DeviceOAuthError ||
+      error instanceof TokenEncryptionError
+    ) {
+      await DeviceService.markTokenFailure(deviceId, error);
+      return;
+    }
+    console.error(
+      `⚠️ Token refresh for device ${deviceId} failed, will retry:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  private static async consumeState(state: string) {
+    const pending = await prisma.deviceOAuthState.findUnique({
+      where: { state },
+    });
+    if (!pending) {
+      throw new DeviceOAuthError("Unknown or already used OAuth state");
+    }
+
+    // Only the request that deletes the row may use it
+    const { count } = await prisma.deviceOAuthState.deleteMany({
+      where: { state },
+    });
+    if (count === 0) {
+      throw new DeviceOAuthError("Unknown or already used OAuth state");
+    }
+    if (pending.expires_at < new Date()) {
+      throw new DeviceOAuthError("OAuth state has expired, please try again");
+    }
+    return pending;
+  }
+
+  private static requireProvider(deviceType: string): OAuthProviderConfig {
+    if (!isOAuthDeviceType(deviceType)) {
+      throw new DeviceOAuthError(
+        `${deviceType} does not support connecting through OAuth`
+      );
+    }
+
+    const provider = getOAuthProvider(deviceType as DeviceType);
+    if (!provider) {
+      throw new DeviceOAuthError(
+        `${deviceType} OAuth is not configured on this server`,
+        503
+      );
+    }
+    return provider;
+  }
+}
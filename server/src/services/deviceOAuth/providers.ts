@@ -0,0 +1,112 @@
+import { DeviceType } from "@prisma/client";
+import { OAuthClientAuth, OAuthProviderConfig } from "../../types/devices";
+
+interface ProviderDefaults {
+  name: string;
+  envPrefix: string;
+  authUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  clientAuth: OAuthClientAuth;
+  extraAuthParams?: Record<string, string>;
+}
+
+// Providers whose connection goes through the server OAuth flow. Garmin
+// still uses OAuth 1.0a, and Apple Health and Samsung Health are read on the
+// phone, so they aren't listed.
+const PROVIDERS: Partial<Record<DeviceType, ProviderDefaults>> = {
+  GOOGLE_FIT: {
+    name: "Google Fit",
+    envPrefix: "GOOGLE_FIT",
+    authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    scopes: [
+      "https://www.googleapis.com/auth/fitness.activity.read",
+      "https://www.googleapis.com/auth/fitness.body.read",
+      "https://www.googleapis.com/auth/fitness.heart_rate.read",
+      "https://www.googleapis.com/auth/fitness.location.read",
+      "https://www.googleapis.com/auth/fitness.sleep.read",
+    ],
+    clientAuth: "body",
+    // Google only returns a refresh token with offline access and consent
+    extraAuthParams: { access_type: "offline", prompt: "consent" },
+  },
+  FITBIT: {
+    name: "Fitbit",
+    envPrefix: "FITBIT",
+    authUrl: "https://www.fitbit.com/oauth2/authorize",
+    tokenUrl: "https://api.fitbit.com/oauth2/token",
+    scopes: [
+      "activity",
+      "heartrate",
+      "nutrition",
+      "profile",
+      "sleep",
+      "weight",
+    ],
+    clientAuth: "basic",
+  },
+  WHOOP: {
+    name: "WHOOP",
+    envPrefix: "WHOOP",
+    authUrl: "https://api.prod.whoop.com/oauth/oauth2/auth",
+    tokenUrl: "https://api.prod.whoop.com/oauth/oauth2/token",
+    scopes: [
+      "offline",
+      "read:recovery",
+      "read:cycles",
+      "read:workout",
+      "read:sleep",
+      "read:body_measurement",
+    ],
+    clientAuth: "body",
+  },
+  POLAR: {
+    name: "Polar",
+    envPrefix: "POLAR",
+    authUrl: "https://flow.polar.com/oauth2/authorization",
+    tokenUrl: "https://polarremote.com/v2/oauth2/token",
+    scopes: ["accesslink.read_all"],
+    clientAuth: "basic",
+  },
+};
+
+export const OAUTH_DEVICE_TYPES = Object.keys(PROVIDERS) as DeviceType[];
+
+export function isOAuthDeviceType(deviceType: string): boolean {
+  return OAUTH_DEVICE_TYPES.includes(deviceType as DeviceType);
+}
+
+// Endpoints and credentials come from <PREFIX>_CLIENT_ID,
+// <PREFIX>_CLIENT_SECRET, <PREFIX>_AUTH_URL and <PREFIX>_TOKEN_URL.
+// DEVICE_OAUTH_BASE_URL points every provider without its own URLs at one
+// server, e.g. `npm run devices:mock-oauth`. Returns null when the provider
+// isn't supported or has no credentials.
+export function getOAuthProvider(
+  deviceType: DeviceType
+): OAuthProviderConfig | null {
+  const defaults = PROVIDERS[deviceType];
+  if (!defaults) return null;
+
+  const env = (name: string) => process.env[`${defaults.envPrefix}_${name}`];
+  const clientId = env("CLIENT_ID");
+  const clientSecret = env("CLIENT_SECRET");
+  if (!clientId || !clientSecret) return null;
+
+  const baseUrl = process.env.DEVICE_OAUTH_BASE_URL?.replace(/\/$/, "");
+  const mockPath = `${baseUrl}/${deviceType.toLowerCase()}`;
+
+  return {
+    deviceType,
+    name: defaults.name,
+    authUrl:
+      env("AUTH_URL") || (baseUrl ? `${mockPath}/authorize` : defaults.authUrl),
+    tokenUrl:
+      env("TOKEN_URL") || (baseUrl ? `${mockPath}/token` : defaults.tokenUrl),
+    clientId,
+    clientSecret,
+    scopes: defaults.scopes,
+    clientAuth: defaults.clientAuth,
+    extraAuthParams: defaults.extraAuthParams,
+  };
+}
@@ -0,0 +1,180 @@
+import axios from "axios";
+import {
+  DeviceDataStream,
+  DeviceDayMetric,
+  DeviceDayRecord,
+  DeviceStreamResult,
+  DeviceSyncAdapter,
+  DeviceSyncContext,
+  DeviceWorkout,
+} from "../../types/devices";
+import { addDays, round1 } from "./records";
+
+const DEFAULT_API_URL = "https://api.fitbit.com";
+const PAGE_SIZE = 100;
+
+// Activity time series resources and the record field each one fills
+const ACTIVITY_SERIES: [string, DeviceDayMetric][] = [
+  ["steps", "steps"],
+  ["calories", "caloriesBurned"],
+  ["distance", "distance"],
+  ["minutesFairlyActive", "activeMinutes"],
+  ["minutesVeryActive", "activeMinutes"],
+];
+
+// Fitbit Web API date-range endpoints; units are metric because no
+// Accept-Language header is sent
+export class FitbitAdapter implements DeviceSyncAdapter {
+  readonly deviceType = "FITBIT" as const;
+  readonly streams: DeviceDataStream[] = [
+    "activity",
+    "heart_rate",
+    "weight",
+    "sleep",
+    "workouts",
+  ];
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: { baseUrl?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_URL).replace(/\/$/, "");
+    this.timeoutMs = options.timeoutMs || 15000;
+  }
+
+  async fetchStream(
+    stream: DeviceDataStream,
+    from: string,
+    to: string,
+    context: DeviceSyncContext
+  ): Promise<DeviceStreamResult> {
+    const get = (path: string) => this.get(context.accessToken, path);
+
+    switch (stream) {
+      case "activity":
+        return { records: await this.activityRecords(get, from, to) };
+
+      case "heart_rate": {
+        const data = await get(
+          `/1/user/-/activities/heart/date/${from}/${to}.json`
+        );
+        const records = (data["activities-heart"] || [])
+          .filter((day: any) => day.value?.restingHeartRate)
+          .map((day: any) => ({
+            date: day.dateTime,
+            heartRate: day.value.restingHeartRate,
+          }));
+        return { records };
+      }
+
+      case "weight": {
+        const data = await get(
+          `/1/user/-/body/log/weight/date/${from}/${to}.json`
+        );
+        const records = (data.weight || []).map((log: any) => ({
+          date: log.date,
+          weight: round1(log.weight),
+          bodyFat: log.fat ? round1(log.fat) : undefined,
+        }));
+        return { records };
+      }
+
+      case "sleep": {
+        const data = await get(`/1.2/user/-/sleep/date/${from}/${to}.json`);
+        const minutesByDay = new Map<string, number>();
+        for (const log of data.sleep || []) {
+          minutesByDay.set(
+            log.dateOfSleep,
+            (minutesByDay.get(log.dateOfSleep) || 0) + (log.minutesAsleep || 0)
+          );
+        }
+        const records = [...minutesByDay].map(([date, minutes]) => ({
+          date,
+          sleepHours: round1(minutes / 60),
+        }));
+        return { records };
+      }
+
+      case "workouts":
+        return { records: await this.workoutRecords(get, from, to) };
+    }
+  }
+
+  // Logged activities from the activity log list, which pages forward from
+  // a date. Start times are local, so the date part is the user's day.
+  private async workoutRecords(
+    get: (path: string) => Promise<any>,
+    from: string,
+    to: string
+  ): Promise<DeviceDayRecord[]> {
+    const byDay = new Map<string, DeviceWorkout[]>();
+    let path: string | undefined =
+      `/1/user/-/activities/list.json?afterDate=${addDays(from, -1)}&sort=asc&offset=0&limit=${PAGE_SIZE}`;
+
+    while (path) {
+      const data = await get(path);
+      const activities: any[] = data.activities || [];
+      for (const activity of activities) {
+        const day = String(activity.startTime).slice(0, 10);
+        if (day < from || day > to) continue;
+        const start = new Date(activity.startTime);
+        byDay.set(day, [
+          ...(byDay.get(day) || []),
+          {
+            start: start.toISOString(),
+            end: new Date(
+              start.getTime() + (activity.duration || 0)
+            ).toISOString(),
+            type: activity.activityName,
+            calories: activity.calories,
+          },
+        ]);
+      }
+
+      // Sorted ascending, so stop once a page reaches past `to`.
+      // pagination.next is an absolute URL.
+      const last = activities[activities.length - 1];
+      const next: string | undefined = data.pagination?.next;
+      path =
+        last && next && String(last.startTime).slice(0, 10) <= to
+          ? next.replace(/^https?:\/\/[^/]+/, "")
+          : undefined;
+    }
+
+    return [...byDay].map(([date, workouts]) => ({ date, workouts }));
+  }
+
+  private async activityRecords(
+    get: (path: string) => Promise<any>,
+    from: string,
+    to: string
+  ): Promise<DeviceDayRecord[]> {
+    const byDay = new Map<string, DeviceDayRecord>();
+
+    for (const [resource, field] of ACTIVITY_SERIES) {
+      const data = await get(
+        `/1/user/-/activities/${resource}/date/${from}/${to}.json`
+      );
+      for (const point of data[`activities-${resource}`] || []) {
+        const record: DeviceDayRecord = byDay.get(point.dateTime) || {
+          date: point.dateTime,
+        };
+        record[field] = (record[field] || 0) + (Number(point.value) || 0);
+        byDay.set(point.dateTime, record);
+      }
+    }
+
+    return [...byDay.values()].map((record) => ({
+      ...record,
+      caloriesBurned: Math.round(record.caloriesBurned || 0),
+      distance: round1(record.distance || 0),
+    }));
+  }
+
+  private async get(accessToken: string, path: string) {
+    const response = await axios.get(`${this.baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: this.timeoutMs,
+    });
+    return response.data || {};
+  }
+}
@@ -0,0 +1,199 @@
+import axios from "axios";
+import {
+  DeviceDataStream,
+  DeviceDayRecord,
+  DeviceStreamResult,
+  DeviceSyncAdapter,
+  DeviceSyncContext,
+  DeviceWorkout,
+} from "../../types/devices";
+import { addDays, dateKey, dayStart, round1 } from "./records";
+
+const DEFAULT_API_URL = "https://www.googleapis.com/fitness/v1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sleep segment types that aren't sleep: awake and out of bed
+const NOT_ASLEEP = new Set([1, 3]);
+// Session activity types that aren't workouts: sleep and its stages
+const SLEEP_SESSION_TYPES = new Set([72, 109, 110, 111, 112]);
+
+const STREAM_DATA_TYPES: Record<
+  Exclude<DeviceDataStream, "workouts">,
+  string[]
+> = {
+  activity: [
+    "com.google.step_count.delta",
+    "com.google.calories.expended",
+    "com.google.active_minutes",
+    "com.google.distance.delta",
+  ],
+  heart_rate: ["com.google.heart_rate.bpm"],
+  weight: ["com.google.weight"],
+  sleep: ["com.google.sleep.segment"],
+};
+
+interface FitPoint {
+  startTimeNanos: string;
+  endTimeNanos: string;
+  value: { intVal?: number; fpVal?: number }[];
+}
+
+interface FitBucket {
+  startTimeMillis: string;
+  dataset: { point: FitPoint[] }[];
+}
+
+const pointValue = (point: FitPoint, index = 0) =>
+  point.value[index]?.fpVal ?? point.value[index]?.intVal ?? 0;
+
+const sumPoints = (points: FitPoint[] = []) =>
+  points.reduce((sum, point) => sum + pointValue(point), 0);
+
+// Daily buckets from the Fitness aggregate endpoint
+export class GoogleFitAdapter implements DeviceSyncAdapter {
+  readonly deviceType = "GOOGLE_FIT" as const;
+  readonly streams: DeviceDataStream[] = [
+    "activity",
+    "heart_rate",
+    "weight",
+    "sleep",
+    "workouts",
+  ];
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: { baseUrl?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_URL).replace(/\/$/, "");
+    this.timeoutMs = options.timeoutMs || 15000;
+  }
+
+  async fetchStream(
+    stream: DeviceDataStream,
+    from: string,
+    to: string,
+    context: DeviceSyncContext
+  ): Promise<DeviceStreamResult> {
+    if (stream === "workouts") {
+      return { records: await this.workoutRecords(context, from, to) };
+    }
+
+    const buckets = await this.aggregate(
+      context.accessToken,
+      STREAM_DATA_TYPES[stream],
+      from,
+      to
+    );
+
+    if (stream === "sleep") {
+      return { records: this.sleepRecords(buckets) };
+    }
+
+    const records: DeviceDayRecord[] = [];
+    for (const bucket of buckets) {
+      const date = dateKey(new Date(Number(bucket.startTimeMillis)));
+      const points = bucket.dataset.map((dataset) => dataset.point || []);
+      if (points.every((list) => list.length === 0)) continue;
+      const [first, second = [], third = [], fourth = []] = points;
+
+      if (stream === "activity") {
+        records.push({
+          date,
+          steps: Math.round(sumPoints(first)),
+          caloriesBurned: Math.round(sumPoints(second)),
+          activeMinutes: Math.round(sumPoints(third)),
+          distance: round1(sumPoints(fourth) / 1000),
+        });
+      } else if (stream === "heart_rate") {
+        // heart_rate.summary points are [average, max, min]
+        records.push({
+          date,
+          heartRate: Math.round(pointValue(first[0], 0)),
+          heartRateMax: Math.round(pointValue(first[0], 1)),
+        });
+      } else if (stream === "weight") {
+        records.push({ date, weight: round1(pointValue(first[0], 0)) });
+      }
+    }
+
+    return { records };
+  }
+
+  // Nights are credited to the day they end on
+  private sleepRecords(buckets: FitBucket[]): DeviceDayRecord[] {
+    const hoursByDay = new Map<string, number>();
+
+    for (const bucket of buckets) {
+      for (const point of bucket.dataset[0]?.point || []) {
+        if (NOT_ASLEEP.has(pointValue(point))) continue;
+        const start = Number(point.startTimeNanos) / 1e6;
+        const end = Number(point.endTimeNanos) / 1e6;
+        const day = dateKey(new Date(end));
+        hoursByDay.set(
+          day,
+          (hoursByDay.get(day) || 0) + (end - start) / 3600000
+        );
+      }
+    }
+
+    return [...hoursByDay].map(([date, hours]) => ({
+      date,
+      sleepHours: round1(hours),
+    }));
+  }
+
+  // Recorded sessions, credited to the day they start on
+  private async workoutRecords(
+    context: DeviceSyncContext,
+    from: string,
+    to: string
+  ): Promise<DeviceDayRecord[]> {
+    const response = await axios.get(`${this.baseUrl}/users/me/sessions`, {
+      headers: { Authorization: `Bearer ${context.accessToken}` },
+      params: {
+        startTime: dayStart(from).toISOString(),
+        endTime: dayStart(addDays(to, 1)).toISOString(),
+      },
+      timeout: this.timeoutMs,
+    });
+
+    const byDay = new Map<string, DeviceWorkout[]>();
+    for (const session of response.data?.session || []) {
+      if (SLEEP_SESSION_TYPES.has(session.activityType)) continue;
+      const start = new Date(Number(session.startTimeMillis));
+      const end = new Date(Number(session.endTimeMillis));
+      const day = dateKey(start);
+      byDay.set(day, [
+        ...(byDay.get(day) || []),
+        {
+          start: start.toISOString(),
+          end: end.toISOString(),
+          type: session.name || undefined,
+        },
+      ]);
+    }
+
+    return [...byDay].map(([date, workouts]) => ({ date, workouts }));
+  }
+
+  private async aggregate(
+    accessToken: string,
+    dataTypes: string[],
+    from: string,
+    to: string
+  ): Promise<FitBucket[]> {
+    const response = await axios.post(
+      `${this.baseUrl}/users/me/dataset:aggregate`,
+      {
+        aggregateBy: dataTypes.map((dataTypeName) => ({ dataTypeName })),
+        bucketByTime: { durationMillis: DAY_MS },
+        startTimeMillis: dayStart(from).getTime(),
+        endTimeMillis: dayStart(addDays(to, 1)).getTime(),
+      },
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: this.timeoutMs,
+      }
+    );
+    return response.data?.bucket || [];
+  }
+}
@@ -0,0 +1,318 @@
+import axios from "axios";
+import { ConnectedDevice, DeviceType, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { DeviceOAuthService } from "../deviceOAuth";
+import { DeviceError, DeviceService } from "../devices";
+import {
+  DeviceDayRecord,
+  DeviceIngestResult,
+  DeviceSyncAdapter,
+  DeviceSyncCursor,
+  DeviceSyncOutcome,
+  DeviceSyncRunResult,
+} from "../../types/devices";
+import { FitbitAdapter } from "./fitbit";
+import { GoogleFitAdapter } from "./googleFit";
+import { PolarAdapter } from "./polar";
+import { WhoopAdapter } from "./whoop";
+import { addDays, apiUrlOverride, dateKey, mergeDayRecords } from "./records";
+
+export { FitbitAdapter, GoogleFitAdapter, PolarAdapter, WhoopAdapter };
+
+// A first sync backfills this many days
+const INITIAL_SYNC_DAYS = 30;
+// Longest range pulled per stream in one run; a device that was offline for
+// longer catches up over consecutive runs
+const MAX_SYNC_DAYS = 30;
+const DEFAULT_FREQUENCY_HOURS = 24;
+const BASE_BACKOFF_MS = 15 * 60 * 1000;
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+// A device left in SYNCING this long (e.g. the server restarted mid-sync) is
+// picked up again
+const STALE_SYNC_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export class DeviceSyncError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "DeviceSyncError";
+  }
+}
+
+let adapters: DeviceSyncAdapter[] | null = null;
+
+function createAdapters(): DeviceSyncAdapter[] {
+  const timeoutMs = Number(process.env.DEVICE_SYNC_TIMEOUT_MS) || undefined;
+  const options = (deviceType: DeviceType) => ({
+    baseUrl: apiUrlOverride(deviceType),
+    timeoutMs,
+  });
+
+  return [
+    new GoogleFitAdapter(options("GOOGLE_FIT")),
+    new FitbitAdapter(options("FITBIT")),
+    new WhoopAdapter(options("WHOOP")),
+    new PolarAdapter(options("POLAR")),
+  ];
+}
+
+function getAdapters(): DeviceSyncAdapter[] {
+  if (!adapters) adapters = createAdapters();
+  return adapters;
+}
+
+// Null for device types that are synced from the app (Apple Health, ...)
+export function getSyncAdapter(
+  deviceType: DeviceType
+): DeviceSyncAdapter | null {
+  return (
+    getAdapters().find((adapter) => adapter.deviceType === deviceType) || null
+  );
+}
+
+// Allows tests and scripts to swap the adapters at runtime
+export function setSyncAdapters(next: DeviceSyncAdapter[] | null) {
+  adapters = next;
+}
+
+// 15 minutes after the first failure, doubling up to a day
+export function syncBackoffMs(failures: number): number {
+  return Math.min(
+    BASE_BACKOFF_MS * 2 ** Math.max(failures - 1, 0),
+    MAX_BACKOFF_MS
+  );
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response) {
+    return `Provider API returned ${error.response.status} for ${error.config?.url}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class DeviceSyncService {
+  // Cron entry point: syncs every device whose next sync is due, oldest
+  // first, plus devices stuck in SYNCING
+  static async runDueSyncs(): Promise<DeviceSyncRunResult> {
+    const now = new Date();
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        device_type: { in: getAdapters().map((adapter) => adapter.deviceType) },
+        OR: [
+          {
+            connection_status: { in: ["CONNECTED", "ERROR"] },
+            OR: [{ next_sync_at: null }, { next_sync_at: { lte: now } }],
+          },
+          {
+            connection_status: "SYNCING",
+            updated_at: { lt: new Date(now.getTime() - STALE_SYNC_MS) },
+          },
+        ],
+      },
+      orderBy: { next_sync_at: { sort: "asc", nulls: "first" } },
+      take: BATCH_SIZE,
+    });
+
+    const result: DeviceSyncRunResult = {
+      due: devices.length,
+      synced: 0,
+      failed: 0,
+    };
+
+    for (const device of devices) {
+      const outcome = await this.syncDevice(device);
+      if (outcome?.status === "synced") result.synced++;
+      if (outcome?.status === "failed") result.failed++;
+    }
+
+    return result;
+  }
+
+  // "Sync now" from the app; ignores the schedule but not a sync in progress.
+  // `backfillDays` pulls that many days again even if they were synced
+  // before; anything beyond one run's range follows in the next runs.
+  static async syncNow(
+    userId: string,
+    deviceId: string,
+    backfillDays?: number
+  ): Promise<DeviceSyncOutcome> {
+    const device = await this.findActiveDevice(userId, deviceId);
+    if (!getSyncAdapter(device.device_type)) {
+      throw new DeviceSyncError(
+        `${device.device_type} data is synced from the app`
+      );
+    }
+
+    const outcome = await this.syncDevice(device, backfillDays);
+    if (!outcome) {
+      throw new DeviceSyncError("Device is already syncing", 409);
+    }
+    return outcome;
+  }
+
+  // Dated records pushed by the app (Apple Health, older app builds). Each
+  // day is upserted on its own, so a batch retried after a timeout or sent
+  // again after a day rolled over is safe to apply.
+  static async ingestRecords(
+    userId: string,
+    deviceId: string,
+    records: DeviceDayRecord[]
+  ): Promise<DeviceIngestResult> {
+    const device = await this.findActiveDevice(userId, deviceId);
+
+    // A day ahead is allowed for users east of UTC
+    const latest = addDays(dateKey(new Date()), 1);
+    const future = records.find((record) => record.date > latest);
+    if (future) {
+      throw new DeviceSyncError(`Cannot sync data for ${future.date}`);
+    }
+
+    const result: DeviceIngestResult = {
+      days: [],
+      created: 0,
+      updated: 0,
+      skipped: 0,
+    };
+    for (const record of records) {
+      const status = await DeviceService.saveDayRecord(userId, device, record);
+      result.days.push({ date: record.date, status });
+      result[status]++;
+    }
+
+    // Devices pulled by the server keep the status the scheduler sets
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: device.connected_device_id },
+      data: {
+        last_sync_time: new Date(),
+        ...(!getSyncAdapter(device.device_type) && {
+          connection_status: "CONNECTED",
+        }),
+      },
+    });
+
+    console.log(
+      `✅ Saved ${records.length} days pushed to device ${deviceId}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+    );
+    return result;
+  }
+
+  private static async findActiveDevice(userId: string, deviceId: string) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id: userId },
+    });
+    if (!device) {
+      throw new DeviceError("Device not found", 404);
+    }
+    if (device.connection_status === "DISCONNECTED") {
+      throw new DeviceSyncError("Device is disconnected", 409);
+    }
+    return device;
+  }
+
+  // Pulls every stream the adapter supports from its cursor up to today.
+  // Returns null when another run already claimed the device.
+  private static async syncDevice(
+    device: ConnectedDevice,
+    backfillDays?: number
+  ): Promise<DeviceSyncOutcome | null> {
+    const adapter = getSyncAdapter(device.device_type);
+    if (!adapter) return null;
+
+    // Claim the device; a concurrent run changes updated_at and loses
+    const claimed = await prisma.connectedDevice.updateMany({
+      where: {
+        connected_device_id: device.connected_device_id,
+        updated_at: device.updated_at,
+      },
+      data: { connection_status: "SYNCING" },
+    });
+    if (claimed.count === 0) return null;
+
+    const now = new Date();
+    const today = dateKey(now);
+
+    try {
+      const accessToken = await DeviceOAuthService.getAccessToken(
+        device.user_id,
+        device.connected_device_id
+      );
+      if (!accessToken) {
+        throw new DeviceSyncError("Device needs to be reconnected", 409);
+      }
+
+      const settings = (device.device_settings as Prisma.JsonObject) || {};
+      const cursor: DeviceSyncCursor = {
+        ...((device.sync_cursor as DeviceSyncCursor) || {}),
+      };
+      const records: DeviceDayRecord[] = [];
+      let caughtUp = true;
+      const earliest = addDays(
+        today,
+        -((backfillDays || INITIAL_SYNC_DAYS) - 1)
+      );
+
+      for (const stream of adapter.streams) {
+        // The last synced day is fetched again since it was likely partial
+        let from = cursor[stream] || earliest;
+        if (backfillDays && earliest < from) from = earliest;
+        const to = [today, addDays(from, MAX_SYNC_DAYS - 1)].sort()[0];
+
+        const result = await adapter.fetchStream(stream, from, to, {
+          userId: device.user_id,
+          accessToken,
+          cursor,
+          providerUserId: settings.provider_user_id as string | undefined,
+        });
+        records.push(...result.records);
+        Object.assign(cursor, result.cursor, { [stream]: to });
+        if (to !== today) caughtUp = false;
+      }
+
+      const days = mergeDayRecords(records);
+      for (const day of days) {
+        await DeviceService.saveDayRecord(device.user_id, device, day);
+      }
+
+      const frequencyMs =
+        (device.sync_frequency_hours || DEFAULT_FREQUENCY_HOURS) * 3600000;
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          connection_status: "CONNECTED",
+          last_sync_time: now,
+          sync_cursor: cursor,
+          next_sync_at: caughtUp ? new Date(now.getTime() + frequencyMs) : now,
+          sync_failure_count: 0,
+          last_sync_error: null,
+        },
+      });
+
+      console.log(
+        `✅ Synced ${days.length} days from ${device.device_type} device ${device.connected_device_id}`
+      );
+      return { status: "synced", days: days.length };
+    } catch (error) {
+      const failures = device.sync_failure_count + 1;
+      const message = describeError(error);
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          connection_status: "ERROR",
+          sync_failure_count: failures,
+          next_sync_at: new Date(now.getTime() + syncBackoffMs(failures)),
+          last_sync_error: message.slice(0, 500),
+        },
+      });
+
+      console.error(
+        `💥 Sync failed for ${device.device_type} device ${device.connected_device_id} (attempt ${failures}):`,
+        message
+      );
+      return { status: "failed", days: 0, error: message };
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import axios from "axios";
+import {
+  DeviceDataStream,
+  DeviceDayRecord,
+  DeviceStreamResult,
+  DeviceSyncAdapter,
+  DeviceSyncContext,
+} from "../../types/devices";
+import { round1 } from "./records";
+
+const DEFAULT_API_URL = "https://www.polaraccesslink.com/v3";
+
+// "PT1H23M45S" -> minutes
+function durationMinutes(duration?: string): number {
+  const match = duration?.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?/);
+  if (!match) return 0;
+  const [, hours, minutes, seconds] = match;
+  return Math.round(
+    Number(hours || 0) * 60 + Number(minutes || 0) + Number(seconds || 0) / 60
+  );
+}
+
+// Polar AccessLink. Daily activity is delivered through transactions: new
+// summaries are handed out once and committed, so the date range only
+// applies to sleep. The user has to be registered with the client before
+// any data is available; that is remembered in the cursor.
+export class PolarAdapter implements DeviceSyncAdapter {
+  readonly deviceType = "POLAR" as const;
+  readonly streams: DeviceDataStream[] = ["activity", "sleep"];
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: { baseUrl?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_URL).replace(/\/$/, "");
+    this.timeoutMs = options.timeoutMs || 15000;
+  }
+
+  async fetchStream(
+    stream: DeviceDataStream,
+    from: string,
+    to: string,
+    context: DeviceSyncContext
+  ): Promise<DeviceStreamResult> {
+    const polarUserId = context.providerUserId;
+    if (!polarUserId) {
+      throw new Error("Polar user ID is missing, reconnect the device");
+    }
+
+    const cursor = await this.ensureRegistered(context);
+
+    if (stream === "sleep") {
+      const data = await this.request(
+        context.accessToken,
+        "get",
+        "/users/sleep"
+      );
+      const records = (data.nights || [])
+        .filter((night: any) => night.date >= from && night.date <= to)
+        .map((night: any) => ({
+          date: night.date,
+          sleepHours: round1(
+            ((night.light_sleep || 0) +
+              (night.deep_sleep || 0) +
+              (night.rem_sleep || 0)) /
+              3600
+          ),
+        }));
+      return { records, cursor };
+    }
+
+    return {
+      records: await this.activityRecords(context.accessToken, polarUserId),
+      cursor,
+    };
+  }
+
+  private async activityRecords(
+    accessToken: string,
+    polarUserId: string
+  ): Promise<DeviceDayRecord[]> {
+    const transactionsPath = `/users/${polarUserId}/activity-transactions`;
+    const transaction = await this.request(
+      accessToken,
+      "post",
+      transactionsPath
+    );
+    // No content: nothing new since the last commit
+    if (!transaction["transaction-id"]) return [];
+
+    const transactionPath = `${transactionsPath}/${transaction["transaction-id"]}`;
+    const list = await this.request(accessToken, "get", transactionPath);
+
+    const records: DeviceDayRecord[] = [];
+    for (const url of list["activity-log"] || []) {
+      const summary = await this.request(accessToken, "get", url);
+      records.push({
+        date: summary.date,
+        steps: summary["active-steps"],
+        caloriesBurned: summary.calories,
+        activeMinutes: durationMinutes(summary.duration),
+      });
+    }
+
+    await this.request(accessToken, "put", transactionPath);
+    return records;
+  }
+
+  private async ensureRegistered(context: DeviceSyncContext) {
+    if (context.cursor.registered) return undefined;
+
+    try {
+      await this.request(context.accessToken, "post", "/users", {
+        "member-id": context.userId,
+      });
+    } catch (error) {
+      // 409: already registered
+      if (!axios.isAxiosError(error) || error.response?.status !== 409) {
+        throw error;
+      }
+    }
+    return { registered: "true" };
+  }
+
+  // Absolute URLs (from a transaction's activity log) are used as they are
+  private async request(
+    accessToken: string,
+    method: "get" | "post" | "put",
+    path: string,
+    data?: object
+  ) {
+    const response = await axios.request({
+      method,
+      url: path.startsWith("http") ? path : `${this.baseUrl}${path}`,
+      data,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/json",
+      },
+      timeout: this.timeoutMs,
+    });
+    return response.data || {};
+  }
+}
@@ -0,0 +1,42 @@
+import { DeviceDayRecord } from "../../types/devices";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dateKey = (date: Date) => date.toISOString().split("T")[0];
+
+export function addDays(day: string, days: number): string {
+  return dateKey(
+    new Date(new Date(`${day}T00:00:00.000Z`).getTime() + days * DAY_MS)
+  );
+}
+
+export const dayStart = (day: string) => new Date(`${day}T00:00:00.000Z`);
+
+// <DEVICE TYPE>_API_URL, or DEVICE_API_BASE_URL/<device type> when every
+// provider is pointed at one mock server. Undefined means the real API.
+export function apiUrlOverride(deviceType: string): string | undefined {
+  const mockBase = process.env.DEVICE_API_BASE_URL?.replace(/\/$/, "");
+  return (
+    process.env[`${deviceType}_API_URL`] ||
+    (mockBase ? `${mockBase}/${deviceType.toLowerCase()}` : undefined)
+  );
+}
+
+// Combines partial records (one per stream) into one record per day
+export function mergeDayRecords(records: DeviceDayRecord[]): DeviceDayRecord[] {
+  const byDay = new Map<string, DeviceDayRecord>();
+
+  for (const record of records) {
+    const existing = byDay.get(record.date) || { date: record.date };
+    for (const [key, value] of Object.entries(record)) {
+      if (value !== undefined && value !== null) {
+        (existing as any)[key] = value;
+      }
+    }
+    byDay.set(record.date, existing);
+  }
+
+  return [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const round1 = (value: number) => Math.round(value * 10) / 10;
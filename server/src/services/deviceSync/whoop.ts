@@ -0,0 +1,158 @@
+import axios from "axios";
+import {
+  DeviceDataStream,
+  DeviceDayRecord,
+  DeviceStreamResult,
+  DeviceSyncAdapter,
+  DeviceSyncContext,
+  DeviceWorkout,
+} from "../../types/devices";
+import { addDays, dateKey, dayStart, round1 } from "./records";
+
+const DEFAULT_API_URL = "https://api.prod.whoop.com/developer/v1";
+const KJ_PER_KCAL = 4.184;
+const PAGE_SIZE = 25;
+
+// WHOOP has no step count; a physiological cycle (wake to wake) is credited
+// to the day it starts, a sleep to the day it ends
+export class WhoopAdapter implements DeviceSyncAdapter {
+  readonly deviceType = "WHOOP" as const;
+  readonly streams: DeviceDataStream[] = [
+    "activity",
+    "heart_rate",
+    "weight",
+    "sleep",
+    "workouts",
+  ];
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: { baseUrl?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_URL).replace(/\/$/, "");
+    this.timeoutMs = options.timeoutMs || 15000;
+  }
+
+  async fetchStream(
+    stream: DeviceDataStream,
+    from: string,
+    to: string,
+    context: DeviceSyncContext
+  ): Promise<DeviceStreamResult> {
+    const token = context.accessToken;
+
+    if (stream === "weight") {
+      // Only the current body measurement is available
+      const body = await this.get(token, "/user/measurement/body");
+      const records: DeviceDayRecord[] = body.weight_kilogram
+        ? [{ date: to, weight: round1(body.weight_kilogram) }]
+        : [];
+      return { records };
+    }
+
+    if (stream === "sleep") {
+      const sleeps = await this.collect(token, "/activity/sleep", from, to);
+      const hoursByDay = new Map<string, number>();
+      for (const sleep of sleeps) {
+        const stages = sleep.score?.stage_summary;
+        if (sleep.nap || !stages || !sleep.end) continue;
+        const day = dateKey(new Date(sleep.end));
+        const asleep =
+          (stages.total_in_bed_time_milli || 0) -
+          (stages.total_awake_time_milli || 0);
+        hoursByDay.set(day, (hoursByDay.get(day) || 0) + asleep / 3600000);
+      }
+      const records = [...hoursByDay].map(([date, hours]) => ({
+        date,
+        sleepHours: round1(hours),
+      }));
+      return { records };
+    }
+
+    if (stream === "workouts") {
+      const workouts = await this.collect(token, "/activity/workout", from, to);
+      const byDay = new Map<string, DeviceWorkout[]>();
+      for (const workout of workouts) {
+        if (!workout.start || !workout.end) continue;
+        const day = dateKey(new Date(workout.start));
+        byDay.set(day, [
+          ...(byDay.get(day) || []),
+          {
+            start: new Date(workout.start).toISOString(),
+            end: new Date(workout.end).toISOString(),
+            type:
+              workout.sport_id !== undefined
+                ? `sport_${workout.sport_id}`
+                : undefined,
+            calories: workout.score?.kilojoule
+              ? Math.round(workout.score.kilojoule / KJ_PER_KCAL)
+              : undefined,
+          },
+        ]);
+      }
+      const records = [...byDay].map(([date, list]) => ({
+        date,
+        workouts: list,
+      }));
+      return { records };
+    }
+
+    const cycles = await this.collect(token, "/cycle", from, to);
+    const records: DeviceDayRecord[] = [];
+    for (const cycle of cycles) {
+      if (!cycle.score || !cycle.start) continue;
+      const date = dateKey(new Date(cycle.start));
+      records.push(
+        stream === "activity"
+          ? {
+              date,
+              caloriesBurned: Math.round(
+                (cycle.score.kilojoule || 0) / KJ_PER_KCAL
+              ),
+            }
+          : {
+              date,
+              heartRate: cycle.score.average_heart_rate,
+              heartRateMax: cycle.score.max_heart_rate,
+            }
+      );
+    }
+    return { records };
+  }
+
+  // Follows next_token through every page of a collection
+  private async collect(
+    accessToken: string,
+    path: string,
+    from: string,
+    to: string
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.get(accessToken, path, {
+        start: dayStart(from).toISOString(),
+        end: dayStart(addDays(to, 1)).toISOString(),
+        limit: PAGE_SIZE,
+        ...(nextToken && { nextToken }),
+      });
+      items.push(...(page.records || []));
+      nextToken = page.next_token || undefined;
+    } while (nextToken);
+
+    return items;
+  }
+
+  private async get(
+    accessToken: string,
+    path: string,
+    params?: Record<string, string | number>
+  ) {
+    const response = await axios.get(`${this.baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params,
+      timeout: this.timeoutMs,
+    });
+    return response.data || {};
+  }
+}
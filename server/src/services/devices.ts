@@ -1,5 +1,34 @@
+import { ConnectedDevice, Prisma } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import {
+  DailyBalance,
+  DeviceDayRecord,
+  DeviceDaySaveStatus,
+} from "../types/devices";
+import { ActivityMergeService } from "./activityMerge";
+import { BodyService } from "./body";
+import {
+  TokenEncryptionError,
+  decryptToken,
+  encryptToken,
+  needsReencryption,
+} from "../utils/tokenEncryption";
+
+export interface TokenReencryptionResult {
+  scanned: number;
+  reencrypted: number;
+  failed: number;
+}
+
+export class DeviceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "DeviceError";
+  }
+}
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -24,7 +53,11 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    options: {
+      tokenExpiresAt?: Date | null;
+      settings?: Prisma.JsonObject;
+    } = {}
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -52,6 +85,15 @@ export class DeviceService {
         throw new Error(`Invalid device type: ${deviceType}`);
       }
 
+      // 1 hour default unless the provider said otherwise
+      let tokenExpiresAt: Date | null = null;
+      if (accessToken) {
+        tokenExpiresAt =
+          options.tokenExpiresAt !== undefined
+            ? options.tokenExpiresAt
+            : new Date(Date.now() + 3600000);
+      }
+
       // Check if device type already exists for this user
       const existingDevice = await prisma.connectedDevice.findFirst({
         where: {
@@ -60,6 +102,11 @@ export class DeviceService {
         },
       });
 
+      const primaryDevice = await prisma.connectedDevice.findFirst({
+        where: { user_id, is_primary_device: true },
+        select: { connected_device_id: true },
+      });
+
       if (existingDevice) {
         // Update existing device
         const updatedDevice = await prisma.connectedDevice.update({
@@ -67,16 +114,21 @@ export class DeviceService {
           data: {
             device_name: deviceName,
             connection_status: "CONNECTED",
-            last_sync_time: new Date(),
+            device_settings: options.settings && {
+              ...((existingDevice.device_settings as Prisma.JsonObject) || {}),
+              ...options.settings,
+            },
+            // Reconnecting clears any sync backoff so the next run picks it up
+            next_sync_at: null,
+            sync_failure_count: 0,
+            last_sync_error: null,
             access_token_encrypted: accessToken
               ? this.encryptToken(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
               ? this.encryptToken(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: tokenExpiresAt,
             updated_at: new Date(),
           },
         });
@@ -91,17 +143,16 @@ export class DeviceService {
             device_name: deviceName,
             device_type: deviceType as any,
             connection_status: "CONNECTED",
-            last_sync_time: new Date(),
-            is_primary_device: true, // First device is primary
+            // No last_sync_time yet: the first sync backfills history
+            is_primary_device: !primaryDevice, // First device is primary
+            device_settings: options.settings,
             access_token_encrypted: accessToken
               ? this.encryptToken(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
               ? this.encryptToken(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: tokenExpiresAt,
           },
         });
 
@@ -114,6 +165,31 @@ export class DeviceService {
     }
   }
 
+  // The primary device is preferred for every metric the user hasn't set a
+  // source order for when activity from several devices is merged
+  static async setPrimaryDevice(user_id: string, deviceId: string) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+    if (!device) {
+      throw new DeviceError("Device not found", 404);
+    }
+
+    const [, updatedDevice] = await prisma.$transaction([
+      prisma.connectedDevice.updateMany({
+        where: { user_id, is_primary_device: true },
+        data: { is_primary_device: false },
+      }),
+      prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { is_primary_device: true },
+      }),
+    ]);
+
+    console.log("⭐ Primary device set:", deviceId);
+    return updatedDevice;
+  }
+
   static async disconnectDevice(user_id: string, deviceId: string) {
     try {
       console.log("🔌 Disconnecting device:", deviceId, "for user:", user_id);
@@ -126,107 +202,131 @@ export class DeviceService {
       });
 
       if (!device) {
-        throw new Error("Device not found");
+        throw new DeviceError("Device not found", 404);
       }
 
-      // Update device status to disconnected
-      await prisma.connectedDevice.update({
-        where: { connected_device_id: deviceId },
-        data: {
-          connection_status: "DISCONNECTED",
-          access_token_encrypted: null,
-          refresh_token_encrypted: null,
-          token_expires_at: null,
-          updated_at: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        await tx.connectedDevice.update({
+          where: { connected_device_id: deviceId },
+          data: {
+            connection_status: "DISCONNECTED",
+            is_primary_device: false,
+            access_token_encrypted: null,
+            refresh_token_encrypted: null,
+            token_expires_at: null,
+            updated_at: new Date(),
+          },
+        });
+        if (!device.is_primary_device) return;
+
+        // The most recently synced connected device becomes primary
+        const next = await tx.connectedDevice.findFirst({
+          where: { user_id, connection_status: "CONNECTED" },
+          orderBy: [
+            { last_sync_time: { sort: "desc", nulls: "last" } },
+            { created_at: "asc" },
+          ],
+        });
+        if (next) {
+          await tx.connectedDevice.update({
+            where: { connected_device_id: next.connected_device_id },
+            data: { is_primary_device: true },
+          });
+          console.log("⭐ Primary device moved to:", next.connected_device_id);
+        }
       });
 
       console.log("✅ Device disconnected");
     } catch (error) {
       console.error("💥 Error disconnecting device:", error);
+      if (error instanceof DeviceError) throw error;
       throw new Error("Failed to disconnect device");
     }
   }
 
-  static async syncDeviceData(
+  // Writes one day of device data. Metrics missing from the record keep their
+  // stored value, so streams synced separately don't erase each other. When a
+  // day is synced again the newest reading wins: a retried or delayed batch
+  // carrying an older reading is skipped.
+  static async saveDayRecord(
     user_id: string,
-    deviceId: string,
-    activityData: ActivityData
-  ) {
-    try {
-      console.log("🔄 Syncing device data:", deviceId, activityData);
-
-      const device = await prisma.connectedDevice.findFirst({
-        where: {
-          connected_device_id: deviceId,
+    device: Pick<ConnectedDevice, "connected_device_id" | "device_name">,
+    record: DeviceDayRecord
+  ): Promise<DeviceDaySaveStatus> {
+    const date = new Date(record.date);
+    const recordedAt = record.recordedAt || new Date();
+    const whole = (value?: number) =>
+      value === undefined ? undefined : Math.round(value);
+    const metrics = {
+      steps: whole(record.steps),
+      calories_burned: record.caloriesBurned,
+      active_minutes: whole(record.activeMinutes),
+      bmr_estimate: record.bmr,
+      distance_km: record.distance,
+      heart_rate_avg: whole(record.heartRate),
+      heart_rate_max: whole(record.heartRateMax),
+      sleep_hours: record.sleepHours,
+      weight_kg: record.weight,
+      body_fat_percentage: record.bodyFat,
+      workouts: record.workouts as Prisma.InputJsonArray | undefined,
+      recorded_at: recordedAt,
+      sync_timestamp: new Date(),
+    };
+
+    const existing = await prisma.dailyActivitySummary.findUnique({
+      where: {
+        user_id_device_id_date: {
           user_id,
+          device_id: device.connected_device_id,
+          date,
         },
-      });
-
-      if (!device) {
-        throw new Error("Device not found");
-      }
-
-      const today = new Date().toISOString().split("T")[0];
-
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
+      },
+      select: { daily_activity_id: true },
+    });
+
+    let status: DeviceDaySaveStatus;
+    if (existing) {
+      // The reading check is part of the update so a concurrent newer write
+      // can't be overwritten between the read and the write
+      const updated = await prisma.dailyActivitySummary.updateMany({
         where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
-          },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
-          updated_at: new Date(),
-          raw_data: activityData as any,
-        },
-        create: {
-          user_id,
-          device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
-        },
-      });
-
-      // Update device last sync time
-      await prisma.connectedDevice.update({
-        where: { connected_device_id: deviceId },
-        data: {
-          last_sync_time: new Date(),
-          connection_status: "CONNECTED",
-          updated_at: new Date(),
+          daily_activity_id: existing.daily_activity_id,
+          OR: [{ recorded_at: null }, { recorded_at: { lte: recordedAt } }],
         },
+        data: metrics,
       });
+      status = updated.count > 0 ? "updated" : "skipped";
+    } else {
+      try {
+        await prisma.dailyActivitySummary.create({
+          data: {
+            user_id,
+            device_id: device.connected_device_id,
+            date,
+            ...metrics,
+            source_device: device.device_name,
+          },
+        });
+        status = "created";
+      } catch (error: any) {
+        // Created by a concurrent sync in the meantime; resolve against it
+        if (error?.code === "P2002") {
+          return this.saveDayRecord(user_id, device, record);
+        }
+        throw error;
+      }
+    }
 
-      console.log("✅ Device data synced successfully");
-      return activitySummary;
-    } catch (error) {
-      console.error("💥 Error syncing device data:", error);
-      throw new Error("Failed to sync device data");
+    if (status !== "skipped") {
+      await BodyService.recordDeviceMeasurement(
+        user_id,
+        device.connected_device_id,
+        date,
+        { weight_kg: record.weight, body_fat_percentage: record.bodyFat }
+      );
     }
+
+    return status;
   }
 
   static async getActivityData(
@@ -240,21 +340,12 @@ export class DeviceService {
         endDate,
       });
 
-      const activityData = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id,
-          date: {
-            gte: new Date(startDate),
-            lte: new Date(endDate),
-          },
-        },
-        include: {
-          device: true,
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+      // One record per day, combined across the user's devices
+      const activityData = await ActivityMergeService.getMergedDays(
+        user_id,
+        startDate,
+        endDate
+      );
 
       console.log("✅ Found", activityData.length, "activity records");
       return activityData;
@@ -296,16 +387,12 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from the merged activity data
+      const [activityData] = await ActivityMergeService.getMergedDays(
+        user_id,
+        date,
+        date
+      );
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -335,6 +422,7 @@ export class DeviceService {
         caloriesOut: Math.round(caloriesOut),
         balance: Math.round(balance),
         balanceStatus,
+        caloriesSource: activityData.sources.calories,
       };
 
       console.log("✅ Daily balance calculated:", dailyBalance);
@@ -345,17 +433,27 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
+  // TOKEN ENCRYPTION/DECRYPTION (AES-256-GCM envelope, see utils/tokenEncryption)
   private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
+    return encryptToken(token);
   }
 
   private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
-    return Buffer.from(encryptedToken, "base64").toString();
+    return decryptToken(encryptedToken);
+  }
+
+  // A token that can't be decrypted (missing key, tampered or corrupt row) or
+  // that the provider rejected puts the device in ERROR so the user is asked
+  // to reconnect it
+  static async markTokenFailure(deviceId: string, error: unknown) {
+    console.error(
+      `💥 Unusable tokens for device ${deviceId}:`,
+      error instanceof Error ? error.message : error
+    );
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: deviceId },
+      data: { connection_status: "ERROR", updated_at: new Date() },
+    });
   }
 
   static async getDeviceTokens(
@@ -377,14 +475,20 @@ export class DeviceService {
         return {};
       }
 
-      return {
-        accessToken: device.access_token_encrypted
-          ? this.decryptToken(device.access_token_encrypted)
-          : undefined,
-        refreshToken: device.refresh_token_encrypted
-          ? this.decryptToken(device.refresh_token_encrypted)
-          : undefined,
-      };
+      try {
+        return {
+          accessToken: device.access_token_encrypted
+            ? this.decryptToken(device.access_token_encrypted)
+            : undefined,
+          refreshToken: device.refresh_token_encrypted
+            ? this.decryptToken(device.refresh_token_encrypted)
+            : undefined,
+        };
+      } catch (error) {
+        if (!(error instanceof TokenEncryptionError)) throw error;
+        await this.markTokenFailure(deviceId, error);
+        return {};
+      }
     } catch (error) {
       console.error("💥 Error getting device tokens:", error);
       return {};
@@ -423,4 +527,88 @@ export class DeviceService {
       throw new Error("Failed to update device tokens");
     }
   }
+
+  // Re-encrypts every stored token that is legacy base64 or sealed with a key
+  // other than the active one. Rows whose tokens can't be decrypted are
+  // marked ERROR and left as they are. A row updated concurrently (e.g. by a
+  // token refresh) is skipped, since the refresh already used the active key.
+  static async reencryptTokens(
+    options: { dryRun?: boolean; batchSize?: number } = {}
+  ): Promise<TokenReencryptionResult> {
+    const batchSize = options.batchSize || 100;
+    const result: TokenReencryptionResult = {
+      scanned: 0,
+      reencrypted: 0,
+      failed: 0,
+    };
+    let cursor: string | undefined;
+
+    while (true) {
+      const devices = await prisma.connectedDevice.findMany({
+        where: {
+          OR: [
+            { access_token_encrypted: { not: null } },
+            { refresh_token_encrypted: { not: null } },
+          ],
+        },
+        select: {
+          connected_device_id: true,
+          access_token_encrypted: true,
+          refresh_token_encrypted: true,
+        },
+        orderBy: { connected_device_id: "asc" },
+        take: batchSize,
+        ...(cursor && { skip: 1, cursor: { connected_device_id: cursor } }),
+      });
+      if (devices.length === 0) break;
+      cursor = devices[devices.length - 1].connected_device_id;
+
+      for (const device of devices) {
+        result.scanned++;
+        const access = device.access_token_encrypted;
+        const refresh = device.refresh_token_encrypted;
+        const stale = [access, refresh].some(
+          (value) => value !== null && needsReencryption(value)
+        );
+        if (!stale) continue;
+
+        let data: {
+          access_token_encrypted: string | null;
+          refresh_token_encrypted: string | null;
+        };
+        try {
+          data = {
+            access_token_encrypted:
+              access && encryptToken(decryptToken(access)),
+            refresh_token_encrypted:
+              refresh && encryptToken(decryptToken(refresh)),
+          };
+        } catch (error) {
+          if (!(error instanceof TokenEncryptionError)) throw error;
+          result.failed++;
+          if (!options.dryRun) {
+            await this.markTokenFailure(device.connected_device_id, error);
+          }
+          continue;
+        }
+
+        if (options.dryRun) {
+          result.reencrypted++;
+          continue;
+        }
+
+        const updated = await prisma.connectedDevice.updateMany({
+          where: {
+            connected_device_id: device.connected_device_id,
+            access_token_encrypted: access,
+            refresh_token_encrypted: refresh,
+          },
+          data,
+        });
+        result.reencrypted += updated.count;
+      }
+    }
+
+    return result;
+  }
 }
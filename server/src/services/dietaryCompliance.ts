@@ -0,0 +1,74 @@
+import { prisma } from "../lib/database";
+import {
+  CheckedFood,
+  DietaryProfile,
+  DietaryWarning,
+  buildDietaryProfile,
+  checkFood,
+} from "../utils/dietaryCompliance";
+
+// A recommended or template meal, with or without its ingredient rows
+export interface CheckedMeal {
+  name: string;
+  meal_type?: string;
+  day_number?: number;
+  ingredients?: ({ name: string } | string)[];
+  allergens?: string[];
+}
+
+export class DietaryComplianceService {
+  // Null when the user hasn't filled in the questionnaire yet
+  static async getProfile(userId: string): Promise<DietaryProfile | null> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+      select: {
+        allergies: true,
+        allergies_text: true,
+        kosher: true,
+        medical_conditions: true,
+        medical_conditions_text: true,
+      },
+    });
+
+    return questionnaire ? buildDietaryProfile(questionnaire) : null;
+  }
+
+  // Warnings for every meal, each tagged with the meal it's about
+  static async checkMeals(
+    userId: string,
+    meals: CheckedMeal[]
+  ): Promise<DietaryWarning[]> {
+    const profile = await this.getProfile(userId);
+    if (!profile) return [];
+
+    return meals.flatMap((meal) =>
+      checkFood(profile, this.toCheckedFood(meal)).map((warning) => ({
+        ...warning,
+        meal: {
+          name: meal.name,
+          meal_type: meal.meal_type,
+          day_number: meal.day_number,
+        },
+      }))
+    );
+  }
+
+  static async checkFood(
+    userId: string,
+    food: CheckedFood
+  ): Promise<DietaryWarning[]> {
+    const profile = await this.getProfile(userId);
+    return profile ? checkFood(profile, food) : [];
+  }
+
+  private static toCheckedFood(meal: CheckedMeal): CheckedFood {
+    return {
+      name: meal.name,
+      ingredients: (meal.ingredients || []).map((ingredient) =>
+        typeof ingredient === "string" ? ingredient : ingredient.name
+      ),
+      allergens: meal.allergens,
+    };
+  }
+}
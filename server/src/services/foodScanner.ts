@@ -1,50 +1,38 @@
+import { MealTiming } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { openai } from "./openai";
-import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
-
-interface UserAnalysis {
-  compatibility_score: number;
-  daily_contribution: {
-    calories_percent: number;
-    protein_percent: number;
-    carbs_percent: number;
-    fat_percent: number;
-  };
-  alerts: string[];
-  recommendations: string[];
-  health_assessment: string;
-}
+import { getAIProvider } from "./ai";
+import { NutritionService } from "./nutrition";
+import { lookupProduct } from "./productSources";
+import { productFromRecord } from "./productSources/records";
+import { nutrientsForGrams } from "../utils/mealNutrients";
+import { describePortion, resolvePortionGrams } from "../utils/portions";
+import {
+  DietaryRule,
+  WarningSeverity,
+  buildDietaryProfile,
+  checkFood,
+} from "../utils/dietaryCompliance";
+import {
+  Portion,
+  ProductData,
+  ProductIngredient,
+  ProductOverrideInput,
+  ProductSourceName,
+  UserAnalysis,
+} from "../types/foodScanner";
+
+const WARNING_ICONS: Record<DietaryRule, string> = {
+  allergen: "⚠️",
+  kosher: "✡️",
+  gluten: "🌾",
+  lactose: "🥛",
+};
+
+const WARNING_PENALTIES: Record<WarningSeverity, number> = {
+  high: 30,
+  medium: 20,
+  low: 15,
+};
 
 export class FoodScannerService {
   static async scanBarcode(
@@ -57,27 +45,34 @@ export class FoodScannerService {
     try {
       console.log("🔍 Scanning barcode:", barcode);
 
-      // Try to get product from our database first
-      let productData = await this.getProductFromDatabase(barcode);
+      // Walk the configured product sources in priority order
+      const lookup = await lookupProduct(barcode);
 
-      if (!productData) {
-        // Try external food database APIs
-        productData = await this.getProductFromExternalAPI(barcode);
-
-        if (!productData) {
-          throw new Error("Product not found in any database");
-        }
+      if (!lookup) {
+        throw new Error("Product not found in any database");
+      }
 
-        // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
+      let productId: number;
+      if (lookup.source === "local") {
         // Update the access time for existing products
-        await prisma.foodProduct.update({
+        const existing = await prisma.foodProduct.update({
           where: { barcode },
           data: { updated_at: new Date() },
+          select: { product_id: true },
         });
+        productId = existing.product_id;
+      } else {
+        // Save to the shared catalog for future scans by anyone
+        productId = await this.saveProductToDatabase(lookup.product, barcode);
       }
 
+      await this.recordScan(userId, productId, "barcode", lookup.source);
+      const productData = await this.applyUserOverride(
+        lookup.product,
+        productId,
+        userId
+      );
+
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
         productData,
@@ -104,10 +99,6 @@ export class FoodScannerService {
     try {
       console.log("📷 Scanning product image with AI...");
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        throw new Error("AI image scanning not available - no API key");
-      }
-
       const systemPrompt = `You are a comprehensive nutrition label scanner. Analyze the food product image and extract complete nutritional information.
 
 Return JSON with this exact structure:
@@ -143,46 +134,35 @@ Return JSON with this exact structure:
 
 Extract all visible nutritional information. If a value is not visible, use 0 or null. Calculate health score based on nutritional quality: high fiber/protein = good, high sugar/sodium = bad. Be precise with nutritional values.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Please analyze this food product label and extract nutritional information.",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${imageBase64}`,
-                  detail: "high",
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 1000,
+      const { content } = await getAIProvider().analyzeImage({
+        task: "product_label",
+        systemPrompt,
+        userPrompt:
+          "Please analyze this food product label and extract nutritional information.",
+        imageBase64,
+        maxTokens: 1000,
         temperature: 0.1,
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error("No response from AI");
-      }
-
       const productData = JSON.parse(content) as ProductData;
+      productData.provenance = {
+        source: "ai_label",
+        reference: getAIProvider().models.vision,
+        fetched_at: new Date(),
+      };
 
-      // Save to database if barcode was detected, or create a unique identifier for image scans
-      const productId =
+      // Save to database if barcode was detected, or create a unique identifier for image scans.
+      // A label read never overwrites a shared product that already exists.
+      const barcode =
         productData.barcode ||
         `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+      const productId = await this.saveProductToDatabase(
+        productData,
+        barcode,
+        false
+      );
+      productData.product_id = productId;
+      await this.recordScan(userId, productId, "image", "ai_label");
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -200,82 +180,124 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  static async addProductToMealLog(
+  // Logs one or more scanned products as a single meal. Each product is
+  // measured in grams/ml, servings or whole packages and kept as a
+  // structured ingredient of the meal.
+  static async addProductsToMealLog(
     userId: string,
-    productData: ProductData,
-    quantity: number,
-    mealTiming: string = "SNACK"
+    items: { product: ProductData; portion: Portion }[],
+    options: { mealName?: string; mealTiming?: MealTiming } = {}
   ): Promise<any> {
     try {
-      console.log("📝 Adding product to meal log...");
+      console.log(`📝 Adding ${items.length} product(s) to meal log...`);
 
-      // Calculate nutrition for the specified quantity
-      const nutritionPer100g = productData.nutrition_per_100g;
-      const multiplier = quantity / 100;
+      if (items.length === 0) {
+        throw new Error("At least one product is required");
+      }
+
+      const ingredients = items.map(({ product, portion }) =>
+        this.buildProductIngredient(product, portion)
+      );
+
+      const sum = (pick: (i: ProductIngredient) => number | undefined) => {
+        const values = ingredients
+          .map(pick)
+          .filter((v): v is number => v !== undefined);
+        return values.length > 0
+          ? Math.round(values.reduce((a, b) => a + b, 0) * 10) / 10
+          : null;
+      };
+
+      const totalGrams = ingredients.reduce((a, i) => a + i.quantity_g, 0);
+      const allergens = [
+        ...new Set(items.flatMap(({ product }) => product.allergens || [])),
+      ];
+      const labels = [
+        ...new Set(items.flatMap(({ product }) => product.labels || [])),
+      ];
+      const scoredItems = ingredients.filter(
+        (i) => i.health_score !== undefined
+      );
+      const healthScore =
+        scoredItems.length > 0
+          ? Math.round(
+              scoredItems.reduce(
+                (a, i) => a + i.health_score! * i.quantity_g,
+                0
+              ) / Math.max(1, scoredItems.reduce((a, i) => a + i.quantity_g, 0))
+            )
+          : 50;
+      const liquidsMl = ingredients
+        .filter((i) => i.unit === "ml")
+        .reduce((a, i) => a + i.quantity_g, 0);
+
+      const mealName =
+        options.mealName ||
+        (ingredients.length === 1
+          ? `${ingredients[0].name} (${ingredients[0].portion})`
+          : ingredients.map((i) => i.name).join(" + "));
 
       const mealData = {
-        meal_name: `${productData.name} (${quantity}g)`,
-        calories: Math.round((nutritionPer100g.calories || 0) * multiplier),
-        protein_g: Math.round((nutritionPer100g.protein || 0) * multiplier),
-        carbs_g: Math.round((nutritionPer100g.carbs || 0) * multiplier),
-        fats_g: Math.round((nutritionPer100g.fat || 0) * multiplier),
-        fiber_g: nutritionPer100g.fiber
-          ? Math.round(nutritionPer100g.fiber * multiplier)
-          : null,
-        sugar_g: nutritionPer100g.sugar
-          ? Math.round(nutritionPer100g.sugar * multiplier)
-          : null,
-        sodium_mg: nutritionPer100g.sodium
-          ? Math.round(nutritionPer100g.sodium * multiplier)
-          : null,
-        serving_size_g: quantity,
-        food_category: productData.category,
-        ingredients: JSON.stringify(productData.ingredients),
+        meal_name: mealName,
+        calories: sum((i) => i.calories) || 0,
+        protein_g: sum((i) => i.protein) || 0,
+        carbs_g: sum((i) => i.carbs) || 0,
+        fats_g: sum((i) => i.fat) || 0,
+        fiber_g: sum((i) => i.fiber),
+        sugar_g: sum((i) => i.sugar),
+        sodium_mg: sum((i) => i.sodium_mg),
+        saturated_fats_g: sum((i) => i.saturated_fat),
+        cholesterol_mg: sum((i) => i.cholesterol_mg),
+        serving_size_g: Math.round(totalGrams),
+        liquids_ml: liquidsMl > 0 ? Math.round(liquidsMl) : null,
+        food_category:
+          new Set(items.map(({ product }) => product.category)).size === 1
+            ? items[0].product.category
+            : "Mixed",
+        ingredients: ingredients as any[],
         additives_json: {
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score || 50,
+          allergens,
+          labels,
+          health_score: healthScore,
         },
         allergens_json: {
-          allergens: productData.allergens,
+          allergens,
+        },
+        vitamins_json: {
+          vitamin_c_mg: sum((i) => i.vitamin_c_mg),
+          vitamin_d_mcg: sum((i) => i.vitamin_d_mcg),
+        },
+        micronutrients_json: {
+          potassium_mg: sum((i) => i.potassium_mg),
+          calcium_mg: sum((i) => i.calcium_mg),
+          iron_mg: sum((i) => i.iron_mg),
+          trans_fat_g: sum((i) => i.trans_fat),
         },
-        vitamins_json: {},
-        micronutrients_json: {},
-        image_url: productData.image_url || "",
+        image_url:
+          items.find(({ product }) => product.image_url)?.product.image_url ||
+          null,
         processing_level: "processed",
         confidence: 85,
         health_risk_notes:
-          productData.health_score && productData.health_score < 50
+          healthScore < 50
             ? "Product may have health concerns based on analysis"
             : null,
-        // Add missing required fields
-        saturated_fats_g: nutritionPer100g.saturated_fat
-          ? Math.round(nutritionPer100g.saturated_fat * multiplier)
-          : null,
-        polyunsaturated_fats_g: null,
-        monounsaturated_fats_g: null,
-        omega_3_g: null,
-        omega_6_g: null,
-        soluble_fiber_g: null,
-        insoluble_fiber_g: null,
-        cholesterol_mg: nutritionPer100g.cholesterol
-          ? Math.round(nutritionPer100g.cholesterol * multiplier)
-          : null,
-        alcohol_g: null,
-        caffeine_mg: null,
-        liquids_ml: null,
-        glycemic_index: null,
-        insulin_index: null,
-        cooking_method: null,
       };
 
+      const eatenAt = new Date();
       const meal = await prisma.meal.create({
         data: {
           user_id: userId,
           analysis_status: "COMPLETED",
+          source: "BARCODE",
+          meal_timing: await NutritionService.resolveMealTiming(
+            userId,
+            eatenAt,
+            options.mealTiming
+          ),
           ...mealData,
-          upload_time: new Date(),
-          created_at: new Date(),
+          upload_time: eatenAt,
+          created_at: eatenAt,
         },
       });
 
@@ -289,190 +311,229 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  static async getScanHistory(userId: string): Promise<any[]> {
+  private static buildProductIngredient(
+    product: ProductData,
+    portion: Portion
+  ): ProductIngredient {
+    const grams = resolvePortionGrams(product, portion);
+    const nutrients = nutrientsForGrams(product.nutrition_per_100g, grams);
+    const { vitamins_json: vitamins, micronutrients_json: minerals } =
+      nutrients;
+    const optional = (value: number | null | undefined) => value ?? undefined;
+
+    return {
+      name: product.name,
+      brand: product.brand,
+      barcode: product.barcode,
+      product_id: product.product_id,
+      source: "barcode",
+      amount: portion.amount,
+      unit: portion.unit,
+      quantity_g: nutrients.serving_size_g,
+      portion: describePortion(portion, grams),
+      calories: nutrients.calories,
+      protein: nutrients.protein_g,
+      carbs: nutrients.carbs_g,
+      fat: nutrients.fats_g,
+      fiber: optional(nutrients.fiber_g),
+      sugar: optional(nutrients.sugar_g),
+      sodium_mg: optional(nutrients.sodium_mg),
+      saturated_fat: optional(nutrients.saturated_fats_g),
+      trans_fat: optional(minerals.trans_fat_g),
+      cholesterol_mg: optional(nutrients.cholesterol_mg),
+      potassium_mg: optional(minerals.potassium_mg),
+      calcium_mg: optional(minerals.calcium_mg),
+      iron_mg: optional(minerals.iron_mg),
+      vitamin_c_mg: optional(vitamins.vitamin_c_mg),
+      vitamin_d_mcg: optional(vitamins.vitamin_d_mcg),
+      health_score: product.health_score,
+    };
+  }
+
+  static async getScanHistory(userId: string, limit = 50): Promise<any[]> {
     try {
-      // Get both scanned food products and meals created from scanned items
-      const [products, meals] = await Promise.all([
-        prisma.foodProduct.findMany({
-          where: { user_id: userId },
-          orderBy: { created_at: "desc" },
-          take: 25,
-        }),
-        prisma.meal.findMany({
-          where: {
-            user_id: userId,
-            meal_name: { contains: "g)" }, // Meals created from scanner have format "Product (XXXg)"
+      const scans = await prisma.foodProductScan.findMany({
+        where: { user_id: userId },
+        orderBy: { scanned_at: "desc" },
+        take: limit,
+        include: {
+          product: {
+            include: { overrides: { where: { user_id: userId } } },
           },
-          orderBy: { created_at: "desc" },
-          take: 25,
-        }),
-      ]);
+        },
+      });
 
-      // Combine and format the results
-      const history = [
-        ...products.map((product) => ({
-          id: product.product_id,
-          product_name: product.product_name,
-          name: product.product_name,
-          brand: product.brand,
-          category: product.category,
-          barcode: product.barcode,
-          created_at: product.created_at,
-          type: "product",
-        })),
-        ...meals.map((meal) => ({
-          id: meal.meal_id,
-          product_name: meal.meal_name,
-          name: meal.meal_name,
-          category: meal.food_category,
-          created_at: meal.created_at,
-          type: "meal",
-        })),
-      ].sort(
-        (a, b) =>
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      return scans.map((scan) => {
+        const override = scan.product.overrides[0];
+        const name = override?.product_name || scan.product.product_name;
 
-      return history.slice(0, 50);
+        return {
+          id: scan.scan_id,
+          product_id: scan.product_id,
+          product_name: name,
+          name,
+          brand: scan.product.brand,
+          category: scan.product.category,
+          barcode: scan.product.barcode,
+          scan_method: scan.scan_method,
+          source: scan.source,
+          has_user_override: !!override,
+          created_at: scan.scanned_at,
+          type: "product",
+        };
+      });
     } catch (error) {
       console.error("Error getting scan history:", error);
       return [];
     }
   }
 
-  private static async getProductFromDatabase(
-    barcode: string
+  // The shared product with the user's own corrections applied
+  static async getProductForUser(
+    barcode: string,
+    userId: string
   ): Promise<ProductData | null> {
-    try {
-      const product = await prisma.foodProduct.findUnique({
-        where: { barcode },
-      });
-
-      if (!product) return null;
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) return null;
+
+    return this.applyUserOverride(
+      productFromRecord(product, {
+        source: (product.source as ProductSourceName) || "local",
+        reference: product.source_reference || undefined,
+        fetched_at: product.source_fetched_at || product.created_at,
+      }),
+      product.product_id,
+      userId
+    );
+  }
 
-      return {
-        barcode: product.barcode,
-        name: product.product_name,
-        brand: product.brand || undefined,
-        category: product.category,
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
-        health_score: product.health_score || undefined,
-        image_url: product.image_url || undefined,
-      };
-    } catch (error) {
-      console.error("Error getting product from database:", error);
-      return null;
+  static async saveUserOverride(
+    userId: string,
+    barcode: string,
+    override: ProductOverrideInput
+  ): Promise<ProductData> {
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+      select: { product_id: true },
+    });
+    if (!product) {
+      throw new Error("Product not found");
     }
-  }
 
-  private static async getProductFromExternalAPI(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      // Try OpenFoodFacts
-      const response = await axios.get(
-        `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`,
-        { timeout: 5000 }
-      );
+    const data = {
+      product_name: override.product_name,
+      nutrition_per_100g: override.nutrition_per_100g,
+      serving_size: override.serving_size,
+      servings_per_container: override.servings_per_container,
+      allergens: override.allergens,
+    };
+
+    await prisma.foodProductOverride.upsert({
+      where: {
+        user_id_product_id: { user_id: userId, product_id: product.product_id },
+      },
+      create: { user_id: userId, product_id: product.product_id, ...data },
+      update: data,
+    });
+
+    console.log(`✏️ Saved product override for ${barcode} by user ${userId}`);
+    return (await this.getProductForUser(barcode, userId))!;
+  }
 
-      if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
+  static async deleteUserOverride(userId: string, barcode: string) {
+    const { count } = await prisma.foodProductOverride.deleteMany({
+      where: { user_id: userId, product: { barcode } },
+    });
+    return count > 0;
+  }
 
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
-      }
+  private static async applyUserOverride(
+    productData: ProductData,
+    productId: number,
+    userId: string
+  ): Promise<ProductData> {
+    const override = await prisma.foodProductOverride.findUnique({
+      where: { user_id_product_id: { user_id: userId, product_id: productId } },
+    });
 
-      return null;
-    } catch (error: any) {
-      console.warn("❌ OpenFoodFacts failed:", error.message || error);
-      return null;
+    if (!override) {
+      return { ...productData, product_id: productId, has_user_override: false };
     }
+
+    return {
+      ...productData,
+      product_id: productId,
+      name: override.product_name || productData.name,
+      nutrition_per_100g: {
+        ...productData.nutrition_per_100g,
+        ...((override.nutrition_per_100g as Partial<
+          ProductData["nutrition_per_100g"]
+        >) || {}),
+      },
+      serving_size: override.serving_size ?? productData.serving_size,
+      servings_per_container:
+        override.servings_per_container ?? productData.servings_per_container,
+      allergens: (override.allergens as string[] | null) ?? productData.allergens,
+      has_user_override: true,
+    };
   }
 
-  private static async saveProductToDatabase(
-    productData: ProductData,
-    barcode: string,
-    user_id: string
-  ): Promise<void> {
+  private static async recordScan(
+    userId: string,
+    productId: number,
+    scanMethod: "barcode" | "image",
+    source: string
+  ) {
     try {
-      await prisma.foodProduct.upsert({
-        where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
+      await prisma.foodProductScan.create({
+        data: {
+          user_id: userId,
+          product_id: productId,
+          scan_method: scanMethod,
+          source,
         },
       });
     } catch (error) {
-      console.error("Error saving product to database:", error);
+      console.error("Error recording product scan:", error);
     }
   }
 
+  // Upserts the shared product and returns its id. With overwrite off an
+  // existing product is left as it is.
+  private static async saveProductToDatabase(
+    productData: ProductData,
+    barcode: string,
+    overwrite: boolean = true
+  ): Promise<number> {
+    const fields = {
+      product_name: productData.name,
+      brand: productData.brand,
+      category: productData.category,
+      nutrition_per_100g: productData.nutrition_per_100g,
+      ingredients: productData.ingredients,
+      allergens: productData.allergens,
+      labels: productData.labels,
+      health_score: productData.health_score,
+      image_url: productData.image_url,
+      serving_size: productData.serving_size,
+      servings_per_container: productData.servings_per_container,
+      source: productData.provenance?.source,
+      source_reference: productData.provenance?.reference,
+      source_fetched_at: productData.provenance?.fetched_at,
+    };
+
+    const product = await prisma.foodProduct.upsert({
+      where: { barcode },
+      update: overwrite ? { ...fields, updated_at: new Date() } : {},
+      create: { barcode, ...fields, created_at: new Date() },
+      select: { product_id: true },
+    });
+
+    return product.product_id;
+  }
+
   private static async analyzeProductForUser(
     productData: ProductData,
     userId: string
@@ -493,6 +554,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           fat_percent: 0,
         },
         alerts: [],
+        dietary_warnings: [],
         recommendations: [],
         health_assessment: "מוצר נייטרלי מבחינה תזונתית",
       };
@@ -518,20 +580,22 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
 
       // Check for dietary restrictions
       if (questionnaire) {
-        const userAllergies =
-          (questionnaire.allergies as string[] | null | undefined) || [];
-        const productAllergens = productData.allergens || [];
-        const allergenMatches = userAllergies.filter((allergy: string) =>
-          productAllergens.some((allergen) =>
-            allergen.toLowerCase().includes(allergy.toLowerCase())
-          )
+        // Allergens, kosher, gluten and lactose
+        analysis.dietary_warnings = checkFood(
+          buildDietaryProfile(questionnaire),
+          {
+            name: productData.name,
+            ingredients: productData.ingredients || [],
+            allergens: productData.allergens || [],
+            labels: productData.labels || [],
+          },
+          { requireKosherLabel: true }
         );
-
-        if (allergenMatches.length > 0) {
+        for (const warning of analysis.dietary_warnings) {
           analysis.alerts.push(
-            `⚠️ אלרגן: המוצר מכיל ${allergenMatches.join(", ")}`
+            `${WARNING_ICONS[warning.rule]} ${warning.message_he}`
           );
-          analysis.compatibility_score -= 30;
+          analysis.compatibility_score -= WARNING_PENALTIES[warning.severity];
         }
 
         // Check dietary style compatibility
@@ -547,11 +611,6 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           analysis.alerts.push("🥬 המוצר מכיל בשר ואינו מתאים לצמחונים");
           analysis.compatibility_score -= 20;
         }
-
-        if (questionnaire.kosher && !productLabels.includes("kosher")) {
-          analysis.alerts.push("✡️ המוצר אינו כשר");
-          analysis.compatibility_score -= 15;
-        }
       }
 
       // Health assessment based on nutrition
@@ -605,6 +664,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           fat_percent: 0,
         },
         alerts: [],
+        dietary_warnings: [],
         recommendations: [],
         health_assessment: "לא הצלחנו לנתח את המוצר",
       };
@@ -1,6 +1,32 @@
+import { MealTiming } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { OpenAIService } from "./openai";
-import { UserMealPlanConfig, WeeklyMealPlan } from "../types/mealPlans";
+import {
+  AdherenceQuery,
+  ConfirmSlotInput,
+  EatPlannedMealInput,
+  UserMealPlanConfig,
+  WeeklyMealPlan,
+} from "../types/mealPlans";
+import { ShoppingListService } from "./shoppingLists";
+import { computeAdherence, toDateKey } from "../utils/mealPlanAdherence";
+import { localDateKey, zonedTime } from "../utils/timeZone";
+import { MEAL_TIMING_MINUTES } from "../utils/mealTiming";
+import { MealNutrients, scaleMealNutrients } from "../utils/mealNutrients";
+import { NutritionService } from "./nutrition";
+
+// Longest stretch one adherence report covers
+const MAX_ADHERENCE_DAYS = 366;
+
+export class MealPlanError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "MealPlanError";
+  }
+}
 
 export class MealPlanService {
   static async createUserMealPlan(userId: string, config: UserMealPlanConfig) {
@@ -111,60 +137,12 @@ export class MealPlanService {
     try {
       console.log("🛒 Generating shopping list for plan:", planId);
 
-      const plan = await prisma.userMealPlan.findFirst({
-        where: {
-          plan_id: planId,
-          user_id: userId,
-        },
-        include: {
-          schedules: {
-            include: {
-              template: true,
-            },
-          },
-        },
-      });
-
-      if (!plan) {
-        throw new Error("Meal plan not found");
-      }
-
-      // Aggregate ingredients from all meals
-      const ingredientMap = new Map();
-
-      plan.schedules.forEach((schedule) => {
-        const ingredients = schedule.template.ingredients_json as any[];
-        if (Array.isArray(ingredients)) {
-          ingredients.forEach((ingredient) => {
-            const key = ingredient.name?.toLowerCase() || "unknown";
-            if (ingredientMap.has(key)) {
-              const existing = ingredientMap.get(key);
-              existing.quantity += ingredient.quantity || 1;
-            } else {
-              ingredientMap.set(key, {
-                name: ingredient.name || "Unknown ingredient",
-                quantity: ingredient.quantity || 1,
-                unit: ingredient.unit || "piece",
-                category: ingredient.category || "other",
-                estimated_cost: 5,
-              });
-            }
-          });
-        }
-      });
-
-      const items = Array.from(ingredientMap.values());
-      const totalCost = items.reduce((sum, item) => sum + item.estimated_cost, 0);
-
-      const shoppingList = await prisma.shoppingList.create({
-        data: {
-          user_id: userId,
-          plan_id: planId,
-          name: `Shopping List - ${plan.name}`,
-          week_start_date: new Date(weekStartDate),
-          items_json: items,
-          total_estimated_cost: totalCost,
-        },
+      // Pantry deduction and item state live in the shopping list service
+      const shoppingList = await ShoppingListService.generateList(userId, {
+        plan_ids: [planId],
+        menu_ids: [],
+        week_start_date: weekStartDate,
+        use_pantry: true,
       });
 
       console.log("✅ Shopping list generated successfully");
@@ -259,6 +237,9 @@ export class MealPlanService {
     }
   ) {
     try {
+      // Summarizes what the user actually ate over the plan's calendar
+      const adherence = await this.getAdherence(userId, planId);
+
       await prisma.userMealPlan.update({
         where: { plan_id: planId },
         data: {
@@ -271,13 +252,281 @@ export class MealPlanService {
         },
       });
 
-      return { message: "Plan completed successfully" };
+      return {
+        message: "Plan completed successfully",
+        summary: {
+          from: adherence.from,
+          to: adherence.to,
+          ...adherence.summary,
+        },
+      };
     } catch (error) {
       console.error("💥 Error completing plan:", error);
       throw error;
     }
   }
 
+  // Per-day and per-slot adherence: each scheduled slot is matched to a
+  // logged meal by an explicit confirmation, by meal time, or by how close
+  // its calories and macros are to the plan's
+  static async getAdherence(
+    userId: string,
+    planId: string,
+    range: AdherenceQuery = {}
+  ) {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: planId, user_id: userId },
+      include: { schedules: { include: { template: true } } },
+    });
+    if (!plan) {
+      throw new MealPlanError("Meal plan not found", 404);
+    }
+
+    const timeZone = await NutritionService.getTimeZone(userId);
+    const today = localDateKey(new Date(), timeZone);
+    const planStart = toDateKey(plan.start_date || plan.created_at);
+    const planEnd =
+      [plan.end_date, plan.completed_at]
+        .filter((date): date is Date => !!date)
+        .map(toDateKey)
+        .sort()[0] || today;
+
+    const from = range.from && range.from > planStart ? range.from : planStart;
+    let to = range.to && range.to < planEnd ? range.to : planEnd;
+    const latest = new Date(`${from}T00:00:00Z`);
+    latest.setUTCDate(latest.getUTCDate() + MAX_ADHERENCE_DAYS - 1);
+    if (to > toDateKey(latest)) to = toDateKey(latest);
+
+    const dayAfterTo = new Date(`${to}T00:00:00Z`);
+    dayAfterTo.setUTCDate(dayAfterTo.getUTCDate() + 1);
+    // Local days start up to a day either side of the UTC ones
+    const mealsFrom = new Date(`${from}T00:00:00Z`);
+    mealsFrom.setUTCDate(mealsFrom.getUTCDate() - 1);
+    const mealsUntil = new Date(dayAfterTo);
+    mealsUntil.setUTCDate(mealsUntil.getUTCDate() + 1);
+    const mealSelect = {
+      meal_id: true,
+      upload_time: true,
+      meal_timing: true,
+      meal_name: true,
+      calories: true,
+      protein_g: true,
+      carbs_g: true,
+      fats_g: true,
+    } as const;
+
+    const [meals, logs, questionnaire] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          upload_time: { gte: mealsFrom, lt: mealsUntil },
+        },
+        select: mealSelect,
+      }),
+      prisma.mealPlanSlotLog.findMany({
+        where: {
+          plan_id: planId,
+          date: { gte: new Date(`${from}T00:00:00Z`), lt: dayAfterTo },
+        },
+        include: { meal: { select: mealSelect } },
+      }),
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+        select: { meal_times: true },
+      }),
+    ]);
+
+    // Meals confirmed for a slot may have been logged on another day
+    const confirmedMeals = logs
+      .map((log) => log.meal)
+      .filter((meal): meal is NonNullable<typeof meal> => !!meal)
+      .filter((meal) => !meals.some((m) => m.meal_id === meal.meal_id));
+
+    return computeAdherence({
+      slots: plan.schedules.map((schedule) => ({
+        schedule_id: schedule.schedule_id,
+        day_of_week: schedule.day_of_week,
+        meal_timing: schedule.meal_timing,
+        meal_order: schedule.meal_order,
+        is_optional: schedule.is_optional,
+        name: schedule.template.name,
+        calories:
+          (schedule.template.calories || 0) * schedule.portion_multiplier,
+        protein_g:
+          (schedule.template.protein_g || 0) * schedule.portion_multiplier,
+        carbs_g: (schedule.template.carbs_g || 0) * schedule.portion_multiplier,
+        fats_g: (schedule.template.fats_g || 0) * schedule.portion_multiplier,
+      })),
+      meals: [...meals, ...confirmedMeals].map(({ upload_time, ...meal }) => ({
+        ...meal,
+        eaten_at: upload_time,
+      })),
+      confirmations: logs.map((log) => ({
+        schedule_id: log.schedule_id,
+        date: toDateKey(log.date),
+        status: log.status,
+        meal_id: log.meal_id,
+      })),
+      from,
+      to,
+      today,
+      mealTimes: questionnaire?.meal_times,
+      timeZone,
+    });
+  }
+
+  // Records that the user ate (or skipped) a scheduled slot on a date,
+  // optionally pointing at the meal they logged for it
+  static async confirmSlot(
+    userId: string,
+    planId: string,
+    scheduleId: string,
+    input: ConfirmSlotInput
+  ) {
+    const schedule = await this.findOwnedSchedule(userId, planId, scheduleId);
+    const timeZone = await NutritionService.getTimeZone(userId);
+    const date = this.slotDate(schedule.day_of_week, input.date, timeZone);
+
+    if (input.meal_id !== undefined) {
+      const meal = await prisma.meal.findFirst({
+        where: { meal_id: input.meal_id, user_id: userId },
+        select: { meal_id: true },
+      });
+      if (!meal) {
+        throw new MealPlanError("Meal not found", 404);
+      }
+    }
+
+    const data = {
+      status: input.status,
+      meal_id: input.status === "EATEN" ? (input.meal_id ?? null) : null,
+    };
+    const log = await prisma.mealPlanSlotLog.upsert({
+      where: {
+        schedule_id_date: {
+          schedule_id: scheduleId,
+          date: new Date(`${date}T00:00:00Z`),
+        },
+      },
+      update: data,
+      create: {
+        ...data,
+        user_id: userId,
+        plan_id: planId,
+        schedule_id: scheduleId,
+        date: new Date(`${date}T00:00:00Z`),
+      },
+    });
+
+    console.log(
+      `✅ Slot ${scheduleId} on ${date} marked ${input.status.toLowerCase()}`
+    );
+    return log;
+  }
+
+  // "I ate this": logs the slot's template as a meal, scaled by the portion,
+  // and confirms the slot with it
+  static async logScheduledMeal(
+    userId: string,
+    planId: string,
+    scheduleId: string,
+    input: EatPlannedMealInput
+  ) {
+    const schedule = await this.findOwnedSchedule(userId, planId, scheduleId);
+    const template = await prisma.mealTemplate.findUniqueOrThrow({
+      where: { template_id: schedule.template_id },
+    });
+    const timeZone = await NutritionService.getTimeZone(userId);
+    const date = this.slotDate(schedule.day_of_week, input.date, timeZone);
+
+    const meal = await this.createPlannedMeal(userId, {
+      name: template.name,
+      meal_timing: schedule.meal_timing,
+      nutrients: {
+        calories: template.calories || 0,
+        protein_g: template.protein_g || 0,
+        carbs_g: template.carbs_g || 0,
+        fats_g: template.fats_g || 0,
+        fiber_g: template.fiber_g,
+        sugar_g: template.sugar_g,
+        sodium_mg: template.sodium_mg,
+      },
+      ingredients: template.ingredients_json,
+      portion:
+        (input.portion_multiplier ?? schedule.portion_multiplier) *
+        input.portion_eaten,
+      date,
+      link: { plan_id: planId, schedule_id: scheduleId },
+    });
+
+    const log = await this.confirmSlot(userId, planId, scheduleId, {
+      date,
+      status: "EATEN",
+      meal_id: meal.meal_id,
+    });
+
+    return { meal, log };
+  }
+
+  // The recommended-menu equivalent of logScheduledMeal; the meal keeps a
+  // reference to the menu meal it came from
+  static async logRecommendedMeal(
+    userId: string,
+    menuId: string,
+    mealId: string,
+    input: EatPlannedMealInput
+  ) {
+    const planned = await prisma.recommendedMeal.findFirst({
+      where: { meal_id: mealId, menu_id: menuId, menu: { user_id: userId } },
+      include: { ingredients: true },
+    });
+    if (!planned) {
+      throw new MealPlanError("Menu meal not found", 404);
+    }
+
+    const meal = await this.createPlannedMeal(userId, {
+      name: planned.name,
+      meal_timing: planned.meal_type,
+      nutrients: {
+        calories: planned.calories,
+        protein_g: planned.protein,
+        carbs_g: planned.carbs,
+        fats_g: planned.fat,
+        fiber_g: planned.fiber,
+        sugar_g: null,
+        sodium_mg: null,
+      },
+      ingredients: planned.ingredients.map(({ name, quantity, unit }) => ({
+        name,
+        quantity,
+        unit,
+      })),
+      portion: (input.portion_multiplier ?? 1) * input.portion_eaten,
+      date: input.date,
+      link: { menu_id: menuId },
+      recommended_meal_id: planned.meal_id,
+    });
+
+    return { meal };
+  }
+
+  // Undoes a confirmation so the slot is matched from logged meals again
+  static async clearSlotConfirmation(
+    userId: string,
+    planId: string,
+    scheduleId: string,
+    date: string
+  ) {
+    await this.findOwnedSchedule(userId, planId, scheduleId);
+    await prisma.mealPlanSlotLog.deleteMany({
+      where: {
+        schedule_id: scheduleId,
+        date: new Date(`${date}T00:00:00Z`),
+      },
+    });
+  }
+
   static async savePlanFeedback(
     userId: string,
     planId: string,
@@ -333,6 +582,143 @@ export class MealPlanService {
     }
   }
 
+  // The given date, checked against the slot's weekday, or else the latest
+  // day up to the user's local today the slot was scheduled on
+  private static slotDate(dayOfWeek: number, date?: string, timeZone?: string) {
+    if (date) {
+      if (new Date(`${date}T00:00:00Z`).getUTCDay() !== dayOfWeek) {
+        throw new MealPlanError(
+          "This meal is not scheduled on the given date",
+          400
+        );
+      }
+      return date;
+    }
+
+    const latest = new Date(`${localDateKey(new Date(), timeZone)}T00:00:00Z`);
+    latest.setUTCDate(
+      latest.getUTCDate() - ((latest.getUTCDay() - dayOfWeek + 7) % 7)
+    );
+    return toDateKey(latest);
+  }
+
+  private static async createPlannedMeal(
+    userId: string,
+    planned: {
+      name: string;
+      meal_timing: MealTiming;
+      nutrients: Pick<
+        MealNutrients,
+        | "calories"
+        | "protein_g"
+        | "carbs_g"
+        | "fats_g"
+        | "fiber_g"
+        | "sugar_g"
+        | "sodium_mg"
+      >;
+      ingredients: unknown;
+      portion: number;
+      date?: string;
+      link: Record<string, string>;
+      recommended_meal_id?: string;
+    }
+  ) {
+    const nutrients = scaleMealNutrients(
+      {
+        ...planned.nutrients,
+        saturated_fats_g: null,
+        cholesterol_mg: null,
+        serving_size_g: 0,
+        vitamins_json: {},
+        micronutrients_json: {},
+      },
+      planned.portion
+    );
+    const ingredients = (
+      Array.isArray(planned.ingredients) ? planned.ingredients : []
+    ).map((ingredient: any) =>
+      typeof ingredient === "string"
+        ? { name: ingredient, source: "plan" }
+        : {
+            name: ingredient.name,
+            quantity:
+              typeof ingredient.quantity === "number"
+                ? Math.round(ingredient.quantity * planned.portion * 10) / 10
+                : ingredient.quantity,
+            unit: ingredient.unit,
+            source: "plan",
+          }
+    );
+
+    const portionLabel = Math.round(planned.portion * 100) / 100;
+    // Meals for today are logged now, meals for other days at the meal's
+    // usual time on that local day
+    const timeZone = await NutritionService.getTimeZone(userId);
+    const mealDate =
+      planned.date && planned.date !== localDateKey(new Date(), timeZone)
+        ? zonedTime(
+            planned.date,
+            MEAL_TIMING_MINUTES[planned.meal_timing],
+            timeZone
+          )
+        : new Date();
+
+    const meal = await prisma.meal.create({
+      data: {
+        user_id: userId,
+        meal_name:
+          portionLabel === 1
+            ? planned.name
+            : `${planned.name} (${portionLabel} portion${
+                portionLabel > 1 ? "s" : ""
+              })`,
+        image_url: null,
+        analysis_status: "COMPLETED",
+        source: "PLAN",
+        meal_timing: planned.meal_timing,
+        calories: nutrients.calories,
+        protein_g: nutrients.protein_g,
+        carbs_g: nutrients.carbs_g,
+        fats_g: nutrients.fats_g,
+        fiber_g: nutrients.fiber_g,
+        sugar_g: nutrients.sugar_g,
+        sodium_mg: nutrients.sodium_mg,
+        ingredients,
+        confidence: 100,
+        additives_json: { ...planned.link, portion: planned.portion },
+        recommended_meal_id: planned.recommended_meal_id,
+        upload_time: mealDate,
+        created_at: mealDate,
+      },
+    });
+
+    NutritionService.clearUserCaches(userId);
+    console.log(
+      `🍽️ Logged planned meal "${planned.name}" x${portionLabel} as meal ${meal.meal_id}`
+    );
+
+    return meal;
+  }
+
+  private static async findOwnedSchedule(
+    userId: string,
+    planId: string,
+    scheduleId: string
+  ) {
+    const schedule = await prisma.mealPlanSchedule.findFirst({
+      where: {
+        schedule_id: scheduleId,
+        plan_id: planId,
+        plan: { user_id: userId },
+      },
+    });
+    if (!schedule) {
+      throw new MealPlanError("Scheduled meal not found", 404);
+    }
+    return schedule;
+  }
+
   private static async generateReplacementTemplate(
     currentTemplate: any,
     preferences: any,
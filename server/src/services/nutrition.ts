@@ -1,8 +1,26 @@
 import { OpenAIService } from "./openai";
+import { getAIProvider } from "./ai";
 import { prisma } from "../lib/database";
-import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
+import { MealSource, MealTiming } from "@prisma/client";
+import {
+  ManualMealInput,
+  MealAnalysisInput,
+  MealUpdateInput,
+} from "../types/nutrition";
 import { AuthService } from "./auth";
+import { DietaryComplianceService } from "./dietaryCompliance";
 import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import {
+  MEAL_TIMING_ORDER,
+  inferMealTiming,
+  isMealTiming,
+} from "../utils/mealTiming";
+import {
+  MicronutrientMeal,
+  assessMicronutrients,
+  sumMicronutrients,
+} from "../utils/micronutrients";
+import { timeOnLocalDay } from "../utils/timeZone";
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
@@ -32,6 +50,8 @@ function transformMealForClient(meal: any) {
     image_url: meal.image_url,
     upload_time: meal.upload_time,
     analysis_status: meal.analysis_status,
+    source: meal.source,
+    meal_timing: meal.meal_timing,
     meal_name: meal.meal_name,
     calories: meal.calories,
     protein_g: meal.protein_g,
@@ -66,7 +86,7 @@ function transformMealForClient(meal: any) {
   };
 }
 
-// QUOTA CHECKS REMOVED - NO LIMITS ENFORCED
+// Daily AI quotas are enforced by the requireAIQuota middleware on the routes
 
 export class NutritionService {
   static async analyzeMeal(user_id: string, data: MealAnalysisInput) {
@@ -82,7 +102,7 @@ export class NutritionService {
     if (!user) throw new Error("User not found");
 
     console.log("🚀 Starting meal analysis for user:", user_id);
-    console.log("🔑 OpenAI API Key available:", !!process.env.OPENAI_API_KEY);
+    console.log("🔑 AI provider:", getAIProvider().name);
     console.log("💬 Update text provided:", !!data.updateText);
     console.log(
       "🥗 Edited ingredients provided:",
@@ -96,7 +116,8 @@ export class NutritionService {
         cleanBase64,
         language,
         data.updateText,
-        data.editedIngredients
+        data.editedIngredients,
+        user_id
       );
     } catch (error: any) {
       console.error("💥 OpenAI analysis failed:", error);
@@ -184,6 +205,14 @@ export class NutritionService {
       );
     }
 
+    // Allergens, kosher, gluten and lactose against the user's questionnaire
+    const dietaryWarnings = await DietaryComplianceService.checkFood(user_id, {
+      name: mappedMeal.meal_name,
+      ingredients: ingredients.map(
+        (ingredient: { name: string }) => ingredient.name
+      ),
+    });
+
     console.log("✅ Meal analysis completed successfully!");
 
     return {
@@ -191,6 +220,7 @@ export class NutritionService {
       data: {
         ...mappedMeal,
         ingredients,
+        dietary_warnings: dietaryWarnings,
         healthScore: (analysis.confidence || 75).toString(),
         recommendations:
           analysis.healthNotes ||
@@ -272,7 +302,8 @@ export class NutritionService {
         OpenAIService.updateMealAnalysis(
           originalAnalysis,
           updateData.updateText,
-          updateData.language || "english"
+          updateData.language || "english",
+          user_id
         ),
         new Promise<never>((_, reject) =>
           setTimeout(
@@ -360,10 +391,17 @@ export class NutritionService {
 
   static async saveMeal(user_id: string, mealData: any, imageBase64?: string) {
     try {
+      const data = mapMealDataToPrismaFields(mealData, user_id, imageBase64);
+      const meal_timing = await this.resolveMealTiming(
+        user_id,
+        data.upload_time,
+        mealData.meal_timing
+      );
+
       // Use transaction for better performance and consistency
       const meal = await prisma.$transaction(async (tx) => {
         return await tx.meal.create({
-          data: mapMealDataToPrismaFields(mealData, user_id, imageBase64),
+          data: { ...data, meal_timing },
         });
       });
 
@@ -374,6 +412,97 @@ export class NutritionService {
     }
   }
 
+  // Logs a meal without a photo, either from macros the user typed in or from
+  // a free-text description that the AI breaks into ingredients
+  static async logManualMeal(user_id: string, input: ManualMealInput) {
+    try {
+      const mealDate = await this.mealTimeOnDay(user_id, input.date);
+      let mealData: Record<string, any>;
+      let ingredients: any[] = [];
+
+      if (input.calories !== undefined) {
+        mealData = {
+          meal_name: input.meal_name || input.description,
+          calories: input.calories,
+          protein_g: input.protein_g ?? 0,
+          carbs_g: input.carbs_g ?? 0,
+          fats_g: input.fats_g ?? 0,
+          fiber_g: input.fiber_g ?? null,
+          sugar_g: input.sugar_g ?? null,
+          sodium_mg: input.sodium_mg ?? null,
+          serving_size_g: input.serving_size_g ?? null,
+          confidence: 100,
+        };
+      } else {
+        console.log("📝 Parsing meal description for user:", user_id);
+        const analysis = await OpenAIService.analyzeMealDescription(
+          input.description!,
+          input.language,
+          user_id
+        );
+
+        ingredients = analysis.ingredients.map(
+          (ingredient: any, index: number) =>
+            typeof ingredient === "string"
+              ? { name: ingredient, calories: 0, protein: 0, carbs: 0, fat: 0 }
+              : {
+                  name: ingredient.name || `Item ${index + 1}`,
+                  quantity: ingredient.quantity,
+                  calories: Number(ingredient.calories || 0),
+                  protein: Number(ingredient.protein_g || ingredient.protein || 0),
+                  carbs: Number(ingredient.carbs_g || ingredient.carbs || 0),
+                  fat: Number(ingredient.fats_g || ingredient.fat || 0),
+                  fiber: Number(ingredient.fiber_g || ingredient.fiber || 0),
+                  sugar: Number(ingredient.sugar_g || ingredient.sugar || 0),
+                  sodium_mg: Number(ingredient.sodium_mg || 0),
+                }
+        );
+
+        mealData = {
+          meal_name: input.meal_name || analysis.name,
+          calories: analysis.calories,
+          protein_g: analysis.protein_g,
+          carbs_g: analysis.carbs_g,
+          fats_g: analysis.fats_g,
+          fiber_g: analysis.fiber_g,
+          sugar_g: analysis.sugar_g,
+          sodium_mg: analysis.sodium_mg,
+          serving_size_g: analysis.serving_size_g,
+          food_category: analysis.food_category,
+          health_risk_notes: analysis.health_risk_notes || null,
+          confidence: analysis.confidence,
+          additives_json: { description: input.description },
+        };
+      }
+
+      const meal = await prisma.meal.create({
+        data: {
+          user_id,
+          image_url: null,
+          analysis_status: "COMPLETED",
+          source: "MANUAL",
+          meal_timing: await this.resolveMealTiming(
+            user_id,
+            mealDate,
+            input.meal_timing
+          ),
+          ...mealData,
+          ingredients,
+          upload_time: mealDate,
+          created_at: mealDate,
+        },
+      });
+
+      this.clearUserCaches(user_id);
+      console.log(`✅ Manual meal logged: ${meal.meal_id}`);
+
+      return transformMealForClient(meal);
+    } catch (error) {
+      console.error("💥 Error logging manual meal:", error);
+      throw error;
+    }
+  }
+
   static async getUserMeals(user_id: string, offset = 0, limit = 100) {
     try {
       // Add caching for frequently accessed meals
@@ -410,14 +539,17 @@ export class NutritionService {
   static async getRangeStatistics(
     userId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    source?: MealSource
   ) {
     try {
       console.log("📊 Getting range statistics for user:", userId);
-      console.log("📅 Date range:", { startDate, endDate });
+      console.log("📅 Date range:", { startDate, endDate, source });
 
       // Check cache first
-      const cacheKey = `stats_${userId}_${startDate}_${endDate}`;
+      const cacheKey = `stats_${userId}_${startDate}_${endDate}_${
+        source || "ALL"
+      }`;
       const cached = userStatsCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
@@ -435,6 +567,7 @@ export class NutritionService {
             gte: startDateTime,
             lte: endDateTime,
           },
+          ...(source && { source }),
         },
         orderBy: {
           created_at: "asc",
@@ -466,6 +599,10 @@ export class NutritionService {
           glycemic_index: true,
           insulin_index: true,
           confidence: true,
+          vitamins_json: true,
+          micronutrients_json: true,
+          source: true,
+          meal_timing: true,
           created_at: true,
           upload_time: true,
         },
@@ -476,6 +613,7 @@ export class NutritionService {
           totalDays: 0,
           totalMeals: 0,
           dailyBreakdown: [],
+          mealTypeBreakdown: this.breakdownByMealType([]),
           ...Object.fromEntries(
             [
               "calories",
@@ -505,6 +643,7 @@ export class NutritionService {
               [`average_${field}`, 0],
             ])
           ),
+          micronutrients: await this.getMicronutrientSummary(userId, [], 0),
         };
 
         // Cache empty result too
@@ -580,6 +719,8 @@ export class NutritionService {
           image_url: meal.image_url,
           upload_time: meal.upload_time,
           analysis_status: meal.analysis_status,
+          source: meal.source,
+          meal_timing: meal.meal_timing,
           meal_name: meal.meal_name,
           calories: meal.calories,
           protein_g: meal.protein_g,
@@ -619,7 +760,10 @@ export class NutritionService {
         return acc;
       }, {} as Record<string, any>);
 
-      const dailyBreakdown = Object.values(dailyData);
+      const dailyBreakdown = Object.values(dailyData).map((day) => ({
+        ...day,
+        micronutrients: sumMicronutrients(day.meals).totals,
+      }));
 
       const statistics = {
         totalDays,
@@ -637,6 +781,16 @@ export class NutritionService {
         dailyBreakdown: dailyBreakdown.sort((a, b) =>
           a.date.localeCompare(b.date)
         ),
+        mealTypeBreakdown: this.breakdownByMealType(
+          meals,
+          await this.getTimeZone(userId)
+        ),
+        // Average daily intake over the days with logged meals
+        micronutrients: await this.getMicronutrientSummary(
+          userId,
+          meals,
+          totalDays
+        ),
         dateRange: {
           startDate,
           endDate,
@@ -657,10 +811,14 @@ export class NutritionService {
     }
   }
 
-  static async getDailyStats(user_id: string, date: string) {
+  static async getDailyStats(
+    user_id: string,
+    date: string,
+    source?: MealSource
+  ) {
     try {
       // Check cache first
-      const cacheKey = `daily_${user_id}_${date}`;
+      const cacheKey = `daily_${user_id}_${date}_${source || "ALL"}`;
       const cached = userStatsCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
@@ -675,6 +833,7 @@ export class NutritionService {
         where: {
           user_id,
           created_at: { gte: startDate, lt: endDate },
+          ...(source && { source }),
         },
         select: {
           calories: true,
@@ -683,10 +842,15 @@ export class NutritionService {
           fats_g: true,
           fiber_g: true,
           sugar_g: true,
+          sodium_mg: true,
+          vitamins_json: true,
+          micronutrients_json: true,
+          meal_timing: true,
+          upload_time: true,
         },
       });
 
-      const result = meals.reduce(
+      const totals = meals.reduce(
         (acc, meal) => {
           acc.calories += meal.calories || 0;
           acc.protein += meal.protein_g || 0;
@@ -707,6 +871,14 @@ export class NutritionService {
           meal_count: 0,
         }
       );
+      const result = {
+        ...totals,
+        by_meal_type: this.breakdownByMealType(
+          meals,
+          await this.getTimeZone(user_id)
+        ),
+        micronutrients: await this.getMicronutrientSummary(user_id, meals, 1),
+      };
 
       // Cache the result
       userStatsCache.set(cacheKey, {
@@ -721,6 +893,22 @@ export class NutritionService {
     }
   }
 
+  // Micronutrient intake against the reference intakes for the age and
+  // gender from the user's latest questionnaire
+  private static async getMicronutrientSummary(
+    userId: string,
+    meals: MicronutrientMeal[],
+    days: number
+  ) {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+      select: { age: true, gender: true },
+    });
+
+    return assessMicronutrients(meals, days, questionnaire);
+  }
+
   static async saveMealFeedback(
     user_id: string,
     meal_id: string,
@@ -820,8 +1008,98 @@ export class NutritionService {
     }
   }
 
+  // The requested meal type when one was given, otherwise inferred from when
+  // the meal was eaten and the user's usual meal times
+  static async resolveMealTiming(
+    user_id: string,
+    eatenAt: Date,
+    requested?: unknown
+  ): Promise<MealTiming> {
+    if (isMealTiming(requested)) return requested;
+
+    const [questionnaire, timeZone] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id },
+        orderBy: { date_completed: "desc" },
+        select: { meal_times: true },
+      }),
+      this.getTimeZone(user_id),
+    ]);
+
+    return inferMealTiming(eatenAt, questionnaire?.meal_times, timeZone);
+  }
+
+  // When a meal logged for the local day `date` (YYYY-MM-DD) was eaten: now
+  // for today, otherwise the current time of day on that day in the user's
+  // time zone
+  static async mealTimeOnDay(user_id: string, date?: string) {
+    return timeOnLocalDay(date, await this.getTimeZone(user_id));
+  }
+
+  // The zone the user's app last reported, if any
+  static async getTimeZone(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    return user?.timezone || undefined;
+  }
+
+  // Calories and macros per meal type, in the order meals are eaten. Meals
+  // logged before meal types existed are classified by their local upload
+  // time.
+  private static breakdownByMealType(
+    meals: {
+      meal_timing: MealTiming | null;
+      upload_time: Date;
+      calories: number | null;
+      protein_g: number | null;
+      carbs_g: number | null;
+      fats_g: number | null;
+    }[],
+    timeZone?: string | null
+  ) {
+    const breakdown = MEAL_TIMING_ORDER.map((meal_timing) => ({
+      meal_timing,
+      meal_count: 0,
+      calories: 0,
+      protein_g: 0,
+      carbs_g: 0,
+      fats_g: 0,
+    }));
+
+    for (const meal of meals) {
+      const timing =
+        meal.meal_timing || inferMealTiming(meal.upload_time, null, timeZone);
+      const entry = breakdown.find((item) => item.meal_timing === timing)!;
+      entry.meal_count++;
+      entry.calories += meal.calories || 0;
+      entry.protein_g += meal.protein_g || 0;
+      entry.carbs_g += meal.carbs_g || 0;
+      entry.fats_g += meal.fats_g || 0;
+    }
+
+    const totalCalories = breakdown.reduce(
+      (sum, item) => sum + item.calories,
+      0
+    );
+
+    return breakdown.map((item) => ({
+      meal_timing: item.meal_timing,
+      meal_count: item.meal_count,
+      calories: Math.round(item.calories),
+      protein_g: Math.round(item.protein_g * 10) / 10,
+      carbs_g: Math.round(item.carbs_g * 10) / 10,
+      fats_g: Math.round(item.fats_g * 10) / 10,
+      calorie_share:
+        totalCalories > 0
+          ? Math.round((item.calories / totalCalories) * 1000) / 10
+          : 0,
+    }));
+  }
+
   // Helper method to clear user-specific caches
-  private static clearUserCaches(user_id: string) {
+  static clearUserCaches(user_id: string) {
     const keysToDelete: string[] = [];
 
     for (const [key] of userStatsCache) {
@@ -1,30 +1,21 @@
-import OpenAI from "openai";
-import { extractCleanJSON, parsePartialJSON } from "../utils/openai";
-
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+import { getAIProvider, getFallbackAIProvider } from "./ai";
+import { AITask } from "../types/ai";
+import { AIResponseError, AIResponseService } from "./aiResponses";
 
 export class OpenAIService {
   static async analyzeMealImage(
     imageBase64: string,
     language: string = "english",
     updateText?: string,
-    editedIngredients: any[] = []
+    editedIngredients: any[] = [],
+    userId?: string
   ) {
     try {
-      console.log("🤖 Starting OpenAI meal analysis...");
+      console.log("🤖 Starting AI meal analysis...");
       console.log("🌐 Language:", language);
       console.log("📝 Update text provided:", !!updateText);
       console.log("🥗 Edited ingredients:", editedIngredients.length);
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using fallback analysis");
-        return this.getFallbackAnalysis(language);
-      }
-
       // Validate image data
       if (!imageBase64 || imageBase64.trim() === "") {
         throw new Error("Image data is required");
@@ -47,51 +38,34 @@ export class OpenAIService {
       const isHebrew = language === "hebrew";
       const systemPrompt = this.createAnalysisPrompt(isHebrew, updateText, editedIngredients);
 
-      console.log("🔄 Calling OpenAI API...");
-
-      // Remove the invalid timeout parameter and use proper OpenAI client
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // Use gpt-4o instead of gpt-5
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: updateText || (isHebrew 
-                  ? "נתח את התמונה הזו של האוכל ותן לי פירוט תזונתי מדויק."
-                  : "Analyze this food image and provide detailed nutritional information."
-                ),
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${cleanBase64}`,
-                  detail: "high",
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 2000,
+      const provider = getAIProvider();
+      console.log(`🔄 Calling AI provider (${provider.name})...`);
+
+      const completion = await provider.analyzeImage({
+        task: "meal_analysis",
+        language,
+        systemPrompt,
+        userPrompt:
+          updateText ||
+          (isHebrew
+            ? "נתח את התמונה הזו של האוכל ותן לי פירוט תזונתי מדויק."
+            : "Analyze this food image and provide detailed nutritional information."),
+        imageBase64: cleanBase64,
+        maxTokens: 2000,
         temperature: 0.3,
       });
+      const content = completion.content;
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error("No response from OpenAI");
-      }
-
-      console.log("✅ OpenAI response received");
+      console.log(`✅ AI response received (${completion.model})`);
       console.log("📄 Response preview:", content.substring(0, 200) + "...");
 
-      // Parse the JSON response
-      const cleanedJSON = extractCleanJSON(content);
-      const analysis = parsePartialJSON(cleanedJSON);
+      // Parse and validate the JSON response
+      const analysis = await AIResponseService.parse("meal_analysis", content, {
+        task: "meal_analysis",
+        language,
+        userId,
+        model: completion.model,
+      });
 
       // Validate and normalize the response
       const normalizedAnalysis = this.normalizeAnalysisResponse(analysis);
@@ -101,6 +75,11 @@ export class OpenAIService {
     } catch (error: any) {
       console.error("💥 OpenAI analysis error:", error);
 
+      // A made-up fallback is worse than an error for a malformed analysis
+      if (error instanceof AIResponseError) {
+        throw error;
+      }
+
       // Handle specific OpenAI errors
       if (error.status === 400) {
         throw new Error("Invalid image data or request format");
@@ -121,71 +100,109 @@ export class OpenAIService {
   static async updateMealAnalysis(
     originalAnalysis: any,
     updateText: string,
-    language: string = "english"
-  ) {
+    language: string = "english",
+    userId?: string
+  ): Promise<any> {
     try {
       console.log("🔄 Updating meal analysis with AI...");
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using basic update");
-        return this.getBasicUpdate(originalAnalysis, updateText);
-      }
-
       const isHebrew = language === "hebrew";
       const prompt = this.createUpdatePrompt(originalAnalysis, updateText, isHebrew);
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: isHebrew
-              ? "אתה מנתח תזונה מומחה. עדכן את הניתוח הקיים בהתבסס על המידע החדש שהמשתמש סיפק."
-              : "You are an expert nutrition analyst. Update the existing analysis based on the new information provided by the user.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        max_tokens: 1500,
+      const { content, model } = await getAIProvider().generateText({
+        task: "meal_update",
+        language,
+        systemPrompt: isHebrew
+          ? "אתה מנתח תזונה מומחה. עדכן את הניתוח הקיים בהתבסס על המידע החדש שהמשתמש סיפק."
+          : "You are an expert nutrition analyst. Update the existing analysis based on the new information provided by the user.",
+        prompt,
+        context: { originalAnalysis, updateText },
+        maxTokens: 1500,
         temperature: 0.2,
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error("No response from OpenAI");
-      }
-
-      const cleanedJSON = extractCleanJSON(content);
-      const updatedAnalysis = parsePartialJSON(cleanedJSON);
+      const updatedAnalysis = await AIResponseService.parse(
+        "meal_analysis",
+        content,
+        { task: "meal_update", language, userId, model }
+      );
 
       return this.normalizeAnalysisResponse(updatedAnalysis);
     } catch (error) {
       console.error("💥 Error updating meal analysis:", error);
-      return this.getBasicUpdate(originalAnalysis, updateText);
+      // A made-up fallback is worse than an error for a malformed analysis
+      if (error instanceof AIResponseError) {
+        throw error;
+      }
+      const { content } = await getFallbackAIProvider().generateText({
+        task: "meal_update",
+        language,
+        prompt: updateText,
+        context: { originalAnalysis, updateText },
+      });
+      return this.normalizeAnalysisResponse(JSON.parse(content));
     }
   }
 
-  static async generateText(prompt: string, maxTokens: number = 1000): Promise<string> {
+  // Text-only counterpart of analyzeMealImage for meals logged without a
+  // photo, e.g. "2 eggs and toast"
+  static async analyzeMealDescription(
+    description: string,
+    language: string = "english",
+    userId?: string
+  ): Promise<any> {
+    const isHebrew = language === "hebrew";
+
     try {
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        return "AI text generation not available - no API key configured";
+      console.log("🤖 Analyzing meal description with AI...");
+
+      const { content, model } = await getAIProvider().generateText({
+        task: "meal_description",
+        language,
+        systemPrompt: this.createDescriptionPrompt(isHebrew),
+        prompt: description,
+        context: { description },
+        maxTokens: 1500,
+        temperature: 0.2,
+      });
+      console.log(`✅ AI response received (${model})`);
+
+      const analysis = await AIResponseService.parse("meal_analysis", content, {
+        task: "meal_description",
+        language,
+        userId,
+        model,
+      });
+      return this.normalizeAnalysisResponse(analysis);
+    } catch (error) {
+      console.error("💥 Error analyzing meal description:", error);
+      if (error instanceof AIResponseError) {
+        throw error;
       }
+      const { content } = await getFallbackAIProvider().generateText({
+        task: "meal_description",
+        language,
+        prompt: description,
+        context: { description },
+      });
+      return this.normalizeAnalysisResponse(JSON.parse(content));
+    }
+  }
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        max_tokens: maxTokens,
+  static async generateText(
+    prompt: string,
+    maxTokens: number = 1000,
+    task: AITask = "text"
+  ): Promise<string> {
+    try {
+      const { content } = await getAIProvider().generateText({
+        task,
+        prompt,
+        maxTokens,
         temperature: 0.7,
       });
 
-      return response.choices[0]?.message?.content || "No response generated";
+      return content;
     } catch (error) {
       console.error("💥 Error generating text:", error);
       throw error;
@@ -310,6 +327,74 @@ Return JSON in this exact format:
     return basePrompt;
   }
 
+  private static createDescriptionPrompt(isHebrew: boolean): string {
+    return isHebrew
+      ? `אתה מנתח תזונה מומחה. המשתמש מתאר במילים ארוחה שאכל. פרק את התיאור למרכיבים, הערך כמות סבירה לכל מרכיב וחשב ערכים תזונתיים.
+
+החזר JSON בפורמט הזה בדיוק:
+{
+  "name": "שם קצר לארוחה",
+  "description": "תיאור קצר",
+  "calories": מספר,
+  "protein": מספר,
+  "carbs": מספר,
+  "fat": מספר,
+  "fiber": מספר,
+  "sugar": מספר,
+  "sodium": מספר,
+  "serving_size_g": מספר,
+  "food_category": "קטגוריה",
+  "confidence": מספר (0-100),
+  "ingredients": [
+    {
+      "name": "שם המרכיב",
+      "quantity": "כמות, למשל 2 יחידות או 150 גרם",
+      "calories": מספר,
+      "protein": מספר,
+      "carbs": מספר,
+      "fat": מספר,
+      "fiber": מספר,
+      "sugar": מספר,
+      "sodium_mg": מספר
+    }
+  ]
+}
+
+הסכומים ברמת הארוחה חייבים להיות שווים לסכום המרכיבים.`
+      : `You are an expert nutrition analyst. The user describes a meal they ate in words. Break the description into ingredients, estimate a reasonable quantity for each and calculate the nutrition.
+
+Return JSON in this exact format:
+{
+  "name": "Short meal name",
+  "description": "Brief description",
+  "calories": number,
+  "protein": number,
+  "carbs": number,
+  "fat": number,
+  "fiber": number,
+  "sugar": number,
+  "sodium": number,
+  "serving_size_g": number,
+  "food_category": "category",
+  "confidence": number (0-100),
+  "ingredients": [
+    {
+      "name": "ingredient name",
+      "quantity": "amount, e.g. 2 pieces or 150 g",
+      "calories": number,
+      "protein": number,
+      "carbs": number,
+      "fat": number,
+      "fiber": number,
+      "sugar": number,
+      "sodium_mg": number
+    }
+  ]
+}
+
+Meal-level totals must equal the sum of the ingredients.`;
+  }
+
   private static createUpdatePrompt(
     originalAnalysis: any,
     updateText: string,
@@ -383,101 +468,15 @@ Return updated JSON in the same format as the original analysis.`;
     };
   }
 
-  private static getFallbackAnalysis(language: string) {
-    const isHebrew = language === "hebrew";
-    
-    return {
-      name: isHebrew ? "ארוחה מנותחת" : "Analyzed Meal",
-      description: isHebrew ? "ניתוח בסיסי של הארוחה" : "Basic meal analysis",
-      calories: 400,
-      protein: 25,
-      carbs: 45,
-      fat: 15,
-      fiber: 8,
-      sugar: 10,
-      sodium: 600,
-      saturated_fats_g: 5,
-      polyunsaturated_fats_g: 3,
-      monounsaturated_fats_g: 7,
-      omega_3_g: 1,
-      omega_6_g: 2,
-      soluble_fiber_g: 4,
-      insoluble_fiber_g: 4,
-      cholesterol_mg: 50,
-      alcohol_g: 0,
-      caffeine_mg: 0,
-      liquids_ml: 200,
-      serving_size_g: 250,
-      glycemic_index: 55,
-      insulin_index: 45,
-      food_category: isHebrew ? "מעורב" : "Mixed",
-      processing_level: isHebrew ? "בינוני" : "Moderate",
-      cooking_method: isHebrew ? "מעורב" : "Mixed",
-      health_risk_notes: "",
-      confidence: 70,
-      ingredients: [
-        {
-          name: isHebrew ? "מרכיב עיקרי" : "Main ingredient",
-          calories: 200,
-          protein: 15,
-          carbs: 25,
-          fat: 8,
-          fiber: 4,
-          sugar: 5,
-          sodium_mg: 300,
-        },
-        {
-          name: isHebrew ? "מרכיב משני" : "Secondary ingredient",
-          calories: 200,
-          protein: 10,
-          carbs: 20,
-          fat: 7,
-          fiber: 4,
-          sugar: 5,
-          sodium_mg: 300,
-        },
-      ],
-      healthNotes: isHebrew 
-        ? "ניתוח בסיסי - לתוצאות מדויקות יותר, הוסף מפתח OpenAI"
-        : "Basic analysis - for more accurate results, add OpenAI API key",
-      recommendations: isHebrew
-        ? "המלצות כלליות לתזונה בריאה"
-        : "General healthy nutrition recommendations",
-      // Compatibility fields
-      meal_name: isHebrew ? "ארוחה מנותחת" : "Analyzed Meal",
-      protein_g: 25,
-      carbs_g: 45,
-      fats_g: 15,
-      fiber_g: 8,
-      sugar_g: 10,
-      sodium_mg: 600,
-    };
-  }
-
-  private static getBasicUpdate(originalAnalysis: any, updateText: string) {
-    // Simple text-based update without AI
-    const updated = { ...originalAnalysis };
-    
-    // Basic keyword-based adjustments
-    const lowerUpdate = updateText.toLowerCase();
-    
-    if (lowerUpdate.includes("more protein") || lowerUpdate.includes("חלבון")) {
-      updated.protein = Math.round(updated.protein * 1.2);
-      updated.protein_g = updated.protein;
-    }
-    
-    if (lowerUpdate.includes("less calories") || lowerUpdate.includes("פחות קלוריות")) {
-      updated.calories = Math.round(updated.calories * 0.8);
-    }
-    
-    if (lowerUpdate.includes("more vegetables") || lowerUpdate.includes("ירקות")) {
-      updated.fiber = Math.round(updated.fiber * 1.3);
-      updated.fiber_g = updated.fiber;
-    }
-
-    updated.healthNotes = `Updated based on user input: ${updateText}`;
-    updated.confidence = Math.max(50, updated.confidence - 10);
+  private static async getFallbackAnalysis(language: string) {
+    const { content } = await getFallbackAIProvider().analyzeImage({
+      task: "meal_analysis",
+      language,
+      systemPrompt: "",
+      userPrompt: "",
+      imageBase64: "",
+    });
 
-    return updated;
+    return this.normalizeAnalysisResponse(JSON.parse(content));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+import { PaymentProvider } from "../../types/payments";
+import { MockPaymentProvider } from "./mockProvider";
+
+export { MockPaymentProvider };
+
+const DEV_WEBHOOK_SECRET = "mock-webhook-secret";
+
+let provider: PaymentProvider | null = null;
+
+function resolveWebhookSecret(): string {
+  if (process.env.PAYMENT_WEBHOOK_SECRET) {
+    return process.env.PAYMENT_WEBHOOK_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PAYMENT_WEBHOOK_SECRET must be set in production");
+  }
+
+  console.warn(
+    "⚠️ PAYMENT_WEBHOOK_SECRET is not set, using the development webhook secret"
+  );
+  return DEV_WEBHOOK_SECRET;
+}
+
+// Paying a checkout with a test card through the API is for local
+// development only
+export function isMockPaymentEnabled(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+function createProvider(): PaymentProvider {
+  const configured = process.env.PAYMENT_PROVIDER?.toLowerCase();
+
+  // The mock provider accepts any Luhn-valid test card, so production must
+  // name a real provider
+  if (process.env.NODE_ENV === "production") {
+    if (!configured || configured === "mock") {
+      throw new Error(
+        "PAYMENT_PROVIDER must name a real payment provider in production"
+      );
+    }
+    throw new Error(`Unknown PAYMENT_PROVIDER "${configured}"`);
+  }
+
+  if (configured && configured !== "mock") {
+    console.warn(
+      `⚠️ Unknown PAYMENT_PROVIDER "${configured}", using mock provider`
+    );
+  }
+
+  return new MockPaymentProvider(resolveWebhookSecret());
+}
+
+// The configured payment provider, created on first use
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(`💳 Payment provider: ${provider.name}`);
+  }
+  return provider;
+}
+
+// Allows tests and scripts to swap the provider at runtime
+export function setPaymentProvider(next: PaymentProvider | null) {
+  provider = next;
+}
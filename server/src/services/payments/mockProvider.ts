@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import {
+  CreateCheckoutRequest,
+  MockCardDetails,
+  PaymentProvider,
+  PaymentProviderName,
+  PaymentWebhookEvent,
+  ProviderCheckoutSession,
+} from "../../types/payments";
+import {
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./signature";
+
+const CHECKOUT_TTL_MS = 30 * 60 * 1000;
+
+// Cards that always fail, so the decline path can be exercised locally
+const DECLINED_CARDS = new Set(["4000000000000002", "4000000000009995"]);
+
+export interface MockPaymentResult {
+  payload: string;
+  signature: string;
+  event: PaymentWebhookEvent;
+}
+
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  let isEven = false;
+
+  for (let i = number.length - 1; i >= 0; i--) {
+    let digit = parseInt(number.charAt(i), 10);
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    isEven = !isEven;
+  }
+
+  return sum % 10 === 0;
+}
+
+function randomId(prefix: string) {
+  return `${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+}
+
+// In-process stand-in for a hosted checkout. Sessions are approved by
+// posting card details to the mock pay endpoint, which produces a webhook
+// signed exactly the way a real provider would sign it.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = "mock";
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createCheckoutSession(
+    request: CreateCheckoutRequest
+  ): Promise<ProviderCheckoutSession> {
+    const providerSessionId = randomId("mock_cs");
+
+    return {
+      providerSessionId,
+      url: `mock://checkout/${providerSessionId}`,
+      expiresAt: new Date(Date.now() + CHECKOUT_TTL_MS),
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer | string,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentWebhookEvent {
+    const payload = rawBody.toString();
+    verifyWebhookSignature(payload, headers[SIGNATURE_HEADER], this.webhookSecret);
+    return JSON.parse(payload) as PaymentWebhookEvent;
+  }
+
+  simulatePayment(
+    session: {
+      sessionId: string;
+      providerSessionId: string;
+      amount: number;
+      currency: string;
+    },
+    card: MockCardDetails
+  ): MockPaymentResult {
+    const cardNumber = card.cardNumber.replace(/\D/g, "");
+    const failureReason = this.getCardFailure(cardNumber, card);
+    const last4 = cardNumber.slice(-4);
+
+    const event: PaymentWebhookEvent = {
+      id: randomId("mock_evt"),
+      type: failureReason ? "checkout.failed" : "checkout.completed",
+      created: Math.floor(Date.now() / 1000),
+      data: {
+        sessionId: session.sessionId,
+        providerSessionId: session.providerSessionId,
+        paymentId: randomId("mock_pay"),
+        amount: session.amount,
+        currency: session.currency,
+        paymentMethod: last4 ? `card ****${last4}` : "card",
+        failureReason: failureReason || undefined,
+      },
+    };
+
+    const payload = JSON.stringify(event);
+    return {
+      payload,
+      signature: signWebhookPayload(payload, this.webhookSecret),
+      event,
+    };
+  }
+
+  private getCardFailure(
+    cardNumber: string,
+    card: MockCardDetails
+  ): string | null {
+    if (
+      cardNumber.length < 13 ||
+      cardNumber.length > 19 ||
+      !passesLuhn(cardNumber)
+    ) {
+      return "invalid_card_number";
+    }
+
+    const now = new Date();
+    const expiryYear =
+      card.expiryYear < 100 ? 2000 + card.expiryYear : card.expiryYear;
+    // Cards are valid through the last day of the expiry month
+    if (new Date(expiryYear, card.expiryMonth, 1) <= now) {
+      return "card_expired";
+    }
+
+    if (!/^\d{3,4}$/.test(card.cvv)) {
+      return "invalid_cvc";
+    }
+
+    if (DECLINED_CARDS.has(cardNumber)) {
+      return "card_declined";
+    }
+
+    return null;
+  }
+}
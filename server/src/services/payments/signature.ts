@@ -0,0 +1,60 @@
+import crypto from "crypto";
+
+export const SIGNATURE_HEADER = "x-payment-signature";
+
+// Signed payloads older than this are rejected to limit replays
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+function computeSignature(payload: string, secret: string, timestamp: number) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+}
+
+// Header format: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.payload">
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | string[] | undefined,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+) {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    throw new Error("Missing webhook signature");
+  }
+
+  const parts = new Map(
+    value.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")] as [string, string];
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+
+  if (!Number.isFinite(timestamp) || !signature) {
+    throw new Error("Malformed webhook signature");
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new Error("Webhook signature timestamp outside tolerance");
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    throw new Error("Invalid webhook signature");
+  }
+}
@@ -0,0 +1,26 @@
+import { prisma } from "../../lib/database";
+import {
+  ProductData,
+  ProductSource,
+  ProductSourceName,
+} from "../../types/foodScanner";
+import { productFromRecord } from "./records";
+
+// Offline catalog loaded with `npm run catalog:import`
+export class CatalogProductSource implements ProductSource {
+  readonly name: ProductSourceName = "catalog";
+  readonly remote = false;
+
+  async lookup(barcode: string): Promise<ProductData | null> {
+    const product = await prisma.catalogProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) return null;
+
+    return productFromRecord(product, {
+      source: this.name,
+      reference: product.catalog,
+      fetched_at: product.updated_at,
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { prisma } from "../../lib/database";
+import {
+  ProductLookupResult,
+  ProductSource,
+  ProductSourceName,
+} from "../../types/foodScanner";
+import { CatalogProductSource } from "./catalogSource";
+import { LocalProductSource } from "./localSource";
+import { OpenFoodFactsSource } from "./openFoodFacts";
+
+export { CatalogProductSource, LocalProductSource, OpenFoodFactsSource };
+export { mapOpenFoodFactsProduct } from "./openFoodFacts";
+
+const DEFAULT_SOURCE_ORDER = "local,catalog,openfoodfacts";
+const DEFAULT_MISS_TTL_HOURS = 24;
+
+let sources: ProductSource[] | null = null;
+
+function createSource(name: string): ProductSource | null {
+  switch (name) {
+    case "local":
+      return new LocalProductSource();
+    case "catalog":
+      return new CatalogProductSource();
+    case "openfoodfacts":
+      return new OpenFoodFactsSource({
+        baseUrl: process.env.OPENFOODFACTS_BASE_URL,
+        timeoutMs: Number(process.env.PRODUCT_REMOTE_TIMEOUT_MS) || undefined,
+      });
+    default:
+      console.warn(`⚠️ Unknown product source "${name}", ignoring`);
+      return null;
+  }
+}
+
+// Sources in priority order, from PRODUCT_SOURCES (comma separated).
+// Leaving a remote source out of the list disables it.
+export function getProductSources(): ProductSource[] {
+  if (!sources) {
+    const order = (process.env.PRODUCT_SOURCES || DEFAULT_SOURCE_ORDER)
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    sources = [...new Set(order)]
+      .map(createSource)
+      .filter((source): source is ProductSource => source !== null);
+
+    console.log(
+      `📦 Product sources: ${sources.map((s) => s.name).join(" → ") || "none"}`
+    );
+  }
+  return sources;
+}
+
+// Allows tests and scripts to swap the chain at runtime
+export function setProductSources(next: ProductSource[] | null) {
+  sources = next;
+}
+
+function missTtlMs() {
+  const hours =
+    Number(process.env.PRODUCT_MISS_CACHE_HOURS) || DEFAULT_MISS_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+async function isCachedMiss(barcode: string, source: ProductSourceName) {
+  const miss = await prisma.productLookupMiss.findUnique({
+    where: { barcode_source: { barcode, source } },
+  });
+  return !!miss && miss.expires_at > new Date();
+}
+
+async function recordMiss(barcode: string, source: ProductSourceName) {
+  const now = new Date();
+  const expires_at = new Date(now.getTime() + missTtlMs());
+
+  await prisma.productLookupMiss.upsert({
+    where: { barcode_source: { barcode, source } },
+    create: { barcode, source, expires_at },
+    update: {
+      attempts: { increment: 1 },
+      last_checked_at: now,
+      expires_at,
+    },
+  });
+}
+
+// Walks the sources in priority order and returns the first hit with its
+// provenance. Remote misses are cached; remote failures are logged and the
+// next source is tried.
+export async function lookupProduct(
+  barcode: string
+): Promise<ProductLookupResult | null> {
+  for (const source of getProductSources()) {
+    try {
+      if (source.remote && (await isCachedMiss(barcode, source.name))) {
+        console.log(`⏭️ ${source.name}: cached miss for ${barcode}`);
+        continue;
+      }
+
+      const product = await source.lookup(barcode);
+
+      if (product) {
+        console.log(`✅ ${source.name}: found ${barcode}`);
+        return {
+          product: {
+            ...product,
+            barcode,
+            provenance: product.provenance || { source: source.name },
+          },
+          source: source.name,
+        };
+      }
+
+      if (source.remote) {
+        await recordMiss(barcode, source.name);
+      }
+    } catch (error: any) {
+      console.warn(
+        `❌ Product source ${source.name} failed for ${barcode}:`,
+        error?.message || error
+      );
+    }
+  }
+
+  return null;
+}
+
+export async function clearExpiredMisses() {
+  const { count } = await prisma.productLookupMiss.deleteMany({
+    where: { expires_at: { lt: new Date() } },
+  });
+  return count;
+}
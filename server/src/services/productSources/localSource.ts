@@ -0,0 +1,27 @@
+import { prisma } from "../../lib/database";
+import {
+  ProductData,
+  ProductSource,
+  ProductSourceName,
+} from "../../types/foodScanner";
+import { productFromRecord } from "./records";
+
+// Products already saved by earlier scans
+export class LocalProductSource implements ProductSource {
+  readonly name: ProductSourceName = "local";
+  readonly remote = false;
+
+  async lookup(barcode: string): Promise<ProductData | null> {
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) return null;
+
+    // Keep the provenance of the source the product was first fetched from
+    return productFromRecord(product, {
+      source: (product.source as ProductSourceName) || "local",
+      reference: product.source_reference || undefined,
+      fetched_at: product.source_fetched_at || product.created_at,
+    });
+  }
+}
@@ -0,0 +1,190 @@
+import axios from "axios";
+import {
+  ProductData,
+  ProductSource,
+  ProductSourceName,
+} from "../../types/foodScanner";
+
+const DEFAULT_BASE_URL = "https://world.openfoodfacts.org";
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function round(value: number | undefined, digits = 2): number | undefined {
+  if (value === undefined) return undefined;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// OFF stores nutriments in grams; accept both "saturated-fat" and "saturated_fat"
+function nutriment(nutriments: any, key: string): number | undefined {
+  return (
+    toNumber(nutriments[`${key}_100g`]) ??
+    toNumber(nutriments[`${key.replace(/-/g, "_")}_100g`])
+  );
+}
+
+// Tags come as arrays from the API/JSONL and as comma separated strings from CSV
+function toTags(value: unknown): string[] {
+  const tags = Array.isArray(value)
+    ? value
+    : typeof value === "string" && value
+    ? value.split(",")
+    : [];
+
+  return tags
+    .map((tag) => String(tag).trim().replace(/^[a-z]{2}:/, "").replace(/-/g, " "))
+    .filter(Boolean);
+}
+
+// Splits on commas that are not inside parentheses, e.g. "chocolate (sugar, cocoa), milk"
+function splitIngredients(text: string | undefined): string[] {
+  if (!text) return [];
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth = Math.max(0, depth - 1);
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => part.replace(/[_*]/g, "").trim().replace(/\.$/, ""))
+    .filter(Boolean);
+}
+
+// Nutri-Score points run from -15 (best) to 40 (worst); map to 0-100
+function healthScoreFromNutriScore(value: unknown): number | undefined {
+  const score = toNumber(value);
+  if (score === undefined) return undefined;
+  const normalized = 100 - ((score + 15) / 55) * 100;
+  return Math.round(Math.min(100, Math.max(0, normalized)));
+}
+
+// Maps an OpenFoodFacts product (API response, JSONL dump line or CSV row
+// with the same column names) to ProductData. Minerals and vitamin C are
+// converted to mg, vitamin D to µg.
+export function mapOpenFoodFactsProduct(
+  product: any,
+  barcode?: string
+): ProductData | null {
+  const code = String(barcode || product.code || product._id || "").trim();
+  const name =
+    product.product_name ||
+    product.product_name_en ||
+    product.product_name_he ||
+    product.generic_name;
+
+  if (!code || !name) return null;
+
+  const nutriments = product.nutriments || product;
+  const kcal =
+    nutriment(nutriments, "energy-kcal") ??
+    // energy_100g is in kJ
+    (nutriment(nutriments, "energy") !== undefined
+      ? nutriment(nutriments, "energy")! / 4.184
+      : undefined);
+  const sodiumG =
+    nutriment(nutriments, "sodium") ??
+    (nutriment(nutriments, "salt") !== undefined
+      ? nutriment(nutriments, "salt")! / 2.5
+      : undefined);
+  const grams = (key: string) => round(nutriment(nutriments, key));
+  const milligrams = (key: string) => {
+    const value = nutriment(nutriments, key);
+    return value === undefined ? undefined : round(value * 1000);
+  };
+
+  const categories =
+    typeof product.categories === "string" && product.categories
+      ? product.categories.split(",").map((c: string) => c.trim())
+      : toTags(product.categories_tags);
+
+  return {
+    barcode: code,
+    name: String(name).trim(),
+    brand:
+      typeof product.brands === "string"
+        ? product.brands.split(",")[0].trim() || undefined
+        : undefined,
+    category: categories[0] || "Unknown",
+    nutrition_per_100g: {
+      calories: Math.round(kcal || 0),
+      protein: grams("proteins") || 0,
+      carbs: grams("carbohydrates") || 0,
+      fat: grams("fat") || 0,
+      fiber: grams("fiber"),
+      sugar: grams("sugars"),
+      sodium: sodiumG === undefined ? undefined : round(sodiumG * 1000),
+      saturated_fat: grams("saturated-fat"),
+      trans_fat: grams("trans-fat"),
+      cholesterol: milligrams("cholesterol"),
+      potassium: milligrams("potassium"),
+      calcium: milligrams("calcium"),
+      iron: milligrams("iron"),
+      vitamin_c: milligrams("vitamin-c"),
+      vitamin_d:
+        nutriment(nutriments, "vitamin-d") === undefined
+          ? undefined
+          : round(nutriment(nutriments, "vitamin-d")! * 1000000),
+    },
+    ingredients: splitIngredients(
+      product.ingredients_text_en ||
+        product.ingredients_text ||
+        product.ingredients_text_he
+    ),
+    allergens: toTags(product.allergens_tags || product.allergens),
+    labels: toTags(product.labels_tags || product.labels),
+    health_score: healthScoreFromNutriScore(product.nutriscore_score),
+    image_url: product.image_url || undefined,
+    serving_size: product.serving_size || undefined,
+    servings_per_container: toNumber(product.servings_per_container),
+  };
+}
+
+// Live lookups against the OpenFoodFacts API
+export class OpenFoodFactsSource implements ProductSource {
+  readonly name: ProductSourceName = "openfoodfacts";
+  readonly remote = true;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: { baseUrl?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.timeoutMs = options.timeoutMs || 5000;
+  }
+
+  async lookup(barcode: string): Promise<ProductData | null> {
+    const response = await axios.get(
+      `${this.baseUrl}/api/v0/product/${encodeURIComponent(barcode)}.json`,
+      { timeout: this.timeoutMs }
+    );
+
+    if (response.data?.status !== 1 || !response.data.product) {
+      return null;
+    }
+
+    const product = mapOpenFoodFactsProduct(response.data.product, barcode);
+    if (!product) return null;
+
+    return {
+      ...product,
+      provenance: {
+        source: this.name,
+        reference: `${this.baseUrl}/product/${barcode}`,
+        fetched_at: new Date(),
+      },
+    };
+  }
+}
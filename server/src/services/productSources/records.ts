@@ -0,0 +1,24 @@
+import { CatalogProduct, FoodProduct } from "@prisma/client";
+import { ProductData, ProductProvenance } from "../../types/foodScanner";
+
+// Maps a stored FoodProduct or CatalogProduct row back to ProductData
+export function productFromRecord(
+  record: FoodProduct | CatalogProduct,
+  provenance: ProductProvenance
+): ProductData {
+  return {
+    barcode: record.barcode,
+    name: record.product_name,
+    brand: record.brand || undefined,
+    category: record.category,
+    nutrition_per_100g: record.nutrition_per_100g as any,
+    ingredients: (record.ingredients as string[]) || [],
+    allergens: (record.allergens as string[]) || [],
+    labels: (record.labels as string[]) || [],
+    health_score: record.health_score ?? undefined,
+    image_url: record.image_url || undefined,
+    serving_size: record.serving_size || undefined,
+    servings_per_container: record.servings_per_container ?? undefined,
+    provenance,
+  };
+}
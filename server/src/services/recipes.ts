@@ -0,0 +1,332 @@
+import { prisma } from "../lib/database";
+import { FoodScannerService } from "./foodScanner";
+import { NutritionService } from "./nutrition";
+import { PortionUnit, ProductData } from "../types/foodScanner";
+import {
+  LogRecipeInput,
+  RecipeIngredientInput,
+  RecipeInput,
+} from "../types/recipes";
+import {
+  MealNutrients,
+  nutrientsForGrams,
+  scaleMealNutrients,
+  sumMealNutrients,
+} from "../utils/mealNutrients";
+import { describePortion, resolvePortionGrams } from "../utils/portions";
+
+type NutritionPer100g = ProductData["nutrition_per_100g"];
+
+interface ResolvedIngredient {
+  product_id: number | null;
+  name: string;
+  quantity: number;
+  unit: PortionUnit;
+  quantity_g: number;
+  nutrition_per_100g: NutritionPer100g;
+}
+
+export class RecipeError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
+
+export class RecipeService {
+  static async getRecipes(userId: string) {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id: userId },
+      include: { ingredients: { orderBy: { position: "asc" } } },
+      orderBy: { updated_at: "desc" },
+    });
+
+    return recipes.map((recipe) => this.formatRecipe(recipe));
+  }
+
+  static async getRecipe(userId: string, recipeId: string) {
+    return this.formatRecipe(await this.findOwnedRecipe(userId, recipeId));
+  }
+
+  // Nutrition for an unsaved recipe, so the editor can show totals while typing
+  static async previewNutrition(userId: string, input: RecipeInput) {
+    const ingredients = await this.resolveIngredients(
+      userId,
+      input.ingredients
+    );
+    const total = this.computeTotal(ingredients);
+
+    return {
+      servings: input.servings,
+      total_nutrition: total,
+      per_serving: scaleMealNutrients(total, 1 / input.servings),
+      ingredients: ingredients.map((ingredient) => ({
+        ...ingredient,
+        nutrition: nutrientsForGrams(
+          ingredient.nutrition_per_100g,
+          ingredient.quantity_g
+        ),
+      })),
+    };
+  }
+
+  static async createRecipe(userId: string, input: RecipeInput) {
+    const ingredients = await this.resolveIngredients(
+      userId,
+      input.ingredients
+    );
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id: userId,
+        name: input.name,
+        description: input.description,
+        instructions: input.instructions,
+        servings: input.servings,
+        total_nutrition: this.computeTotal(ingredients) as any,
+        ingredients: {
+          create: ingredients.map((ingredient, position) => ({
+            ...ingredient,
+            nutrition_per_100g: ingredient.nutrition_per_100g as any,
+            position,
+          })),
+        },
+      },
+      include: { ingredients: { orderBy: { position: "asc" } } },
+    });
+
+    console.log(`🍲 Recipe created: ${recipe.name} (${recipe.recipe_id})`);
+    return this.formatRecipe(recipe);
+  }
+
+  // Replaces the recipe and its ingredient list; product nutrition is
+  // re-read so edits pick up corrected product data
+  static async updateRecipe(
+    userId: string,
+    recipeId: string,
+    input: RecipeInput
+  ) {
+    await this.findOwnedRecipe(userId, recipeId);
+    const ingredients = await this.resolveIngredients(
+      userId,
+      input.ingredients
+    );
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      await tx.recipeIngredient.deleteMany({ where: { recipe_id: recipeId } });
+
+      return tx.recipe.update({
+        where: { recipe_id: recipeId },
+        data: {
+          name: input.name,
+          description: input.description ?? null,
+          instructions: input.instructions ?? null,
+          servings: input.servings,
+          total_nutrition: this.computeTotal(ingredients) as any,
+          ingredients: {
+            create: ingredients.map((ingredient, position) => ({
+              ...ingredient,
+              nutrition_per_100g: ingredient.nutrition_per_100g as any,
+              position,
+            })),
+          },
+        },
+        include: { ingredients: { orderBy: { position: "asc" } } },
+      });
+    });
+
+    return this.formatRecipe(recipe);
+  }
+
+  static async deleteRecipe(userId: string, recipeId: string) {
+    await this.findOwnedRecipe(userId, recipeId);
+    await prisma.recipe.delete({ where: { recipe_id: recipeId } });
+  }
+
+  // Logs `servings` servings of the recipe as one meal
+  static async logServings(
+    userId: string,
+    recipeId: string,
+    { servings, date, meal_timing }: LogRecipeInput
+  ) {
+    const recipe = await this.findOwnedRecipe(userId, recipeId);
+    const factor = servings / recipe.servings;
+    const nutrients = scaleMealNutrients(
+      recipe.total_nutrition as unknown as MealNutrients,
+      factor
+    );
+
+    const ingredients = recipe.ingredients.map((ingredient) => {
+      const grams = ingredient.quantity_g * factor;
+      const scaled = nutrientsForGrams(
+        ingredient.nutrition_per_100g as unknown as NutritionPer100g,
+        grams
+      );
+
+      return {
+        name: ingredient.name,
+        product_id: ingredient.product_id ?? undefined,
+        source: "recipe",
+        quantity_g: scaled.serving_size_g,
+        calories: scaled.calories,
+        protein: scaled.protein_g,
+        carbs: scaled.carbs_g,
+        fat: scaled.fats_g,
+        fiber: scaled.fiber_g ?? undefined,
+        sugar: scaled.sugar_g ?? undefined,
+        sodium_mg: scaled.sodium_mg ?? undefined,
+      };
+    });
+
+    const mealDate = await NutritionService.mealTimeOnDay(userId, date);
+    const servingsLabel = Math.round(servings * 100) / 100;
+
+    const meal = await prisma.meal.create({
+      data: {
+        user_id: userId,
+        meal_name: `${recipe.name} (${servingsLabel} serving${
+          servingsLabel === 1 ? "" : "s"
+        })`,
+        image_url: null,
+        analysis_status: "COMPLETED",
+        source: "RECIPE",
+        meal_timing: await NutritionService.resolveMealTiming(
+          userId,
+          mealDate,
+          meal_timing
+        ),
+        calories: nutrients.calories,
+        protein_g: nutrients.protein_g,
+        carbs_g: nutrients.carbs_g,
+        fats_g: nutrients.fats_g,
+        fiber_g: nutrients.fiber_g,
+        sugar_g: nutrients.sugar_g,
+        sodium_mg: nutrients.sodium_mg,
+        saturated_fats_g: nutrients.saturated_fats_g,
+        cholesterol_mg: nutrients.cholesterol_mg,
+        serving_size_g: Math.round(nutrients.serving_size_g),
+        vitamins_json: nutrients.vitamins_json,
+        micronutrients_json: nutrients.micronutrients_json,
+        ingredients,
+        food_category: "Homemade",
+        processing_level: "home_cooked",
+        confidence: 90,
+        additives_json: { recipe_id: recipe.recipe_id, servings },
+        upload_time: mealDate,
+        created_at: mealDate,
+      },
+    });
+
+    NutritionService.clearUserCaches(userId);
+    console.log(
+      `🍽️ Logged ${servings} serving(s) of recipe ${recipe.recipe_id} as meal ${meal.meal_id}`
+    );
+
+    return meal;
+  }
+
+  private static async findOwnedRecipe(userId: string, recipeId: string) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id: recipeId, user_id: userId },
+      include: { ingredients: { orderBy: { position: "asc" } } },
+    });
+    if (!recipe) {
+      throw new RecipeError("Recipe not found", 404);
+    }
+    return recipe;
+  }
+
+  // Turns the request's ingredients into gram quantities with a nutrition
+  // snapshot, applying the user's product overrides
+  private static async resolveIngredients(
+    userId: string,
+    inputs: RecipeIngredientInput[]
+  ): Promise<ResolvedIngredient[]> {
+    const resolved: ResolvedIngredient[] = [];
+
+    for (const input of inputs) {
+      const portion = { amount: input.quantity, unit: input.unit };
+
+      if (input.product_id === undefined && !input.barcode) {
+        resolved.push({
+          product_id: null,
+          name: input.name!,
+          quantity: input.quantity,
+          unit: input.unit,
+          quantity_g: input.quantity,
+          nutrition_per_100g: input.nutrition_per_100g!,
+        });
+        continue;
+      }
+
+      const record = await prisma.foodProduct.findUnique({
+        where:
+          input.product_id !== undefined
+            ? { product_id: input.product_id }
+            : { barcode: input.barcode! },
+        select: { barcode: true },
+      });
+      const product =
+        record &&
+        (await FoodScannerService.getProductForUser(record.barcode, userId));
+      if (!product) {
+        throw new RecipeError(
+          `Product ${input.product_id ?? input.barcode} not found`,
+          404
+        );
+      }
+
+      let grams: number;
+      try {
+        grams = resolvePortionGrams(product, portion);
+      } catch (error) {
+        throw new RecipeError(
+          `${product.name}: ${(error as Error).message}`,
+          400
+        );
+      }
+
+      resolved.push({
+        product_id: product.product_id!,
+        name: input.name || product.name,
+        quantity: input.quantity,
+        unit: input.unit,
+        quantity_g: Math.round(grams * 10) / 10,
+        nutrition_per_100g: product.nutrition_per_100g,
+      });
+    }
+
+    return resolved;
+  }
+
+  private static computeTotal(ingredients: ResolvedIngredient[]) {
+    return sumMealNutrients(
+      ingredients.map((ingredient) =>
+        nutrientsForGrams(ingredient.nutrition_per_100g, ingredient.quantity_g)
+      )
+    );
+  }
+
+  private static formatRecipe(recipe: any) {
+    const total = recipe.total_nutrition as MealNutrients;
+
+    return {
+      ...recipe,
+      per_serving: scaleMealNutrients(total, 1 / recipe.servings),
+      ingredients: recipe.ingredients.map((ingredient: any) => ({
+        ...ingredient,
+        portion: describePortion(
+          { amount: ingredient.quantity, unit: ingredient.unit },
+          ingredient.quantity_g
+        ),
+        nutrition: nutrientsForGrams(
+          ingredient.nutrition_per_100g,
+          ingredient.quantity_g
+        ),
+      })),
+    };
+  }
+}
@@ -1,5 +1,15 @@
+import crypto from "crypto";
 import { prisma } from "../lib/database";
 import { OpenAIService } from "./openai";
+import { getAIProvider } from "./ai";
+import { AIResponseService } from "./aiResponses";
+import { DietaryComplianceService } from "./dietaryCompliance";
+import { aggregateIngredients } from "../utils/ingredients";
+import {
+  MenuFocus,
+  generateMenu,
+  slotsForMealsPerDay,
+} from "../utils/menuGenerator";
 
 export interface GenerateMenuParams {
   userId: string;
@@ -13,6 +23,9 @@ export interface GenerateMenuParams {
   targetCalories?: number;
   dietaryPreferences?: string[];
   excludedIngredients?: string[];
+  // Reproduces a template-generated menu
+  seed?: string;
+  rotationFrequencyDays?: number;
 }
 
 export class RecommendedMenuService {
@@ -72,10 +85,16 @@ export class RecommendedMenuService {
         );
       }
 
+      const nutritionPlan = await prisma.nutritionPlan.findFirst({
+        where: { user_id: params.userId },
+        orderBy: { created_at: "desc" },
+      });
+
       // Generate custom menu based on request
       const menuData = await this.generateCustomMenuWithAI(
         params,
-        questionnaire
+        questionnaire,
+        nutritionPlan
       );
 
       // Save to database
@@ -95,9 +114,9 @@ export class RecommendedMenuService {
     nutritionPlan: any
   ) {
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI key, using fallback menu generation");
-        return this.generateFallbackMenu(params, questionnaire);
+      if (getAIProvider().offline) {
+        console.log("⚠️ AI provider is offline, using fallback menu generation");
+        return this.generateFallbackMenu(params, questionnaire, nutritionPlan);
       }
 
       const prompt = this.buildMenuGenerationPrompt(
@@ -105,36 +124,57 @@ export class RecommendedMenuService {
         questionnaire,
         nutritionPlan
       );
-      const aiResponse = await OpenAIService.generateText(prompt, 2000);
+      const aiResponse = await OpenAIService.generateText(
+        prompt,
+        2000,
+        "menu_generation"
+      );
 
-      // Parse AI response
-      const menuData = this.parseAIMenuResponse(aiResponse);
-      return menuData;
+      // Parse and validate AI response
+      return await AIResponseService.parse("menu", aiResponse, {
+        task: "menu_generation",
+        userId: params.userId,
+      });
     } catch (error) {
       console.log("⚠️ AI menu generation failed, using fallback");
-      return this.generateFallbackMenu(params, questionnaire);
+      return this.generateFallbackMenu(params, questionnaire, nutritionPlan);
     }
   }
 
   private static async generateCustomMenuWithAI(
     params: GenerateMenuParams,
-    questionnaire: any
+    questionnaire: any,
+    nutritionPlan: any
   ) {
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI key, using fallback custom menu");
-        return this.generateFallbackCustomMenu(params, questionnaire);
+      if (getAIProvider().offline) {
+        console.log("⚠️ AI provider is offline, using fallback custom menu");
+        return this.generateFallbackCustomMenu(
+          params,
+          questionnaire,
+          nutritionPlan
+        );
       }
 
       const prompt = this.buildCustomMenuPrompt(params, questionnaire);
-      const aiResponse = await OpenAIService.generateText(prompt, 2000);
+      const aiResponse = await OpenAIService.generateText(
+        prompt,
+        2000,
+        "menu_generation"
+      );
 
-      // Parse AI response
-      const menuData = this.parseAIMenuResponse(aiResponse);
-      return menuData;
+      // Parse and validate AI response
+      return await AIResponseService.parse("menu", aiResponse, {
+        task: "menu_generation",
+        userId: params.userId,
+      });
     } catch (error) {
       console.log("⚠️ AI custom menu generation failed, using fallback");
-      return this.generateFallbackCustomMenu(params, questionnaire);
+      return this.generateFallbackCustomMenu(
+        params,
+        questionnaire,
+        nutritionPlan
+      );
     }
   }
 
@@ -228,172 +268,101 @@ Plan Requirements:
 Return the same JSON structure as before with meals that specifically address the custom request.`;
   }
 
-  private static parseAIMenuResponse(aiResponse: string) {
-    try {
-      // Clean the response
-      let cleaned = aiResponse.trim();
-      if (cleaned.includes("```json")) {
-        cleaned = cleaned.replace(/```json\s*/g, "").replace(/```\s*/g, "");
-      }
-
-      // Find JSON boundaries
-      const jsonStart = cleaned.indexOf("{");
-      const jsonEnd = cleaned.lastIndexOf("}");
-
-      if (jsonStart !== -1 && jsonEnd !== -1) {
-        cleaned = cleaned.substring(jsonStart, jsonEnd + 1);
-      }
-
-      const parsed = JSON.parse(cleaned);
-
-      // Validate structure
-      if (!parsed.meals || !Array.isArray(parsed.meals)) {
-        throw new Error("Invalid menu structure");
-      }
-
-      return parsed;
-    } catch (error) {
-      console.error("💥 Error parsing AI menu response:", error);
-      throw new Error("Failed to parse AI menu response");
-    }
-  }
-
-  private static generateFallbackMenu(
+  // Builds the menu from meal templates when AI isn't available
+  private static async generateFallbackMenu(
     params: GenerateMenuParams,
-    questionnaire: any
+    questionnaire: any,
+    nutritionPlan: any,
+    focus: MenuFocus = "balanced"
   ) {
     const days = params.days || 7;
-    const mealsPerDay = this.getMealsPerDayCount(
-      params.mealsPerDay || "3_main"
-    );
-
-    const fallbackMeals = [
+    const seed = params.seed || crypto.randomBytes(8).toString("hex");
+
+    const [templates, activePlan] = await Promise.all([
+      prisma.mealTemplate.findMany({ where: { is_active: true } }),
+      params.rotationFrequencyDays
+        ? null
+        : prisma.userMealPlan.findFirst({
+            where: { user_id: params.userId, is_active: true },
+            select: { rotation_frequency_days: true },
+          }),
+    ]);
+
+    const menu = generateMenu(
+      templates,
       {
-        name: "Protein Scrambled Eggs",
-        meal_type: "BREAKFAST",
-        calories: 350,
-        protein: 25,
-        carbs: 15,
-        fat: 20,
-        fiber: 3,
-        prep_time_minutes: 15,
-        cooking_method: "Pan frying",
-        instructions:
-          "Scramble eggs with vegetables and serve with whole grain toast",
-        ingredients: [
-          { name: "eggs", quantity: 2, unit: "piece", category: "protein" },
-          {
-            name: "whole grain bread",
-            quantity: 2,
-            unit: "slice",
-            category: "grain",
-          },
-          { name: "spinach", quantity: 50, unit: "g", category: "vegetable" },
+        allergies: questionnaire.allergies || [],
+        kosher: !!questionnaire.kosher,
+        dietary_style: questionnaire.dietary_style,
+        disliked_foods: [
+          ...(questionnaire.disliked_foods || []),
+          ...(params.excludedIngredients || []),
         ],
+        daily_budget: params.budget || questionnaire.daily_food_budget,
       },
       {
-        name: "Grilled Chicken Salad",
-        meal_type: "LUNCH",
-        calories: 450,
-        protein: 35,
-        carbs: 25,
-        fat: 22,
-        fiber: 8,
-        prep_time_minutes: 25,
-        cooking_method: "Grilling",
-        instructions:
-          "Grill chicken breast and serve over mixed greens with olive oil dressing",
-        ingredients: [
-          {
-            name: "chicken breast",
-            quantity: 150,
-            unit: "g",
-            category: "protein",
-          },
-          {
-            name: "mixed greens",
-            quantity: 100,
-            unit: "g",
-            category: "vegetable",
-          },
-          { name: "olive oil", quantity: 15, unit: "ml", category: "fat" },
-        ],
-      },
-      {
-        name: "Baked Salmon with Quinoa",
-        meal_type: "DINNER",
-        calories: 500,
-        protein: 35,
-        carbs: 45,
-        fat: 18,
-        fiber: 6,
-        prep_time_minutes: 30,
-        cooking_method: "Baking",
-        instructions:
-          "Bake salmon with herbs and serve with quinoa and steamed vegetables",
-        ingredients: [
-          {
-            name: "salmon fillet",
-            quantity: 150,
-            unit: "g",
-            category: "protein",
-          },
-          { name: "quinoa", quantity: 80, unit: "g", category: "grain" },
-          { name: "broccoli", quantity: 100, unit: "g", category: "vegetable" },
-        ],
-      },
-    ];
-
-    const meals: any[] = [];
+        days,
+        slots: slotsForMealsPerDay(params.mealsPerDay || "3_main"),
+        targets: {
+          calories:
+            params.targetCalories || nutritionPlan?.goal_calories || 2000,
+          protein_g: nutritionPlan?.goal_protein_g || 150,
+          carbs_g: nutritionPlan?.goal_carbs_g || 250,
+          fats_g: nutritionPlan?.goal_fats_g || 67,
+        },
+        rotation_days:
+          params.rotationFrequencyDays ||
+          activePlan?.rotation_frequency_days ||
+          7,
+        seed,
+        focus,
+      }
+    );
 
-    for (let day = 1; day <= days; day++) {
-      fallbackMeals.slice(0, mealsPerDay).forEach((meal, index) => {
-        meals.push({
-          ...meal,
-          day_number: day,
-          name: `${meal.name} - Day ${day}`,
-        });
-      });
+    if (menu.meals.length === 0) {
+      throw new Error(
+        "No meal templates match your dietary preferences. Please try again later."
+      );
     }
-
-    const totalCalories = meals.reduce((sum, meal) => sum + meal.calories, 0);
-    const totalProtein = meals.reduce((sum, meal) => sum + meal.protein, 0);
-    const totalCarbs = meals.reduce((sum, meal) => sum + meal.carbs, 0);
-    const totalFat = meals.reduce((sum, meal) => sum + meal.fat, 0);
+    if (menu.unfilled_slots.length > 0) {
+      console.log(
+        `⚠️ ${menu.unfilled_slots.length} meal slots have no matching template`
+      );
+    }
+    console.log(
+      `🧮 Generated menu from ${menu.eligible_templates} templates with seed ${seed}`
+    );
 
     return {
+      ...menu,
       title: `Personalized ${days}-Day Menu`,
       description: `Customized meal plan based on your ${questionnaire.main_goal} goal`,
-      total_calories: totalCalories,
-      total_protein: totalProtein,
-      total_carbs: totalCarbs,
-      total_fat: totalFat,
-      days_count: days,
-      estimated_cost: params.budget || 200,
-      meals,
+      estimated_cost: menu.estimated_cost ?? params.budget ?? null,
     };
   }
 
   private static generateFallbackCustomMenu(
     params: GenerateMenuParams,
-    questionnaire: any
+    questionnaire: any,
+    nutritionPlan: any
   ) {
-    // Similar to fallback menu but customized based on the request
-    const customizedMeals = this.customizeMealsBasedOnRequest(
+    const focus = this.customizeMealsBasedOnRequest(
       params.customRequest || "",
       questionnaire
     );
 
     return this.generateFallbackMenu(
       { ...params, customRequest: undefined },
-      questionnaire
+      questionnaire,
+      nutritionPlan,
+      focus
     );
   }
 
   private static customizeMealsBasedOnRequest(
     request: string,
     questionnaire: any
-  ) {
+  ): MenuFocus {
     // Analyze the custom request and adjust meals accordingly
     const lowerRequest = request.toLowerCase();
 
@@ -430,6 +399,7 @@ Return the same JSON structure as before with meals that specifically address th
           estimated_cost: menuData.estimated_cost,
           prep_time_minutes: menuData.prep_time_minutes || 30,
           difficulty_level: menuData.difficulty_level || 2,
+          generation_seed: menuData.seed || null,
           is_active: true,
         },
       });
@@ -489,8 +459,18 @@ Return the same JSON structure as before with meals that specifically address th
         },
       });
 
+      const dietaryWarnings = await DietaryComplianceService.checkMeals(
+        userId,
+        completeMenu?.meals || []
+      );
+      if (dietaryWarnings.length > 0) {
+        console.log(`⚠️ Menu has ${dietaryWarnings.length} dietary warnings`);
+      }
+
       console.log("✅ Menu saved to database successfully");
-      return completeMenu;
+      return (
+        completeMenu && { ...completeMenu, dietary_warnings: dietaryWarnings }
+      );
     } catch (error) {
       console.error("💥 Error saving menu to database:", error);
       throw error;
@@ -556,15 +536,20 @@ Return the same JSON structure as before with meals that specifically address th
           data: replacementMeal.ingredients.map((ing: any) => ({
             meal_id: mealId,
             name: ing.name,
-            quantity: ing.quantity,
-            unit: ing.unit,
+            quantity: ing.quantity || 1,
+            unit: ing.unit || "piece",
             category: ing.category,
           })),
         });
       }
 
+      const dietaryWarnings = await DietaryComplianceService.checkMeals(
+        userId,
+        [{ ...updatedMeal, ingredients: replacementMeal.ingredients }]
+      );
+
       console.log("✅ Meal replaced successfully");
-      return updatedMeal;
+      return { ...updatedMeal, dietary_warnings: dietaryWarnings };
     } catch (error) {
       console.error("💥 Error replacing meal:", error);
       throw error;
@@ -581,6 +566,27 @@ Return the same JSON structure as before with meals that specifically address th
       where: { user_id: userId },
     });
 
+    if (!getAIProvider().offline) {
+      try {
+        const aiResponse = await OpenAIService.generateText(
+          this.buildReplacementMealPrompt(
+            currentMeal,
+            preferences,
+            questionnaire
+          ),
+          1000,
+          "menu_generation"
+        );
+        return await AIResponseService.parse("replacement_meal", aiResponse, {
+          task: "menu_generation",
+          userId,
+          maxTokens: 1000,
+        });
+      } catch (error) {
+        console.log("⚠️ AI replacement meal failed, using fallback");
+      }
+    }
+
     // Generate alternative meal with similar nutrition profile
     const alternatives = [
       {
@@ -614,6 +620,44 @@ Return the same JSON structure as before with meals that specifically address th
     return alternatives[0];
   }
 
+  private static buildReplacementMealPrompt(
+    currentMeal: any,
+    preferences: any,
+    questionnaire: any
+  ): string {
+    return `Suggest one meal to replace "${currentMeal.name}" (${currentMeal.meal_type}).
+
+Current meal: ${currentMeal.calories} calories, ${currentMeal.protein}g protein, ${currentMeal.carbs}g carbs, ${currentMeal.fat}g fat.
+Keep calories and macros within 10% of the current meal.
+
+User Context:
+- Dietary Style: ${questionnaire?.dietary_style || "Any"}
+- Allergies: ${questionnaire?.allergies?.join(", ") || "None"}
+- Dislikes: ${questionnaire?.disliked_foods?.join(", ") || "None"}
+- Preferences: ${preferences ? JSON.stringify(preferences) : "None"}
+
+Return JSON with this structure:
+{
+  "name": "Meal name",
+  "calories": number,
+  "protein": number,
+  "carbs": number,
+  "fat": number,
+  "fiber": number,
+  "prep_time_minutes": number,
+  "cooking_method": "method",
+  "instructions": "cooking instructions",
+  "ingredients": [
+    {
+      "name": "ingredient",
+      "quantity": number,
+      "unit": "g/ml/piece",
+      "category": "protein/vegetable/grain"
+    }
+  ]
+}`;
+  }
+
   static async markMealAsFavorite(
     userId: string,
     menuId: string,
@@ -707,28 +751,11 @@ Return the same JSON structure as before with meals that specifically address th
         throw new Error("Menu not found");
       }
 
-      // Aggregate ingredients
-      const ingredientMap = new Map();
-
-      menu.meals.forEach((meal) => {
-        meal.ingredients.forEach((ingredient) => {
-          const key = ingredient.name.toLowerCase();
-          if (ingredientMap.has(key)) {
-            const existing = ingredientMap.get(key);
-            existing.quantity += ingredient.quantity;
-          } else {
-            ingredientMap.set(key, {
-              name: ingredient.name,
-              quantity: ingredient.quantity,
-              unit: ingredient.unit,
-              category: ingredient.category,
-              estimated_cost: ingredient.estimated_cost || 5,
-            });
-          }
-        });
-      });
-
-      const items = Array.from(ingredientMap.values());
+      // Aggregate ingredients, converting units so the same ingredient in
+      // grams and cups ends up as one item
+      const items = aggregateIngredients(
+        menu.meals.flatMap((meal) => meal.ingredients)
+      );
       const totalCost = items.reduce(
         (sum, item) => sum + item.estimated_cost,
         0
@@ -736,6 +763,7 @@ Return the same JSON structure as before with meals that specifically address th
 
       return {
         menu_id: menuId,
+        menu_title: menu.title,
         items,
         total_estimated_cost: totalCost,
         generated_at: new Date().toISOString(),
@@ -0,0 +1,368 @@
+import crypto from "crypto";
+import { prisma } from "../lib/database";
+import {
+  GenerateShoppingListInput,
+  PantryItemInput,
+  ShoppingListItem,
+  ShoppingListItemInput,
+  ShoppingListSource,
+  UpdateShoppingListInput,
+  UpdateShoppingListItemInput,
+} from "../types/shoppingLists";
+import {
+  IngredientInput,
+  aggregateIngredients,
+  canonicalIngredientName,
+  deductPantry,
+} from "../utils/ingredients";
+
+export class ShoppingListError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = "ShoppingListError";
+  }
+}
+
+function newItemId() {
+  return crypto.randomBytes(6).toString("hex");
+}
+
+export class ShoppingListService {
+  static async getLists(userId: string) {
+    const lists = await prisma.shoppingList.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "desc" },
+    });
+
+    return lists.map((list) => this.formatList(list));
+  }
+
+  static async getList(userId: string, listId: string) {
+    return this.formatList(await this.findOwnedList(userId, listId));
+  }
+
+  // Builds one list from the ingredients of every given plan and menu,
+  // minus what the user's pantry already covers
+  static async generateList(userId: string, input: GenerateShoppingListInput) {
+    const [plans, menus] = await Promise.all([
+      input.plan_ids.length > 0
+        ? prisma.userMealPlan.findMany({
+            where: { plan_id: { in: input.plan_ids }, user_id: userId },
+            include: { schedules: { include: { template: true } } },
+          })
+        : [],
+      input.menu_ids.length > 0
+        ? prisma.recommendedMenu.findMany({
+            where: { menu_id: { in: input.menu_ids }, user_id: userId },
+            include: { meals: { include: { ingredients: true } } },
+          })
+        : [],
+    ]);
+
+    if (plans.length !== new Set(input.plan_ids).size) {
+      throw new ShoppingListError("Meal plan not found", 404);
+    }
+    if (menus.length !== new Set(input.menu_ids).size) {
+      throw new ShoppingListError("Menu not found", 404);
+    }
+
+    const ingredients: IngredientInput[] = [
+      ...plans.flatMap((plan) =>
+        plan.schedules.flatMap((schedule) => {
+          const templateIngredients = schedule.template.ingredients_json;
+          return Array.isArray(templateIngredients)
+            ? (templateIngredients as any[])
+            : [];
+        })
+      ),
+      ...menus.flatMap((menu) =>
+        menu.meals.flatMap((meal) => meal.ingredients)
+      ),
+    ];
+
+    let aggregated = aggregateIngredients(ingredients);
+    if (input.use_pantry) {
+      const pantry = await prisma.pantryItem.findMany({
+        where: { user_id: userId },
+      });
+      aggregated = deductPantry(aggregated, pantry);
+    }
+
+    const items: ShoppingListItem[] = aggregated.map((item) => ({
+      ...item,
+      item_id: newItemId(),
+      checked: false,
+      manual: false,
+    }));
+    const sources: ShoppingListSource[] = [
+      ...plans.map((plan) => ({ type: "plan" as const, id: plan.plan_id })),
+      ...menus.map((menu) => ({ type: "menu" as const, id: menu.menu_id })),
+    ];
+    const sourceNames = [
+      ...plans.map((plan) => plan.name),
+      ...menus.map((menu) => menu.title),
+    ];
+
+    const list = await prisma.shoppingList.create({
+      data: {
+        user_id: userId,
+        plan_id:
+          plans.length === 1 && menus.length === 0 ? plans[0].plan_id : null,
+        name: input.name || `Shopping List - ${sourceNames.join(" + ")}`,
+        week_start_date: input.week_start_date
+          ? new Date(input.week_start_date)
+          : null,
+        items_json: items as any,
+        sources_json: sources as any,
+        total_estimated_cost: this.totalCost(items),
+      },
+    });
+
+    console.log(
+      `🛒 Shopping list ${list.list_id} generated from ${sources.length} source(s) with ${items.length} item(s)`
+    );
+    return this.formatList(list);
+  }
+
+  static async updateList(
+    userId: string,
+    listId: string,
+    input: UpdateShoppingListInput
+  ) {
+    await this.findOwnedList(userId, listId);
+
+    const list = await prisma.shoppingList.update({
+      where: { list_id: listId },
+      data: {
+        name: input.name,
+        is_completed: input.is_completed,
+        week_start_date:
+          input.week_start_date === undefined
+            ? undefined
+            : input.week_start_date && new Date(input.week_start_date),
+      },
+    });
+
+    return this.formatList(list);
+  }
+
+  static async deleteList(userId: string, listId: string) {
+    await this.findOwnedList(userId, listId);
+    await prisma.shoppingList.delete({ where: { list_id: listId } });
+  }
+
+  static async addItem(
+    userId: string,
+    listId: string,
+    input: ShoppingListItemInput
+  ) {
+    const list = await this.findOwnedList(userId, listId);
+    const [item] = aggregateIngredients([input]);
+
+    return this.saveItems(list.list_id, [
+      ...this.readItems(list.items_json),
+      { ...item, item_id: newItemId(), checked: false, manual: true },
+    ]);
+  }
+
+  // Checks items off and edits them. A new quantity or unit recomputes what
+  // to buy unless the purchase amount is given too.
+  static async updateItem(
+    userId: string,
+    listId: string,
+    itemId: string,
+    input: UpdateShoppingListItemInput
+  ) {
+    const list = await this.findOwnedList(userId, listId);
+    const items = this.readItems(list.items_json);
+    const index = items.findIndex((item) => item.item_id === itemId);
+    if (index === -1) {
+      throw new ShoppingListError("Item not found", 404);
+    }
+
+    let item = { ...items[index] };
+    if (
+      input.quantity !== undefined ||
+      input.unit !== undefined ||
+      input.name !== undefined
+    ) {
+      const [recomputed] = aggregateIngredients([
+        {
+          name: input.name ?? item.name,
+          quantity: input.quantity ?? item.quantity,
+          unit: input.unit ?? item.unit,
+          category: input.category ?? item.category,
+          estimated_cost: input.estimated_cost,
+        },
+      ]);
+      item = { ...item, ...recomputed, occurrences: item.occurrences };
+      delete item.pantry_deducted;
+    }
+
+    items[index] = {
+      ...item,
+      checked: input.checked ?? item.checked,
+      category: input.category ?? item.category,
+      purchase_quantity: input.purchase_quantity ?? item.purchase_quantity,
+      purchase_unit: input.purchase_unit ?? item.purchase_unit,
+      estimated_cost: input.estimated_cost ?? item.estimated_cost,
+    };
+
+    return this.saveItems(list.list_id, items);
+  }
+
+  static async deleteItem(userId: string, listId: string, itemId: string) {
+    const list = await this.findOwnedList(userId, listId);
+    const items = this.readItems(list.items_json);
+    const remaining = items.filter((item) => item.item_id !== itemId);
+    if (remaining.length === items.length) {
+      throw new ShoppingListError("Item not found", 404);
+    }
+
+    return this.saveItems(list.list_id, remaining);
+  }
+
+  static async getPantry(userId: string) {
+    return prisma.pantryItem.findMany({
+      where: { user_id: userId },
+      orderBy: [{ category: "asc" }, { name: "asc" }],
+    });
+  }
+
+  // Adding an ingredient that is already in the pantry in the same unit
+  // tops up its quantity
+  static async addPantryItem(userId: string, input: PantryItemInput) {
+    const ingredientKey = canonicalIngredientName(input.name);
+
+    return prisma.pantryItem.upsert({
+      where: {
+        user_id_ingredient_key_unit: {
+          user_id: userId,
+          ingredient_key: ingredientKey,
+          unit: input.unit,
+        },
+      },
+      update: {
+        quantity: { increment: input.quantity },
+        category: input.category,
+      },
+      create: {
+        user_id: userId,
+        name: input.name,
+        ingredient_key: ingredientKey,
+        quantity: input.quantity,
+        unit: input.unit,
+        category: input.category,
+      },
+    });
+  }
+
+  static async updatePantryItem(
+    userId: string,
+    pantryItemId: string,
+    input: PantryItemInput
+  ) {
+    await this.findOwnedPantryItem(userId, pantryItemId);
+
+    try {
+      return await prisma.pantryItem.update({
+        where: { pantry_item_id: pantryItemId },
+        data: {
+          name: input.name,
+          ingredient_key: canonicalIngredientName(input.name),
+          quantity: input.quantity,
+          unit: input.unit,
+          category: input.category ?? null,
+        },
+      });
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        throw new ShoppingListError(
+          "This ingredient is already in the pantry in that unit",
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  static async deletePantryItem(userId: string, pantryItemId: string) {
+    await this.findOwnedPantryItem(userId, pantryItemId);
+    await prisma.pantryItem.delete({
+      where: { pantry_item_id: pantryItemId },
+    });
+  }
+
+  private static async findOwnedList(userId: string, listId: string) {
+    const list = await prisma.shoppingList.findFirst({
+      where: { list_id: listId, user_id: userId },
+    });
+    if (!list) {
+      throw new ShoppingListError("Shopping list not found", 404);
+    }
+    return list;
+  }
+
+  private static async findOwnedPantryItem(
+    userId: string,
+    pantryItemId: string
+  ) {
+    const item = await prisma.pantryItem.findFirst({
+      where: { pantry_item_id: pantryItemId, user_id: userId },
+    });
+    if (!item) {
+      throw new ShoppingListError("Pantry item not found", 404);
+    }
+    return item;
+  }
+
+  // Lists generated before items could be checked off have no ids or
+  // checked state; those are filled in on read
+  private static readItems(itemsJson: unknown): ShoppingListItem[] {
+    if (!Array.isArray(itemsJson)) return [];
+
+    return itemsJson.map((item: any, index) => ({
+      ...item,
+      item_id: item.item_id || `item_${index}`,
+      checked: Boolean(item.checked),
+      manual: Boolean(item.manual),
+    }));
+  }
+
+  // Saves the items and keeps the total and completion in step with them
+  private static async saveItems(listId: string, items: ShoppingListItem[]) {
+    const list = await prisma.shoppingList.update({
+      where: { list_id: listId },
+      data: {
+        items_json: items as any,
+        total_estimated_cost: this.totalCost(items),
+        is_completed: items.length > 0 && items.every((item) => item.checked),
+      },
+    });
+
+    return this.formatList(list);
+  }
+
+  private static totalCost(items: ShoppingListItem[]) {
+    return (
+      Math.round(
+        items.reduce((sum, item) => sum + (item.estimated_cost || 0), 0) * 100
+      ) / 100
+    );
+  }
+
+  private static formatList(list: any) {
+    const items = this.readItems(list.items_json);
+
+    return {
+      ...list,
+      items_json: items,
+      sources_json: list.sources_json || [],
+      checked_count: items.filter((item) => item.checked).length,
+      item_count: items.length,
+    };
+  }
+}
@@ -1,5 +1,21 @@
+import { MealSource } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { renderNutritionReportPDF } from "../utils/pdfReport";
+import { resolveSex } from "../utils/micronutrients";
+import {
+  GoalProjection,
+  TrendPoint,
+  estimateTdee,
+  projectGoal,
+  smoothWeightTrend,
+} from "../utils/weightTrend";
+import {
+  NutritionReportData,
+  ReportDateRange,
+  ReportGoals,
+  ReportPeriod,
+} from "../types/statistics";
 
 export interface Achievement {
   id: string;
@@ -45,6 +61,24 @@ export interface StatisticsData {
   averageMealQuality: number;
 }
 
+export interface WeightProgress {
+  // Latest weigh-in, or the questionnaire weight when nothing was logged
+  current_weight_kg: number | null;
+  weight_source: "entries" | "questionnaire" | null;
+  trend_weight_kg: number | null;
+  // Trend change over the requested period and over the last two weeks
+  trend_change_kg: number | null;
+  weekly_trend_change_kg: number | null;
+  target_weight_kg: number | null;
+  average_intake_calories: number | null;
+  intake_days: number;
+  tdee: number | null;
+  projection: GoalProjection | null;
+  trend: TrendPoint[];
+  body_fat: { date: string; body_fat_percentage: number }[];
+  waist: { date: string; waist_cm: number }[];
+}
+
 interface UserStats {
   currentStreak: number;
   bestStreak: number;
@@ -59,14 +93,17 @@ interface UserStats {
 export class StatisticsService {
   static async getNutritionStatistics(
     userId: string,
-    period: "today" | "week" | "month" = "week"
+    period: "today" | "week" | "month" | "custom" = "week",
+    customRange?: ReportDateRange,
+    source?: MealSource
   ): Promise<{ success: boolean; data: StatisticsData }> {
     try {
       console.log(
         `📊 Getting statistics for user: ${userId}, period: ${period}`
       );
 
-      const now = new Date();
+      const now =
+        period === "custom" && customRange ? customRange.end : new Date();
       let startDate: Date;
 
       switch (period) {
@@ -83,9 +120,15 @@ export class StatisticsService {
         case "month":
           startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
           break;
+        case "custom":
+          if (!customRange) {
+            throw new Error("Custom period requires a start and end date");
+          }
+          startDate = customRange.start;
+          break;
       }
 
-      // Get user's meals for the period
+      // Get user's meals for the period, optionally only one logging source
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
@@ -93,6 +136,7 @@ export class StatisticsService {
             gte: startDate,
             lte: now,
           },
+          ...(source && { source }),
         },
         orderBy: {
           created_at: "desc",
@@ -236,6 +280,144 @@ export class StatisticsService {
     }
   }
 
+  // Smoothed weight trend over the last `days` days and, with a target weight
+  // in the questionnaire, when it will be reached at the current intake
+  static async getWeightProgress(
+    userId: string,
+    days: number = 90
+  ): Promise<WeightProgress> {
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    // Earlier weigh-ins settle the trend before the period starts
+    const warmupStart = new Date(
+      periodStart.getTime() - 30 * 24 * 60 * 60 * 1000
+    );
+    const intakeStart = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
+
+    const [questionnaire, entries, meals] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+        select: {
+          weight_kg: true,
+          target_weight_kg: true,
+          height_cm: true,
+          age: true,
+          gender: true,
+          physical_activity_level: true,
+        },
+      }),
+      prisma.weightEntry.findMany({
+        where: { user_id: userId, measured_at: { gte: warmupStart, lte: now } },
+        orderBy: { measured_at: "asc" },
+      }),
+      prisma.meal.findMany({
+        where: { user_id: userId, created_at: { gte: intakeStart, lte: now } },
+        select: { calories: true, created_at: true },
+      }),
+    ]);
+
+    const periodKey = periodStart.toISOString().split("T")[0];
+    const weighIns = entries.flatMap((entry) =>
+      entry.weight_kg !== null
+        ? [{ measured_at: entry.measured_at, weight_kg: entry.weight_kg }]
+        : []
+    );
+    const fullTrend = smoothWeightTrend(weighIns, now);
+    const trend = fullTrend.filter((point) => point.date >= periodKey);
+    const latest = trend[trend.length - 1];
+
+    // Trend change over the last `span` days, scaled to `per` days
+    const trendChange = (span: number, per: number = span) => {
+      const days = Math.min(span, trend.length - 1);
+      if (days < 1) return null;
+      const first = trend[trend.length - 1 - days];
+      const change = ((latest.trend_kg - first.trend_kg) * per) / days;
+      return Math.round(change * 100) / 100;
+    };
+
+    const lastWeighIn = weighIns
+      .filter((weighIn) => weighIn.measured_at >= periodStart)
+      .pop();
+    const currentWeight =
+      lastWeighIn?.weight_kg ?? questionnaire?.weight_kg ?? null;
+    const trendWeight = latest?.trend_kg ?? questionnaire?.weight_kg ?? null;
+    let weightSource: WeightProgress["weight_source"] = null;
+    if (lastWeighIn) weightSource = "entries";
+    else if (currentWeight !== null) weightSource = "questionnaire";
+
+    // Average over days with at least one logged meal; a couple of days
+    // isn't enough to project from
+    const intakeByDay = new Map<string, number>();
+    for (const meal of meals) {
+      const key = meal.created_at.toISOString().split("T")[0];
+      intakeByDay.set(key, (intakeByDay.get(key) || 0) + (meal.calories || 0));
+    }
+    const intakeDays = intakeByDay.size;
+    const averageIntake =
+      intakeDays >= 3
+        ? Math.round(
+            [...intakeByDay.values()].reduce((sum, value) => sum + value, 0) /
+              intakeDays
+          )
+        : null;
+
+    const tdee =
+      trendWeight !== null
+        ? estimateTdee({
+            weight_kg: trendWeight,
+            height_cm: questionnaire?.height_cm,
+            age: questionnaire?.age,
+            sex: resolveSex(questionnaire?.gender),
+            physical_activity_level: questionnaire?.physical_activity_level,
+          })
+        : null;
+
+    const targetWeight = questionnaire?.target_weight_kg ?? null;
+    const projection =
+      targetWeight !== null && trendWeight !== null && tdee !== null
+        ? projectGoal(trendWeight, targetWeight, averageIntake, tdee, now)
+        : null;
+
+    const inPeriod = entries.filter(
+      (entry) => entry.measured_at >= periodStart
+    );
+
+    return {
+      current_weight_kg: currentWeight,
+      weight_source: weightSource,
+      trend_weight_kg: trendWeight,
+      trend_change_kg: trendChange(trend.length),
+      weekly_trend_change_kg: trendChange(14, 7),
+      target_weight_kg: targetWeight,
+      average_intake_calories: averageIntake,
+      intake_days: intakeDays,
+      tdee,
+      projection,
+      trend,
+      body_fat: inPeriod.flatMap((entry) =>
+        entry.body_fat_percentage !== null
+          ? [
+              {
+                date: entry.measured_at.toISOString().split("T")[0],
+                body_fat_percentage: entry.body_fat_percentage,
+              },
+            ]
+          : []
+      ),
+      waist: inPeriod.flatMap((entry) =>
+        entry.waist_cm !== null
+          ? [
+              {
+                date: entry.measured_at.toISOString().split("T")[0],
+                waist_cm: entry.waist_cm,
+              },
+            ]
+          : []
+      ),
+    };
+  }
+
   private static async getDetailedAchievements(
     userId: string,
     userStats: UserStats
@@ -721,9 +903,105 @@ export class StatisticsService {
     }
   }
 
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    // This would generate a PDF report - placeholder for now
-    return Buffer.from("PDF Report");
+  static async generatePDFReport(
+    userId: string,
+    period: ReportPeriod = "week",
+    customRange?: ReportDateRange
+  ): Promise<Buffer> {
+    console.log(`📄 Generating PDF report for user: ${userId}, period: ${period}`);
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { name: true, email: true },
+    });
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const statistics = await this.getNutritionStatistics(
+      userId,
+      period,
+      customRange
+    );
+    const data = statistics.data;
+    const days = data.dailyBreakdown;
+
+    const range: ReportDateRange = {
+      start: days.length > 0 ? new Date(days[0].date) : new Date(),
+      end: days.length > 0 ? new Date(days[days.length - 1].date) : new Date(),
+    };
+
+    const report: NutritionReportData = {
+      user,
+      period,
+      range,
+      generatedAt: new Date(),
+      goals: await this.getReportGoals(userId),
+      averages: {
+        calories: data.averageCalories,
+        protein: data.averageProtein,
+        carbs: data.averageCarbs,
+        fats: data.averageFats,
+        fiber: data.averageFiber,
+        sugar: data.averageSugar,
+        sodium: data.averageSodium,
+        fluids: data.averageFluids,
+      },
+      dailyBreakdown: days.map((day) => ({
+        date: day.date,
+        calories: day.calories,
+        protein_g: day.protein_g,
+        carbs_g: day.carbs_g,
+        fats_g: day.fats_g,
+        fiber_g: day.fiber_g,
+        sugar_g: day.sugar_g,
+        sodium_mg: day.sodium_mg,
+        liquids_ml: day.liquids_ml,
+        water_cups: day.water_cups,
+      })),
+      streaks: {
+        currentStreak: data.currentStreak,
+        bestStreak: data.bestStreak,
+        weeklyStreak: data.weeklyStreak,
+        perfectDays: data.perfectDays,
+        successfulDays: data.successfulDays,
+        averageCompletion: data.averageCompletion,
+      },
+      achievements: data.achievements.map((achievement: Achievement) => ({
+        title: achievement.title,
+        description: achievement.description,
+        progress: achievement.progress,
+        maxProgress: achievement.maxProgress,
+        unlocked: achievement.unlocked,
+        unlockedDate: achievement.unlockedDate,
+      })),
+      level: data.level,
+      totalPoints: data.totalPoints,
+    };
+
+    const pdf = await renderNutritionReportPDF(report);
+    console.log(`✅ PDF report generated (${pdf.length} bytes)`);
+    return pdf;
+  }
+
+  private static async getReportGoals(userId: string): Promise<ReportGoals> {
+    // Use the most recent daily goal; fall back to the schema defaults
+    const latestGoal = await prisma.dailyGoal.findFirst({
+      where: { user_id: userId },
+      orderBy: { date: "desc" },
+    });
+
+    return {
+      calories: latestGoal?.calories ?? 2000,
+      protein_g: latestGoal?.protein_g ?? 120,
+      carbs_g: latestGoal?.carbs_g ?? 250,
+      fats_g: latestGoal?.fats_g ?? 67,
+      fiber_g: latestGoal?.fiber_g ?? 25,
+      sodium_mg: latestGoal?.sodium_mg ?? 2300,
+      sugar_g: latestGoal?.sugar_g ?? 50,
+      water_ml: latestGoal?.water_ml ?? 2500,
+    };
   }
 
   static async generateInsights(userId: string): Promise<any> {
@@ -0,0 +1,427 @@
+import { Prisma, SubscriptionType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { PLAN_QUOTAS } from "./aiQuota";
+import {
+  getPaymentProvider,
+  isMockPaymentEnabled,
+  MockPaymentProvider,
+} from "./payments";
+import {
+  MockCardDetails,
+  PaidPlan,
+  PaymentWebhookEvent,
+  PlanPricing,
+} from "../types/payments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What a paid plan costs for one billing period
+export const PLAN_PRICING: Record<PaidPlan, PlanPricing> = {
+  PREMIUM: { plan: "PREMIUM", amount: 49, currency: "ILS", periodDays: 30 },
+  GOLD: { plan: "GOLD", amount: 99, currency: "ILS", periodDays: 30 },
+};
+
+export class SubscriptionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "SubscriptionError";
+  }
+}
+
+export class SubscriptionService {
+  static getPlans() {
+    return (Object.keys(PLAN_QUOTAS) as SubscriptionType[]).map((type) => ({
+      type,
+      name: PLAN_QUOTAS[type].name,
+      price: type === "FREE" ? null : PLAN_PRICING[type],
+      dailyLimits: PLAN_QUOTAS[type].dailyLimits,
+    }));
+  }
+
+  static async getSubscription(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+
+    if (!user) {
+      throw new SubscriptionError("User not found", 404);
+    }
+
+    return {
+      type: user.subscription_type,
+      start: user.subscription_start,
+      end: user.subscription_end,
+      isActive:
+        user.subscription_type !== "FREE" &&
+        (!user.subscription_end || user.subscription_end > new Date()),
+    };
+  }
+
+  static async createCheckout(
+    userId: string,
+    plan: PaidPlan,
+    options: { successUrl?: string; cancelUrl?: string } = {}
+  ) {
+    const pricing = PLAN_PRICING[plan];
+    if (!pricing) {
+      throw new SubscriptionError("Plan is not available for purchase");
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { email: true },
+    });
+    if (!user) {
+      throw new SubscriptionError("User not found", 404);
+    }
+
+    const provider = getPaymentProvider();
+    const session = await prisma.checkoutSession.create({
+      data: {
+        user_id: userId,
+        plan_type: plan,
+        amount: pricing.amount,
+        currency: pricing.currency,
+        provider: provider.name,
+        expires_at: new Date(Date.now() + DAY_MS),
+      },
+    });
+
+    try {
+      const providerSession = await provider.createCheckoutSession({
+        sessionId: session.session_id,
+        userId,
+        email: user.email,
+        pricing,
+        successUrl: options.successUrl,
+        cancelUrl: options.cancelUrl,
+      });
+
+      const updated = await prisma.checkoutSession.update({
+        where: { session_id: session.session_id },
+        data: {
+          provider_session_id: providerSession.providerSessionId,
+          checkout_url: providerSession.url,
+          expires_at: providerSession.expiresAt,
+        },
+      });
+
+      console.log(
+        `💳 Checkout session ${updated.session_id} created for user ${userId} (${plan})`
+      );
+      return updated;
+    } catch (error) {
+      await prisma.checkoutSession.update({
+        where: { session_id: session.session_id },
+        data: { status: "FAILED" },
+      });
+      throw error;
+    }
+  }
+
+  static async getCheckoutSession(userId: string, sessionId: string) {
+    const session = await prisma.checkoutSession.findFirst({
+      where: { session_id: sessionId, user_id: userId },
+    });
+
+    if (!session) {
+      throw new SubscriptionError("Checkout session not found", 404);
+    }
+
+    if (session.status === "PENDING" && session.expires_at <= new Date()) {
+      return prisma.checkoutSession.update({
+        where: { session_id: sessionId },
+        data: { status: "EXPIRED" },
+      });
+    }
+
+    return session;
+  }
+
+  // Local development only: pays a mock checkout session and delivers the
+  // resulting signed webhook through the regular webhook handler.
+  static async payMockCheckout(
+    userId: string,
+    sessionId: string,
+    card: MockCardDetails
+  ) {
+    if (!isMockPaymentEnabled()) {
+      throw new SubscriptionError("Not found", 404);
+    }
+
+    const provider = getPaymentProvider();
+    if (!(provider instanceof MockPaymentProvider)) {
+      throw new SubscriptionError(
+        "Mock payments are only available with the mock payment provider",
+        404
+      );
+    }
+
+    const session = await this.getCheckoutSession(userId, sessionId);
+    if (session.status !== "PENDING" || !session.provider_session_id) {
+      throw new SubscriptionError(
+        `Checkout session is ${session.status.toLowerCase()}`,
+        409
+      );
+    }
+
+    const { payload, signature } = provider.simulatePayment(
+      {
+        sessionId: session.session_id,
+        providerSessionId: session.provider_session_id,
+        amount: session.amount,
+        currency: session.currency,
+      },
+      card
+    );
+
+    await this.handleWebhook(payload, { "x-payment-signature": signature });
+
+    return this.getCheckoutSession(userId, sessionId);
+  }
+
+  static async handleWebhook(
+    rawBody: Buffer | string,
+    headers: Record<string, string | string[] | undefined>
+  ) {
+    let event: PaymentWebhookEvent;
+    try {
+      event = getPaymentProvider().parseWebhook(rawBody, headers);
+    } catch (error) {
+      throw new SubscriptionError(
+        error instanceof Error ? error.message : "Invalid webhook",
+        400
+      );
+    }
+
+    console.log(`📨 Payment webhook ${event.id}: ${event.type}`);
+
+    switch (event.type) {
+      case "checkout.completed":
+        await this.completeCheckout(event);
+        break;
+      case "checkout.failed":
+        await this.failCheckout(event);
+        break;
+      case "payment.refunded":
+        await this.refundPayment(event);
+        break;
+      default:
+        console.log(`ℹ️ Ignoring unsupported payment webhook type`);
+    }
+
+    return { received: true, type: event.type };
+  }
+
+  private static async findSessionForEvent(
+    tx: Prisma.TransactionClient,
+    event: PaymentWebhookEvent
+  ) {
+    const session = await tx.checkoutSession.findUnique({
+      where: { session_id: event.data.sessionId },
+    });
+
+    if (
+      !session ||
+      session.provider_session_id !== event.data.providerSessionId
+    ) {
+      throw new SubscriptionError("Unknown checkout session in webhook", 404);
+    }
+
+    return session;
+  }
+
+  private static async completeCheckout(event: PaymentWebhookEvent) {
+    await prisma.$transaction(async (tx) => {
+      const session = await this.findSessionForEvent(tx, event);
+
+      // Providers retry webhooks, so a completed session is not paid twice
+      if (session.status === "COMPLETED") {
+        console.log(`ℹ️ Checkout ${session.session_id} already completed`);
+        return;
+      }
+
+      const user = await tx.user.findUniqueOrThrow({
+        where: { user_id: session.user_id },
+        select: {
+          subscription_type: true,
+          subscription_start: true,
+          subscription_end: true,
+        },
+      });
+
+      const now = new Date();
+      const pricing = PLAN_PRICING[session.plan_type as PaidPlan];
+
+      // Renewing the same plan extends it; switching plans starts a new period
+      const isRenewal =
+        user.subscription_type === session.plan_type &&
+        !!user.subscription_end &&
+        user.subscription_end > now;
+      const periodStart = isRenewal ? user.subscription_end! : now;
+      const periodEnd = new Date(
+        periodStart.getTime() + pricing.periodDays * DAY_MS
+      );
+
+      await tx.subscriptionPayment.create({
+        data: {
+          user_id: session.user_id,
+          plan_type: session.plan_type,
+          amount: event.data.amount ?? session.amount,
+          currency: event.data.currency || session.currency,
+          status: "SUCCEEDED",
+          provider: session.provider,
+          provider_payment_id: event.data.paymentId || event.id,
+          checkout_session_id: session.session_id,
+          period_start: periodStart,
+          period_end: periodEnd,
+          payment_method: event.data.paymentMethod,
+        },
+      });
+
+      await tx.checkoutSession.update({
+        where: { session_id: session.session_id },
+        data: { status: "COMPLETED", completed_at: now },
+      });
+
+      await tx.user.update({
+        where: { user_id: session.user_id },
+        data: {
+          subscription_type: session.plan_type,
+          subscription_start: isRenewal ? user.subscription_start : now,
+          subscription_end: periodEnd,
+        },
+      });
+
+      console.log(
+        `✅ User ${session.user_id} subscribed to ${session.plan_type} until ${periodEnd.toISOString()}`
+      );
+    });
+  }
+
+  private static async failCheckout(event: PaymentWebhookEvent) {
+    await prisma.$transaction(async (tx) => {
+      const session = await this.findSessionForEvent(tx, event);
+      if (session.status !== "PENDING") {
+        return;
+      }
+
+      await tx.subscriptionPayment.create({
+        data: {
+          user_id: session.user_id,
+          plan_type: session.plan_type,
+          amount: event.data.amount ?? session.amount,
+          currency: event.data.currency || session.currency,
+          status: "FAILED",
+          provider: session.provider,
+          provider_payment_id: event.data.paymentId || event.id,
+          checkout_session_id: session.session_id,
+          payment_method: event.data.paymentMethod,
+        },
+      });
+
+      await tx.checkoutSession.update({
+        where: { session_id: session.session_id },
+        data: { status: "FAILED" },
+      });
+
+      console.log(
+        `❌ Checkout ${session.session_id} failed: ${event.data.failureReason || "unknown reason"}`
+      );
+    });
+  }
+
+  private static async refundPayment(event: PaymentWebhookEvent) {
+    if (!event.data.paymentId) {
+      throw new SubscriptionError("Refund webhook is missing the payment id");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const payment = await tx.subscriptionPayment.findUnique({
+        where: { provider_payment_id: event.data.paymentId },
+      });
+      if (!payment || payment.status === "REFUNDED") {
+        return;
+      }
+
+      await tx.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: { status: "REFUNDED" },
+      });
+
+      // Refunding the period the user is currently in ends the subscription
+      const user = await tx.user.findUnique({
+        where: { user_id: payment.user_id },
+        select: { subscription_end: true },
+      });
+      if (
+        payment.period_end &&
+        user?.subscription_end?.getTime() === payment.period_end.getTime()
+      ) {
+        await tx.user.update({
+          where: { user_id: payment.user_id },
+          data: { subscription_type: "FREE", subscription_end: new Date() },
+        });
+      }
+    });
+  }
+
+  // Ends a paid subscription right away; there is no partial refund
+  static async downgradeToFree(userId: string) {
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { subscription_type: "FREE", subscription_end: new Date() },
+    });
+    console.log(`⬇️ User ${userId} downgraded to FREE`);
+  }
+
+  static async expireSubscriptions(now: Date = new Date()) {
+    const expired = await prisma.user.updateMany({
+      where: {
+        subscription_type: { not: "FREE" },
+        subscription_end: { lt: now },
+      },
+      data: { subscription_type: "FREE" },
+    });
+
+    const staleSessions = await prisma.checkoutSession.updateMany({
+      where: { status: "PENDING", expires_at: { lt: now } },
+      data: { status: "EXPIRED" },
+    });
+
+    return {
+      downgradedUsers: expired.count,
+      expiredSessions: staleSessions.count,
+    };
+  }
+
+  static async getBillingHistory(userId: string, limit = 20, offset = 0) {
+    const [payments, total] = await Promise.all([
+      prisma.subscriptionPayment.findMany({
+        where: { user_id: userId },
+        orderBy: { payment_date: "desc" },
+        take: limit,
+        skip: offset,
+        select: {
+          payment_id: true,
+          plan_type: true,
+          amount: true,
+          currency: true,
+          status: true,
+          payment_method: true,
+          payment_date: true,
+          period_start: true,
+          period_end: true,
+        },
+      }),
+      prisma.subscriptionPayment.count({ where: { user_id: userId } }),
+    ]);
+
+    return { payments, total, limit, offset };
+  }
+}
@@ -0,0 +1,64 @@
+export type AIProviderName = "openai" | "local" | "fixture";
+
+// Identifies what a request is for, so deterministic providers can answer
+// without parsing prompts
+export type AITask =
+  | "meal_analysis"
+  | "meal_update"
+  | "meal_description"
+  | "product_label"
+  | "menu_generation"
+  | "chat"
+  | "health_recommendation"
+  | "text";
+
+export interface AIChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface AIBaseRequest {
+  task: AITask;
+  language?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Structured inputs the prompt was built from
+  context?: Record<string, any>;
+}
+
+export interface AIVisionRequest extends AIBaseRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  imageBase64: string;
+}
+
+export interface AITextRequest extends AIBaseRequest {
+  prompt: string;
+  systemPrompt?: string;
+}
+
+export interface AIChatRequest extends AIBaseRequest {
+  messages: AIChatMessage[];
+}
+
+export interface AICompletion {
+  content: string;
+  provider: AIProviderName;
+  model: string;
+}
+
+export interface AIModelConfig {
+  vision: string;
+  text: string;
+  chat: string;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  // True when responses are canned rather than produced by a model
+  readonly offline: boolean;
+  readonly models: AIModelConfig;
+  analyzeImage(request: AIVisionRequest): Promise<AICompletion>;
+  generateText(request: AITextRequest): Promise<AICompletion>;
+  chat(request: AIChatRequest): Promise<AICompletion>;
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// Models often quote numbers ("25"), so numeric strings are accepted; missing
+// or null values are not
+const amount = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+  z.number().finite().nonnegative()
+);
+
+const name = z.string().trim().min(1);
+
+// Plain ingredient names are accepted as { name }
+export const mealAnalysisIngredientSchema = z.preprocess(
+  (value) => (typeof value === "string" ? { name: value } : value),
+  z
+    .object({
+      name,
+      calories: amount.optional(),
+      protein: amount.optional(),
+      carbs: amount.optional(),
+      fat: amount.optional(),
+    })
+    .passthrough()
+);
+
+// What analyzeMealImage, updateMealAnalysis and analyzeMealDescription expect
+// back. Optional fields are filled in by normalizeAnalysisResponse.
+export const mealAnalysisSchema = z
+  .object({
+    name,
+    calories: amount,
+    protein: amount,
+    carbs: amount,
+    fat: amount,
+    fiber: amount.optional(),
+    sugar: amount.optional(),
+    sodium: amount.optional(),
+    alcohol_g: amount.optional(),
+    confidence: amount.pipe(z.number().max(100)).optional(),
+    ingredients: z.array(mealAnalysisIngredientSchema).default([]),
+  })
+  .passthrough();
+
+export const menuIngredientSchema = z.object({
+  name,
+  quantity: amount.optional(),
+  unit: z.string().optional(),
+  category: z.string().optional(),
+  estimated_cost: amount.optional(),
+});
+
+export const menuMealSchema = z.object({
+  name,
+  meal_type: z.string().trim().min(1),
+  day_number: z.coerce.number().int().positive(),
+  calories: amount,
+  protein: amount,
+  carbs: amount,
+  fat: amount,
+  fiber: amount.optional(),
+  prep_time_minutes: amount.transform(Math.round).optional(),
+  cooking_method: z.string().optional(),
+  instructions: z.string().optional(),
+  ingredients: z.array(menuIngredientSchema).min(1),
+});
+
+export const menuSchema = z.object({
+  title: name,
+  description: z.string().optional(),
+  total_calories: amount,
+  total_protein: amount,
+  total_carbs: amount,
+  total_fat: amount,
+  total_fiber: amount.optional(),
+  days_count: z.coerce.number().int().positive(),
+  estimated_cost: amount.optional(),
+  meals: z.array(menuMealSchema).min(1),
+});
+
+// A single meal suggested in place of one in a recommended menu
+export const replacementMealSchema = menuMealSchema.omit({
+  meal_type: true,
+  day_number: true,
+});
+
+export type MealAnalysisPayload = z.infer<typeof mealAnalysisSchema>;
+export type MenuPayload = z.infer<typeof menuSchema>;
+export type ReplacementMealPayload = z.infer<typeof replacementMealSchema>;
+
+export type AIPayloadKind = "meal_analysis" | "menu" | "replacement_meal";
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+export const weightEntrySchema = z
+  .object({
+    measured_at: z.coerce.date().optional(),
+    weight_kg: z.number().min(20).max(400).optional(),
+    body_fat_percentage: z.number().min(2).max(75).optional(),
+    waist_cm: z.number().min(30).max(250).optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (entry) =>
+      entry.weight_kg !== undefined ||
+      entry.body_fat_percentage !== undefined ||
+      entry.waist_cm !== undefined,
+    { message: "An entry needs a weight, body fat or waist measurement" }
+  )
+  .refine((entry) => !entry.measured_at || entry.measured_at <= new Date(), {
+    message: "measured_at can't be in the future",
+  });
+
+export const weightEntryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(365),
+});
+
+export const weightProgressQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+export type WeightEntryInput = z.infer<typeof weightEntrySchema>;
+export type WeightEntryQuery = z.infer<typeof weightEntryQuerySchema>;
+
+// A measurement reported by a connected device during sync
+export interface DeviceBodyMeasurement {
+  weight_kg?: number | null;
+  body_fat_percentage?: number | null;
+}
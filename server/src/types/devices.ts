@@ -1,18 +1,288 @@
-export interface ActivityData {
-  steps: number;
-  caloriesBurned: number;
-  activeMinutes: number;
-  bmr: number;
-  heartRate?: number;
-  weight?: number;
-  bodyFat?: number;
-  sleepHours?: number;
-  distance?: number;
-}
+import { DeviceType } from "@prisma/client";
+import { z } from "zod";
 
 export interface DailyBalance {
   caloriesIn: number;
   caloriesOut: number;
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
+  // Device the burned calories came from
+  caloriesSource?: ActivitySource;
+}
+
+// How the client credentials are sent to a provider's token endpoint
+export type OAuthClientAuth = "basic" | "body";
+
+export interface OAuthProviderConfig {
+  deviceType: DeviceType;
+  name: string;
+  authUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  clientAuth: OAuthClientAuth;
+  extraAuthParams?: Record<string, string>;
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  // null when the provider issues tokens that don't expire
+  expiresAt: Date | null;
+  scope?: string;
+  providerUserId?: string;
+}
+
+export interface TokenRefreshResult {
+  scanned: number;
+  refreshed: number;
+  failed: number;
+}
+
+export const oauthAuthorizeQuerySchema = z.object({
+  returnUrl: z.string().url().max(500).optional(),
+});
+
+export const oauthCallbackQuerySchema = z.object({
+  state: z.string().min(1).max(200),
+  code: z.string().min(1).optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+export type OAuthCallbackQuery = z.infer<typeof oauthCallbackQuerySchema>;
+
+// Kinds of data a sync adapter can pull; each keeps its own cursor
+export type DeviceDataStream =
+  "activity" | "sleep" | "heart_rate" | "weight" | "workouts";
+
+// A workout session as reported by one device. Times are ISO timestamps.
+export interface DeviceWorkout {
+  start: string;
+  end: string;
+  type?: string;
+  calories?: number;
+}
+
+// One day of device data. Metrics the device didn't report are left out so
+// they don't overwrite what's stored.
+export interface DeviceDayRecord {
+  date: string; // YYYY-MM-DD
+  steps?: number;
+  caloriesBurned?: number;
+  activeMinutes?: number;
+  bmr?: number;
+  distance?: number;
+  heartRate?: number;
+  heartRateMax?: number;
+  sleepHours?: number;
+  weight?: number;
+  bodyFat?: number;
+  // Sessions that started on this day
+  workouts?: DeviceWorkout[];
+  // When the device read the data; defaults to the time it is saved
+  recordedAt?: Date;
+}
+
+export type DeviceDayMetric = Exclude<
+  keyof DeviceDayRecord,
+  "date" | "recordedAt" | "workouts"
+>;
+
+// What happened to a day when it was saved: "skipped" means a newer reading
+// of that day is already stored
+export type DeviceDaySaveStatus = "created" | "updated" | "skipped";
+
+export interface DeviceIngestResult {
+  days: { date: string; status: DeviceDaySaveStatus }[];
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+// Longest history the app can push in one request or ask the server to pull
+export const MAX_BACKFILL_DAYS = 90;
+
+const dayMetric = z.number().min(0).optional();
+
+const deviceWorkoutSchema = z
+  .object({
+    start: z.string().datetime({ offset: true }),
+    end: z.string().datetime({ offset: true }),
+    type: z.string().trim().max(100).optional(),
+    calories: z.number().min(0).optional(),
+  })
+  .refine((workout) => new Date(workout.end) > new Date(workout.start), {
+    message: "A workout has to end after it starts",
+  });
+
+const dayMetricsSchema = z.object({
+  steps: dayMetric,
+  caloriesBurned: dayMetric,
+  activeMinutes: z.number().min(0).max(1440).optional(),
+  bmr: dayMetric,
+  distance: dayMetric,
+  heartRate: z.number().min(0).max(250).optional(),
+  heartRateMax: z.number().min(0).max(250).optional(),
+  sleepHours: z.number().min(0).max(24).optional(),
+  weight: z.number().min(20).max(400).optional(),
+  bodyFat: z.number().min(2).max(75).optional(),
+  workouts: z.array(deviceWorkoutSchema).max(50).optional(),
+  recordedAt: z.coerce.date().optional(),
+});
+
+// A real calendar day no further back than a backfill reaches; a day of
+// slack covers devices in time zones ahead of or behind the server's
+function isBackfillableDate(date: string) {
+  const day = new Date(`${date}T00:00:00Z`);
+  if (isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== date) {
+    return false;
+  }
+  const earliest = new Date();
+  earliest.setUTCHours(0, 0, 0, 0);
+  earliest.setUTCDate(earliest.getUTCDate() - MAX_BACKFILL_DAYS - 1);
+  return day >= earliest;
+}
+
+export const deviceDayRecordSchema = dayMetricsSchema.extend({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "date must be in YYYY-MM-DD format")
+    .refine(
+      isBackfillableDate,
+      `date must be a real day within the last ${MAX_BACKFILL_DAYS} days`
+    ),
+});
+
+// POST /devices/:deviceId/sync. `records` pushes dated days from the app,
+// `activityData` is the single-day payload of older app builds, and an empty
+// body asks the server to pull from the provider (`backfillDays` reaching
+// further back than the last sync).
+export const deviceSyncBodySchema = z
+  .object({
+    records: z
+      .array(deviceDayRecordSchema)
+      .min(1)
+      .max(MAX_BACKFILL_DAYS)
+      .optional(),
+    activityData: dayMetricsSchema
+      .extend({ date: deviceDayRecordSchema.shape.date.optional() })
+      .optional(),
+    backfillDays: z.number().int().min(1).max(MAX_BACKFILL_DAYS).optional(),
+  })
+  .refine(
+    (body) =>
+      [body.records, body.activityData, body.backfillDays].filter(
+        (value) => value !== undefined
+      ).length <= 1,
+    { message: "Send either records, activityData or backfillDays" }
+  );
+
+export type DeviceSyncBody = z.infer<typeof deviceSyncBodySchema>;
+
+// Adapter-owned sync state, stored on the device: the last synced date per
+// stream plus anything else the provider needs between runs
+export type DeviceSyncCursor = Record<string, string>;
+
+export interface DeviceSyncContext {
+  userId: string;
+  accessToken: string;
+  cursor: DeviceSyncCursor;
+  // Provider account ID from the OAuth token response, when there was one
+  providerUserId?: string;
+}
+
+export interface DeviceStreamResult {
+  records: DeviceDayRecord[];
+  cursor?: DeviceSyncCursor;
+}
+
+export interface DeviceSyncAdapter {
+  readonly deviceType: DeviceType;
+  readonly streams: DeviceDataStream[];
+  // Days from `from` to `to` inclusive. Throws when the provider can't be
+  // reached or rejects the request.
+  fetchStream(
+    stream: DeviceDataStream,
+    from: string,
+    to: string,
+    context: DeviceSyncContext
+  ): Promise<DeviceStreamResult>;
+}
+
+export interface DeviceSyncOutcome {
+  status: "synced" | "failed";
+  days: number;
+  error?: string;
+}
+
+export interface DeviceSyncRunResult {
+  due: number;
+  synced: number;
+  failed: number;
+}
+
+// Daily activity merged across devices. Each metric comes from one device,
+// picked by the user's per-metric priority, then the primary device, then
+// DEFAULT_SOURCE_PRIORITY.
+export type ActivityMetric =
+  | "steps"
+  | "distance"
+  | "active_minutes"
+  | "calories"
+  | "heart_rate"
+  | "sleep"
+  | "weight"
+  | "workouts";
+
+export type ActivitySourcePriority = Partial<
+  Record<ActivityMetric, DeviceType[]>
+>;
+
+const sourceOrder = z.array(z.nativeEnum(DeviceType)).max(20).optional();
+
+export const activitySourcePrioritySchema = z
+  .object({
+    steps: sourceOrder,
+    distance: sourceOrder,
+    active_minutes: sourceOrder,
+    calories: sourceOrder,
+    heart_rate: sourceOrder,
+    sleep: sourceOrder,
+    weight: sourceOrder,
+    workouts: sourceOrder,
+  })
+  .strict();
+
+export interface ActivitySource {
+  device_id: string;
+  device_type: DeviceType;
+  device_name: string;
+}
+
+export interface MergedWorkout extends DeviceWorkout {
+  source: ActivitySource;
+  // Other devices that recorded the same session
+  duplicates: ActivitySource[];
+}
+
+export interface MergedDailyActivity {
+  date: string; // YYYY-MM-DD
+  steps: number | null;
+  calories_burned: number | null;
+  bmr_estimate: number | null;
+  active_minutes: number | null;
+  distance_km: number | null;
+  heart_rate_avg: number | null;
+  heart_rate_max: number | null;
+  sleep_hours: number | null;
+  weight_kg: number | null;
+  body_fat_percentage: number | null;
+  workouts: MergedWorkout[];
+  // Device each metric came from, missing when no device reported it.
+  // Workouts carry their own source.
+  sources: Partial<Record<Exclude<ActivityMetric, "workouts">, ActivitySource>>;
+  // Every device with data for the day
+  devices: ActivitySource[];
 }
@@ -0,0 +1,126 @@
+import { DietaryWarning } from "../utils/dietaryCompliance";
+
+export type ProductSourceName =
+  | "local"
+  | "catalog"
+  | "openfoodfacts"
+  | "ai_label";
+
+// Where a product record came from and when it was fetched
+export interface ProductProvenance {
+  source: ProductSourceName;
+  reference?: string;
+  fetched_at?: Date;
+}
+
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    fiber?: number;
+    sugar?: number;
+    sodium?: number;
+    saturated_fat?: number;
+    trans_fat?: number;
+    cholesterol?: number;
+    potassium?: number;
+    calcium?: number;
+    iron?: number;
+    vitamin_c?: number;
+    vitamin_d?: number;
+  };
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  health_score?: number;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+  provenance?: ProductProvenance;
+  product_id?: number;
+  // True when the requesting user's corrections were applied
+  has_user_override?: boolean;
+}
+
+// A user's corrections to a shared product; omitted fields keep the shared value
+export interface ProductOverrideInput {
+  product_name?: string;
+  nutrition_per_100g?: Partial<ProductData["nutrition_per_100g"]>;
+  serving_size?: string;
+  servings_per_container?: number;
+  allergens?: string[];
+}
+
+export type PortionUnit = "g" | "ml" | "serving" | "package";
+
+export interface Portion {
+  amount: number;
+  unit: PortionUnit;
+}
+
+// A scanned product as stored in Meal.ingredients, scaled to the eaten portion
+export interface ProductIngredient {
+  name: string;
+  brand?: string;
+  barcode?: string;
+  product_id?: number;
+  source: "barcode";
+  amount: number;
+  unit: PortionUnit;
+  quantity_g: number;
+  portion: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  sodium_mg?: number;
+  saturated_fat?: number;
+  trans_fat?: number;
+  cholesterol_mg?: number;
+  potassium_mg?: number;
+  calcium_mg?: number;
+  iron_mg?: number;
+  vitamin_c_mg?: number;
+  vitamin_d_mcg?: number;
+  health_score?: number;
+}
+
+export interface UserAnalysis {
+  compatibility_score: number;
+  daily_contribution: {
+    calories_percent: number;
+    protein_percent: number;
+    carbs_percent: number;
+    fat_percent: number;
+  };
+  alerts: string[];
+  // The structured checks behind the allergen and kosher alerts
+  dietary_warnings: DietaryWarning[];
+  recommendations: string[];
+  health_assessment: string;
+}
+
+export interface ProductLookupResult {
+  product: ProductData;
+  // The source in the chain that answered, which for local hits differs
+  // from the provenance recorded on the product
+  source: ProductSourceName;
+}
+
+export interface ProductSource {
+  readonly name: ProductSourceName;
+  // Remote sources are network calls: their misses are cached and
+  // their failures never block the rest of the chain
+  readonly remote: boolean;
+  // Resolves null when the source does not know the barcode and throws
+  // when the source could not be asked
+  lookup(barcode: string): Promise<ProductData | null>;
+}
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface MealPlanTemplate {
   template_id: string;
   name: string;
@@ -64,3 +66,44 @@ export interface AIMealPlanResponse {
     }[];
   }[];
 }
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Optional range for GET /meal-plans/:planId/progress
+export const adherenceQuerySchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+// "I ate this" / "I skipped this" for one scheduled slot on one date
+export const confirmSlotSchema = z.object({
+  date: dateString.optional(),
+  status: z.enum(["EATEN", "SKIPPED"]).default("EATEN"),
+  meal_id: z.number().int().positive().optional(),
+});
+
+// Logs a planned meal as eaten. portion_multiplier replaces the plan's
+// portion; portion_eaten is the share of that portion actually eaten.
+export const eatPlannedMealSchema = z.object({
+  date: dateString.optional(),
+  portion_multiplier: z
+    .number()
+    .positive("Portion must be greater than 0")
+    .max(10)
+    .optional(),
+  portion_eaten: z
+    .number()
+    .positive("Portion eaten must be greater than 0")
+    .max(1)
+    .default(1),
+});
+
+export const clearSlotConfirmationSchema = z.object({
+  date: dateString,
+});
+
+export type AdherenceQuery = z.infer<typeof adherenceQuerySchema>;
+export type ConfirmSlotInput = z.infer<typeof confirmSlotSchema>;
+export type EatPlannedMealInput = z.infer<typeof eatPlannedMealSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { MealTiming } from "@prisma/client";
 
 export const mealAnalysisSchema = z.object({
   imageBase64: z.string().min(1, "Image is required"),
@@ -17,10 +18,45 @@ export const mealUpdateSchema = z.object({
   language: z.enum(["english", "hebrew"]).default("english"),
 });
 
+// Either macros typed in directly or a free-text description for the AI to
+// break into ingredients. When macros are given no AI call is made.
+export const manualMealSchema = z
+  .object({
+    meal_name: z.string().trim().min(1).optional(),
+    description: z.string().trim().min(1).max(1000).optional(),
+    calories: z.number().min(0).optional(),
+    protein_g: z.number().min(0).optional(),
+    carbs_g: z.number().min(0).optional(),
+    fats_g: z.number().min(0).optional(),
+    fiber_g: z.number().min(0).optional(),
+    sugar_g: z.number().min(0).optional(),
+    sodium_mg: z.number().min(0).optional(),
+    serving_size_g: z.number().positive().optional(),
+    // Inferred from the time of day when omitted
+    meal_timing: z.nativeEnum(MealTiming).optional(),
+    language: z.enum(["english", "hebrew"]).default("english"),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+      .optional(),
+  })
+  .refine(
+    (meal) =>
+      meal.calories !== undefined || (meal.description?.length ?? 0) > 0,
+    { message: "Provide calories and macros or a description of the meal" }
+  )
+  .refine(
+    (meal) =>
+      meal.calories === undefined ||
+      !!meal.meal_name ||
+      !!meal.description,
+    { message: "A meal name is required when entering macros" }
+  );
+
 export const mealSchema = z.object({
   meal_id: z.string(),
   user_id: z.string(),
-  image_url: z.string(),
+  image_url: z.string().nullable(),
   meal_name: z.string().nullable(),
   calories: z.number().nullable(),
   protein_g: z.number().nullable(),
@@ -35,6 +71,7 @@ export const mealSchema = z.object({
 
 export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
+export type ManualMealInput = z.infer<typeof manualMealSchema>;
 export type Meal = z.infer<typeof mealSchema>;
 
 export const directMealUpdateSchema = z.object({
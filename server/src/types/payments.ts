@@ -0,0 +1,67 @@
+import { SubscriptionType } from "@prisma/client";
+
+export type PaidPlan = Exclude<SubscriptionType, "FREE">;
+
+export type PaymentProviderName = "mock";
+
+export interface PlanPricing {
+  plan: PaidPlan;
+  amount: number;
+  currency: string;
+  periodDays: number;
+}
+
+export interface CreateCheckoutRequest {
+  sessionId: string;
+  userId: string;
+  email: string;
+  pricing: PlanPricing;
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
+export interface ProviderCheckoutSession {
+  providerSessionId: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export type PaymentWebhookEventType =
+  | "checkout.completed"
+  | "checkout.failed"
+  | "payment.refunded";
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  created: number;
+  data: {
+    sessionId: string;
+    providerSessionId: string;
+    paymentId?: string;
+    amount?: number;
+    currency?: string;
+    paymentMethod?: string;
+    failureReason?: string;
+  };
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCheckoutSession(
+    request: CreateCheckoutRequest
+  ): Promise<ProviderCheckoutSession>;
+  // Throws when the signature is missing, invalid or too old
+  parseWebhook(
+    rawBody: Buffer | string,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentWebhookEvent;
+}
+
+export interface MockCardDetails {
+  cardNumber: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvv: string;
+  cardholderName: string;
+}
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { MealTiming } from "@prisma/client";
+
+const nutrient = z.number().min(0);
+
+export const nutritionPer100gSchema = z.object({
+  calories: nutrient,
+  protein: nutrient,
+  carbs: nutrient,
+  fat: nutrient,
+  fiber: nutrient.optional(),
+  sugar: nutrient.optional(),
+  sodium: nutrient.optional(),
+  saturated_fat: nutrient.optional(),
+  trans_fat: nutrient.optional(),
+  cholesterol: nutrient.optional(),
+  potassium: nutrient.optional(),
+  calcium: nutrient.optional(),
+  iron: nutrient.optional(),
+  vitamin_c: nutrient.optional(),
+  vitamin_d: nutrient.optional(),
+});
+
+// Either a catalog product (product_id or barcode) or a manual entry with
+// its own nutrition per 100g
+export const recipeIngredientSchema = z
+  .object({
+    product_id: z.number().int().optional(),
+    barcode: z.string().optional(),
+    name: z.string().trim().min(1).optional(),
+    quantity: z.number().positive("Quantity must be greater than 0"),
+    unit: z.enum(["g", "ml", "serving", "package"]).default("g"),
+    nutrition_per_100g: nutritionPer100gSchema.optional(),
+  })
+  .refine(
+    (i) =>
+      i.product_id !== undefined ||
+      !!i.barcode ||
+      (!!i.name && !!i.nutrition_per_100g),
+    {
+      message:
+        "Ingredient needs a product_id, a barcode, or a name with nutrition_per_100g",
+    }
+  )
+  .refine(
+    (i) =>
+      i.product_id !== undefined ||
+      !!i.barcode ||
+      i.unit === "g" ||
+      i.unit === "ml",
+    { message: "Manual ingredients are measured in g or ml" }
+  );
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1, "Recipe name is required"),
+  description: z.string().optional(),
+  instructions: z.string().optional(),
+  servings: z.number().positive("Servings must be greater than 0"),
+  ingredients: z
+    .array(recipeIngredientSchema)
+    .min(1, "A recipe needs at least one ingredient"),
+});
+
+export const logRecipeSchema = z.object({
+  servings: z.number().positive("Servings must be greater than 0").default(1),
+  meal_timing: z.nativeEnum(MealTiming).optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type RecipeInput = z.infer<typeof recipeSchema>;
+export type LogRecipeInput = z.infer<typeof logRecipeSchema>;
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { AggregatedIngredient } from "../utils/ingredients";
+
+// An entry of ShoppingList.items_json
+export interface ShoppingListItem extends AggregatedIngredient {
+  item_id: string;
+  checked: boolean;
+  // Added by the user rather than generated from a plan or menu
+  manual: boolean;
+}
+
+export interface ShoppingListSource {
+  type: "plan" | "menu";
+  id: string;
+}
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Generates one list from any number of meal plans and recommended menus
+export const generateShoppingListSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    plan_ids: z.array(z.string().min(1)).default([]),
+    menu_ids: z.array(z.string().min(1)).default([]),
+    week_start_date: dateString.optional(),
+    use_pantry: z.boolean().default(true),
+  })
+  .refine((input) => input.plan_ids.length + input.menu_ids.length > 0, {
+    message: "At least one plan_id or menu_id is required",
+  });
+
+export const updateShoppingListSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  week_start_date: dateString.nullable().optional(),
+  is_completed: z.boolean().optional(),
+});
+
+export const shoppingListItemSchema = z.object({
+  name: z.string().trim().min(1, "Item name is required"),
+  quantity: z.number().positive("Quantity must be greater than 0").default(1),
+  unit: z.string().trim().min(1).default("piece"),
+  category: z.string().trim().min(1).optional(),
+  estimated_cost: z.number().min(0).optional(),
+});
+
+export const updateShoppingListItemSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  checked: z.boolean().optional(),
+  quantity: z.number().positive("Quantity must be greater than 0").optional(),
+  unit: z.string().trim().min(1).optional(),
+  purchase_quantity: z.number().positive().optional(),
+  purchase_unit: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  estimated_cost: z.number().min(0).optional(),
+});
+
+export const pantryItemSchema = z.object({
+  name: z.string().trim().min(1, "Item name is required"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unit: z.string().trim().min(1).default("piece"),
+  category: z.string().trim().min(1).optional(),
+});
+
+export type GenerateShoppingListInput = z.infer<
+  typeof generateShoppingListSchema
+>;
+export type UpdateShoppingListInput = z.infer<typeof updateShoppingListSchema>;
+export type ShoppingListItemInput = z.infer<typeof shoppingListItemSchema>;
+export type UpdateShoppingListItemInput = z.infer<
+  typeof updateShoppingListItemSchema
+>;
+export type PantryItemInput = z.infer<typeof pantryItemSchema>;
@@ -64,3 +64,69 @@ export interface DailyBreakdown {
   satiety?: string;
   meal_quality?: number;
 }
+
+export type ReportPeriod = "week" | "month" | "custom";
+
+export interface ReportDateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ReportGoals {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sodium_mg: number;
+  sugar_g: number;
+  water_ml: number;
+}
+
+export interface NutritionReportData {
+  user: { name: string | null; email: string };
+  period: ReportPeriod;
+  range: ReportDateRange;
+  generatedAt: Date;
+  goals: ReportGoals;
+  averages: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fats: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
+    fluids: number;
+  };
+  dailyBreakdown: {
+    date: string;
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fats_g: number;
+    fiber_g: number;
+    sugar_g: number;
+    sodium_mg: number;
+    liquids_ml: number;
+    water_cups: number;
+  }[];
+  streaks: {
+    currentStreak: number;
+    bestStreak: number;
+    weeklyStreak: number;
+    perfectDays: number;
+    successfulDays: number;
+    averageCompletion: number;
+  };
+  achievements: {
+    title: string;
+    description: string;
+    progress: number;
+    maxProgress: number;
+    unlocked: boolean;
+    unlockedDate?: string;
+  }[];
+  level: number;
+  totalPoints: number;
+}
@@ -0,0 +1,161 @@
+// Pulls JSON out of model output and checks that the numbers in it add up.
+// Schema validation lives in types/aiResponses.ts.
+
+import {
+  AIPayloadKind,
+  MealAnalysisPayload,
+  MenuPayload,
+  ReplacementMealPayload,
+} from "../types/aiResponses";
+
+export class AIJSONError extends Error {}
+
+// The first complete JSON object in the text, skipping markdown fences and
+// any prose around it. Braces inside strings don't count towards nesting.
+export function extractJSON(content: string): unknown {
+  const cleaned = content.replace(/```(?:json)?/gi, "");
+  const start = cleaned.indexOf("{");
+  if (start === -1) {
+    throw new AIJSONError("No JSON object found in response");
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < cleaned.length; i++) {
+    const char = cleaned[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === "{") depth++;
+    else if (char === "}" && --depth === 0) {
+      try {
+        return JSON.parse(cleaned.slice(start, i + 1));
+      } catch (error: any) {
+        throw new AIJSONError(`Response is not valid JSON: ${error.message}`);
+      }
+    }
+  }
+
+  throw new AIJSONError("Response JSON is truncated");
+}
+
+interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// Calories may differ from 4/4/9 macro math by this share, or by
+// MACRO_TOLERANCE_KCAL for small portions
+const MACRO_TOLERANCE = 0.2;
+const MACRO_TOLERANCE_KCAL = 50;
+// Meal and ingredient totals may differ from their sums by this share
+const TOTALS_TOLERANCE = 0.1;
+
+function macroCalories(macros: Macros, alcoholGrams = 0) {
+  return (
+    macros.protein * 4 + macros.carbs * 4 + macros.fat * 9 + alcoholGrams * 7
+  );
+}
+
+function close(actual: number, expected: number, tolerance: number, floor = 0) {
+  return Math.abs(actual - expected) <= Math.max(expected * tolerance, floor);
+}
+
+function checkMacroMath(label: string, macros: Macros, alcoholGrams = 0) {
+  const expected = macroCalories(macros, alcoholGrams);
+  return close(macros.calories, expected, MACRO_TOLERANCE, MACRO_TOLERANCE_KCAL)
+    ? []
+    : [
+        `${label}: calories (${macros.calories}) don't match protein/carbs/fat (4/4/9 gives ${Math.round(expected)})`,
+      ];
+}
+
+function sumOf<T>(items: T[], pick: (item: T) => number) {
+  return items.reduce((total, item) => total + pick(item), 0);
+}
+
+function mealAnalysisIssues(analysis: MealAnalysisPayload) {
+  const issues = checkMacroMath("meal", analysis, analysis.alcohol_g);
+
+  // Only when the model broke calories down per ingredient
+  const ingredients = analysis.ingredients;
+  if (
+    ingredients.length > 0 &&
+    ingredients.every((ingredient) => ingredient.calories !== undefined)
+  ) {
+    const total = sumOf(ingredients, (ingredient) => ingredient.calories || 0);
+    if (
+      !close(total, analysis.calories, TOTALS_TOLERANCE, MACRO_TOLERANCE_KCAL)
+    ) {
+      issues.push(
+        `ingredient calories add up to ${Math.round(total)}, not the meal's ${analysis.calories}`
+      );
+    }
+  }
+
+  return issues;
+}
+
+function menuIssues(menu: MenuPayload) {
+  const issues = menu.meals.flatMap((meal, index) =>
+    checkMacroMath(`meals[${index}] "${meal.name}"`, meal)
+  );
+
+  const beyondDays = menu.meals.filter(
+    (meal) => meal.day_number > menu.days_count
+  );
+  if (beyondDays.length > 0) {
+    issues.push(
+      `${beyondDays.length} meals have a day_number above days_count (${menu.days_count})`
+    );
+  }
+
+  // Totals may be given for the whole menu or per day
+  const totals: [string, number, number][] = [
+    [
+      "total_calories",
+      menu.total_calories,
+      sumOf(menu.meals, (meal) => meal.calories),
+    ],
+    [
+      "total_protein",
+      menu.total_protein,
+      sumOf(menu.meals, (meal) => meal.protein),
+    ],
+    ["total_carbs", menu.total_carbs, sumOf(menu.meals, (meal) => meal.carbs)],
+    ["total_fat", menu.total_fat, sumOf(menu.meals, (meal) => meal.fat)],
+  ];
+  for (const [field, total, sum] of totals) {
+    const perDay = sum / menu.days_count;
+    if (
+      !close(total, sum, TOTALS_TOLERANCE, 1) &&
+      !close(total, perDay, TOTALS_TOLERANCE, 1)
+    ) {
+      issues.push(
+        `${field} (${total}) is neither the sum of the meals (${Math.round(sum)}) nor the daily average (${Math.round(perDay)})`
+      );
+    }
+  }
+
+  return issues;
+}
+
+// Problems a payload that already matches its schema can still have
+export function sanityIssues(kind: AIPayloadKind, payload: any): string[] {
+  switch (kind) {
+    case "meal_analysis":
+      return mealAnalysisIssues(payload as MealAnalysisPayload);
+    case "menu":
+      return menuIssues(payload as MenuPayload);
+    case "replacement_meal":
+      return checkMacroMath("meal", payload as ReplacementMealPayload);
+  }
+}
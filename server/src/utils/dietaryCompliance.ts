@@ -0,0 +1,280 @@
+// Rule-based checks of meals and products against a user's allergies, kosher
+// observance and gluten or lactose intolerance. Warnings carry a stable code
+// and messages in English and Hebrew so clients can display or translate them.
+
+import {
+  AllergenGroup,
+  FoodGroup,
+  classifyFood,
+  containsFoodTerm,
+  normalizeAllergen,
+} from "./foodClassification";
+
+export type DietaryRule = "allergen" | "kosher" | "gluten" | "lactose";
+
+export type WarningSeverity = "high" | "medium" | "low";
+
+export interface DietaryWarning {
+  rule: DietaryRule;
+  // e.g. "allergen.peanuts", "kosher.meat_dairy", "gluten.contains"
+  code: string;
+  severity: WarningSeverity;
+  message: string;
+  message_he: string;
+  // The ingredients or declared allergens that triggered the warning
+  items: string[];
+  // Which meal of a menu the warning is about
+  meal?: { name: string; meal_type?: string; day_number?: number };
+}
+
+export interface DietaryProfile {
+  allergens: AllergenGroup[];
+  // Allergies outside the taxonomy, matched against ingredient names
+  other_allergies: string[];
+  kosher: boolean;
+  celiac: boolean;
+  lactose_intolerant: boolean;
+}
+
+// The UserQuestionnaire fields the profile is built from
+export interface DietaryQuestionnaire {
+  allergies?: string[] | null;
+  allergies_text?: string[] | null;
+  kosher?: boolean | null;
+  medical_conditions?: string[] | null;
+  medical_conditions_text?: string[] | null;
+}
+
+export interface CheckedFood {
+  name: string;
+  ingredients: string[];
+  // Allergens declared by a label, template or AI analysis
+  allergens?: string[];
+  // Product labels such as "kosher" or "gluten-free"
+  labels?: string[];
+}
+
+const CELIAC_TERMS = ["celiac", "coeliac", "צליאק"];
+const LACTOSE_TERMS = ["lactose", "לקטוז"];
+
+const ALLERGEN_NAMES: Record<AllergenGroup, [string, string]> = {
+  gluten: ["gluten", "גלוטן"],
+  dairy: ["milk", "חלב"],
+  eggs: ["eggs", "ביצים"],
+  tree_nuts: ["tree nuts", "אגוזים"],
+  peanuts: ["peanuts", "בוטנים"],
+  fish: ["fish", "דגים"],
+  shellfish: ["shellfish", "פירות ים"],
+  soy: ["soy", "סויה"],
+  sesame: ["sesame", "שומשום"],
+};
+
+const GLUTEN_FREE_LABELS = ["gluten-free", "gluten free", "ללא גלוטן"];
+const LACTOSE_FREE_LABELS = ["lactose-free", "lactose free", "ללא לקטוז"];
+const KOSHER_LABELS = ["kosher", "כשר"];
+
+function mentions(values: string[], terms: string[]) {
+  return values.some((value) =>
+    terms.some((term) => value.toLowerCase().includes(term))
+  );
+}
+
+const NEGATIONS = ["not", "non", "no", "לא"];
+
+// Whether a label or name carries one of `terms` as whole words, e.g.
+// "Kosher Parve" but not "non-kosher" or "not gluten-free"
+function hasLabel(labels: string[], terms: string[]) {
+  return labels.some((label) =>
+    terms.some(
+      (term) =>
+        containsFoodTerm(label, `=${term}`) &&
+        !NEGATIONS.some((negation) =>
+          containsFoodTerm(label, `=${negation} ${term}`)
+        )
+    )
+  );
+}
+
+export function buildDietaryProfile(
+  questionnaire: DietaryQuestionnaire
+): DietaryProfile {
+  const allergies = [
+    ...(questionnaire.allergies || []),
+    ...(questionnaire.allergies_text || []),
+  ]
+    .map((allergy) => allergy.trim())
+    .filter(Boolean);
+  const conditions = [
+    ...(questionnaire.medical_conditions || []),
+    ...(questionnaire.medical_conditions_text || []),
+  ];
+
+  const celiac = mentions([...conditions, ...allergies], CELIAC_TERMS);
+  const lactoseIntolerant = mentions(
+    [...conditions, ...allergies],
+    LACTOSE_TERMS
+  );
+
+  const allergens = new Set<AllergenGroup>();
+  const other: string[] = [];
+  for (const allergy of allergies) {
+    // Lactose intolerance and celiac disease have their own, gentler or
+    // label-aware rules rather than the allergen one
+    if (mentions([allergy], LACTOSE_TERMS)) continue;
+    if (mentions([allergy], CELIAC_TERMS)) continue;
+
+    const group = normalizeAllergen(allergy);
+    if (group) allergens.add(group);
+    else other.push(allergy);
+  }
+  if (celiac) allergens.delete("gluten");
+
+  return {
+    allergens: [...allergens],
+    other_allergies: other,
+    kosher: !!questionnaire.kosher,
+    celiac,
+    lactose_intolerant: lactoseIntolerant,
+  };
+}
+
+// Food groups found in the food's ingredients and declared allergens, with
+// the items that put them there
+function groupsOf(food: CheckedFood) {
+  const found = new Map<FoodGroup, Set<string>>();
+  const add = (group: FoodGroup, item: string) => {
+    if (!found.has(group)) found.set(group, new Set());
+    found.get(group)!.add(item);
+  };
+
+  for (const ingredient of [food.name, ...food.ingredients]) {
+    classifyFood(ingredient).forEach((group) => add(group, ingredient));
+  }
+  for (const allergen of food.allergens || []) {
+    const group = normalizeAllergen(allergen);
+    if (group) add(group, allergen);
+  }
+
+  return found;
+}
+
+export function checkFood(
+  profile: DietaryProfile,
+  food: CheckedFood,
+  options: { requireKosherLabel?: boolean } = {}
+): DietaryWarning[] {
+  const warnings: DietaryWarning[] = [];
+  const groups = groupsOf(food);
+  const items = (...keys: FoodGroup[]) => [
+    ...new Set(keys.flatMap((key) => [...(groups.get(key) || [])])),
+  ];
+  const labels = food.labels || [];
+
+  for (const allergen of profile.allergens) {
+    if (!groups.has(allergen)) continue;
+    const [en, he] = ALLERGEN_NAMES[allergen];
+    warnings.push({
+      rule: "allergen",
+      code: `allergen.${allergen}`,
+      severity: "high",
+      message: `Contains ${en}, which you're allergic to`,
+      message_he: `מכיל ${he}, אלרגן שציינת`,
+      items: items(allergen),
+    });
+  }
+
+  for (const allergy of profile.other_allergies) {
+    const matched = [
+      food.name,
+      ...food.ingredients,
+      ...(food.allergens || []),
+    ].filter((item) => containsFoodTerm(item, allergy));
+    if (matched.length === 0) continue;
+    warnings.push({
+      rule: "allergen",
+      code: "allergen.other",
+      severity: "high",
+      message: `Contains ${allergy}, which you're allergic to`,
+      message_he: `מכיל ${allergy}, אלרגן שציינת`,
+      items: matched,
+    });
+  }
+
+  if (
+    profile.celiac &&
+    groups.has("gluten") &&
+    !hasLabel(labels, GLUTEN_FREE_LABELS)
+  ) {
+    warnings.push({
+      rule: "gluten",
+      code: "gluten.contains",
+      severity: "high",
+      message: "Contains gluten, which isn't safe with celiac disease",
+      message_he: "מכיל גלוטן, שאינו מתאים לחולי צליאק",
+      items: items("gluten"),
+    });
+  }
+
+  const lactoseItems = hasLabel(labels, LACTOSE_FREE_LABELS)
+    ? []
+    : items("dairy").filter((item) => !hasLabel([item], LACTOSE_FREE_LABELS));
+  if (
+    profile.lactose_intolerant &&
+    !profile.allergens.includes("dairy") &&
+    lactoseItems.length > 0
+  ) {
+    warnings.push({
+      rule: "lactose",
+      code: "lactose.contains",
+      severity: "medium",
+      message: "Contains dairy with lactose",
+      message_he: "מכיל מוצרי חלב עם לקטוז",
+      items: lactoseItems,
+    });
+  }
+
+  if (profile.kosher) {
+    if (groups.has("pork") || groups.has("shellfish")) {
+      warnings.push({
+        rule: "kosher",
+        code: "kosher.forbidden",
+        severity: "high",
+        message: "Contains non-kosher foods",
+        message_he: "מכיל מזון לא כשר",
+        items: items("pork", "shellfish"),
+      });
+    }
+    if (groups.has("meat") && groups.has("dairy")) {
+      warnings.push({
+        rule: "kosher",
+        code: "kosher.meat_dairy",
+        severity: "high",
+        message: "Mixes meat and dairy in the same meal",
+        message_he: "משלב בשר וחלב באותה ארוחה",
+        items: items("meat", "dairy"),
+      });
+    }
+    if (groups.has("meat") && groups.has("fish")) {
+      warnings.push({
+        rule: "kosher",
+        code: "kosher.meat_fish",
+        severity: "medium",
+        message: "Serves meat and fish together",
+        message_he: "מגיש בשר ודגים יחד",
+        items: items("meat", "fish"),
+      });
+    }
+    if (options.requireKosherLabel && !hasLabel(labels, KOSHER_LABELS)) {
+      warnings.push({
+        rule: "kosher",
+        code: "kosher.unverified",
+        severity: "low",
+        message: "No kosher certification on the label",
+        message_he: "אין סימון כשרות על המוצר",
+        items: [],
+      });
+    }
+  }
+
+  return warnings;
+}
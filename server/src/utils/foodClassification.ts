@@ -0,0 +1,360 @@
+// Classifies foods by ingredient name (English or Hebrew) into the groups
+// dietary rules care about: allergens, meat, dairy and other animal products.
+
+export type FoodGroup =
+  | "gluten"
+  | "dairy"
+  | "eggs"
+  | "tree_nuts"
+  | "peanuts"
+  | "fish"
+  | "shellfish"
+  | "soy"
+  | "sesame"
+  | "meat"
+  | "pork"
+  | "honey";
+
+export type AllergenGroup = Extract<
+  FoodGroup,
+  | "gluten"
+  | "dairy"
+  | "eggs"
+  | "tree_nuts"
+  | "peanuts"
+  | "fish"
+  | "shellfish"
+  | "soy"
+  | "sesame"
+>;
+
+// Ingredient keywords per group, matched at the start of a word: "nut"
+// matches "nuts" but not "coconut". Hebrew words may carry up to two
+// one-letter prefixes (ו, ה, ב...). Keywords starting with "=" only match
+// whole words, for stems like חלב that begin unrelated words (חלבון).
+const KEYWORDS: Record<FoodGroup, string[]> = {
+  gluten: [
+    "wheat",
+    "flour",
+    "bread",
+    "pasta",
+    "spaghetti",
+    "couscous",
+    "barley",
+    "rye",
+    "bulgur",
+    "semolina",
+    "seitan",
+    "pita",
+    "=toast",
+    "=toasts",
+    "=noodle",
+    "=noodles",
+    "cracker",
+    "crouton",
+    "tortilla",
+    "bagel",
+    "=bun",
+    "=buns",
+    "חיטה",
+    "קמח",
+    "לחם",
+    "פסטה",
+    "קוסקוס",
+    "שעורה",
+    "שיפון",
+    "בורגול",
+    "סולת",
+    "פיתה",
+    "טוסט",
+    "אטריות",
+    "לחמני",
+  ],
+  dairy: [
+    "milk",
+    "cheese",
+    "yogurt",
+    "yoghurt",
+    "butter",
+    "cream",
+    "cottage",
+    "labneh",
+    "feta",
+    "mozzarella",
+    "parmesan",
+    "ricotta",
+    "whey",
+    "kefir",
+    "ghee",
+    "=חלב",
+    "=חלבי",
+    "גבינ",
+    "יוגורט",
+    "חמאה",
+    "שמנת",
+    "קוטג",
+    "לבנה",
+    "פטה",
+    "מוצרלה",
+    "פרמזן",
+    "ריקוטה",
+    "קפיר",
+  ],
+  eggs: ["egg", "omelet", "omelette", "mayonnaise", "ביצ", "חביתה", "מיונז"],
+  tree_nuts: [
+    "almond",
+    "walnut",
+    "cashew",
+    "pecan",
+    "hazelnut",
+    "pistachio",
+    "macadamia",
+    "nut",
+    "שקד",
+    "אגוז",
+    "קשיו",
+    "פקאן",
+    "לוז",
+    "פיסטוק",
+  ],
+  peanuts: ["peanut", "בוטנ"],
+  fish: [
+    "fish",
+    "salmon",
+    "tuna",
+    "cod",
+    "tilapia",
+    "sardine",
+    "trout",
+    "mackerel",
+    "anchov",
+    "halibut",
+    "sea bass",
+    "=דג",
+    "=דגים",
+    "=דגי",
+    "סלמון",
+    "טונה",
+    "אמנון",
+    "בקלה",
+    "סרדינ",
+    "פורל",
+    "מקרל",
+    "אנשובי",
+    "לברק",
+    "דניס",
+  ],
+  shellfish: [
+    "shrimp",
+    "prawn",
+    "crab",
+    "lobster",
+    "mussel",
+    "clam",
+    "oyster",
+    "squid",
+    "calamari",
+    "scallop",
+    "שרימפס",
+    "סרטן",
+    "לובסטר",
+    "צדפ",
+    "קלמרי",
+    "פירות ים",
+  ],
+  soy: [
+    "soy",
+    "tofu",
+    "edamame",
+    "tempeh",
+    "miso",
+    "סויה",
+    "טופו",
+    "אדממה",
+    "טמפה",
+    "מיסו",
+  ],
+  sesame: ["sesame", "tahini", "halva", "שומשום", "טחינה", "חלבה"],
+  meat: [
+    "chicken",
+    "beef",
+    "turkey",
+    "lamb",
+    "veal",
+    "meat",
+    "steak",
+    "pork",
+    "bacon",
+    "ham",
+    "sausage",
+    "schnitzel",
+    "meatball",
+    "burger",
+    "salami",
+    "pastrami",
+    "liver",
+    "duck",
+    "עוף",
+    "בקר",
+    "הודו",
+    "=כבש",
+    "עגל",
+    "בשר",
+    "סטייק",
+    "חזיר",
+    "נקניק",
+    "שניצל",
+    "קציצ",
+    "המבורגר",
+    "סלמי",
+    "פסטרמה",
+    "כבד",
+    "ברווז",
+    "פרגית",
+    "שווארמה",
+  ],
+  pork: ["pork", "bacon", "ham", "prosciutto", "חזיר", "בייקון"],
+  honey: ["honey", "דבש"],
+};
+
+// What users and AI responses call each allergen group
+const ALLERGEN_SYNONYMS: Record<AllergenGroup, string[]> = {
+  gluten: ["gluten", "wheat", "celiac", "coeliac", "גלוטן", "חיטה", "צליאק"],
+  dairy: ["dairy", "milk", "lactose", "חלב", "לקטוז", "מוצרי חלב"],
+  eggs: ["egg", "eggs", "ביצה", "ביצים"],
+  tree_nuts: ["nuts", "nut", "tree nuts", "tree nut", "אגוזים", "אגוז"],
+  peanuts: ["peanut", "peanuts", "בוטנים", "בוטן"],
+  fish: ["fish", "דגים", "דג"],
+  shellfish: [
+    "shellfish",
+    "seafood",
+    "crustaceans",
+    "רכיכות",
+    "סרטנים",
+    "פירות ים",
+  ],
+  soy: ["soy", "soya", "סויה"],
+  sesame: ["sesame", "שומשום"],
+};
+
+const synonymIndex = new Map<string, AllergenGroup>(
+  (Object.entries(ALLERGEN_SYNONYMS) as [AllergenGroup, string[]][]).flatMap(
+    ([group, synonyms]) =>
+      synonyms.map((synonym) => [synonym, group] as [string, AllergenGroup])
+  )
+);
+
+// Words that start like a keyword without belonging to its group
+const EXCEPTIONS: Partial<Record<FoodGroup, string[]>> = {
+  gluten: [
+    "rice noodle",
+    "soba noodle",
+    "glass noodle",
+    "אטריות אורז",
+    "אטריות שעועית",
+  ],
+  eggs: ["eggplant"],
+  tree_nuts: ["nutmeg", "nutritional"],
+  dairy: ["butternut", "cream of tartar"],
+  pork: ["hamburger"],
+};
+
+const HEBREW = /[\u0590-\u05FF]/;
+const HEBREW_PREFIX = /^[והבלמשכ]/;
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function words(text: string) {
+  return normalize(text)
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+}
+
+// True when `keyword` appears in `text` as described for KEYWORDS
+export function containsFoodTerm(text: string, keyword: string): boolean {
+  const exact = keyword.startsWith("=");
+  const needle = words(exact ? keyword.slice(1) : keyword);
+  const haystack = words(text);
+  if (needle.length === 0) return false;
+
+  const wordMatches = (word: string, part: string, whole: boolean) => {
+    const forms = [word];
+    if (HEBREW.test(part)) {
+      for (let form = word; HEBREW_PREFIX.test(form) && forms.length < 3;) {
+        form = form.slice(1);
+        forms.push(form);
+      }
+    }
+    return forms.some((form) =>
+      whole ? form === part : form.startsWith(part)
+    );
+  };
+
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    const matches = needle.every((part, j) =>
+      wordMatches(haystack[i + j], part, exact || j < needle.length - 1)
+    );
+    if (matches) return true;
+  }
+  return false;
+}
+
+// The allergen group a user-entered or AI-reported allergy refers to, e.g.
+// "Lactose" or "חלב" -> "dairy". Null when it names no known group.
+export function normalizeAllergen(value: string): AllergenGroup | null {
+  const cleaned = normalize(value)
+    .replace(/[^\p{L}\s]/gu, "")
+    .trim();
+  return synonymIndex.get(cleaned) || null;
+}
+
+// "Gluten-free", "nut free", "ללא גלוטן": the name says the food is made
+// without the group
+function isFreeOf(text: string, group: FoodGroup): boolean {
+  const terms = [
+    ...((ALLERGEN_SYNONYMS as Partial<Record<FoodGroup, string[]>>)[group] ||
+      []),
+    ...KEYWORDS[group].map((keyword) => keyword.replace(/^=/, "")),
+  ];
+  return terms.some(
+    (term) =>
+      containsFoodTerm(text, `=${term} free`) ||
+      containsFoodTerm(text, `ללא ${term}`)
+  );
+}
+
+// Every group the named food belongs to, leaving out groups it is
+// explicitly free of
+export function classifyFood(name: string): Set<FoodGroup> {
+  const groups = new Set<FoodGroup>();
+  for (const [group, keywords] of Object.entries(KEYWORDS) as [
+    FoodGroup,
+    string[],
+  ][]) {
+    let text = normalize(name);
+    for (const exception of EXCEPTIONS[group] || []) {
+      text = text.split(exception).join(" ");
+    }
+    if (
+      keywords.some((keyword) => containsFoodTerm(text, keyword)) &&
+      !isFreeOf(text, group)
+    ) {
+      groups.add(group);
+    }
+  }
+
+  // "Peanut butter", "coconut milk", "almond milk" and friends
+  if (groups.has("peanuts")) groups.delete("tree_nuts");
+  if (
+    groups.has("dairy") &&
+    /(coconut|almond|soy|oat|rice|peanut) (milk|butter|cream|yogurt)|חלב (קוקוס|שקדים|סויה|שיבולת)/.test(
+      normalize(name)
+    )
+  ) {
+    groups.delete("dairy");
+  }
+
+  return groups;
+}
@@ -0,0 +1,722 @@
+// Normalizes recipe-style ingredient quantities ("1 cup rice", "2 tomatoes",
+// "200 גרם אורז") so shopping lists can merge them into purchasable amounts.
+
+export type UnitDimension = "mass" | "volume" | "count";
+
+export interface IngredientInput {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  category?: string | null;
+  estimated_cost?: number | null;
+}
+
+export interface AggregatedIngredient {
+  key: string;
+  name: string;
+  category: string;
+  // Total needed, in g, ml or pieces
+  quantity: number;
+  unit: "g" | "ml" | "piece" | string;
+  // What to actually buy
+  purchase_quantity: number;
+  purchase_unit: string;
+  packages: number | null;
+  estimated_cost: number;
+  // Number of recipe lines merged into this item
+  occurrences: number;
+  // How much of the total the pantry already covers
+  pantry_deducted?: number;
+}
+
+interface IngredientProfile {
+  // Grams per millilitre, for converting cups and spoons to weight
+  density?: number;
+  // Typical weight of one piece, for converting "2 tomatoes" to weight
+  piece_g?: number;
+  // How the ingredient is sold: quantity is in the dimension's base unit
+  package?: { dimension: UnitDimension; size: number; label: string };
+  category?: string;
+}
+
+// Conversion factor to the dimension's base unit (g, ml or piece)
+const UNITS: Record<string, { dimension: UnitDimension; factor: number }> = {
+  g: { dimension: "mass", factor: 1 },
+  gr: { dimension: "mass", factor: 1 },
+  gram: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  kilo: { dimension: "mass", factor: 1000 },
+  mg: { dimension: "mass", factor: 0.001 },
+  oz: { dimension: "mass", factor: 28.35 },
+  lb: { dimension: "mass", factor: 453.6 },
+  גרם: { dimension: "mass", factor: 1 },
+  ג: { dimension: "mass", factor: 1 },
+  'ק"ג': { dimension: "mass", factor: 1000 },
+  קג: { dimension: "mass", factor: 1000 },
+  קילו: { dimension: "mass", factor: 1000 },
+
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  liter: { dimension: "volume", factor: 1000 },
+  litre: { dimension: "volume", factor: 1000 },
+  tsp: { dimension: "volume", factor: 5 },
+  teaspoon: { dimension: "volume", factor: 5 },
+  tbsp: { dimension: "volume", factor: 15 },
+  tablespoon: { dimension: "volume", factor: 15 },
+  cup: { dimension: "volume", factor: 240 },
+  "fl oz": { dimension: "volume", factor: 29.57 },
+  'מ"ל': { dimension: "volume", factor: 1 },
+  מל: { dimension: "volume", factor: 1 },
+  ליטר: { dimension: "volume", factor: 1000 },
+  כפית: { dimension: "volume", factor: 5 },
+  כפיות: { dimension: "volume", factor: 5 },
+  כף: { dimension: "volume", factor: 15 },
+  כפות: { dimension: "volume", factor: 15 },
+  כוס: { dimension: "volume", factor: 240 },
+  כוסות: { dimension: "volume", factor: 240 },
+
+  piece: { dimension: "count", factor: 1 },
+  pc: { dimension: "count", factor: 1 },
+  pcs: { dimension: "count", factor: 1 },
+  unit: { dimension: "count", factor: 1 },
+  item: { dimension: "count", factor: 1 },
+  whole: { dimension: "count", factor: 1 },
+  clove: { dimension: "count", factor: 1 },
+  slice: { dimension: "count", factor: 1 },
+  יחידה: { dimension: "count", factor: 1 },
+  יחידות: { dimension: "count", factor: 1 },
+  'יח"': { dimension: "count", factor: 1 },
+  יח: { dimension: "count", factor: 1 },
+  פרוסה: { dimension: "count", factor: 1 },
+  פרוסות: { dimension: "count", factor: 1 },
+  שן: { dimension: "count", factor: 1 },
+  שיניים: { dimension: "count", factor: 1 },
+};
+
+// Other spellings and translations of each canonical ingredient name
+const SYNONYMS: Record<string, string[]> = {
+  tomato: ["tomatoes", "עגבניה", "עגבנייה", "עגבניות"],
+  "cherry tomato": ["cherry tomatoes", "עגבניות שרי", "עגבניית שרי"],
+  cucumber: ["cucumbers", "מלפפון", "מלפפונים"],
+  onion: ["onions", "בצל", "בצלים"],
+  garlic: ["garlic clove", "garlic cloves", "שום", "שן שום", "שיני שום"],
+  potato: ["potatoes", "תפוח אדמה", "תפוחי אדמה"],
+  "sweet potato": ["sweet potatoes", "בטטה", "בטטות"],
+  carrot: ["carrots", "גזר"],
+  "bell pepper": [
+    "bell peppers",
+    "pepper",
+    "peppers",
+    "פלפל",
+    "פלפלים",
+    "פלפל אדום",
+  ],
+  broccoli: ["ברוקולי"],
+  spinach: ["baby spinach", "תרד"],
+  lettuce: ["חסה"],
+  avocado: ["avocados", "אבוקדו"],
+  lemon: ["lemons", "לימון", "לימונים"],
+  banana: ["bananas", "בננה", "בננות"],
+  apple: ["apples", "תפוח", "תפוחים"],
+  egg: ["eggs", "large egg", "large eggs", "ביצה", "ביצים"],
+  "chicken breast": ["chicken breasts", "chicken fillet", "חזה עוף"],
+  salmon: ["salmon fillet", "סלמון", "פילה סלמון"],
+  tuna: ["canned tuna", "טונה"],
+  tofu: ["טופו"],
+  rice: ["white rice", "brown rice", "אורז", "אורז לבן", "אורז מלא"],
+  quinoa: ["קינואה"],
+  oats: ["oat", "rolled oats", "oatmeal", "שיבולת שועל"],
+  pasta: ["פסטה"],
+  bread: ["whole wheat bread", "לחם", "לחם מלא"],
+  lentils: ["lentil", "red lentils", "עדשים"],
+  chickpeas: ["chickpea", "חומוס", "גרגרי חומוס"],
+  flour: ["all-purpose flour", "קמח"],
+  sugar: ["סוכר"],
+  honey: ["דבש"],
+  milk: ["חלב"],
+  yogurt: ["greek yogurt", "natural yogurt", "יוגורט", "יוגורט יווני"],
+  "cottage cheese": ["קוטג'", "גבינת קוטג'"],
+  cheese: ["גבינה", "גבינה צהובה"],
+  butter: ["חמאה"],
+  "olive oil": ["extra virgin olive oil", "שמן זית"],
+  oil: ["vegetable oil", "canola oil", "שמן", "שמן קנולה"],
+  tahini: ["טחינה"],
+  almonds: ["almond", "שקדים"],
+  walnuts: ["walnut", "אגוזי מלך"],
+  salt: ["מלח"],
+  water: ["מים"],
+};
+
+const PROFILES: Record<string, IngredientProfile> = {
+  tomato: {
+    piece_g: 120,
+    package: { dimension: "mass", size: 1000, label: "1 kg" },
+    category: "vegetable",
+  },
+  "cherry tomato": {
+    piece_g: 15,
+    package: { dimension: "mass", size: 250, label: "250 g box" },
+    category: "vegetable",
+  },
+  cucumber: { piece_g: 150, category: "vegetable" },
+  onion: {
+    piece_g: 150,
+    package: { dimension: "mass", size: 1000, label: "1 kg" },
+    category: "vegetable",
+  },
+  garlic: {
+    piece_g: 5,
+    package: { dimension: "count", size: 10, label: "head" },
+    category: "vegetable",
+  },
+  potato: {
+    piece_g: 200,
+    package: { dimension: "mass", size: 1000, label: "1 kg" },
+    category: "vegetable",
+  },
+  "sweet potato": { piece_g: 250, category: "vegetable" },
+  carrot: {
+    piece_g: 70,
+    package: { dimension: "mass", size: 1000, label: "1 kg" },
+    category: "vegetable",
+  },
+  "bell pepper": { piece_g: 160, category: "vegetable" },
+  broccoli: { piece_g: 500, density: 0.38, category: "vegetable" },
+  spinach: {
+    density: 0.12,
+    package: { dimension: "mass", size: 200, label: "200 g bag" },
+    category: "vegetable",
+  },
+  lettuce: { piece_g: 400, density: 0.2, category: "vegetable" },
+  avocado: { piece_g: 170, category: "fruit" },
+  lemon: { piece_g: 100, category: "fruit" },
+  banana: { piece_g: 120, category: "fruit" },
+  apple: { piece_g: 180, category: "fruit" },
+  egg: {
+    piece_g: 50,
+    package: { dimension: "count", size: 12, label: "dozen" },
+    category: "protein",
+  },
+  "chicken breast": { piece_g: 200, category: "protein" },
+  salmon: { piece_g: 150, category: "protein" },
+  tuna: {
+    piece_g: 160,
+    package: { dimension: "mass", size: 160, label: "can" },
+    category: "protein",
+  },
+  tofu: {
+    package: { dimension: "mass", size: 300, label: "300 g pack" },
+    category: "protein",
+  },
+  rice: {
+    density: 0.85,
+    package: { dimension: "mass", size: 1000, label: "1 kg bag" },
+    category: "grain",
+  },
+  quinoa: {
+    density: 0.72,
+    package: { dimension: "mass", size: 500, label: "500 g bag" },
+    category: "grain",
+  },
+  oats: {
+    density: 0.35,
+    package: { dimension: "mass", size: 500, label: "500 g bag" },
+    category: "grain",
+  },
+  pasta: {
+    density: 0.45,
+    package: { dimension: "mass", size: 500, label: "500 g pack" },
+    category: "grain",
+  },
+  bread: {
+    piece_g: 30,
+    package: { dimension: "mass", size: 750, label: "loaf" },
+    category: "grain",
+  },
+  lentils: {
+    density: 0.8,
+    package: { dimension: "mass", size: 500, label: "500 g bag" },
+    category: "protein",
+  },
+  chickpeas: {
+    density: 0.75,
+    package: { dimension: "mass", size: 500, label: "500 g bag" },
+    category: "protein",
+  },
+  flour: {
+    density: 0.53,
+    package: { dimension: "mass", size: 1000, label: "1 kg bag" },
+    category: "grain",
+  },
+  sugar: {
+    density: 0.85,
+    package: { dimension: "mass", size: 1000, label: "1 kg bag" },
+    category: "other",
+  },
+  honey: {
+    density: 1.42,
+    package: { dimension: "mass", size: 500, label: "500 g jar" },
+    category: "other",
+  },
+  milk: {
+    density: 1.03,
+    package: { dimension: "volume", size: 1000, label: "1 L carton" },
+    category: "dairy",
+  },
+  yogurt: {
+    density: 1.03,
+    package: { dimension: "mass", size: 200, label: "200 g cup" },
+    category: "dairy",
+  },
+  "cottage cheese": {
+    density: 0.95,
+    package: { dimension: "mass", size: 250, label: "250 g tub" },
+    category: "dairy",
+  },
+  cheese: {
+    density: 0.45,
+    piece_g: 20,
+    package: { dimension: "mass", size: 200, label: "200 g pack" },
+    category: "dairy",
+  },
+  butter: {
+    density: 0.91,
+    package: { dimension: "mass", size: 200, label: "200 g pack" },
+    category: "dairy",
+  },
+  "olive oil": {
+    density: 0.91,
+    package: { dimension: "volume", size: 750, label: "750 ml bottle" },
+    category: "fat",
+  },
+  oil: {
+    density: 0.92,
+    package: { dimension: "volume", size: 1000, label: "1 L bottle" },
+    category: "fat",
+  },
+  tahini: {
+    density: 1.05,
+    package: { dimension: "mass", size: 500, label: "500 g jar" },
+    category: "fat",
+  },
+  almonds: {
+    density: 0.6,
+    package: { dimension: "mass", size: 200, label: "200 g bag" },
+    category: "fat",
+  },
+  walnuts: {
+    density: 0.5,
+    package: { dimension: "mass", size: 200, label: "200 g bag" },
+    category: "fat",
+  },
+  salt: {
+    density: 1.2,
+    package: { dimension: "mass", size: 1000, label: "1 kg" },
+    category: "other",
+  },
+  water: { density: 1 },
+};
+
+// Rough prices per kg, litre or piece, used when the ingredient came
+// without a cost estimate
+const PRICE_PER_BASE_UNIT: Record<string, Record<UnitDimension, number>> = {
+  protein: { mass: 0.04, volume: 0.04, count: 1.5 },
+  vegetable: { mass: 0.01, volume: 0.01, count: 1 },
+  fruit: { mass: 0.012, volume: 0.012, count: 1.5 },
+  grain: { mass: 0.01, volume: 0.01, count: 1 },
+  dairy: { mass: 0.025, volume: 0.008, count: 2 },
+  fat: { mass: 0.04, volume: 0.04, count: 2 },
+  other: { mass: 0.02, volume: 0.02, count: 2 },
+};
+
+// Mass <-> volume for ingredients without a density entry
+const DEFAULT_DENSITY = 1;
+
+const BASE_UNITS: Record<UnitDimension, "g" | "ml" | "piece"> = {
+  mass: "g",
+  volume: "ml",
+  count: "piece",
+};
+
+const synonymIndex = new Map<string, string>();
+for (const [canonical, synonyms] of Object.entries(SYNONYMS)) {
+  synonymIndex.set(canonical, canonical);
+  for (const synonym of synonyms) synonymIndex.set(synonym, canonical);
+}
+
+function cleanName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .replace(/[^\p{L}\p{N}'"\s-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// English plural -> singular; Hebrew plurals are irregular enough that they
+// are only matched through the synonym table
+function singularize(word: string): string {
+  if (/[^a-z]/.test(word) || word.length <= 3) return word;
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (/(oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// The key ingredients are merged by: "Tomatoes", "tomato" and "עגבניות"
+// all become "tomato"
+export function canonicalIngredientName(name: string): string {
+  const cleaned = cleanName(name);
+  if (!cleaned) return "unknown";
+
+  const direct = synonymIndex.get(cleaned);
+  if (direct) return direct;
+
+  const words = cleaned.split(" ");
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  const singular = words.join(" ");
+  return synonymIndex.get(singular) || singular;
+}
+
+export function normalizeUnit(
+  unit: string | null | undefined
+): { dimension: UnitDimension; factor: number } | null {
+  if (!unit) return { dimension: "count", factor: 1 };
+
+  const cleaned = unit.toLowerCase().replace(/\.$/, "").trim();
+  return UNITS[cleaned] || UNITS[singularize(cleaned)] || null;
+}
+
+// Converts an amount between dimensions using the ingredient's density and
+// piece weight. Returns null when there is no sensible conversion.
+function convert(
+  amount: number,
+  from: UnitDimension,
+  to: UnitDimension,
+  profile: IngredientProfile
+): number | null {
+  if (from === to) return amount;
+
+  const density = profile.density ?? DEFAULT_DENSITY;
+  let grams: number | null;
+  switch (from) {
+    case "mass":
+      grams = amount;
+      break;
+    case "volume":
+      grams = amount * density;
+      break;
+    case "count":
+      grams = profile.piece_g ? amount * profile.piece_g : null;
+      break;
+  }
+  if (grams === null) return null;
+
+  switch (to) {
+    case "mass":
+      return grams;
+    case "volume":
+      return grams / density;
+    case "count":
+      return profile.piece_g ? grams / profile.piece_g : null;
+  }
+}
+
+// Rounds up to what can be bought: whole packages when the ingredient has a
+// known package size, otherwise 50 g/ml steps (250 g above 1 kg) or whole
+// pieces
+function roundToPurchasable(
+  quantity: number,
+  dimension: UnitDimension,
+  profile: IngredientProfile
+): { quantity: number; unit: string; packages: number | null } {
+  const pkg = profile.package;
+  if (pkg && pkg.dimension === dimension) {
+    const packages = Math.max(1, Math.ceil(quantity / pkg.size - 0.05));
+    return { quantity: packages, unit: pkg.label, packages };
+  }
+
+  if (dimension === "count") {
+    return {
+      quantity: Math.max(1, Math.ceil(quantity)),
+      unit: "piece",
+      packages: null,
+    };
+  }
+
+  const step = quantity > 1000 ? 250 : 50;
+  const rounded = Math.max(step, Math.ceil(quantity / step) * step);
+  if (rounded >= 1000) {
+    return {
+      quantity: rounded / 1000,
+      unit: dimension === "mass" ? "kg" : "l",
+      packages: null,
+    };
+  }
+  return { quantity: rounded, unit: BASE_UNITS[dimension], packages: null };
+}
+
+function estimateCost(
+  quantity: number,
+  dimension: UnitDimension,
+  category: string
+): number {
+  const prices = PRICE_PER_BASE_UNIT[category] || PRICE_PER_BASE_UNIT.other;
+  return Math.max(1, Math.round(quantity * prices[dimension] * 10) / 10);
+}
+
+// The dimension an ingredient is totalled in: how it is sold when known,
+// otherwise the unit it was first listed in
+function preferredDimension(
+  profile: IngredientProfile,
+  first: UnitDimension
+): UnitDimension {
+  if (profile.package) return profile.package.dimension;
+  if (first === "count" && profile.piece_g) return "mass";
+  return first;
+}
+
+// Merges ingredient lines from several meals into one shopping list entry per
+// ingredient, converting between units where the ingredient allows it
+export function aggregateIngredients(
+  inputs: IngredientInput[]
+): AggregatedIngredient[] {
+  const groups = new Map<
+    string,
+    {
+      key: string;
+      name: string;
+      category: string | null;
+      dimension: UnitDimension | null;
+      rawUnit: string | null;
+      quantity: number;
+      cost: number;
+      costed: boolean;
+      occurrences: number;
+    }
+  >();
+
+  for (const input of inputs) {
+    if (!input.name?.trim()) continue;
+
+    const key = canonicalIngredientName(input.name);
+    const profile = PROFILES[key] || {};
+    const unit = normalizeUnit(input.unit);
+    const count = input.quantity && input.quantity > 0 ? input.quantity : 1;
+
+    // Unknown units can't be converted, so they only merge with the same
+    // unit; so do amounts that can't be converted to the ingredient's
+    // dimension, such as "2 pieces" of something without a piece weight
+    let groupKey = `${key}|${input.unit?.toLowerCase().trim()}`;
+    let dimension: UnitDimension | null = null;
+    let amount = count;
+    if (unit) {
+      const target =
+        groups.get(key)?.dimension ??
+        preferredDimension(profile, unit.dimension);
+      const converted = convert(
+        count * unit.factor,
+        unit.dimension,
+        target,
+        profile
+      );
+
+      groupKey = converted === null ? `${key}|${unit.dimension}` : key;
+      dimension = converted === null ? unit.dimension : target;
+      amount = converted ?? count * unit.factor;
+    }
+
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        key,
+        name: input.name.trim(),
+        category: input.category || profile.category || null,
+        dimension,
+        rawUnit: unit ? null : input.unit!.trim(),
+        quantity: 0,
+        cost: 0,
+        costed: true,
+        occurrences: 0,
+      };
+      groups.set(groupKey, group);
+    }
+
+    group.quantity += amount;
+    group.category = group.category || input.category || null;
+    group.occurrences++;
+    if (input.estimated_cost && input.estimated_cost > 0) {
+      group.cost += input.estimated_cost;
+    } else {
+      group.costed = false;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const category = group.category || "other";
+      const estimatedCost = group.costed
+        ? Math.round(group.cost * 100) / 100
+        : null;
+
+      return toShoppingItem(group, category, estimatedCost);
+    })
+    .sort(
+      (a, b) =>
+        a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+    );
+}
+
+// Subtracts what the user already has at home. Items the pantry fully covers
+// are dropped; partly covered ones keep the remainder.
+export function deductPantry(
+  items: AggregatedIngredient[],
+  pantry: IngredientInput[]
+): AggregatedIngredient[] {
+  // Remaining stock per ingredient, in each entry's own base unit
+  const stock = new Map<
+    string,
+    { dimension: UnitDimension | null; rawUnit: string; amount: number }[]
+  >();
+  for (const entry of pantry) {
+    if (!entry.name?.trim() || !entry.quantity || entry.quantity <= 0) continue;
+
+    const key = canonicalIngredientName(entry.name);
+    const unit = normalizeUnit(entry.unit);
+    const entries = stock.get(key) || [];
+    entries.push({
+      dimension: unit?.dimension ?? null,
+      rawUnit: (entry.unit || "").toLowerCase().trim(),
+      amount: entry.quantity * (unit?.factor ?? 1),
+    });
+    stock.set(key, entries);
+  }
+
+  const result: AggregatedIngredient[] = [];
+  for (const item of items) {
+    const entries = stock.get(item.key);
+    if (!entries) {
+      result.push(item);
+      continue;
+    }
+
+    const profile = PROFILES[item.key] || {};
+    const dimension = normalizeUnit(item.unit)?.dimension ?? null;
+    let needed = item.quantity;
+
+    for (const entry of entries) {
+      if (needed <= 0 || entry.amount <= 0) continue;
+
+      if (!dimension || !entry.dimension) {
+        if (entry.rawUnit !== item.unit.toLowerCase().trim()) continue;
+        const used = Math.min(entry.amount, needed);
+        entry.amount -= used;
+        needed -= used;
+        continue;
+      }
+
+      const available = convert(
+        entry.amount,
+        entry.dimension,
+        dimension,
+        profile
+      );
+      if (available === null) continue;
+      const used = Math.min(available, needed);
+      entry.amount -= convert(used, dimension, entry.dimension, profile)!;
+      needed -= used;
+    }
+
+    if (needed <= 0.05) continue;
+    if (needed === item.quantity) {
+      result.push(item);
+      continue;
+    }
+
+    const group = {
+      key: item.key,
+      name: item.name,
+      dimension,
+      rawUnit: dimension ? null : item.unit,
+      occurrences: item.occurrences,
+    };
+    const remaining = toShoppingItem(
+      { ...group, quantity: needed },
+      item.category,
+      null
+    );
+    // Scale the original cost by how much less is bought
+    const before = toShoppingItem(
+      { ...group, quantity: item.quantity },
+      item.category,
+      null
+    );
+
+    result.push({
+      ...remaining,
+      estimated_cost:
+        Math.round(
+          ((item.estimated_cost * remaining.estimated_cost) /
+            before.estimated_cost) *
+            100
+        ) / 100,
+      pantry_deducted: Math.round((item.quantity - needed) * 10) / 10,
+    });
+  }
+
+  return result;
+}
+
+// Turns a merged quantity into a list entry with what to buy and its cost;
+// without a known cost, one is estimated from what is bought
+function toShoppingItem(
+  group: {
+    key: string;
+    name: string;
+    dimension: UnitDimension | null;
+    rawUnit: string | null;
+    quantity: number;
+    occurrences: number;
+  },
+  category: string,
+  estimatedCost: number | null
+): AggregatedIngredient {
+  const profile = PROFILES[group.key] || {};
+  const quantity = Math.round(group.quantity * 10) / 10;
+
+  if (!group.dimension) {
+    return {
+      key: group.key,
+      name: group.name,
+      category,
+      quantity,
+      unit: group.rawUnit!,
+      purchase_quantity: Math.ceil(quantity),
+      purchase_unit: group.rawUnit!,
+      packages: null,
+      estimated_cost:
+        estimatedCost ?? estimateCost(quantity, "count", category),
+      occurrences: group.occurrences,
+    };
+  }
+
+  const purchase = roundToPurchasable(group.quantity, group.dimension, profile);
+  const purchasedAmount =
+    purchase.packages !== null
+      ? purchase.packages * profile.package!.size
+      : group.quantity;
+
+  return {
+    key: group.key,
+    name: group.name,
+    category,
+    quantity,
+    unit: BASE_UNITS[group.dimension],
+    purchase_quantity: purchase.quantity,
+    purchase_unit: purchase.unit,
+    packages: purchase.packages,
+    estimated_cost:
+      estimatedCost ?? estimateCost(purchasedAmount, group.dimension, category),
+    occurrences: group.occurrences,
+  };
+}
@@ -0,0 +1,139 @@
+import { ProductData } from "../types/foodScanner";
+
+type NutritionPer100g = Partial<ProductData["nutrition_per_100g"]>;
+
+// Nutrient totals keyed like the Meal columns they end up in
+export interface MealNutrients {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  saturated_fats_g: number | null;
+  cholesterol_mg: number | null;
+  serving_size_g: number;
+  vitamins_json: Record<string, number | null>;
+  micronutrients_json: Record<string, number | null>;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function scale(value: number | undefined | null, factor: number) {
+  return value === undefined || value === null ? null : round1(value * factor);
+}
+
+function add(a: number | null, b: number | null) {
+  if (a === null) return b;
+  if (b === null) return a;
+  return round1(a + b);
+}
+
+function addRecords(
+  a: Record<string, number | null>,
+  b: Record<string, number | null>
+) {
+  const result: Record<string, number | null> = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    result[key] = add(result[key] ?? null, value);
+  }
+  return result;
+}
+
+export function emptyMealNutrients(): MealNutrients {
+  return {
+    calories: 0,
+    protein_g: 0,
+    carbs_g: 0,
+    fats_g: 0,
+    fiber_g: null,
+    sugar_g: null,
+    sodium_mg: null,
+    saturated_fats_g: null,
+    cholesterol_mg: null,
+    serving_size_g: 0,
+    vitamins_json: {},
+    micronutrients_json: {},
+  };
+}
+
+// Nutrients for `grams` of a food described per 100g (sodium, cholesterol and
+// minerals in mg, vitamin D in µg)
+export function nutrientsForGrams(
+  per100g: NutritionPer100g,
+  grams: number
+): MealNutrients {
+  const factor = grams / 100;
+
+  return {
+    calories: scale(per100g.calories, factor) || 0,
+    protein_g: scale(per100g.protein, factor) || 0,
+    carbs_g: scale(per100g.carbs, factor) || 0,
+    fats_g: scale(per100g.fat, factor) || 0,
+    fiber_g: scale(per100g.fiber, factor),
+    sugar_g: scale(per100g.sugar, factor),
+    sodium_mg: scale(per100g.sodium, factor),
+    saturated_fats_g: scale(per100g.saturated_fat, factor),
+    cholesterol_mg: scale(per100g.cholesterol, factor),
+    serving_size_g: round1(grams),
+    vitamins_json: {
+      vitamin_c_mg: scale(per100g.vitamin_c, factor),
+      vitamin_d_mcg: scale(per100g.vitamin_d, factor),
+    },
+    micronutrients_json: {
+      potassium_mg: scale(per100g.potassium, factor),
+      calcium_mg: scale(per100g.calcium, factor),
+      iron_mg: scale(per100g.iron, factor),
+      trans_fat_g: scale(per100g.trans_fat, factor),
+    },
+  };
+}
+
+export function sumMealNutrients(items: MealNutrients[]): MealNutrients {
+  return items.reduce(
+    (total, item) => ({
+      calories: round1(total.calories + item.calories),
+      protein_g: round1(total.protein_g + item.protein_g),
+      carbs_g: round1(total.carbs_g + item.carbs_g),
+      fats_g: round1(total.fats_g + item.fats_g),
+      fiber_g: add(total.fiber_g, item.fiber_g),
+      sugar_g: add(total.sugar_g, item.sugar_g),
+      sodium_mg: add(total.sodium_mg, item.sodium_mg),
+      saturated_fats_g: add(total.saturated_fats_g, item.saturated_fats_g),
+      cholesterol_mg: add(total.cholesterol_mg, item.cholesterol_mg),
+      serving_size_g: round1(total.serving_size_g + item.serving_size_g),
+      vitamins_json: addRecords(total.vitamins_json, item.vitamins_json),
+      micronutrients_json: addRecords(
+        total.micronutrients_json,
+        item.micronutrients_json
+      ),
+    }),
+    emptyMealNutrients()
+  );
+}
+
+export function scaleMealNutrients(
+  nutrients: MealNutrients,
+  factor: number
+): MealNutrients {
+  const scaleRecord = (record: Record<string, number | null>) =>
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, scale(value, factor)])
+    );
+
+  return {
+    calories: round1(nutrients.calories * factor),
+    protein_g: round1(nutrients.protein_g * factor),
+    carbs_g: round1(nutrients.carbs_g * factor),
+    fats_g: round1(nutrients.fats_g * factor),
+    fiber_g: scale(nutrients.fiber_g, factor),
+    sugar_g: scale(nutrients.sugar_g, factor),
+    sodium_mg: scale(nutrients.sodium_mg, factor),
+    saturated_fats_g: scale(nutrients.saturated_fats_g, factor),
+    cholesterol_mg: scale(nutrients.cholesterol_mg, factor),
+    serving_size_g: round1(nutrients.serving_size_g * factor),
+    vitamins_json: scaleRecord(nutrients.vitamins_json),
+    micronutrients_json: scaleRecord(nutrients.micronutrients_json),
+  };
+}
@@ -0,0 +1,423 @@
+import { MealPlanSlotStatus, MealTiming } from "@prisma/client";
+import { MEAL_TIMING_ORDER, inferMealTiming } from "./mealTiming";
+import { localDateKey } from "./timeZone";
+
+// Matches what the user actually logged against the slots a meal plan
+// scheduled for each calendar day.
+
+// A logged meal this similar to a slot counts for it even when it was eaten
+// at another time of day
+const SIMILARITY_MATCH = 0.85;
+// Macros below this many grams are compared against it instead, so a 2 g
+// difference on a 1 g target doesn't count as a 200% miss
+const MIN_MACRO_SCALE = 10;
+const OPTIONAL_SLOT_PENALTY = 0.25;
+
+const SNACK_TIMINGS: MealTiming[] = [
+  "SNACK",
+  "MORNING_SNACK",
+  "AFTERNOON_SNACK",
+];
+
+export interface AdherenceSlot {
+  schedule_id: string;
+  day_of_week: number;
+  meal_timing: MealTiming;
+  meal_order: number;
+  is_optional: boolean;
+  name: string;
+  // Planned amounts, already scaled by the slot's portion multiplier
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+}
+
+export interface AdherenceMeal {
+  meal_id: number;
+  eaten_at: Date;
+  meal_timing: MealTiming | null;
+  meal_name: string | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fats_g: number | null;
+}
+
+export interface SlotConfirmation {
+  schedule_id: string;
+  // YYYY-MM-DD
+  date: string;
+  status: MealPlanSlotStatus;
+  meal_id: number | null;
+}
+
+export type SlotMatchType = "confirmed" | "time_window" | "similarity";
+
+export interface SlotAdherence {
+  schedule_id: string;
+  meal_timing: MealTiming;
+  meal_order: number;
+  name: string;
+  is_optional: boolean;
+  // Pending slots are today's slots nothing has matched yet
+  status: "eaten" | "skipped" | "pending";
+  match_type: SlotMatchType | null;
+  meal_id: number | null;
+  meal_name: string | null;
+  planned_calories: number;
+  actual_calories: number | null;
+  calorie_deviation: number | null;
+}
+
+export interface DayAdherence {
+  date: string;
+  day_of_week: number;
+  slots: SlotAdherence[];
+  // Counts leave out optional slots
+  scheduled_count: number;
+  completed_count: number;
+  skipped_count: number;
+  pending_count: number;
+  completion_rate: number;
+  planned_calories: number;
+  // Everything logged that day, in or out of the plan
+  consumed_calories: number;
+  calorie_deviation: number;
+  calorie_deviation_percentage: number;
+  unplanned_meal_count: number;
+}
+
+export interface MealTimingAdherence {
+  scheduled: number;
+  completed: number;
+  skipped: number;
+  completion_rate: number;
+}
+
+export interface PlanAdherence {
+  from: string;
+  to: string;
+  days: DayAdherence[];
+  summary: {
+    days_tracked: number;
+    scheduled_slots: number;
+    completed_slots: number;
+    skipped_slots: number;
+    pending_slots: number;
+    adherence_percentage: number;
+    average_calorie_deviation: number;
+    average_calorie_deviation_percentage: number;
+    fully_completed_days: number;
+    by_meal_timing: Partial<Record<MealTiming, MealTimingAdherence>>;
+  };
+}
+
+export interface AdherenceInput {
+  slots: AdherenceSlot[];
+  meals: AdherenceMeal[];
+  confirmations: SlotConfirmation[];
+  // Inclusive YYYY-MM-DD range; days after `today` are not reported
+  from: string;
+  to: string;
+  today: string;
+  // The questionnaire's usual meal times, for meals logged without a type
+  mealTimes?: string | null;
+  // The user's zone; meals belong to the local day and time they were eaten
+  timeZone?: string | null;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function computeAdherence(input: AdherenceInput): PlanAdherence {
+  const mealsById = new Map(input.meals.map((meal) => [meal.meal_id, meal]));
+  const mealsByDay = new Map<string, AdherenceMeal[]>();
+  for (const meal of input.meals) {
+    const date = localDateKey(meal.eaten_at, input.timeZone || undefined);
+    mealsByDay.set(date, [...(mealsByDay.get(date) || []), meal]);
+  }
+  const confirmations = new Map(
+    input.confirmations.map((c) => [`${c.schedule_id}:${c.date}`, c])
+  );
+  // A meal confirmed for one slot can't also match another, on any day
+  const confirmedMealIds = input.confirmations
+    .map((c) => c.meal_id)
+    .filter((id): id is number => id !== null);
+
+  const last = input.to < input.today ? input.to : input.today;
+  const days: DayAdherence[] = [];
+  for (const date of dateRange(input.from, last)) {
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const slots = input.slots
+      .filter((slot) => slot.day_of_week === dayOfWeek)
+      .sort(
+        (a, b) =>
+          MEAL_TIMING_ORDER.indexOf(a.meal_timing) -
+            MEAL_TIMING_ORDER.indexOf(b.meal_timing) ||
+          a.meal_order - b.meal_order
+      );
+
+    days.push(
+      scoreDay(
+        date,
+        dayOfWeek,
+        slots,
+        mealsByDay.get(date) || [],
+        (slot) => confirmations.get(`${slot.schedule_id}:${date}`),
+        mealsById,
+        confirmedMealIds,
+        date === input.today,
+        input.mealTimes,
+        input.timeZone
+      )
+    );
+  }
+
+  return { from: input.from, to: last, days, summary: summarize(days) };
+}
+
+function scoreDay(
+  date: string,
+  dayOfWeek: number,
+  slots: AdherenceSlot[],
+  meals: AdherenceMeal[],
+  confirmationFor: (slot: AdherenceSlot) => SlotConfirmation | undefined,
+  mealsById: Map<number, AdherenceMeal>,
+  confirmedMealIds: number[],
+  isToday: boolean,
+  mealTimes?: string | null,
+  timeZone?: string | null
+): DayAdherence {
+  const results = new Map<string, SlotAdherence>();
+  const usedMeals = new Set<number>(confirmedMealIds);
+
+  // Explicit confirmations win over anything inferred
+  for (const slot of slots) {
+    const confirmation = confirmationFor(slot);
+    if (!confirmation) continue;
+
+    const meal =
+      confirmation.meal_id !== null
+        ? mealsById.get(confirmation.meal_id)
+        : undefined;
+    results.set(
+      slot.schedule_id,
+      confirmation.status === "SKIPPED"
+        ? slotResult(slot, "skipped", null)
+        : slotResult(slot, "eaten", "confirmed", meal)
+    );
+  }
+
+  // Then the best remaining slot/meal pairs, strongest match first
+  const candidates: {
+    slot: AdherenceSlot;
+    meal: AdherenceMeal;
+    score: number;
+    type: SlotMatchType;
+  }[] = [];
+  for (const slot of slots) {
+    if (results.has(slot.schedule_id)) continue;
+    for (const meal of meals) {
+      if (usedMeals.has(meal.meal_id)) continue;
+
+      const similarity = mealSimilarity(slot, meal);
+      const timing =
+        meal.meal_timing || inferMealTiming(meal.eaten_at, mealTimes, timeZone);
+      // Required slots take their meals before optional ones
+      const priority = slot.is_optional ? OPTIONAL_SLOT_PENALTY : 0;
+      if (sameMealTime(slot.meal_timing, timing)) {
+        candidates.push({
+          slot,
+          meal,
+          score: 0.5 + similarity / 2 - priority,
+          type: "time_window",
+        });
+      } else if (similarity >= SIMILARITY_MATCH) {
+        candidates.push({
+          slot,
+          meal,
+          score: similarity - priority,
+          type: "similarity",
+        });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  for (const candidate of candidates) {
+    if (
+      results.has(candidate.slot.schedule_id) ||
+      usedMeals.has(candidate.meal.meal_id)
+    ) {
+      continue;
+    }
+    usedMeals.add(candidate.meal.meal_id);
+    results.set(
+      candidate.slot.schedule_id,
+      slotResult(candidate.slot, "eaten", candidate.type, candidate.meal)
+    );
+  }
+
+  const slotResults = slots.map(
+    (slot) =>
+      results.get(slot.schedule_id) ||
+      slotResult(slot, isToday ? "pending" : "skipped", null)
+  );
+  const counted = slotResults.filter((slot) => !slot.is_optional);
+  const completed = counted.filter((slot) => slot.status === "eaten").length;
+  const skipped = counted.filter((slot) => slot.status === "skipped").length;
+  const pending = counted.filter((slot) => slot.status === "pending").length;
+
+  const plannedCalories = round(
+    counted.reduce((sum, slot) => sum + slot.planned_calories, 0)
+  );
+  const consumedCalories = round(
+    meals.reduce((sum, meal) => sum + (meal.calories || 0), 0) +
+      // Slots confirmed without a logged meal were eaten as planned
+      slotResults
+        .filter((slot) => slot.match_type === "confirmed" && !slot.meal_id)
+        .reduce((sum, slot) => sum + slot.planned_calories, 0)
+  );
+  const deviation = round(consumedCalories - plannedCalories);
+
+  return {
+    date,
+    day_of_week: dayOfWeek,
+    slots: slotResults,
+    scheduled_count: counted.length,
+    completed_count: completed,
+    skipped_count: skipped,
+    pending_count: pending,
+    completion_rate: percentage(completed, counted.length - pending),
+    planned_calories: plannedCalories,
+    consumed_calories: consumedCalories,
+    calorie_deviation: deviation,
+    calorie_deviation_percentage: percentage(deviation, plannedCalories),
+    unplanned_meal_count: meals.filter((meal) => !usedMeals.has(meal.meal_id))
+      .length,
+  };
+}
+
+function slotResult(
+  slot: AdherenceSlot,
+  status: SlotAdherence["status"],
+  matchType: SlotMatchType | null,
+  meal?: AdherenceMeal
+): SlotAdherence {
+  const actual =
+    status !== "eaten" ? null : meal ? meal.calories : slot.calories;
+
+  return {
+    schedule_id: slot.schedule_id,
+    meal_timing: slot.meal_timing,
+    meal_order: slot.meal_order,
+    name: slot.name,
+    is_optional: slot.is_optional,
+    status,
+    match_type: matchType,
+    meal_id: meal?.meal_id ?? null,
+    meal_name: meal?.meal_name ?? null,
+    planned_calories: round(slot.calories),
+    actual_calories: actual === null ? null : round(actual),
+    calorie_deviation: actual === null ? null : round(actual - slot.calories),
+  };
+}
+
+function sameMealTime(planned: MealTiming, eaten: MealTiming) {
+  return (
+    planned === eaten ||
+    (SNACK_TIMINGS.includes(planned) && SNACK_TIMINGS.includes(eaten))
+  );
+}
+
+// 0 to 1: how close the meal's calories and macros are to the slot's
+function mealSimilarity(slot: AdherenceSlot, meal: AdherenceMeal) {
+  if (!(slot.calories > 0) || meal.calories === null) return 0;
+
+  const calorieScore = closeness(meal.calories, slot.calories, 1);
+  const macroScores = (["protein_g", "carbs_g", "fats_g"] as const)
+    .filter((macro) => slot[macro] > 0 && meal[macro] !== null)
+    .map((macro) => closeness(meal[macro]!, slot[macro], MIN_MACRO_SCALE));
+
+  if (macroScores.length === 0) return calorieScore;
+  const macroScore =
+    macroScores.reduce((sum, score) => sum + score, 0) / macroScores.length;
+  return calorieScore * 0.6 + macroScore * 0.4;
+}
+
+function closeness(actual: number, planned: number, minScale: number) {
+  return Math.max(
+    0,
+    1 - Math.abs(actual - planned) / Math.max(planned, minScale)
+  );
+}
+
+function summarize(days: DayAdherence[]): PlanAdherence["summary"] {
+  const byTiming: Partial<Record<MealTiming, MealTimingAdherence>> = {};
+  for (const slot of days.flatMap((day) => day.slots)) {
+    if (slot.is_optional || slot.status === "pending") continue;
+
+    const stats = (byTiming[slot.meal_timing] ||= {
+      scheduled: 0,
+      completed: 0,
+      skipped: 0,
+      completion_rate: 0,
+    });
+    stats.scheduled++;
+    if (slot.status === "eaten") stats.completed++;
+    else stats.skipped++;
+  }
+  for (const stats of Object.values(byTiming)) {
+    stats!.completion_rate = percentage(stats!.completed, stats!.scheduled);
+  }
+
+  // Today only counts once it is over
+  const finished = days.filter((day) => day.pending_count === 0);
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const completed = sum(days.map((day) => day.completed_count));
+  const skipped = sum(days.map((day) => day.skipped_count));
+
+  return {
+    days_tracked: days.length,
+    scheduled_slots: sum(days.map((day) => day.scheduled_count)),
+    completed_slots: completed,
+    skipped_slots: skipped,
+    pending_slots: sum(days.map((day) => day.pending_count)),
+    adherence_percentage: percentage(completed, completed + skipped),
+    average_calorie_deviation: finished.length
+      ? round(
+          sum(finished.map((day) => day.calorie_deviation)) / finished.length
+        )
+      : 0,
+    average_calorie_deviation_percentage: finished.length
+      ? round(
+          sum(finished.map((day) => day.calorie_deviation_percentage)) /
+            finished.length
+        )
+      : 0,
+    fully_completed_days: finished.filter(
+      (day) => day.scheduled_count > 0 && day.skipped_count === 0
+    ).length,
+    by_meal_timing: byTiming,
+  };
+}
+
+function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (current <= end) {
+    dates.push(toDateKey(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+function percentage(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
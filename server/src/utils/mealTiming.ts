@@ -0,0 +1,125 @@
+import { MealTiming } from "@prisma/client";
+import { localMinutes } from "./timeZone";
+
+// A logged meal counts as one of the user's usual meals when it is this
+// close to one of their questionnaire meal times
+const MATCH_WINDOW_MINUTES = 90;
+
+// Used when the user has no usual meal time near the logged time
+const DEFAULT_WINDOWS: { until: number; timing: MealTiming }[] = [
+  { until: 5 * 60, timing: "SNACK" },
+  { until: 10 * 60 + 30, timing: "BREAKFAST" },
+  { until: 11 * 60 + 30, timing: "MORNING_SNACK" },
+  { until: 15 * 60, timing: "LUNCH" },
+  { until: 17 * 60 + 30, timing: "AFTERNOON_SNACK" },
+  { until: 21 * 60 + 30, timing: "DINNER" },
+  { until: 24 * 60, timing: "SNACK" },
+];
+
+const MAIN_MEAL_TARGETS: { timing: MealTiming; minutes: number }[] = [
+  { timing: "BREAKFAST", minutes: 8 * 60 },
+  { timing: "LUNCH", minutes: 13 * 60 },
+  { timing: "DINNER", minutes: 19 * 60 },
+];
+
+// A usual local time for each meal type, for meals logged for another day
+export const MEAL_TIMING_MINUTES: Record<MealTiming, number> = {
+  BREAKFAST: 8 * 60,
+  MORNING_SNACK: 11 * 60,
+  LUNCH: 13 * 60,
+  AFTERNOON_SNACK: 16 * 60,
+  DINNER: 19 * 60,
+  SNACK: 22 * 60,
+};
+
+export const MEAL_TIMING_ORDER: MealTiming[] = [
+  "BREAKFAST",
+  "MORNING_SNACK",
+  "LUNCH",
+  "AFTERNOON_SNACK",
+  "DINNER",
+  "SNACK",
+];
+
+export function isMealTiming(value: unknown): value is MealTiming {
+  return (
+    typeof value === "string" &&
+    (Object.values(MealTiming) as string[]).includes(value)
+  );
+}
+
+// Parses the questionnaire answer, e.g. "8:00, 12:30, 19:00", into minutes
+// after midnight. Entries that are not times are skipped.
+export function parseMealTimes(mealTimes: string | null | undefined): number[] {
+  if (!mealTimes) return [];
+
+  return mealTimes
+    .split(",")
+    .map((entry) => entry.trim().match(/^(\d{1,2}):(\d{2})/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => Number(match[1]) * 60 + Number(match[2]))
+    .filter((minutes) => minutes >= 0 && minutes < 24 * 60)
+    .sort((a, b) => a - b);
+}
+
+// Gives each of the user's usual meal times a meal type: the time closest to
+// each main meal's usual hour takes it, the rest are snacks
+function labelMealTimes(times: number[]): { minutes: number; timing: MealTiming }[] {
+  const labels = new Map<number, MealTiming>();
+
+  for (const target of MAIN_MEAL_TARGETS) {
+    const candidates = times.filter(
+      (minutes) =>
+        !labels.has(minutes) &&
+        defaultTiming(minutes) !== "SNACK" &&
+        Math.abs(minutes - target.minutes) <= 3 * 60
+    );
+    if (candidates.length === 0) continue;
+
+    const closest = candidates.reduce((best, minutes) =>
+      Math.abs(minutes - target.minutes) < Math.abs(best - target.minutes)
+        ? minutes
+        : best
+    );
+    labels.set(closest, target.timing);
+  }
+
+  return times.map((minutes) => ({
+    minutes,
+    timing: labels.get(minutes) || snackTiming(minutes),
+  }));
+}
+
+function snackTiming(minutes: number): MealTiming {
+  if (minutes >= 9 * 60 && minutes < 12 * 60) return "MORNING_SNACK";
+  if (minutes >= 14 * 60 && minutes < 18 * 60) return "AFTERNOON_SNACK";
+  return "SNACK";
+}
+
+function defaultTiming(minutes: number): MealTiming {
+  return DEFAULT_WINDOWS.find((window) => minutes < window.until)!.timing;
+}
+
+// Classifies a meal by the local time it was eaten in the user's time zone,
+// preferring the user's own meal schedule over fixed windows
+export function inferMealTiming(
+  eatenAt: Date,
+  mealTimes?: string | null,
+  timeZone?: string | null
+): MealTiming {
+  const minutes = localMinutes(eatenAt, timeZone || undefined);
+  const usual = labelMealTimes(parseMealTimes(mealTimes));
+
+  let nearest: { minutes: number; timing: MealTiming } | null = null;
+  for (const slot of usual) {
+    const distance = Math.abs(slot.minutes - minutes);
+    if (
+      distance <= MATCH_WINDOW_MINUTES &&
+      (!nearest || distance < Math.abs(nearest.minutes - minutes))
+    ) {
+      nearest = slot;
+    }
+  }
+
+  return nearest ? nearest.timing : defaultTiming(minutes);
+}
@@ -0,0 +1,523 @@
+// Builds multi-day menus from meal templates without AI. Templates are
+// filtered by the user's dietary restrictions, portioned towards the daily
+// calorie and macro targets, and picked with a seeded random generator so the
+// same seed and templates always produce the same menu.
+
+import { IngredientInput } from "./ingredients";
+import {
+  FoodGroup,
+  classifyFood,
+  containsFoodTerm,
+  normalizeAllergen,
+} from "./foodClassification";
+
+export type MenuSlot =
+  "BREAKFAST" | "LUNCH" | "DINNER" | "MORNING_SNACK" | "AFTERNOON_SNACK";
+
+export type MenuFocus =
+  "balanced" | "high_protein" | "vegetarian" | "quick_prep";
+
+export type DietaryStyle =
+  | "regular"
+  | "low_carb"
+  | "keto"
+  | "vegetarian"
+  | "vegan"
+  | "mediterranean"
+  | "low_fat"
+  | "low_sodium";
+
+// The MealTemplate columns the generator reads
+export interface MenuTemplate {
+  template_id: string;
+  name: string;
+  description?: string | null;
+  meal_timing: string;
+  dietary_category: string;
+  prep_time_minutes?: number | null;
+  difficulty_level?: number | null;
+  calories?: number | null;
+  protein_g?: number | null;
+  carbs_g?: number | null;
+  fats_g?: number | null;
+  fiber_g?: number | null;
+  sodium_mg?: number | null;
+  ingredients_json?: unknown;
+  instructions_json?: unknown;
+  allergens_json?: unknown;
+}
+
+export interface MenuConstraints {
+  allergies: string[];
+  kosher: boolean;
+  dietary_style?: string | null;
+  disliked_foods: string[];
+  daily_budget?: number | null;
+}
+
+export interface MenuTargets {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+}
+
+export interface MenuGeneratorOptions {
+  days: number;
+  slots: MenuSlot[];
+  targets: MenuTargets;
+  // A template isn't reused until this many days after it was last served
+  rotation_days: number;
+  seed: string;
+  focus?: MenuFocus;
+}
+
+export interface GeneratedMeal {
+  template_id: string;
+  name: string;
+  meal_type: MenuSlot;
+  day_number: number;
+  portion: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  prep_time_minutes: number;
+  cooking_method: string | null;
+  instructions: string;
+  ingredients: IngredientInput[];
+  estimated_cost: number | null;
+}
+
+export interface GeneratedMenu {
+  seed: string;
+  dietary_style: DietaryStyle;
+  dietary_category: string;
+  days_count: number;
+  total_calories: number;
+  total_protein: number;
+  total_carbs: number;
+  total_fat: number;
+  total_fiber: number;
+  estimated_cost: number | null;
+  prep_time_minutes: number;
+  difficulty_level: number;
+  meals: GeneratedMeal[];
+  // Templates considered after filtering, and slots nothing could fill
+  eligible_templates: number;
+  unfilled_slots: { day_number: number; meal_type: MenuSlot }[];
+}
+
+// Share of the day's calories each slot gets before normalizing
+const SLOT_SHARE: Record<MenuSlot, number> = {
+  BREAKFAST: 0.25,
+  MORNING_SNACK: 0.1,
+  LUNCH: 0.35,
+  AFTERNOON_SNACK: 0.1,
+  DINNER: 0.3,
+};
+
+const SLOTS_PER_DAY: Record<string, MenuSlot[]> = {
+  "2_main": ["BREAKFAST", "DINNER"],
+  "3_main": ["BREAKFAST", "LUNCH", "DINNER"],
+  "3_plus_2_snacks": [
+    "BREAKFAST",
+    "MORNING_SNACK",
+    "LUNCH",
+    "AFTERNOON_SNACK",
+    "DINNER",
+  ],
+  "2_plus_1_intermediate": ["BREAKFAST", "AFTERNOON_SNACK", "DINNER"],
+};
+
+// Questionnaire answers are stored as the label the user saw
+const STYLE_LABELS: [DietaryStyle, string[]][] = [
+  ["keto", ["keto", "קטוגני"]],
+  ["low_carb", ["low_carb", "low carb", "דל פחמימ"]],
+  ["vegan", ["vegan", "טבעוני"]],
+  ["vegetarian", ["vegetarian", "צמחוני"]],
+  ["mediterranean", ["mediterranean", "ים תיכוני"]],
+  ["low_fat", ["low_fat", "low fat", "דל שומן"]],
+  ["low_sodium", ["low_sodium", "low sodium", "דל נתרן"]],
+];
+
+const STYLE_CATEGORY: Record<DietaryStyle, string> = {
+  regular: "BALANCED",
+  low_carb: "LOW_CARB",
+  keto: "KETO",
+  vegetarian: "VEGETARIAN",
+  vegan: "VEGAN",
+  mediterranean: "MEDITERRANEAN",
+  low_fat: "BALANCED",
+  low_sodium: "BALANCED",
+};
+
+const MIN_PORTION = 0.5;
+const MAX_PORTION = 2;
+// Each slot is picked at random among this many best-scoring templates
+const TOP_CANDIDATES = 3;
+
+export function slotsForMealsPerDay(mealsPerDay: string): MenuSlot[] {
+  return SLOTS_PER_DAY[mealsPerDay] || SLOTS_PER_DAY["3_main"];
+}
+
+export function resolveDietaryStyle(value?: string | null): DietaryStyle {
+  const text = (value || "").toLowerCase();
+  const match = STYLE_LABELS.find(([, labels]) =>
+    labels.some((label) => text.includes(label))
+  );
+  return match ? match[0] : "regular";
+}
+
+// FNV-1a hash of the seed feeding mulberry32
+export function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// ingredients_json holds either plain names or { name, quantity, unit } rows
+export function templateIngredients(value: unknown): IngredientInput[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): IngredientInput[] => {
+    if (typeof item === "string") return item.trim() ? [{ name: item }] : [];
+    if (item && typeof item === "object" && typeof item.name === "string") {
+      return [
+        {
+          name: item.name,
+          quantity: typeof item.quantity === "number" ? item.quantity : null,
+          unit: typeof item.unit === "string" ? item.unit : null,
+          category: typeof item.category === "string" ? item.category : null,
+          estimated_cost:
+            typeof item.estimated_cost === "number"
+              ? item.estimated_cost
+              : null,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+// Allergens are stored as a list or as an object of lists
+function templateAllergens(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(templateAllergens);
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(templateAllergens);
+  }
+  return [];
+}
+
+function instructionsText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    return value.filter((step) => typeof step === "string").join("\n");
+  }
+  return "";
+}
+
+interface Candidate {
+  template: MenuTemplate;
+  ingredients: IngredientInput[];
+  // Cost of one portion, null when some ingredient has no price
+  cost: number | null;
+}
+
+// Why a template can't be served to this user, or null when it can
+export function templateRejection(
+  template: MenuTemplate,
+  constraints: MenuConstraints,
+  style: DietaryStyle,
+  focus: MenuFocus = "balanced"
+): string | null {
+  const ingredients = templateIngredients(template.ingredients_json);
+  const texts = [template.name, ...ingredients.map((item) => item.name)];
+  const groups = new Set<FoodGroup>();
+  for (const text of texts) {
+    classifyFood(text).forEach((group) => groups.add(group));
+  }
+  for (const allergen of templateAllergens(template.allergens_json)) {
+    const group = normalizeAllergen(allergen);
+    if (group) groups.add(group);
+  }
+
+  for (const allergy of constraints.allergies) {
+    const group = normalizeAllergen(allergy);
+    if (
+      group
+        ? groups.has(group)
+        : texts.some((text) => containsFoodTerm(text, allergy))
+    ) {
+      return `allergen: ${allergy}`;
+    }
+  }
+
+  for (const disliked of constraints.disliked_foods) {
+    if (
+      disliked.trim() &&
+      texts.some((text) => containsFoodTerm(text, disliked))
+    ) {
+      return `disliked: ${disliked}`;
+    }
+  }
+
+  if (constraints.kosher) {
+    if (groups.has("pork") || groups.has("shellfish")) return "not kosher";
+    if (groups.has("meat") && groups.has("dairy")) return "meat with dairy";
+  }
+
+  const vegetarian = style === "vegetarian" || focus === "vegetarian";
+  if (
+    (vegetarian || style === "vegan") &&
+    (groups.has("meat") || groups.has("fish") || groups.has("shellfish"))
+  ) {
+    return "not vegetarian";
+  }
+  if (
+    style === "vegan" &&
+    (groups.has("dairy") || groups.has("eggs") || groups.has("honey"))
+  ) {
+    return "not vegan";
+  }
+
+  const calories = template.calories || 0;
+  const share = (grams: number | null | undefined, perGram: number) =>
+    calories > 0 ? ((grams || 0) * perGram) / calories : 0;
+  if (style === "keto" && share(template.carbs_g, 4) > 0.1)
+    return "too many carbs";
+  if (style === "low_carb" && share(template.carbs_g, 4) > 0.3)
+    return "too many carbs";
+  if (style === "low_fat" && share(template.fats_g, 9) > 0.25)
+    return "too much fat";
+  if (style === "low_sodium" && (template.sodium_mg || 0) > 600)
+    return "too much sodium";
+
+  return null;
+}
+
+// A SNACK template fits either snack slot and vice versa
+function fitsSlot(template: MenuTemplate, slot: MenuSlot) {
+  const isSnack = (timing: string) => timing.includes("SNACK");
+  return (
+    template.meal_timing === slot ||
+    (isSnack(slot) && isSnack(template.meal_timing))
+  );
+}
+
+export function generateMenu(
+  templates: MenuTemplate[],
+  constraints: MenuConstraints,
+  options: MenuGeneratorOptions
+): GeneratedMenu {
+  const style = resolveDietaryStyle(constraints.dietary_style);
+  const focus = options.focus || "balanced";
+  const random = seededRandom(options.seed);
+  const rotationDays = Math.max(1, options.rotation_days);
+
+  // Sorted so the result doesn't depend on database row order
+  const eligible: Candidate[] = templates
+    .filter((template) => (template.calories || 0) > 0)
+    .filter(
+      (template) => !templateRejection(template, constraints, style, focus)
+    )
+    .sort((a, b) => a.template_id.localeCompare(b.template_id))
+    .map((template) => {
+      const ingredients = templateIngredients(template.ingredients_json);
+      const priced =
+        ingredients.length > 0 &&
+        ingredients.every((item) => (item.estimated_cost || 0) > 0);
+      return {
+        template,
+        ingredients,
+        cost: priced
+          ? ingredients.reduce((sum, item) => sum + item.estimated_cost!, 0)
+          : null,
+      };
+    });
+
+  const slots = options.slots;
+  const totalShare = slots.reduce((sum, slot) => sum + SLOT_SHARE[slot], 0);
+  const lastServed = new Map<string, number>();
+  const meals: GeneratedMeal[] = [];
+  const unfilled: GeneratedMenu["unfilled_slots"] = [];
+  let difficulty = 1;
+
+  for (let day = 1; day <= options.days; day++) {
+    // What's left of the day's targets, so later slots make up for earlier ones
+    const remaining = { ...options.targets };
+    let remainingShare = totalShare;
+    let remainingBudget = constraints.daily_budget || 0;
+
+    for (const slot of slots) {
+      const fraction = SLOT_SHARE[slot] / remainingShare;
+      const target = {
+        calories: Math.max(remaining.calories * fraction, 0),
+        protein_g: Math.max(remaining.protein_g * fraction, 0),
+        carbs_g: Math.max(remaining.carbs_g * fraction, 0),
+        fats_g: Math.max(remaining.fats_g * fraction, 0),
+      };
+      const budget = constraints.daily_budget
+        ? remainingBudget * fraction
+        : null;
+      remainingShare -= SLOT_SHARE[slot];
+
+      const fitting = eligible.filter(
+        (candidate) =>
+          fitsSlot(candidate.template, slot) &&
+          lastServed.get(candidate.template.template_id) !== day
+      );
+      if (fitting.length === 0) {
+        unfilled.push({ day_number: day, meal_type: slot });
+        continue;
+      }
+
+      const scored = fitting.map((candidate) => {
+        const { template } = candidate;
+        const portion = Math.min(
+          MAX_PORTION,
+          Math.max(
+            MIN_PORTION,
+            Math.round((target.calories / template.calories!) * 4) / 4
+          )
+        );
+        const relativeError = (actual: number, wanted: number) =>
+          wanted > 0 ? Math.abs(actual - wanted) / wanted : 0;
+
+        let score =
+          relativeError(template.calories! * portion, target.calories) +
+          (relativeError(
+            (template.protein_g || 0) * portion,
+            target.protein_g
+          ) +
+            relativeError((template.carbs_g || 0) * portion, target.carbs_g) +
+            relativeError((template.fats_g || 0) * portion, target.fats_g)) /
+            3;
+        if (budget && candidate.cost !== null) {
+          score += Math.max(0, candidate.cost * portion - budget) / budget;
+        }
+        if (
+          template.dietary_category === STYLE_CATEGORY[style] &&
+          style !== "regular"
+        ) {
+          score -= 0.1;
+        }
+        if (focus === "high_protein" && template.calories) {
+          score -= ((template.protein_g || 0) * 4) / template.calories;
+        }
+        if (focus === "quick_prep") {
+          score += (template.prep_time_minutes || 30) / 60;
+        }
+
+        const last = lastServed.get(template.template_id);
+        return {
+          candidate,
+          portion,
+          score,
+          rested: last === undefined || day - last >= rotationDays,
+          last: last ?? 0,
+        };
+      });
+
+      // Prefer templates outside the rotation window; when every fitting one
+      // was served recently, repeat the one served longest ago
+      const rested = scored.filter((entry) => entry.rested);
+      const pool =
+        rested.length > 0
+          ? rested
+          : scored.filter(
+              (entry) =>
+                entry.last === Math.min(...scored.map((other) => other.last))
+            );
+      pool.sort((a, b) => a.score - b.score);
+      const top = pool.slice(0, TOP_CANDIDATES);
+      const pick = top[Math.floor(random() * top.length)];
+
+      const { template, ingredients, cost } = pick.candidate;
+      const portion = pick.portion;
+      const meal: GeneratedMeal = {
+        template_id: template.template_id,
+        name: template.name,
+        meal_type: slot,
+        day_number: day,
+        portion,
+        calories: round(template.calories! * portion, 0),
+        protein: round((template.protein_g || 0) * portion),
+        carbs: round((template.carbs_g || 0) * portion),
+        fat: round((template.fats_g || 0) * portion),
+        fiber: round((template.fiber_g || 0) * portion),
+        prep_time_minutes: template.prep_time_minutes || 30,
+        cooking_method: null,
+        instructions: instructionsText(template.instructions_json),
+        ingredients: ingredients.map((item) => ({
+          ...item,
+          quantity: item.quantity
+            ? round(item.quantity * portion, 2)
+            : item.quantity,
+          estimated_cost: item.estimated_cost
+            ? round(item.estimated_cost * portion, 2)
+            : item.estimated_cost,
+        })),
+        estimated_cost: cost === null ? null : round(cost * portion, 2),
+      };
+      meals.push(meal);
+      difficulty = Math.max(difficulty, template.difficulty_level || 1);
+      lastServed.set(template.template_id, day);
+
+      remaining.calories -= meal.calories;
+      remaining.protein_g -= meal.protein;
+      remaining.carbs_g -= meal.carbs;
+      remaining.fats_g -= meal.fat;
+      if (meal.estimated_cost !== null) remainingBudget -= meal.estimated_cost;
+    }
+  }
+
+  const sum = (pick: (meal: GeneratedMeal) => number) =>
+    round(meals.reduce((total, meal) => total + pick(meal), 0));
+  const priced =
+    meals.length > 0 && meals.every((meal) => meal.estimated_cost !== null);
+
+  return {
+    seed: options.seed,
+    dietary_style: style,
+    dietary_category:
+      focus === "vegetarian" && style === "regular"
+        ? "VEGETARIAN"
+        : STYLE_CATEGORY[style],
+    days_count: options.days,
+    total_calories: sum((meal) => meal.calories),
+    total_protein: sum((meal) => meal.protein),
+    total_carbs: sum((meal) => meal.carbs),
+    total_fat: sum((meal) => meal.fat),
+    total_fiber: sum((meal) => meal.fiber),
+    estimated_cost: priced
+      ? round(
+          sum((meal) => meal.estimated_cost || 0),
+          2
+        )
+      : null,
+    prep_time_minutes:
+      meals.length > 0
+        ? Math.round(sum((meal) => meal.prep_time_minutes) / meals.length)
+        : 0,
+    difficulty_level: difficulty,
+    meals,
+    eligible_templates: eligible.length,
+    unfilled_slots: unfilled,
+  };
+}
@@ -0,0 +1,432 @@
+// Vitamin and mineral intake compared against age and sex reference intakes
+// (US/Canada DRIs: RDA or AI, and the tolerable upper intake level). Meals
+// store micronutrients in free-form JSON, so keys and units are normalized
+// before anything is summed.
+
+export type Micronutrient =
+  | "vitamin_a_mcg"
+  | "vitamin_c_mg"
+  | "vitamin_d_mcg"
+  | "vitamin_b12_mcg"
+  | "folate_mcg"
+  | "calcium_mg"
+  | "iron_mg"
+  | "magnesium_mg"
+  | "potassium_mg"
+  | "zinc_mg"
+  | "sodium_mg";
+
+export type MicronutrientStatus =
+  "deficient" | "adequate" | "excess" | "insufficient_data";
+
+export type Sex = "male" | "female";
+
+type Unit = "g" | "mg" | "mcg";
+
+export interface ReferenceIntake {
+  rdi: number;
+  upper_limit: number | null;
+}
+
+export interface MicronutrientMeal {
+  sodium_mg?: number | null;
+  vitamins_json?: unknown;
+  micronutrients_json?: unknown;
+}
+
+export interface MicronutrientIntake {
+  nutrient: Micronutrient;
+  label: string;
+  label_he: string;
+  unit: "mg" | "mcg";
+  // Per day: the day's total, or the average over the days of a range
+  amount: number;
+  rdi: number;
+  upper_limit: number | null;
+  percent_of_rdi: number;
+  status: MicronutrientStatus;
+  // How many of the meals reported this nutrient at all
+  meals_with_data: number;
+}
+
+export interface MicronutrientSummary {
+  reference: {
+    age: number;
+    sex: Sex | null;
+    source: "questionnaire" | "default";
+  };
+  nutrients: MicronutrientIntake[];
+  deficient: Micronutrient[];
+  excess: Micronutrient[];
+}
+
+// Below this share of the reference intake a nutrient is flagged deficient
+const DEFICIENT_BELOW = 0.7;
+// Deficiency isn't flagged when fewer of the meals than this report the
+// nutrient, since the missing meals would make any total look low
+const MIN_COVERAGE = 0.5;
+const DEFAULT_AGE = 30;
+
+interface NutrientInfo {
+  unit: "mg" | "mcg";
+  label: string;
+  label_he: string;
+  // Normalized spellings of the key, without a unit suffix
+  aliases: string[];
+  // Only the upper limit matters, as with sodium
+  limit_only?: boolean;
+}
+
+const NUTRIENTS: Record<Micronutrient, NutrientInfo> = {
+  vitamin_a_mcg: {
+    unit: "mcg",
+    label: "Vitamin A",
+    label_he: "ויטמין A",
+    aliases: ["vitamina", "vitaminarae"],
+  },
+  vitamin_c_mg: {
+    unit: "mg",
+    label: "Vitamin C",
+    label_he: "ויטמין C",
+    aliases: ["vitaminc", "ascorbicacid"],
+  },
+  vitamin_d_mcg: {
+    unit: "mcg",
+    label: "Vitamin D",
+    label_he: "ויטמין D",
+    aliases: ["vitamind"],
+  },
+  vitamin_b12_mcg: {
+    unit: "mcg",
+    label: "Vitamin B12",
+    label_he: "ויטמין B12",
+    aliases: ["vitaminb12", "cobalamin"],
+  },
+  folate_mcg: {
+    unit: "mcg",
+    label: "Folate",
+    label_he: "חומצה פולית",
+    aliases: ["folate", "folicacid", "vitaminb9"],
+  },
+  calcium_mg: {
+    unit: "mg",
+    label: "Calcium",
+    label_he: "סידן",
+    aliases: ["calcium"],
+  },
+  iron_mg: { unit: "mg", label: "Iron", label_he: "ברזל", aliases: ["iron"] },
+  magnesium_mg: {
+    unit: "mg",
+    label: "Magnesium",
+    label_he: "מגנזיום",
+    aliases: ["magnesium"],
+  },
+  potassium_mg: {
+    unit: "mg",
+    label: "Potassium",
+    label_he: "אשלגן",
+    aliases: ["potassium"],
+  },
+  zinc_mg: { unit: "mg", label: "Zinc", label_he: "אבץ", aliases: ["zinc"] },
+  sodium_mg: {
+    unit: "mg",
+    label: "Sodium",
+    label_he: "נתרן",
+    aliases: ["sodium"],
+    limit_only: true,
+  },
+};
+
+export const MICRONUTRIENTS = Object.keys(NUTRIENTS) as Micronutrient[];
+
+// Reference intakes by the age a band starts at; rdi is [male, female]. Upper
+// limits that only apply to supplements (magnesium, folic acid) are left out.
+const REFERENCE_INTAKES: Record<
+  Micronutrient,
+  { from: number; rdi: [number, number]; ul: number | null }[]
+> = {
+  vitamin_a_mcg: [
+    { from: 9, rdi: [600, 600], ul: 1700 },
+    { from: 14, rdi: [900, 700], ul: 2800 },
+    { from: 19, rdi: [900, 700], ul: 3000 },
+  ],
+  vitamin_c_mg: [
+    { from: 9, rdi: [45, 45], ul: 1200 },
+    { from: 14, rdi: [75, 65], ul: 1800 },
+    { from: 19, rdi: [90, 75], ul: 2000 },
+  ],
+  vitamin_d_mcg: [
+    { from: 9, rdi: [15, 15], ul: 100 },
+    { from: 71, rdi: [20, 20], ul: 100 },
+  ],
+  vitamin_b12_mcg: [
+    { from: 9, rdi: [1.8, 1.8], ul: null },
+    { from: 14, rdi: [2.4, 2.4], ul: null },
+  ],
+  folate_mcg: [
+    { from: 9, rdi: [300, 300], ul: null },
+    { from: 14, rdi: [400, 400], ul: null },
+  ],
+  calcium_mg: [
+    { from: 9, rdi: [1300, 1300], ul: 3000 },
+    { from: 19, rdi: [1000, 1000], ul: 2500 },
+    { from: 51, rdi: [1000, 1200], ul: 2000 },
+    { from: 71, rdi: [1200, 1200], ul: 2000 },
+  ],
+  iron_mg: [
+    { from: 9, rdi: [8, 8], ul: 40 },
+    { from: 14, rdi: [11, 15], ul: 45 },
+    { from: 19, rdi: [8, 18], ul: 45 },
+    { from: 51, rdi: [8, 8], ul: 45 },
+  ],
+  magnesium_mg: [
+    { from: 9, rdi: [240, 240], ul: null },
+    { from: 14, rdi: [410, 360], ul: null },
+    { from: 19, rdi: [400, 310], ul: null },
+    { from: 31, rdi: [420, 320], ul: null },
+  ],
+  potassium_mg: [
+    { from: 9, rdi: [2500, 2300], ul: null },
+    { from: 14, rdi: [3000, 2300], ul: null },
+    { from: 19, rdi: [3400, 2600], ul: null },
+  ],
+  zinc_mg: [
+    { from: 9, rdi: [8, 8], ul: 23 },
+    { from: 14, rdi: [11, 9], ul: 34 },
+    { from: 19, rdi: [11, 8], ul: 40 },
+  ],
+  // Adequate intake, and the chronic disease risk reduction intake as the limit
+  sodium_mg: [
+    { from: 9, rdi: [1200, 1200], ul: 1800 },
+    { from: 14, rdi: [1500, 1500], ul: 2300 },
+  ],
+};
+
+const ALIASES = new Map<string, Micronutrient>(
+  MICRONUTRIENTS.flatMap((nutrient) =>
+    NUTRIENTS[nutrient].aliases.map((alias) => [alias, nutrient] as const)
+  )
+);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Questionnaire genders are stored as the label the user picked
+export function resolveSex(gender?: string | null): Sex | null {
+  const value = (gender || "").trim().toLowerCase();
+  if (["male", "man", "m", "זכר", "גבר"].includes(value)) return "male";
+  if (["female", "woman", "f", "נקבה", "אישה"].includes(value)) {
+    return "female";
+  }
+  return null;
+}
+
+// Without a known sex the male and female values are averaged
+export function referenceIntakes(
+  age: number,
+  sex: Sex | null
+): Record<Micronutrient, ReferenceIntake> {
+  return Object.fromEntries(
+    MICRONUTRIENTS.map((nutrient) => {
+      const bands = REFERENCE_INTAKES[nutrient];
+      const band =
+        [...bands].reverse().find((candidate) => age >= candidate.from) ||
+        bands[0];
+      const [male, female] = band.rdi;
+      const rdi = sex ? { male, female }[sex] : round1((male + female) / 2);
+      return [nutrient, { rdi, upper_limit: band.ul }];
+    })
+  ) as Record<Micronutrient, ReferenceIntake>;
+}
+
+function parseJSONObject(value: unknown): Record<string, unknown> {
+  if (typeof value === "string") {
+    try {
+      return parseJSONObject(JSON.parse(value));
+    } catch {
+      return {};
+    }
+  }
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return {};
+}
+
+function parseUnit(text: string | undefined): Unit | null {
+  const unit = (text || "").trim().toLowerCase().replace("µ", "u");
+  if (["mcg", "ug", "microgram", "micrograms"].includes(unit)) return "mcg";
+  if (["mg", "milligram", "milligrams"].includes(unit)) return "mg";
+  if (["g", "gram", "grams"].includes(unit)) return "g";
+  return null;
+}
+
+// "vitamin_c_mg", "vitaminC" and "Vitamin C (mg)" all map to vitamin_c_mg
+function parseKey(
+  key: string
+): { nutrient: Micronutrient; unit: Unit | null } | null {
+  const compact = key
+    .toLowerCase()
+    .replace("µ", "u")
+    .replace(/[^a-z0-9]/g, "");
+  const suffix = compact.match(/(mcg|ug|mg|g)$/);
+
+  const nutrient = ALIASES.get(compact);
+  if (nutrient) return { nutrient, unit: null };
+
+  if (suffix) {
+    const base = ALIASES.get(compact.slice(0, -suffix[1].length));
+    if (base) return { nutrient: base, unit: parseUnit(suffix[1]) };
+  }
+  return null;
+}
+
+// Numbers, numeric strings such as "12 mg", or { amount, unit } objects
+function parseAmount(
+  value: unknown
+): { amount: number; unit: Unit | null } | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { amount: value, unit: null } : null;
+  }
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*([a-zµ]*)$/i);
+    return match
+      ? { amount: parseFloat(match[1]), unit: parseUnit(match[2]) }
+      : null;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const parsed = parseAmount(record.amount ?? record.value);
+    return (
+      parsed && {
+        amount: parsed.amount,
+        unit: parsed.unit || parseUnit(String(record.unit ?? "")),
+      }
+    );
+  }
+  return null;
+}
+
+const UNIT_FACTORS: Record<Unit, number> = { g: 1_000_000, mg: 1000, mcg: 1 };
+
+function convert(amount: number, from: Unit, to: Unit) {
+  return (amount * UNIT_FACTORS[from]) / UNIT_FACTORS[to];
+}
+
+// A meal's micronutrients in their canonical units. Nutrients the meal
+// doesn't mention are absent rather than zero.
+export function mealMicronutrients(
+  meal: MicronutrientMeal
+): Partial<Record<Micronutrient, number>> {
+  const result: Partial<Record<Micronutrient, number>> = {};
+
+  const entries = [
+    ...Object.entries(parseJSONObject(meal.vitamins_json)),
+    ...Object.entries(parseJSONObject(meal.micronutrients_json)),
+  ];
+  for (const [key, value] of entries) {
+    const parsedKey = parseKey(key);
+    const parsedAmount = parseAmount(value);
+    if (!parsedKey || !parsedAmount || parsedAmount.amount < 0) continue;
+
+    const unit = NUTRIENTS[parsedKey.nutrient].unit;
+    const amount = convert(
+      parsedAmount.amount,
+      parsedAmount.unit || parsedKey.unit || unit,
+      unit
+    );
+    result[parsedKey.nutrient] = (result[parsedKey.nutrient] || 0) + amount;
+  }
+
+  // The sodium column wins over anything in the JSON
+  if (meal.sodium_mg !== null && meal.sodium_mg !== undefined) {
+    result.sodium_mg = meal.sodium_mg;
+  }
+
+  return result;
+}
+
+export function sumMicronutrients(meals: MicronutrientMeal[]) {
+  const totals = {} as Record<Micronutrient, number>;
+  const mealsWithData = {} as Record<Micronutrient, number>;
+  for (const nutrient of MICRONUTRIENTS) {
+    totals[nutrient] = 0;
+    mealsWithData[nutrient] = 0;
+  }
+
+  for (const meal of meals) {
+    const nutrients = mealMicronutrients(meal);
+    for (const [nutrient, amount] of Object.entries(nutrients) as [
+      Micronutrient,
+      number,
+    ][]) {
+      totals[nutrient] += amount;
+      mealsWithData[nutrient]++;
+    }
+  }
+
+  for (const nutrient of MICRONUTRIENTS) {
+    totals[nutrient] = round1(totals[nutrient]);
+  }
+
+  return { totals, meals_with_data: mealsWithData };
+}
+
+// Average daily intake over `days` compared with the reference intakes for
+// the user's age and sex
+export function assessMicronutrients(
+  meals: MicronutrientMeal[],
+  days: number,
+  profile: { age?: number | null; gender?: string | null } | null
+): MicronutrientSummary {
+  const age = profile?.age && profile.age > 0 ? profile.age : DEFAULT_AGE;
+  const sex = resolveSex(profile?.gender);
+  const references = referenceIntakes(age, sex);
+  const { totals, meals_with_data } = sumMicronutrients(meals);
+
+  const nutrients = MICRONUTRIENTS.map((nutrient): MicronutrientIntake => {
+    const info = NUTRIENTS[nutrient];
+    const { rdi, upper_limit } = references[nutrient];
+    const amount = days > 0 ? round1(totals[nutrient] / days) : 0;
+    const withData = meals_with_data[nutrient];
+    const coverage = meals.length > 0 ? withData / meals.length : 0;
+
+    let status: MicronutrientStatus = "adequate";
+    if (withData > 0 && upper_limit !== null && amount > upper_limit) {
+      status = "excess";
+    } else if (info.limit_only) {
+      status = withData > 0 ? "adequate" : "insufficient_data";
+    } else if (coverage < MIN_COVERAGE) {
+      status = "insufficient_data";
+    } else if (amount < rdi * DEFICIENT_BELOW) {
+      status = "deficient";
+    }
+
+    return {
+      nutrient,
+      label: info.label,
+      label_he: info.label_he,
+      unit: info.unit,
+      amount,
+      rdi,
+      upper_limit,
+      percent_of_rdi: rdi > 0 ? Math.round((amount / rdi) * 100) : 0,
+      status,
+      meals_with_data: withData,
+    };
+  });
+
+  return {
+    reference: {
+      age,
+      sex,
+      source: profile?.age ? "questionnaire" : "default",
+    },
+    nutrients,
+    deficient: nutrients
+      .filter((intake) => intake.status === "deficient")
+      .map((intake) => intake.nutrient),
+    excess: nutrients
+      .filter((intake) => intake.status === "excess")
+      .map((intake) => intake.nutrient),
+  };
+}
@@ -161,6 +161,8 @@ export function mapExistingMealToPrismaInput(
   return {
     ...mapMealDataToPrismaFields(originalMeal, user_id, undefined),
     meal_name: `${originalMeal.meal_name} (Copy)`,
+    source: originalMeal.source,
+    meal_timing: originalMeal.meal_timing,
     upload_time: date,
     created_at: date,
     additives_json: {
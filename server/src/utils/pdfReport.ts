@@ -0,0 +1,622 @@
+import PDFDocument from "pdfkit";
+import { NutritionReportData } from "../types/statistics";
+
+type Doc = PDFKit.PDFDocument;
+
+const COLORS = {
+  primary: "#10B981",
+  primaryDark: "#047857",
+  text: "#111827",
+  muted: "#6B7280",
+  border: "#E5E7EB",
+  stripe: "#F9FAFB",
+  protein: "#3B82F6",
+  carbs: "#F59E0B",
+  fats: "#EF4444",
+  water: "#06B6D4",
+  goal: "#374151",
+};
+
+const PAGE_MARGIN = 50;
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+interface BarChartOptions {
+  title: string;
+  labels: string[];
+  values: number[];
+  goal?: number;
+  unit: string;
+  color: string;
+  height?: number;
+}
+
+const formatDate = (date: Date) => date.toISOString().split("T")[0];
+
+const formatNumber = (value: number, digits = 0) =>
+  Number.isFinite(value) ? value.toFixed(digits) : "0";
+
+const percentOf = (value: number, goal: number) =>
+  goal > 0 ? `${Math.round((value / goal) * 100)}%` : "-";
+
+const contentWidth = (doc: Doc) =>
+  doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+const pageBottom = (doc: Doc) => doc.page.height - doc.page.margins.bottom;
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > pageBottom(doc)) {
+    doc.addPage();
+  }
+}
+
+function drawSectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 40);
+  doc.moveDown(0.5);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.primaryDark)
+    .text(title, PAGE_MARGIN, doc.y);
+  const lineY = doc.y + 2;
+  doc
+    .moveTo(PAGE_MARGIN, lineY)
+    .lineTo(PAGE_MARGIN + contentWidth(doc), lineY)
+    .lineWidth(1)
+    .strokeColor(COLORS.primary)
+    .stroke();
+  doc.y = lineY + 8;
+}
+
+function drawTable(doc: Doc, columns: TableColumn[], rows: string[][]) {
+  const rowHeight = 18;
+  const padding = 4;
+  const totalWidth = columns.reduce((sum, col) => sum + col.width, 0);
+
+  const drawRow = (cells: string[], y: number, header: boolean, stripe: boolean) => {
+    if (header) {
+      doc.rect(PAGE_MARGIN, y, totalWidth, rowHeight).fill(COLORS.primary);
+    } else if (stripe) {
+      doc.rect(PAGE_MARGIN, y, totalWidth, rowHeight).fill(COLORS.stripe);
+    }
+
+    let x = PAGE_MARGIN;
+    doc
+      .font(header ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(9)
+      .fillColor(header ? "#FFFFFF" : COLORS.text);
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      doc.text(cell, x + padding, y + 5, {
+        width: column.width - padding * 2,
+        align: column.align || "left",
+        lineBreak: false,
+      });
+      x += column.width;
+    });
+
+    doc
+      .moveTo(PAGE_MARGIN, y + rowHeight)
+      .lineTo(PAGE_MARGIN + totalWidth, y + rowHeight)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke();
+  };
+
+  ensureSpace(doc, rowHeight * 2);
+  let y = doc.y;
+  drawRow(
+    columns.map((col) => col.header),
+    y,
+    true,
+    false
+  );
+  y += rowHeight;
+
+  rows.forEach((row, index) => {
+    if (y + rowHeight > pageBottom(doc)) {
+      doc.addPage();
+      y = doc.y;
+      drawRow(
+        columns.map((col) => col.header),
+        y,
+        true,
+        false
+      );
+      y += rowHeight;
+    }
+    drawRow(row, y, false, index % 2 === 1);
+    y += rowHeight;
+  });
+
+  doc.y = y + 10;
+  doc.x = PAGE_MARGIN;
+}
+
+function drawBarChart(doc: Doc, options: BarChartOptions) {
+  const height = options.height || 160;
+  const width = contentWidth(doc);
+  ensureSpace(doc, height + 50);
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .fillColor(COLORS.text)
+    .text(options.title, PAGE_MARGIN, doc.y);
+
+  const axisLeft = PAGE_MARGIN + 40;
+  const axisTop = doc.y + 8;
+  const axisBottom = axisTop + height;
+  const plotWidth = width - 40;
+
+  const maxValue = Math.max(...options.values, options.goal || 0, 1) * 1.1;
+  const scale = (value: number) => axisBottom - (value / maxValue) * height;
+
+  // Horizontal grid lines with value labels
+  const gridSteps = 4;
+  for (let step = 0; step <= gridSteps; step++) {
+    const value = (maxValue / gridSteps) * step;
+    const y = scale(value);
+    doc
+      .moveTo(axisLeft, y)
+      .lineTo(axisLeft + plotWidth, y)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke();
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor(COLORS.muted)
+      .text(formatNumber(value), PAGE_MARGIN, y - 3, {
+        width: 36,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+
+  const count = options.values.length || 1;
+  const slot = plotWidth / count;
+  const barWidth = Math.max(2, slot * 0.65);
+  const labelEvery = Math.ceil(count / 15);
+
+  options.values.forEach((value, index) => {
+    const x = axisLeft + slot * index + (slot - barWidth) / 2;
+    const top = scale(value);
+    if (value > 0) {
+      doc.rect(x, top, barWidth, axisBottom - top).fill(options.color);
+    }
+    if (index % labelEvery === 0) {
+      doc
+        .font("Helvetica")
+        .fontSize(6)
+        .fillColor(COLORS.muted)
+        .text(options.labels[index] || "", x - 8, axisBottom + 4, {
+          width: barWidth + 16,
+          align: "center",
+          lineBreak: false,
+        });
+    }
+  });
+
+  if (options.goal && options.goal > 0) {
+    const goalY = scale(options.goal);
+    doc
+      .moveTo(axisLeft, goalY)
+      .lineTo(axisLeft + plotWidth, goalY)
+      .lineWidth(1)
+      .dash(4, { space: 3 })
+      .strokeColor(COLORS.goal)
+      .stroke()
+      .undash();
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor(COLORS.goal)
+      .text(
+        `Goal ${formatNumber(options.goal)} ${options.unit}`,
+        axisLeft + plotWidth - 100,
+        goalY - 10,
+        { width: 100, align: "right", lineBreak: false }
+      );
+  }
+
+  doc
+    .moveTo(axisLeft, axisTop)
+    .lineTo(axisLeft, axisBottom)
+    .lineTo(axisLeft + plotWidth, axisBottom)
+    .lineWidth(1)
+    .strokeColor(COLORS.muted)
+    .stroke();
+
+  doc.y = axisBottom + 22;
+  doc.x = PAGE_MARGIN;
+}
+
+function drawMacroSplit(doc: Doc, report: NutritionReportData) {
+  const { protein, carbs, fats } = report.averages;
+  const segments = [
+    { label: "Protein", kcal: protein * 4, color: COLORS.protein },
+    { label: "Carbs", kcal: carbs * 4, color: COLORS.carbs },
+    { label: "Fats", kcal: fats * 9, color: COLORS.fats },
+  ];
+  const total = segments.reduce((sum, segment) => sum + segment.kcal, 0);
+  const width = contentWidth(doc);
+  const barHeight = 22;
+
+  ensureSpace(doc, barHeight + 50);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .fillColor(COLORS.text)
+    .text("Calories by macronutrient", PAGE_MARGIN, doc.y);
+
+  const y = doc.y + 6;
+  if (total <= 0) {
+    doc.rect(PAGE_MARGIN, y, width, barHeight).fill(COLORS.border);
+  } else {
+    let x = PAGE_MARGIN;
+    segments.forEach((segment) => {
+      const segmentWidth = (segment.kcal / total) * width;
+      doc.rect(x, y, segmentWidth, barHeight).fill(segment.color);
+      x += segmentWidth;
+    });
+  }
+
+  let legendX = PAGE_MARGIN;
+  const legendY = y + barHeight + 8;
+  segments.forEach((segment) => {
+    const share = total > 0 ? Math.round((segment.kcal / total) * 100) : 0;
+    doc.rect(legendX, legendY, 8, 8).fill(segment.color);
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor(COLORS.text)
+      .text(`${segment.label} ${share}%`, legendX + 12, legendY, {
+        lineBreak: false,
+      });
+    legendX += 110;
+  });
+
+  doc.y = legendY + 22;
+  doc.x = PAGE_MARGIN;
+}
+
+function drawProgressBar(
+  doc: Doc,
+  x: number,
+  y: number,
+  width: number,
+  ratio: number
+) {
+  const clamped = Math.max(0, Math.min(1, ratio));
+  doc.roundedRect(x, y, width, 6, 3).fill(COLORS.border);
+  if (clamped > 0) {
+    doc.roundedRect(x, y, width * clamped, 6, 3).fill(COLORS.primary);
+  }
+}
+
+function drawHeader(doc: Doc, report: NutritionReportData) {
+  const width = contentWidth(doc);
+  doc.rect(0, 0, doc.page.width, 90).fill(COLORS.primary);
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .fillColor("#FFFFFF")
+    .text("Nutrition Report", PAGE_MARGIN, 28, { width });
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .text(
+      `${formatDate(report.range.start)} to ${formatDate(
+        report.range.end
+      )} (${report.period})`,
+      PAGE_MARGIN,
+      58,
+      { width }
+    );
+
+  doc.y = 110;
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(`Prepared for: ${report.user.email}`, PAGE_MARGIN, doc.y)
+    .text(`Generated: ${report.generatedAt.toISOString().replace("T", " ").slice(0, 16)} UTC`)
+    .text(`Level ${report.level} - ${report.totalPoints} total points`);
+}
+
+function drawSummary(doc: Doc, report: NutritionReportData) {
+  const cards = [
+    { label: "Avg calories", value: formatNumber(report.averages.calories), unit: "kcal" },
+    { label: "Avg protein", value: formatNumber(report.averages.protein), unit: "g" },
+    { label: "Avg carbs", value: formatNumber(report.averages.carbs), unit: "g" },
+    { label: "Avg fats", value: formatNumber(report.averages.fats), unit: "g" },
+  ];
+  const gap = 10;
+  const cardWidth = (contentWidth(doc) - gap * (cards.length - 1)) / cards.length;
+  const y = doc.y + 12;
+
+  cards.forEach((card, index) => {
+    const x = PAGE_MARGIN + index * (cardWidth + gap);
+    doc
+      .roundedRect(x, y, cardWidth, 54, 6)
+      .lineWidth(1)
+      .strokeColor(COLORS.border)
+      .stroke();
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(card.label, x + 8, y + 8, { width: cardWidth - 16 });
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .fillColor(COLORS.text)
+      .text(`${card.value} ${card.unit}`, x + 8, y + 24, {
+        width: cardWidth - 16,
+      });
+  });
+
+  doc.y = y + 70;
+  doc.x = PAGE_MARGIN;
+}
+
+function drawMacroTables(doc: Doc, report: NutritionReportData) {
+  const { averages, goals } = report;
+
+  drawSectionTitle(doc, "Macronutrients (daily average)");
+  drawTable(
+    doc,
+    [
+      { header: "Nutrient", width: 175 },
+      { header: "Average", width: 110, align: "right" },
+      { header: "Goal", width: 110, align: "right" },
+      { header: "% of goal", width: 100, align: "right" },
+    ],
+    [
+      ["Calories", `${formatNumber(averages.calories)} kcal`, `${formatNumber(goals.calories)} kcal`, percentOf(averages.calories, goals.calories)],
+      ["Protein", `${formatNumber(averages.protein)} g`, `${formatNumber(goals.protein_g)} g`, percentOf(averages.protein, goals.protein_g)],
+      ["Carbohydrates", `${formatNumber(averages.carbs)} g`, `${formatNumber(goals.carbs_g)} g`, percentOf(averages.carbs, goals.carbs_g)],
+      ["Fats", `${formatNumber(averages.fats)} g`, `${formatNumber(goals.fats_g)} g`, percentOf(averages.fats, goals.fats_g)],
+    ]
+  );
+
+  drawMacroSplit(doc, report);
+
+  drawSectionTitle(doc, "Micronutrients and fluids (daily average)");
+  drawTable(
+    doc,
+    [
+      { header: "Nutrient", width: 175 },
+      { header: "Average", width: 110, align: "right" },
+      { header: "Goal / limit", width: 110, align: "right" },
+      { header: "% of goal", width: 100, align: "right" },
+    ],
+    [
+      ["Fiber", `${formatNumber(averages.fiber)} g`, `${formatNumber(goals.fiber_g)} g`, percentOf(averages.fiber, goals.fiber_g)],
+      ["Sugar", `${formatNumber(averages.sugar)} g`, `${formatNumber(goals.sugar_g)} g`, percentOf(averages.sugar, goals.sugar_g)],
+      ["Sodium", `${formatNumber(averages.sodium)} mg`, `${formatNumber(goals.sodium_mg)} mg`, percentOf(averages.sodium, goals.sodium_mg)],
+      ["Fluids", `${formatNumber(averages.fluids)} ml`, `${formatNumber(goals.water_ml)} ml`, percentOf(averages.fluids, goals.water_ml)],
+    ]
+  );
+}
+
+function drawDailyBreakdown(doc: Doc, report: NutritionReportData) {
+  const days = report.dailyBreakdown;
+  const labels = days.map((day) => day.date.slice(5));
+
+  doc.addPage();
+  drawSectionTitle(doc, "Daily trends");
+  drawBarChart(doc, {
+    title: "Calories per day",
+    labels,
+    values: days.map((day) => day.calories),
+    goal: report.goals.calories,
+    unit: "kcal",
+    color: COLORS.primary,
+  });
+  drawBarChart(doc, {
+    title: "Protein per day",
+    labels,
+    values: days.map((day) => day.protein_g),
+    goal: report.goals.protein_g,
+    unit: "g",
+    color: COLORS.protein,
+    height: 120,
+  });
+
+  drawSectionTitle(doc, "Daily breakdown");
+  drawTable(
+    doc,
+    [
+      { header: "Date", width: 75 },
+      { header: "Calories", width: 65, align: "right" },
+      { header: "Protein g", width: 60, align: "right" },
+      { header: "Carbs g", width: 60, align: "right" },
+      { header: "Fats g", width: 55, align: "right" },
+      { header: "Fiber g", width: 55, align: "right" },
+      { header: "Sodium mg", width: 65, align: "right" },
+      { header: "Water ml", width: 60, align: "right" },
+    ],
+    days.map((day) => [
+      day.date,
+      formatNumber(day.calories),
+      formatNumber(day.protein_g),
+      formatNumber(day.carbs_g),
+      formatNumber(day.fats_g),
+      formatNumber(day.fiber_g),
+      formatNumber(day.sodium_mg),
+      formatNumber(day.liquids_ml),
+    ])
+  );
+}
+
+function drawWaterIntake(doc: Doc, report: NutritionReportData) {
+  const days = report.dailyBreakdown;
+  const totalMl = days.reduce((sum, day) => sum + day.liquids_ml, 0);
+  const goalDays = days.filter(
+    (day) => day.liquids_ml >= report.goals.water_ml
+  ).length;
+
+  drawSectionTitle(doc, "Water intake");
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.text)
+    .text(
+      `Average ${formatNumber(totalMl / (days.length || 1))} ml per day. ` +
+        `Hydration goal reached on ${goalDays} of ${days.length} days.`,
+      PAGE_MARGIN,
+      doc.y
+    );
+  doc.moveDown(0.5);
+  drawBarChart(doc, {
+    title: "Water per day",
+    labels: days.map((day) => day.date.slice(5)),
+    values: days.map((day) => day.liquids_ml),
+    goal: report.goals.water_ml,
+    unit: "ml",
+    color: COLORS.water,
+    height: 120,
+  });
+}
+
+function drawStreaksAndAchievements(doc: Doc, report: NutritionReportData) {
+  const { streaks } = report;
+
+  doc.addPage();
+  drawSectionTitle(doc, "Streaks");
+  drawTable(
+    doc,
+    [
+      { header: "Metric", width: 300 },
+      { header: "Value", width: 195, align: "right" },
+    ],
+    [
+      ["Current streak", `${streaks.currentStreak} days`],
+      ["Best streak", `${streaks.bestStreak} days`],
+      ["Weekly streak", `${streaks.weeklyStreak} weeks`],
+      ["Successful days", `${streaks.successfulDays}`],
+      ["Perfect days", `${streaks.perfectDays}`],
+      ["Average daily completion", `${streaks.averageCompletion}%`],
+    ]
+  );
+
+  drawSectionTitle(doc, "Achievements");
+  const unlocked = report.achievements.filter((a) => a.unlocked);
+  const inProgress = report.achievements.filter(
+    (a) => !a.unlocked && a.progress > 0
+  );
+
+  if (unlocked.length === 0 && inProgress.length === 0) {
+    doc
+      .font("Helvetica")
+      .fontSize(10)
+      .fillColor(COLORS.muted)
+      .text("No achievements unlocked yet.", PAGE_MARGIN, doc.y);
+    return;
+  }
+
+  const width = contentWidth(doc);
+  [...unlocked, ...inProgress].forEach((achievement) => {
+    ensureSpace(doc, 40);
+    const y = doc.y;
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .fillColor(achievement.unlocked ? COLORS.primaryDark : COLORS.text)
+      .text(achievement.title, PAGE_MARGIN, y, { width: width - 120 });
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        achievement.unlocked && achievement.unlockedDate
+          ? `Unlocked ${achievement.unlockedDate.split("T")[0]}`
+          : `${achievement.progress} / ${achievement.maxProgress}`,
+        PAGE_MARGIN + width - 110,
+        y,
+        { width: 110, align: "right" }
+      );
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(achievement.description, PAGE_MARGIN, y + 13, {
+        width: width - 120,
+      });
+    const barY = Math.max(doc.y, y + 24) + 3;
+    drawProgressBar(
+      doc,
+      PAGE_MARGIN,
+      barY,
+      width,
+      achievement.maxProgress > 0
+        ? achievement.progress / achievement.maxProgress
+        : 0
+    );
+    doc.y = barY + 14;
+  });
+}
+
+function drawPageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `Page ${i + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - 30,
+        { width: contentWidth(doc), align: "center", lineBreak: false }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export function renderNutritionReportPDF(
+  report: NutritionReportData
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: "Nutrition Report",
+        Subject: `${formatDate(report.range.start)} - ${formatDate(
+          report.range.end
+        )}`,
+        CreationDate: report.generatedAt,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      drawHeader(doc, report);
+      drawSummary(doc, report);
+      drawMacroTables(doc, report);
+      drawDailyBreakdown(doc, report);
+      drawWaterIntake(doc, report);
+      drawStreaksAndAchievements(doc, report);
+      drawPageNumbers(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { Portion, ProductData } from "../types/foodScanner";
+
+// The product lacks the serving data needed to convert the requested unit
+export class PortionUnitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PortionUnitError";
+  }
+}
+
+// Pulls the gram (or ml) weight out of label serving sizes such as
+// "30g", "1 cup (240 ml)", "2 biscuits (25 g)" or "30 גרם"
+export function parseServingSizeGrams(
+  servingSize: string | undefined | null
+): number | null {
+  if (!servingSize) return null;
+
+  const match = servingSize
+    .toLowerCase()
+    .replace(",", ".")
+    .match(/(\d+(?:\.\d+)?)\s*(kg|g|gr|grams?|ml|l|גרם|ג|מ"ל|מל)(?![a-z])/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unit = match[2];
+  if (unit === "kg" || unit === "l") return value * 1000;
+  return value;
+}
+
+// Converts a portion to grams using the product's serving data
+export function resolvePortionGrams(
+  product: Pick<ProductData, "serving_size" | "servings_per_container">,
+  portion: Portion
+): number {
+  switch (portion.unit) {
+    case "g":
+    case "ml":
+      return portion.amount;
+
+    case "serving": {
+      const servingGrams = parseServingSizeGrams(product.serving_size);
+      if (!servingGrams) {
+        throw new PortionUnitError(
+          "Product has no serving size to measure servings by"
+        );
+      }
+      return portion.amount * servingGrams;
+    }
+
+    case "package": {
+      const servingGrams = parseServingSizeGrams(product.serving_size);
+      if (!servingGrams || !product.servings_per_container) {
+        throw new PortionUnitError(
+          "Product has no serving size and servings per container to measure packages by"
+        );
+      }
+      return portion.amount * servingGrams * product.servings_per_container;
+    }
+  }
+}
+
+export function describePortion(portion: Portion, grams: number): string {
+  const amount = Math.round(portion.amount * 100) / 100;
+  const roundedGrams = Math.round(grams);
+
+  switch (portion.unit) {
+    case "g":
+      return `${roundedGrams}g`;
+    case "ml":
+      return `${roundedGrams}ml`;
+    case "serving":
+      return `${amount} serving${amount === 1 ? "" : "s"}, ${roundedGrams}g`;
+    case "package":
+      return `${amount} package${amount === 1 ? "" : "s"}, ${roundedGrams}g`;
+  }
+}
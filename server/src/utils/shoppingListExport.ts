@@ -0,0 +1,416 @@
+import { Request, Response } from "express";
+
+// Renders shopping lists as plain text, Markdown, CSV or iCalendar to-dos so
+// they can be shared through messaging apps or imported into reminder apps.
+
+export type ShoppingListFormat = "json" | "text" | "markdown" | "csv" | "ical";
+export type ExportLanguage = "en" | "he";
+
+export interface ExportableItem {
+  name: string;
+  category?: string | null;
+  quantity: number;
+  unit: string;
+  purchase_quantity?: number;
+  purchase_unit?: string;
+  packages?: number | null;
+  estimated_cost?: number | null;
+  checked?: boolean;
+}
+
+export interface ExportableShoppingList {
+  id: string;
+  name: string;
+  items: ExportableItem[];
+  total_estimated_cost?: number | null;
+  generated_at?: Date | string;
+}
+
+export interface RenderedShoppingList {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+// JSON first, so "*/*" and missing Accept headers keep the JSON response
+const MEDIA_TYPES: [string, ShoppingListFormat][] = [
+  ["application/json", "json"],
+  ["text/plain", "text"],
+  ["text/markdown", "markdown"],
+  ["text/csv", "csv"],
+  ["text/calendar", "ical"],
+];
+
+const FORMAT_ALIASES: Record<string, ShoppingListFormat> = {
+  json: "json",
+  text: "text",
+  txt: "text",
+  markdown: "markdown",
+  md: "markdown",
+  csv: "csv",
+  ical: "ical",
+  ics: "ical",
+  vtodo: "ical",
+};
+
+const RENDERED: Record<
+  Exclude<ShoppingListFormat, "json">,
+  { contentType: string; extension: string }
+> = {
+  text: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ical: { contentType: "text/calendar; charset=utf-8", extension: "ics" },
+};
+
+// Starts a line right-to-left in apps that pick direction from the first
+// character, so Hebrew lists don't flip when an item name is in English
+const RLM = "\u200F";
+
+const LABELS = {
+  en: {
+    estimated_total: "Estimated total",
+    columns: ["Category", "Item", "Buy", "Needed", "Estimated cost", "Checked"],
+    yes: "yes",
+    no: "no",
+    categories: {
+      protein: "Protein",
+      vegetable: "Vegetables",
+      fruit: "Fruit",
+      grain: "Grains",
+      dairy: "Dairy",
+      fat: "Fats & Oils",
+      other: "Other",
+    } as Record<string, string>,
+    units: {} as Record<string, string>,
+  },
+  he: {
+    estimated_total: 'סה"כ משוער',
+    columns: ["קטגוריה", "פריט", "לקנות", "נדרש", "עלות משוערת", "נקנה"],
+    yes: "כן",
+    no: "לא",
+    categories: {
+      protein: "חלבונים",
+      vegetable: "ירקות",
+      fruit: "פירות",
+      grain: "דגנים",
+      dairy: "מוצרי חלב",
+      fat: "שומנים ושמנים",
+      other: "אחר",
+    } as Record<string, string>,
+    units: {
+      g: "גרם",
+      kg: 'ק"ג',
+      ml: 'מ"ל',
+      l: "ליטר",
+      piece: "יח'",
+      "1 kg": '1 ק"ג',
+      "1 kg bag": 'שקית 1 ק"ג',
+      "500 g bag": "שקית 500 גרם",
+      "200 g bag": "שקית 200 גרם",
+      "250 g box": "קופסת 250 גרם",
+      "200 g pack": "חבילת 200 גרם",
+      "300 g pack": "חבילת 300 גרם",
+      "500 g pack": "חבילת 500 גרם",
+      "200 g cup": "גביע 200 גרם",
+      "250 g tub": "גביע 250 גרם",
+      "500 g jar": "צנצנת 500 גרם",
+      "750 ml bottle": 'בקבוק 750 מ"ל',
+      "1 L bottle": "בקבוק 1 ליטר",
+      "1 L carton": "קרטון 1 ליטר",
+      dozen: "תבנית (12)",
+      head: "ראש",
+      can: "קופסה",
+      loaf: "כיכר",
+    } as Record<string, string>,
+  },
+};
+
+// The format asked for with ?format=, falling back to the Accept header.
+// Returns null for an unknown ?format= value.
+export function negotiateShoppingListFormat(
+  format: unknown,
+  accepts: (types: string[]) => string | false
+): ShoppingListFormat | null {
+  if (typeof format === "string" && format.trim()) {
+    return FORMAT_ALIASES[format.trim().toLowerCase()] || null;
+  }
+
+  const accepted = accepts(MEDIA_TYPES.map(([type]) => type));
+  return MEDIA_TYPES.find(([type]) => type === accepted)?.[1] || "json";
+}
+
+// ?lang= (en/he/english/hebrew) wins over the Accept-Language header
+export function resolveExportLanguage(
+  lang: unknown,
+  acceptsLanguages: (...languages: string[]) => string | false
+): ExportLanguage {
+  if (typeof lang === "string") {
+    const normalized = lang.trim().toLowerCase();
+    if (normalized === "he" || normalized === "hebrew") return "he";
+    if (normalized === "en" || normalized === "english") return "en";
+  }
+
+  return acceptsLanguages("en", "he") === "he" ? "he" : "en";
+}
+
+export function renderShoppingList(
+  list: ExportableShoppingList,
+  format: Exclude<ShoppingListFormat, "json">,
+  language: ExportLanguage
+): RenderedShoppingList {
+  const renderers = {
+    text: renderText,
+    markdown: renderMarkdown,
+    csv: renderCsv,
+    ical: renderICal,
+  };
+
+  return {
+    ...RENDERED[format],
+    body: renderers[format](list, language),
+  };
+}
+
+function groupByCategory(
+  items: ExportableItem[],
+  language: ExportLanguage
+): { category: string; items: ExportableItem[] }[] {
+  const groups = new Map<string, ExportableItem[]>();
+  for (const item of items) {
+    const category = (item.category || "other").toLowerCase();
+    groups.set(category, [...(groups.get(category) || []), item]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([category, grouped]) => ({
+      category: categoryLabel(category, language),
+      items: grouped,
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category, language));
+}
+
+function categoryLabel(category: string, language: ExportLanguage) {
+  return (
+    LABELS[language].categories[category] ||
+    category.charAt(0).toUpperCase() + category.slice(1)
+  );
+}
+
+function unitLabel(unit: string, language: ExportLanguage) {
+  return LABELS[language].units[unit] || unit;
+}
+
+function formatNumber(value: number) {
+  return String(Math.round(value * 100) / 100);
+}
+
+// "2 × 1 kg bag" for packages, "300 g" otherwise
+function purchaseText(item: ExportableItem, language: ExportLanguage) {
+  if (
+    item.purchase_unit === undefined ||
+    item.purchase_quantity === undefined
+  ) {
+    return neededText(item, language);
+  }
+
+  const unit = unitLabel(item.purchase_unit, language);
+  return item.packages
+    ? `${item.packages} × ${unit}`
+    : `${formatNumber(item.purchase_quantity)} ${unit}`;
+}
+
+function neededText(item: ExportableItem, language: ExportLanguage) {
+  return `${formatNumber(item.quantity)} ${unitLabel(item.unit, language)}`;
+}
+
+function totalLine(list: ExportableShoppingList, language: ExportLanguage) {
+  return list.total_estimated_cost
+    ? `${LABELS[language].estimated_total}: ${formatNumber(
+        list.total_estimated_cost
+      )}`
+    : null;
+}
+
+function renderText(list: ExportableShoppingList, language: ExportLanguage) {
+  const dir = language === "he" ? RLM : "";
+  const lines = [`${dir}${list.name}`];
+
+  for (const group of groupByCategory(list.items, language)) {
+    lines.push("", `${dir}${group.category}:`);
+    for (const item of group.items) {
+      lines.push(
+        `${dir}${item.checked ? "✓" : "•"} ${item.name} - ${purchaseText(
+          item,
+          language
+        )}`
+      );
+    }
+  }
+
+  const total = totalLine(list, language);
+  if (total) lines.push("", `${dir}${total}`);
+
+  return lines.join("\n") + "\n";
+}
+
+function renderMarkdown(
+  list: ExportableShoppingList,
+  language: ExportLanguage
+) {
+  // The mark goes after the list syntax so Markdown still sees a checklist
+  const dir = language === "he" ? RLM : "";
+  const lines = [`# ${dir}${list.name}`];
+
+  for (const group of groupByCategory(list.items, language)) {
+    lines.push("", `## ${dir}${group.category}`, "");
+    for (const item of group.items) {
+      lines.push(
+        `- [${item.checked ? "x" : " "}] ${dir}**${escapeMarkdown(
+          item.name
+        )}** - ${purchaseText(item, language)}`
+      );
+    }
+  }
+
+  const total = totalLine(list, language);
+  if (total) lines.push("", `${dir}_${total}_`);
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_[\]#|])/g, "\\$1");
+}
+
+function renderCsv(list: ExportableShoppingList, language: ExportLanguage) {
+  const labels = LABELS[language];
+  const rows = [labels.columns];
+
+  for (const group of groupByCategory(list.items, language)) {
+    for (const item of group.items) {
+      rows.push([
+        group.category,
+        item.name,
+        purchaseText(item, language),
+        neededText(item, language),
+        item.estimated_cost ? formatNumber(item.estimated_cost) : "",
+        item.checked ? labels.yes : labels.no,
+      ]);
+    }
+  }
+
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  return (
+    "\uFEFF" +
+    rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
+
+function escapeCsv(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One VTODO per item, categorized so reminder apps can group them
+function renderICal(list: ExportableShoppingList, language: ExportLanguage) {
+  const stamp = formatICalDate(new Date());
+  const dir = language === "he" ? RLM : "";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Calo//Shopping List//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME;LANGUAGE=${language}:${escapeICal(dir + list.name)}`,
+  ];
+
+  list.items.forEach((item, index) => {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${list.id}-${index}@shopping-list`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY;LANGUAGE=${language}:${escapeICal(
+        `${dir}${item.name} - ${purchaseText(item, language)}`
+      )}`,
+      `CATEGORIES;LANGUAGE=${language}:${escapeICal(
+        categoryLabel((item.category || "other").toLowerCase(), language)
+      )}`,
+      `STATUS:${item.checked ? "COMPLETED" : "NEEDS-ACTION"}`,
+      "END:VTODO"
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+function formatICalDate(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeICal(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on lines starting
+// with a space. Splits between characters, never inside a UTF-8 sequence.
+function foldICalLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// Answers with the negotiated export, or with the usual JSON envelope when
+// JSON is what the client wants
+export function sendShoppingList(
+  req: Request,
+  res: Response,
+  list: ExportableShoppingList,
+  data: unknown
+) {
+  const format = negotiateShoppingListFormat(req.query.format, (types) =>
+    req.accepts(types)
+  );
+  if (!format) {
+    return res.status(400).json({
+      success: false,
+      error: `Unsupported format. Use one of: ${Object.keys(FORMAT_ALIASES).join(", ")}`,
+    });
+  }
+
+  if (format === "json") {
+    return res.json({ success: true, data });
+  }
+
+  const language = resolveExportLanguage(req.query.lang, (...languages) =>
+    req.acceptsLanguages(...languages)
+  );
+  const rendered = renderShoppingList(list, format, language);
+
+  res.attachment(`shopping-list-${list.id}.${rendered.extension}`);
+  res.type(rendered.contentType);
+  res.setHeader("Content-Language", language);
+  return res.send(rendered.body);
+}
@@ -0,0 +1,82 @@
+// Times of day and calendar days are the user's, not the server's. The zone
+// is the IANA name the app reports, e.g. "Asia/Jerusalem".
+
+// Users whose app hasn't reported a zone yet
+export const DEFAULT_TIME_ZONE = "Asia/Jerusalem";
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function localParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)!.value;
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// Minutes after local midnight
+export function localMinutes(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): number {
+  return localParts(date, timeZone).minutes;
+}
+
+// Local calendar day as YYYY-MM-DD
+export function localDateKey(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  return localParts(date, timeZone).date;
+}
+
+// The instant `minutes` after local midnight on the local day `date`
+// (YYYY-MM-DD)
+export function zonedTime(
+  date: string,
+  minutes: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const wall = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000;
+  // How far the zone's clock is ahead of UTC at an instant
+  const offsetAt = (instant: number) => {
+    const local = localParts(new Date(instant), timeZone);
+    return (
+      Date.parse(`${local.date}T00:00:00Z`) +
+      local.minutes * 60 * 1000 -
+      instant
+    );
+  };
+  // Checked again at the result, in case a DST change falls in between
+  return new Date(wall - offsetAt(wall - offsetAt(wall)));
+}
+
+// When something logged for the local day `date` happened: now for today or
+// no date, otherwise the current time of day on that day
+export function timeOnLocalDay(
+  date?: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const now = new Date();
+  if (!date || date === localDateKey(now, timeZone)) return now;
+  return zonedTime(date, localMinutes(now, timeZone), timeZone);
+}
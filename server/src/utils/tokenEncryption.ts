@@ -0,0 +1,192 @@
+// Envelope encryption for third-party OAuth tokens stored in the database.
+// Every token gets its own random data key; the token is sealed with that key
+// using AES-256-GCM, and the data key is sealed with a long-lived key
+// encryption key. The key ID is stored with the ciphertext so keys can be
+// rotated without a flag day:
+//
+//   v1:<key id>:<key iv>:<sealed data key>:<key tag>:<iv>:<ciphertext>:<tag>
+//
+// Keys come from DEVICE_TOKEN_KEYS as comma-separated "<id>:<base64 key>"
+// pairs of 32-byte keys. DEVICE_TOKEN_ACTIVE_KEY picks the key new tokens are
+// sealed with (the first listed key by default); the others stay available
+// for decryption until `npm run devices:rotate-keys` has re-encrypted
+// everything.
+
+import crypto from "crypto";
+
+const VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const DEV_KEY_ID = "dev";
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionError";
+  }
+}
+
+let keyring: Keyring | null = null;
+
+export function parseKeyring(keys: string, activeKeyId?: string): Keyring {
+  const parsed = new Map<string, Buffer>();
+
+  for (const pair of keys.split(",").map((value) => value.trim())) {
+    if (!pair) continue;
+    const separator = pair.indexOf(":");
+    const id = pair.slice(0, separator);
+    const key = Buffer.from(pair.slice(separator + 1), "base64");
+
+    if (separator < 1 || !KEY_ID_PATTERN.test(id)) {
+      throw new TokenEncryptionError(
+        `Invalid device token key ID "${id}", expected letters, digits, _ or -`
+      );
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new TokenEncryptionError(
+        `Device token key "${id}" must be ${KEY_BYTES} bytes, base64-encoded`
+      );
+    }
+    parsed.set(id, key);
+  }
+
+  const active = activeKeyId || parsed.keys().next().value;
+  if (!active || !parsed.has(active)) {
+    throw new TokenEncryptionError(
+      `Active device token key "${active || ""}" is not configured`
+    );
+  }
+
+  return { activeKeyId: active, keys: parsed };
+}
+
+function resolveKeyring(): Keyring {
+  if (process.env.DEVICE_TOKEN_KEYS) {
+    return parseKeyring(
+      process.env.DEVICE_TOKEN_KEYS,
+      process.env.DEVICE_TOKEN_ACTIVE_KEY
+    );
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new TokenEncryptionError(
+      "DEVICE_TOKEN_KEYS must be set in production"
+    );
+  }
+
+  console.warn(
+    "⚠️ DEVICE_TOKEN_KEYS is not set, using the development device token key"
+  );
+  const devKey = crypto
+    .createHash("sha256")
+    .update("development-device-token-key")
+    .digest();
+  return { activeKeyId: DEV_KEY_ID, keys: new Map([[DEV_KEY_ID, devKey]]) };
+}
+
+export function getKeyring(): Keyring {
+  if (!keyring) keyring = resolveKeyring();
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, ciphertext, cipher.getAuthTag()].map((part) =>
+    part.toString("base64url")
+  );
+}
+
+function unseal(
+  key: Buffer,
+  [iv, ciphertext, tag]: string[],
+  aad: Buffer
+): Buffer {
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(iv, "base64url")
+  );
+  decipher.setAAD(aad);
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]);
+}
+
+export function encryptToken(
+  token: string,
+  ring: Keyring = getKeyring()
+): string {
+  const keyId = ring.activeKeyId;
+  // The header is authenticated, so swapping the key ID breaks decryption
+  const header = `${VERSION}:${keyId}`;
+  const aad = Buffer.from(header);
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+
+  const sealedKey = seal(ring.keys.get(keyId)!, dataKey, aad);
+  const sealedToken = seal(dataKey, Buffer.from(token, "utf8"), aad);
+
+  return [header, ...sealedKey, ...sealedToken].join(":");
+}
+
+// Tokens written before encryption existed are plain base64 and have no key
+export function tokenKeyId(value: string): string | null {
+  const parts = value.split(":");
+  return parts[0] === VERSION && parts.length === 8 ? parts[1] : null;
+}
+
+export function decryptToken(
+  value: string,
+  ring: Keyring = getKeyring()
+): string {
+  const parts = value.split(":");
+
+  if (parts.length === 1) {
+    const legacy = Buffer.from(value, "base64").toString("utf8");
+    if (!legacy || Buffer.from(legacy, "utf8").toString("base64") !== value) {
+      throw new TokenEncryptionError("Token is not valid legacy base64");
+    }
+    return legacy;
+  }
+
+  if (parts[0] !== VERSION || parts.length !== 8) {
+    throw new TokenEncryptionError("Unrecognized token format");
+  }
+
+  const keyId = parts[1];
+  const key = ring.keys.get(keyId);
+  if (!key) {
+    throw new TokenEncryptionError(
+      `Device token key "${keyId}" is not configured`
+    );
+  }
+
+  const aad = Buffer.from(`${VERSION}:${keyId}`);
+  try {
+    const dataKey = unseal(key, parts.slice(2, 5), aad);
+    return unseal(dataKey, parts.slice(5, 8), aad).toString("utf8");
+  } catch {
+    throw new TokenEncryptionError(
+      `Token failed authentication with key "${keyId}"`
+    );
+  }
+}
+
+// Legacy tokens and tokens sealed with an older key
+export function needsReencryption(
+  value: string,
+  ring: Keyring = getKeyring()
+): boolean {
+  return tokenKeyId(value) !== ring.activeKeyId;
+}
@@ -0,0 +1,191 @@
+// Smoothed weight trend and goal projection. Daily weigh-ins swing by a kilo
+// or more with water and food, so progress is judged on an exponential moving
+// average, and the goal date comes from the energy balance (intake vs TDEE)
+// rather than from the noisy scale readings.
+
+import { Sex } from "./micronutrients";
+
+export interface WeighIn {
+  measured_at: Date;
+  weight_kg: number;
+}
+
+export interface TrendPoint {
+  date: string;
+  // Mean of the day's weigh-ins, null on days without one
+  weight_kg: number | null;
+  trend_kg: number;
+}
+
+export interface TdeeProfile {
+  weight_kg: number;
+  height_cm?: number | null;
+  age?: number | null;
+  sex: Sex | null;
+  physical_activity_level?: string | null;
+}
+
+export type ProjectionStatus =
+  | "reached"
+  | "on_track"
+  | "wrong_direction"
+  | "maintaining"
+  | "insufficient_data";
+
+export interface GoalProjection {
+  status: ProjectionStatus;
+  // Expected change in kg per week at the current intake
+  weekly_change_kg: number | null;
+  days_to_goal: number | null;
+  estimated_date: string | null;
+}
+
+// Share of each new day's weight that goes into the trend (Hacker's Diet)
+export const TREND_SMOOTHING = 0.1;
+// Energy in a kilogram of body weight change
+const KCAL_PER_KG = 7700;
+// A daily balance smaller than this is treated as maintenance
+const MAINTENANCE_KCAL = 100;
+// Projections further out than this aren't meaningful
+const MAX_PROJECTION_DAYS = 3 * 365;
+
+const ACTIVITY_MULTIPLIERS: Record<string, number> = {
+  NONE: 1.2,
+  LIGHT: 1.375,
+  MODERATE: 1.55,
+  HIGH: 1.725,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const dateKey = (date: Date) => date.toISOString().split("T")[0];
+
+// One point per calendar day from the first weigh-in to `until`. Days without
+// a weigh-in carry the trend forward; a weigh-in after a gap moves the trend
+// as far as that many days of smoothing would have.
+export function smoothWeightTrend(
+  weighIns: WeighIn[],
+  until: Date = new Date(),
+  smoothing: number = TREND_SMOOTHING
+): TrendPoint[] {
+  if (weighIns.length === 0) return [];
+
+  const byDay = new Map<string, number[]>();
+  for (const weighIn of weighIns) {
+    const key = dateKey(weighIn.measured_at);
+    byDay.set(key, [...(byDay.get(key) || []), weighIn.weight_kg]);
+  }
+
+  const days = [...byDay.keys()].sort();
+  const points: TrendPoint[] = [];
+  let trend: number | null = null;
+  let daysSinceWeighIn = 0;
+
+  const end = new Date(`${dateKey(until)}T00:00:00.000Z`);
+  for (
+    let day = new Date(`${days[0]}T00:00:00.000Z`);
+    day <= end;
+    day = new Date(day.getTime() + DAY_MS)
+  ) {
+    const key = dateKey(day);
+    const weights = byDay.get(key);
+    daysSinceWeighIn++;
+
+    let weight: number | null = null;
+    if (weights) {
+      weight = weights.reduce((sum, value) => sum + value, 0) / weights.length;
+      const factor = 1 - Math.pow(1 - smoothing, daysSinceWeighIn);
+      trend = trend === null ? weight : trend + factor * (weight - trend);
+      daysSinceWeighIn = 0;
+    }
+
+    points.push({
+      date: key,
+      weight_kg: weight === null ? null : round2(weight),
+      trend_kg: round2(trend!),
+    });
+  }
+
+  return points;
+}
+
+// Mifflin-St Jeor BMR times the questionnaire activity multiplier. Without a
+// known sex the male and female equations are averaged.
+export function estimateTdee(profile: TdeeProfile): number {
+  const height = profile.height_cm || 170;
+  const age = profile.age || 30;
+  const base = 10 * profile.weight_kg + 6.25 * height - 5 * age;
+  const offset =
+    profile.sex === "male" ? 5 : profile.sex === "female" ? -161 : -78;
+  const multiplier =
+    ACTIVITY_MULTIPLIERS[profile.physical_activity_level || ""] || 1.375;
+
+  return Math.round((base + offset) * multiplier);
+}
+
+// When the trend weight reaches the target if the user keeps eating
+// `averageIntake` calories a day against a TDEE of `tdee`
+export function projectGoal(
+  trendWeight: number,
+  targetWeight: number,
+  averageIntake: number | null,
+  tdee: number,
+  from: Date = new Date()
+): GoalProjection {
+  const remaining = targetWeight - trendWeight;
+  if (Math.abs(remaining) < 0.5) {
+    return {
+      status: "reached",
+      weekly_change_kg: null,
+      days_to_goal: 0,
+      estimated_date: dateKey(from),
+    };
+  }
+
+  if (averageIntake === null) {
+    return {
+      status: "insufficient_data",
+      weekly_change_kg: null,
+      days_to_goal: null,
+      estimated_date: null,
+    };
+  }
+
+  const balance = averageIntake - tdee;
+  const weeklyChange = round2((balance * 7) / KCAL_PER_KG);
+  if (Math.abs(balance) < MAINTENANCE_KCAL) {
+    return {
+      status: "maintaining",
+      weekly_change_kg: weeklyChange,
+      days_to_goal: null,
+      estimated_date: null,
+    };
+  }
+  if (Math.sign(balance) !== Math.sign(remaining)) {
+    return {
+      status: "wrong_direction",
+      weekly_change_kg: weeklyChange,
+      days_to_goal: null,
+      estimated_date: null,
+    };
+  }
+
+  const days = Math.ceil((remaining * KCAL_PER_KG) / balance);
+  if (days > MAX_PROJECTION_DAYS) {
+    return {
+      status: "maintaining",
+      weekly_change_kg: weeklyChange,
+      days_to_goal: null,
+      estimated_date: null,
+    };
+  }
+
+  return {
+    status: "on_track",
+    weekly_change_kg: weeklyChange,
+    days_to_goal: days,
+    estimated_date: dateKey(new Date(from.getTime() + days * DAY_MS)),
+  };
+}